@@ -0,0 +1,95 @@
+/**
+ * Background import upload (Story 7.11)
+ * Accepts the timesheet as multipart/form-data (`file`, optional `options` JSON) or as the raw
+ * request body (`?fileName=…&options=…`), starts an import job and answers 202 with its id.
+ * Progress and cancellation go through the `importJob` tRPC router. Bodies over
+ * `IMPORT_JOB_MAX_BYTES` are refused (413) as soon as they pass the cap.
+ */
+
+import { importJobService } from '@/server/services/ImportJobService';
+import { columnMappingProfileService } from '@/server/services/ColumnMappingProfileService';
+import { importJobOptionsSchema } from '@/lib/validators';
+import { IMPORT_JOB_MAX_BYTES } from '@/lib/import-jobs';
+
+export const runtime = 'nodejs';
+
+function errorResponse(status: number, message: string) {
+  return Response.json({ error: message }, { status });
+}
+
+const tooLarge = `The file is larger than ${IMPORT_JOB_MAX_BYTES / (1024 * 1024)} MB.`;
+
+class UploadTooLarge extends Error {}
+
+/** Raw request body, read chunk by chunk so an upload without a Content-Length stops at the cap. */
+async function readBody(req: Request): Promise<Buffer> {
+  if (!req.body) return Buffer.alloc(0);
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = req.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > IMPORT_JOB_MAX_BYTES) {
+      await reader.cancel();
+      throw new UploadTooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+export async function POST(req: Request) {
+  if (Number(req.headers.get('content-length') ?? 0) > IMPORT_JOB_MAX_BYTES) {
+    return errorResponse(413, tooLarge);
+  }
+
+  let buffer: Buffer;
+  let fileName: string;
+  let rawOptions: string | null;
+  try {
+    const contentType = req.headers.get('content-type') ?? '';
+    if (contentType.startsWith('multipart/form-data')) {
+      const body = new Uint8Array(await readBody(req));
+      const form = await new Response(body, { headers: { 'content-type': contentType } }).formData();
+      const file = form.get('file');
+      if (!(file instanceof File)) {
+        return errorResponse(400, 'Attach the timesheet as the "file" field.');
+      }
+      buffer = Buffer.from(await file.arrayBuffer());
+      fileName = file.name;
+      const options = form.get('options');
+      rawOptions = typeof options === 'string' ? options : null;
+    } else {
+      const url = new URL(req.url);
+      buffer = await readBody(req);
+      fileName = url.searchParams.get('fileName') ?? 'timesheet.xlsx';
+      rawOptions = url.searchParams.get('options');
+    }
+  } catch (error) {
+    if (error instanceof UploadTooLarge) return errorResponse(413, tooLarge);
+    return errorResponse(400, 'Could not read the uploaded file.');
+  }
+
+  if (buffer.length === 0) {
+    return errorResponse(400, 'The uploaded file is empty.');
+  }
+
+  let json: unknown = {};
+  try {
+    json = rawOptions ? JSON.parse(rawOptions) : {};
+  } catch {
+    return errorResponse(400, 'Import options are not valid JSON.');
+  }
+  const options = importJobOptionsSchema.safeParse(json);
+  if (!options.success) {
+    return errorResponse(400, options.error.issues[0]?.message ?? 'Invalid import options.');
+  }
+  if (options.data.profileId && !(await columnMappingProfileService.getProfile(options.data.profileId))) {
+    return errorResponse(400, 'The selected mapping profile no longer exists.');
+  }
+
+  const job = await importJobService.startJob(buffer, fileName.slice(0, 255), options.data);
+  return Response.json({ jobId: job.id }, { status: 202 });
+}
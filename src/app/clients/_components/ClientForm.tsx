@@ -0,0 +1,181 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+
+export interface ClientFormValues {
+  name: string;
+  contactName: string;
+  contactEmail: string;
+  contactPhone: string;
+  hourlyRate: string; // string for controlled input
+}
+
+export interface ClientFormSubmitValues {
+  name: string;
+  contactName: string | null;
+  contactEmail: string | null;
+  contactPhone: string | null;
+  hourlyRate: number | null;
+}
+
+function isValidEmail(email: string): boolean {
+  // Minimal sanity check; server-side Zod enforces email format too.
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+}
+
+export function ClientForm({
+  title,
+  initialValues,
+  submitLabel,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+  submitError,
+}: {
+  title: string;
+  initialValues: ClientFormValues;
+  submitLabel: string;
+  isSubmitting: boolean;
+  onSubmit: (values: ClientFormSubmitValues) => void | Promise<void>;
+  onCancel: () => void;
+  submitError?: string | null;
+}) {
+  const [values, setValues] = useState<ClientFormValues>(initialValues);
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<keyof ClientFormValues, string>>>({});
+
+  const canSubmit = useMemo(() => !isSubmitting, [isSubmitting]);
+
+  function validate(v: ClientFormValues) {
+    const next: Partial<Record<keyof ClientFormValues, string>> = {};
+
+    if (!v.name.trim()) next.name = 'Name is required';
+
+    const email = v.contactEmail.trim();
+    if (email && !isValidEmail(email)) next.contactEmail = 'Email must be a valid format';
+
+    const rateStr = v.hourlyRate.trim();
+    if (rateStr) {
+      const n = Number(rateStr);
+      if (!Number.isFinite(n)) next.hourlyRate = 'Hourly rate must be a number';
+      else if (n < 0) next.hourlyRate = 'Hourly rate must be 0 or greater';
+    }
+
+    return next;
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    const nextErrors = validate(values);
+    setFieldErrors(nextErrors);
+    if (Object.keys(nextErrors).length > 0) return;
+
+    // Blank optional fields clear the stored value (null), so an edit can remove a contact or rate.
+    const payload: ClientFormSubmitValues = {
+      name: values.name.trim(),
+      contactName: values.contactName.trim() || null,
+      contactEmail: values.contactEmail.trim() || null,
+      contactPhone: values.contactPhone.trim() || null,
+      hourlyRate: values.hourlyRate.trim() ? Number(values.hourlyRate.trim()) : null,
+    };
+
+    await onSubmit(payload);
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="text-lg font-semibold">{title}</div>
+
+      {submitError ? (
+        <div className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm">
+          <div className="font-medium text-destructive">Error</div>
+          <div className="text-muted-foreground mt-1">{submitError}</div>
+        </div>
+      ) : null}
+
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium">
+            Name <span className="text-destructive">*</span>
+          </label>
+          <input
+            className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+            value={values.name}
+            onChange={(e) => setValues((s) => ({ ...s, name: e.target.value }))}
+            placeholder="e.g. Acme Corp"
+          />
+          {fieldErrors.name ? <div className="text-sm text-destructive">{fieldErrors.name}</div> : null}
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Contact name (optional)</label>
+          <input
+            className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+            value={values.contactName}
+            onChange={(e) => setValues((s) => ({ ...s, contactName: e.target.value }))}
+            placeholder="e.g. Maria Lopez"
+          />
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Contact email (optional)</label>
+            <input
+              className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+              value={values.contactEmail}
+              onChange={(e) => setValues((s) => ({ ...s, contactEmail: e.target.value }))}
+              placeholder="e.g. billing@acme.com"
+              inputMode="email"
+            />
+            {fieldErrors.contactEmail ? (
+              <div className="text-sm text-destructive">{fieldErrors.contactEmail}</div>
+            ) : null}
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Contact phone (optional)</label>
+            <input
+              className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+              value={values.contactPhone}
+              onChange={(e) => setValues((s) => ({ ...s, contactPhone: e.target.value }))}
+              inputMode="tel"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Default hourly rate (optional)</label>
+          <input
+            className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+            value={values.hourlyRate}
+            onChange={(e) => setValues((s) => ({ ...s, hourlyRate: e.target.value }))}
+            inputMode="decimal"
+            placeholder="e.g. 120"
+          />
+          <div className="text-xs text-muted-foreground">
+            Prices time on this client&apos;s projects when the developer has no rate of their own.
+          </div>
+          {fieldErrors.hourlyRate ? (
+            <div className="text-sm text-destructive">{fieldErrors.hourlyRate}</div>
+          ) : null}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 pt-2">
+          <button
+            type="button"
+            className="rounded-md border px-4 py-2"
+            onClick={onCancel}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!canSubmit}
+            className="rounded-md bg-primary px-4 py-2 text-primary-foreground disabled:opacity-50"
+          >
+            {isSubmitting ? 'Saving…' : submitLabel}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
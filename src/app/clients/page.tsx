@@ -0,0 +1,258 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { trpc } from '@/lib/trpc-client';
+import type { ClientListRow } from '@/lib/router-types';
+import { Modal } from '@/components/Modal';
+import { formatCost } from '@/lib/cost';
+import { DEFAULT_APP_SETTINGS } from '@/lib/app-settings';
+import { ClientForm, type ClientFormSubmitValues, type ClientFormValues } from './_components/ClientForm';
+
+function toFormValues(c: ClientListRow | null): ClientFormValues {
+  return {
+    name: c?.name ?? '',
+    contactName: c?.contactName ?? '',
+    contactEmail: c?.contactEmail ?? '',
+    contactPhone: c?.contactPhone ?? '',
+    hourlyRate: c?.hourlyRate === null || c?.hourlyRate === undefined ? '' : String(c.hourlyRate),
+  };
+}
+
+export default function ClientsPage() {
+  const utils = trpc.useUtils();
+  const [toast, setToast] = useState<string | null>(null);
+
+  const clientsQuery = trpc.customer.list.useQuery(undefined, { meta: { suppressGlobalError: true } });
+  const settings = trpc.settings.get.useQuery(undefined, { meta: { suppressGlobalError: true } });
+  const currency = settings.data?.currency ?? DEFAULT_APP_SETTINGS.currency;
+
+  const [createOpen, setCreateOpen] = useState(false);
+  const [editClient, setEditClient] = useState<ClientListRow | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<ClientListRow | null>(null);
+
+  // A client's rate re-prices its projects' time, and deleting it unassigns its projects.
+  async function invalidateAll() {
+    await Promise.all([utils.customer.list.invalidate(), utils.project.invalidate(), utils.report.invalidate()]);
+  }
+
+  const createClient = trpc.customer.create.useMutation({
+    onSuccess: async () => {
+      await invalidateAll();
+      setToast('Client created.');
+      setCreateOpen(false);
+    },
+    meta: { suppressGlobalToast: true },
+  });
+
+  const updateClient = trpc.customer.update.useMutation({
+    onSuccess: async () => {
+      await invalidateAll();
+      setToast('Client updated.');
+      setEditClient(null);
+    },
+    meta: { suppressGlobalToast: true },
+  });
+
+  const deleteClient = trpc.customer.delete.useMutation({
+    onSuccess: async () => {
+      await invalidateAll();
+      setToast('Client deleted.');
+      setConfirmDelete(null);
+    },
+    meta: { suppressGlobalToast: true },
+  });
+
+  const clients = useMemo(() => (clientsQuery.data ?? []) as ClientListRow[], [clientsQuery.data]);
+
+  async function onCreate(values: ClientFormSubmitValues) {
+    await createClient.mutateAsync(values);
+  }
+
+  async function onEdit(values: ClientFormSubmitValues) {
+    if (!editClient) return;
+    await updateClient.mutateAsync({ id: editClient.id, data: values });
+  }
+
+  return (
+    <div className="space-y-6">
+      {toast ? (
+        <div className="rounded-md border bg-card p-3 text-sm flex items-start justify-between gap-3">
+          <div>{toast}</div>
+          <button type="button" className="text-muted-foreground hover:underline" onClick={() => setToast(null)}>
+            Dismiss
+          </button>
+        </div>
+      ) : null}
+
+      <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Clients</h1>
+          <p className="text-muted-foreground mt-2">
+            Who the projects are for. A client&apos;s default rate prices time when the developer has no rate.
+          </p>
+        </div>
+        <button
+          type="button"
+          className="inline-flex shrink-0 items-center self-start rounded-md bg-primary px-4 py-2 text-primary-foreground"
+          onClick={() => setCreateOpen(true)}
+        >
+          Add Client
+        </button>
+      </div>
+
+      {clientsQuery.error ? (
+        <div className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm">
+          <div className="font-medium text-destructive">Failed to load clients</div>
+          <div className="text-muted-foreground mt-1">{clientsQuery.error.message}</div>
+          <button
+            type="button"
+            className="mt-2 inline-flex items-center rounded-md border px-3 py-1.5 text-xs"
+            onClick={() => clientsQuery.refetch()}
+          >
+            Retry
+          </button>
+        </div>
+      ) : null}
+
+      <div className="rounded-lg border bg-card overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b">
+              <th className="text-left py-3 px-4">Name</th>
+              <th className="text-left py-3 px-4">Contact</th>
+              <th className="text-left py-3 px-4">Default Rate</th>
+              <th className="text-right py-3 px-4">Projects</th>
+              <th className="text-right py-3 px-4">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {clientsQuery.isLoading ? (
+              <tr>
+                <td className="py-6 px-4 text-muted-foreground" colSpan={5}>
+                  Loading…
+                </td>
+              </tr>
+            ) : clients.length === 0 ? (
+              <tr>
+                <td className="py-6 px-4 text-muted-foreground" colSpan={5}>
+                  No clients yet. Add one, then assign projects to it on the project form.
+                </td>
+              </tr>
+            ) : (
+              clients.map((c) => (
+                <tr key={c.id} className="border-b last:border-b-0">
+                  <td className="py-3 px-4 font-medium">{c.name}</td>
+                  <td className="py-3 px-4">
+                    <div>{c.contactName ?? ''}</div>
+                    {c.contactEmail || c.contactPhone ? (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {[c.contactEmail, c.contactPhone].filter(Boolean).join(' · ')}
+                      </div>
+                    ) : null}
+                  </td>
+                  <td className="py-3 px-4">{c.hourlyRate === null ? '' : `${formatCost(c.hourlyRate, currency)}/h`}</td>
+                  <td className="py-3 px-4 text-right">
+                    {c.projectCount > 0 ? (
+                      <Link href={`/reports?client=${c.id}`} className="hover:underline">
+                        {c.projectCount}
+                      </Link>
+                    ) : (
+                      0
+                    )}
+                  </td>
+                  <td className="py-3 px-4 text-right">
+                    <div className="inline-flex gap-2">
+                      <button
+                        type="button"
+                        className="rounded-md border px-3 py-1 hover:bg-muted"
+                        onClick={() => setEditClient(c)}
+                      >
+                        Edit
+                      </button>
+                      <button
+                        type="button"
+                        className="rounded-md border border-destructive/40 px-3 py-1 text-destructive hover:bg-destructive/10"
+                        onClick={() => setConfirmDelete(c)}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {createOpen ? (
+        <Modal onClose={() => setCreateOpen(false)} closeOnBackdrop showCloseButton>
+          <ClientForm
+            title="New Client"
+            initialValues={toFormValues(null)}
+            submitLabel="Create Client"
+            isSubmitting={createClient.isPending}
+            submitError={createClient.error?.message ?? null}
+            onCancel={() => setCreateOpen(false)}
+            onSubmit={onCreate}
+          />
+        </Modal>
+      ) : null}
+
+      {editClient ? (
+        <Modal onClose={() => setEditClient(null)} closeOnBackdrop showCloseButton>
+          <ClientForm
+            title={`Edit Client: ${editClient.name}`}
+            initialValues={toFormValues(editClient)}
+            submitLabel="Save Changes"
+            isSubmitting={updateClient.isPending}
+            submitError={updateClient.error?.message ?? null}
+            onCancel={() => setEditClient(null)}
+            onSubmit={onEdit}
+          />
+        </Modal>
+      ) : null}
+
+      {confirmDelete ? (
+        <Modal onClose={() => setConfirmDelete(null)} closeOnBackdrop>
+          <div className="space-y-4">
+            <div className="text-lg font-semibold">Delete client?</div>
+            <div className="text-sm text-muted-foreground">
+              <div className="text-foreground font-medium">{confirmDelete.name}</div>
+              <div className="mt-1">
+                {confirmDelete.projectCount > 0
+                  ? `Its ${confirmDelete.projectCount} project${confirmDelete.projectCount === 1 ? '' : 's'} are kept without a client, and time no longer falls back to its default rate.`
+                  : 'It has no projects.'}
+              </div>
+            </div>
+            {deleteClient.error ? (
+              <div className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm">
+                <div className="font-medium text-destructive">Delete failed</div>
+                <div className="text-muted-foreground mt-1">{deleteClient.error.message}</div>
+              </div>
+            ) : null}
+            <div className="flex items-center justify-end gap-3">
+              <button
+                type="button"
+                className="rounded-md border px-4 py-2"
+                onClick={() => setConfirmDelete(null)}
+                disabled={deleteClient.isPending}
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                className="rounded-md bg-destructive px-4 py-2 text-destructive-foreground disabled:opacity-50"
+                onClick={() => deleteClient.mutate({ id: confirmDelete.id })}
+                disabled={deleteClient.isPending}
+              >
+                {deleteClient.isPending ? 'Deleting…' : 'Delete client'}
+              </button>
+            </div>
+          </div>
+        </Modal>
+      ) : null}
+    </div>
+  );
+}
@@ -27,6 +27,7 @@ export function DeveloperForm({
   onSubmit,
   onCancel,
   submitError,
+  hourlyRateHint,
 }: {
   title: string;
   initialValues: DeveloperFormValues;
@@ -35,6 +36,8 @@ export function DeveloperForm({
   onSubmit: (values: DeveloperFormSubmitValues) => void | Promise<void>;
   onCancel: () => void;
   submitError?: string | null;
+  /** Story 9.5 — shown under the rate on the edit modal, where dated rate changes also apply */
+  hourlyRateHint?: string;
 }) {
   const [values, setValues] = useState<DeveloperFormValues>(initialValues);
   const [fieldErrors, setFieldErrors] = useState<
@@ -122,6 +125,7 @@ export function DeveloperForm({
             inputMode="decimal"
             placeholder="e.g. 85"
           />
+          {hourlyRateHint ? <div className="text-xs text-muted-foreground">{hourlyRateHint}</div> : null}
           {fieldErrors.hourlyRate ? (
             <div className="text-sm text-destructive">{fieldErrors.hourlyRate}</div>
           ) : null}
@@ -0,0 +1,181 @@
+'use client';
+
+import { useState } from 'react';
+import { trpc } from '@/lib/trpc-client';
+import { DEFAULT_APP_SETTINGS } from '@/lib/app-settings';
+import { formatCost } from '@/lib/cost';
+import { localDateFromIso, toLocalIsoDate } from '@/lib/date-utils';
+import { RATE_STATUS_LABELS, rateHistoryStatuses, type RateStatus } from '@/lib/rate-history';
+
+const STATUS_CLASSES: Record<RateStatus, string> = {
+  past: 'border-muted-foreground/30 bg-muted text-muted-foreground',
+  current: 'border-emerald-500/30 bg-emerald-500/10',
+  scheduled: 'border-primary/30 bg-primary/10',
+};
+
+function tomorrowIso(): string {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  return toLocalIsoDate(date);
+}
+
+/**
+ * Story 9.5 — a developer's dated rate changes on the edit modal. A change applies to time from
+ * the start of its date, so scheduling a new rate leaves the cost of work already logged alone.
+ */
+export function DeveloperRateHistory({ developerId, baseRate }: { developerId: number; baseRate: number | null }) {
+  const utils = trpc.useUtils();
+  const settings = trpc.settings.get.useQuery(undefined, { meta: { suppressGlobalError: true } });
+  const currency = settings.data?.currency ?? DEFAULT_APP_SETTINGS.currency;
+  const projects = trpc.project.list.useQuery(undefined, { meta: { suppressGlobalError: true } });
+  const rates = trpc.developer.rates.useQuery({ developerId }, { meta: { suppressGlobalError: true } });
+
+  const [effectiveFrom, setEffectiveFrom] = useState(tomorrowIso);
+  const [projectId, setProjectId] = useState('');
+  const [hourlyRate, setHourlyRate] = useState('');
+  const [fieldError, setFieldError] = useState<string | null>(null);
+
+  const refresh = async () => {
+    await Promise.all([utils.developer.rates.invalidate({ developerId }), utils.developer.list.invalidate()]);
+  };
+  const addRate = trpc.developer.addRate.useMutation({
+    onSuccess: async () => {
+      setHourlyRate('');
+      await refresh();
+    },
+    meta: { suppressGlobalToast: true },
+  });
+  const deleteRate = trpc.developer.deleteRate.useMutation({
+    onSuccess: refresh,
+    meta: { suppressGlobalToast: true },
+  });
+
+  async function onAdd(e: React.FormEvent) {
+    e.preventDefault();
+    const rate = Number(hourlyRate.trim());
+    if (!hourlyRate.trim() || !Number.isFinite(rate)) return setFieldError('Hourly rate must be a number');
+    if (rate < 0) return setFieldError('Hourly rate must be 0 or greater');
+    if (!effectiveFrom) return setFieldError('Choose the date the rate starts');
+    setFieldError(null);
+    await addRate.mutateAsync({
+      developerId,
+      projectId: projectId ? Number(projectId) : undefined,
+      hourlyRate: rate,
+      effectiveFrom: localDateFromIso(effectiveFrom),
+    });
+  }
+
+  const rows = rateHistoryStatuses(rates.data ?? [], new Date());
+  const error = fieldError ?? addRate.error?.message ?? deleteRate.error?.message ?? null;
+
+  return (
+    <div className="space-y-3 border-t pt-4">
+      <div>
+        <div className="font-medium">Rate changes</div>
+        <p className="text-sm text-muted-foreground mt-1">
+          Time is costed at the rate in force when it was logged. Before the first change the hourly rate above
+          applies ({baseRate === null ? 'none set' : `${formatCost(baseRate, currency)}/h`}). A project rate
+          overrides the general rate on that project.
+        </p>
+      </div>
+
+      {rates.isLoading ? <div className="text-sm text-muted-foreground">Loading…</div> : null}
+      {rates.error ? (
+        <div className="text-sm text-destructive">Failed to load rates: {rates.error.message}</div>
+      ) : null}
+      {rows.length > 0 ? (
+        <div className="rounded-md border overflow-x-auto max-h-56">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b bg-muted/40">
+                <th className="text-left py-1.5 px-3">From</th>
+                <th className="text-left py-1.5 px-3">Applies to</th>
+                <th className="text-right py-1.5 px-3">Rate</th>
+                <th className="text-left py-1.5 px-3">Status</th>
+                <th className="py-1.5 px-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((rate) => (
+                <tr key={rate.id} className="border-b last:border-b-0">
+                  <td className="py-1.5 px-3 whitespace-nowrap">{toLocalIsoDate(rate.effectiveFrom)}</td>
+                  <td className="py-1.5 px-3">{rate.projectName ?? 'All projects'}</td>
+                  <td className="py-1.5 px-3 text-right whitespace-nowrap">
+                    {formatCost(rate.hourlyRate, currency)}/h
+                  </td>
+                  <td className="py-1.5 px-3">
+                    <span className={`inline-flex rounded-md border px-2 py-0.5 text-xs ${STATUS_CLASSES[rate.status]}`}>
+                      {RATE_STATUS_LABELS[rate.status]}
+                    </span>
+                  </td>
+                  <td className="py-1.5 px-3 text-right">
+                    <button
+                      type="button"
+                      className="text-destructive hover:underline disabled:opacity-50"
+                      onClick={() => deleteRate.mutate({ id: rate.id })}
+                      disabled={deleteRate.isPending}
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : rates.data ? (
+        <div className="text-sm text-muted-foreground">No rate changes yet.</div>
+      ) : null}
+
+      <form onSubmit={onAdd} className="grid grid-cols-1 gap-2 sm:grid-cols-[auto_1fr_auto_auto] sm:items-end">
+        <label className="space-y-1 text-sm">
+          <span className="font-medium">From</span>
+          <input
+            type="date"
+            className="w-full rounded-md border bg-background px-3 py-2"
+            value={effectiveFrom}
+            onChange={(e) => setEffectiveFrom(e.target.value)}
+          />
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="font-medium">Applies to</span>
+          <select
+            className="w-full rounded-md border bg-background px-3 py-2"
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+          >
+            <option value="">All projects</option>
+            {(projects.data ?? []).map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1 text-sm">
+          <span className="font-medium">Rate</span>
+          <input
+            className="w-full rounded-md border bg-background px-3 py-2 sm:w-28"
+            value={hourlyRate}
+            onChange={(e) => setHourlyRate(e.target.value)}
+            inputMode="decimal"
+            placeholder="e.g. 95"
+          />
+        </label>
+        <button
+          type="submit"
+          className="rounded-md border px-3 py-2 text-sm hover:bg-muted disabled:opacity-50"
+          disabled={addRate.isPending}
+        >
+          {addRate.isPending ? 'Adding…' : 'Add rate change'}
+        </button>
+      </form>
+      {effectiveFrom && effectiveFrom <= toLocalIsoDate(new Date()) ? (
+        <p className="text-xs text-muted-foreground">
+          A date that is not in the future re-costs time already logged from that day.
+        </p>
+      ) : null}
+      {error ? <div className="text-sm text-destructive">{error}</div> : null}
+    </div>
+  );
+}
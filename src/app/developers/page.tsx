@@ -10,6 +10,7 @@ import {
   type DeveloperFormSubmitValues,
   type DeveloperFormValues,
 } from './_components/DeveloperForm';
+import { DeveloperRateHistory } from './_components/DeveloperRateHistory';
 
 function formatHourlyRate(rate: number | null): string {
   if (rate === null || rate === undefined) return '';
@@ -194,7 +195,7 @@ export default function DevelopersPage() {
             <tr className="border-b">
               <th className="text-left py-3 px-4">Name</th>
               <th className="text-left py-3 px-4">Email</th>
-              <th className="text-left py-3 px-4">Hourly Rate</th>
+              <th className="text-left py-3 px-4">Current Rate</th>
               <th className="text-left py-3 px-4">Status</th>
               <th className="text-right py-3 px-4">Actions</th>
             </tr>
@@ -211,7 +212,7 @@ export default function DevelopersPage() {
                 <tr key={d.id} className="border-b last:border-b-0">
                   <td className="py-3 px-4 font-medium">{d.name}</td>
                   <td className="py-3 px-4">{d.email ?? ''}</td>
-                  <td className="py-3 px-4">{formatHourlyRate(d.hourlyRate ?? null)}</td>
+                  <td className="py-3 px-4">{formatHourlyRate(d.currentHourlyRate)}</td>
                   <td className="py-3 px-4">
                     <span
                       className={`inline-flex items-center rounded-md border px-2 py-0.5 text-xs ${
@@ -287,20 +288,24 @@ export default function DevelopersPage() {
       ) : null}
 
       {editDev ? (
-        <Modal onClose={() => setEditDev(null)} closeOnBackdrop showCloseButton>
-          <DeveloperForm
-            title={`Edit Developer: ${editDev.name}`}
-            initialValues={{
-              name: editDev.name,
-              email: editDev.email ?? '',
-              hourlyRate: editDev.hourlyRate === null || editDev.hourlyRate === undefined ? '' : String(editDev.hourlyRate),
-            }}
-            submitLabel="Save Changes"
-            isSubmitting={updateDeveloper.isPending}
-            submitError={updateDeveloper.error?.message ?? null}
-            onCancel={() => setEditDev(null)}
-            onSubmit={onEdit}
-          />
+        <Modal onClose={() => setEditDev(null)} closeOnBackdrop showCloseButton maxWidthClassName="max-w-2xl">
+          <div className="max-h-[80vh] space-y-6 overflow-y-auto pr-1">
+            <DeveloperForm
+              title={`Edit Developer: ${editDev.name}`}
+              initialValues={{
+                name: editDev.name,
+                email: editDev.email ?? '',
+                hourlyRate: editDev.hourlyRate === null || editDev.hourlyRate === undefined ? '' : String(editDev.hourlyRate),
+              }}
+              submitLabel="Save Changes"
+              isSubmitting={updateDeveloper.isPending}
+              submitError={updateDeveloper.error?.message ?? null}
+              onCancel={() => setEditDev(null)}
+              onSubmit={onEdit}
+              hourlyRateHint="Applies to time before the first rate change below. Editing it re-costs that time; to change the rate from a date, add a rate change."
+            />
+            <DeveloperRateHistory developerId={editDev.id} baseRate={editDev.hourlyRate} />
+          </div>
         </Modal>
       ) : null}
 
@@ -0,0 +1,235 @@
+'use client';
+
+import Link from 'next/link';
+import { useState } from 'react';
+import { useParams } from 'next/navigation';
+import { trpc } from '@/lib/trpc-client';
+import { Modal } from '@/components/Modal';
+import { formatCost } from '@/lib/cost';
+import { toLocalIsoDate } from '@/lib/date-utils';
+import { INVOICE_GROUP_BY_LABELS, INVOICE_STATUS_LABELS } from '@/lib/invoices';
+
+function downloadFile(filename: string, content: BlobPart, mime: string) {
+  const blob = new Blob([content], { type: mime });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+export default function InvoicePage() {
+  const params = useParams();
+  const rawId = Array.isArray((params as any)?.id) ? (params as any).id[0] : (params as any)?.id;
+  const id = Number(rawId);
+  const enabled = Number.isFinite(id);
+
+  const utils = trpc.useUtils();
+  const { data: invoice, isLoading, error, refetch } = trpc.invoice.get.useQuery(
+    { id },
+    { enabled, meta: { suppressGlobalError: true } }
+  );
+
+  const exportPdf = trpc.invoice.exportPDF.useMutation({ meta: { suppressGlobalToast: true } });
+  const exportXlsx = trpc.invoice.exportXLSX.useMutation({ meta: { suppressGlobalToast: true } });
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const [voidOpen, setVoidOpen] = useState(false);
+  const voidInvoice = trpc.invoice.void.useMutation({
+    onSuccess: async () => {
+      setVoidOpen(false);
+      await Promise.all([
+        utils.invoice.get.invalidate({ id }),
+        utils.invoice.list.invalidate(),
+        utils.timesheet.invalidate(),
+      ]);
+    },
+    meta: { suppressGlobalToast: true },
+  });
+
+  async function onDownload(kind: 'pdf' | 'xlsx') {
+    setExportError(null);
+    try {
+      const res = kind === 'pdf' ? await exportPdf.mutateAsync({ id }) : await exportXlsx.mutateAsync({ id });
+      downloadFile(
+        res.filename,
+        Uint8Array.from(atob(res.content), (c) => c.charCodeAt(0)),
+        kind === 'pdf' ? 'application/pdf' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      );
+    } catch (e) {
+      setExportError(e instanceof Error ? e.message : 'Export failed');
+    }
+  }
+
+  if (!enabled) return <div className="text-destructive">Invalid invoice id.</div>;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">{invoice?.number ?? 'Invoice'}</h1>
+          {invoice ? (
+            <div className="mt-2 text-muted-foreground">
+              <span className="font-medium text-foreground">{invoice.projectName}</span>
+              <span className="mx-1.5">—</span>
+              {toLocalIsoDate(invoice.periodStart)} to {toLocalIsoDate(invoice.periodEnd)}
+              <span className="mx-1.5">·</span>
+              Issued {toLocalIsoDate(invoice.createdAt)}
+            </div>
+          ) : null}
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => onDownload('pdf')}
+            disabled={!invoice || exportPdf.isPending}
+            className="inline-flex items-center rounded-md bg-secondary px-4 py-2 text-secondary-foreground disabled:opacity-50"
+          >
+            {exportPdf.isPending ? 'Exporting…' : 'Download PDF'}
+          </button>
+          <button
+            type="button"
+            onClick={() => onDownload('xlsx')}
+            disabled={!invoice || exportXlsx.isPending}
+            className="inline-flex items-center rounded-md bg-secondary px-4 py-2 text-secondary-foreground disabled:opacity-50"
+          >
+            {exportXlsx.isPending ? 'Exporting…' : 'Download Excel'}
+          </button>
+          {invoice?.status === 'issued' ? (
+            <button
+              type="button"
+              onClick={() => setVoidOpen(true)}
+              className="inline-flex items-center rounded-md border border-destructive/40 px-4 py-2 text-destructive"
+            >
+              Void
+            </button>
+          ) : null}
+          <Link href="/invoices" className="text-sm text-muted-foreground hover:underline">
+            Back to Invoices
+          </Link>
+        </div>
+      </div>
+
+      {isLoading ? <div>Loading…</div> : null}
+      {error ? (
+        <div className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm">
+          <div className="font-medium text-destructive">Failed to load invoice</div>
+          <div className="text-muted-foreground mt-1">{error.message}</div>
+          <button
+            type="button"
+            className="mt-2 inline-flex items-center rounded-md border px-3 py-1.5 text-xs"
+            onClick={() => refetch()}
+          >
+            Retry
+          </button>
+        </div>
+      ) : null}
+      {invoice === null ? <div className="text-muted-foreground">Invoice not found.</div> : null}
+      {exportError ? (
+        <div className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm">
+          <div className="font-medium text-destructive">Export failed</div>
+          <div className="text-muted-foreground mt-1">{exportError}</div>
+        </div>
+      ) : null}
+
+      {invoice ? (
+        <>
+          {invoice.status === 'void' ? (
+            <div className="rounded-md border border-muted-foreground/30 bg-muted p-3 text-sm">
+              <div className="font-medium">{INVOICE_STATUS_LABELS.void}</div>
+              <div className="text-muted-foreground mt-1">
+                Voided {invoice.voidedAt ? toLocalIsoDate(invoice.voidedAt) : ''}. Its time entries are unlocked and
+                can be invoiced again.
+              </div>
+            </div>
+          ) : null}
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="rounded-lg border bg-card p-4">
+              <div className="text-sm text-muted-foreground">Total</div>
+              <div className="text-2xl font-bold mt-1">{formatCost(invoice.totalAmount, invoice.currency)}</div>
+            </div>
+            <div className="rounded-lg border bg-card p-4">
+              <div className="text-sm text-muted-foreground">Hours</div>
+              <div className="text-2xl font-bold mt-1">{invoice.totalHours.toFixed(2)}h</div>
+            </div>
+            <div className="rounded-lg border bg-card p-4">
+              <div className="text-sm text-muted-foreground">Time entries</div>
+              <div className="text-2xl font-bold mt-1">{invoice.entryCount}</div>
+            </div>
+          </div>
+
+          <div className="rounded-lg border bg-card overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left py-3 px-4">{INVOICE_GROUP_BY_LABELS[invoice.groupBy]}</th>
+                  <th className="text-right py-3 px-4">Hours</th>
+                  <th className="text-right py-3 px-4">Rate</th>
+                  <th className="text-right py-3 px-4">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invoice.lines.map((line) => (
+                  <tr key={line.id} className="border-b">
+                    <td className="py-3 px-4">{line.label}</td>
+                    <td className="py-3 px-4 text-right">{line.hours.toFixed(2)}</td>
+                    <td className="py-3 px-4 text-right">{formatCost(line.hourlyRate, invoice.currency)}/h</td>
+                    <td className="py-3 px-4 text-right">{formatCost(line.amount, invoice.currency)}</td>
+                  </tr>
+                ))}
+                <tr className="font-medium">
+                  <td className="py-3 px-4">Total</td>
+                  <td className="py-3 px-4 text-right">{invoice.totalHours.toFixed(2)}</td>
+                  <td className="py-3 px-4" />
+                  <td className="py-3 px-4 text-right">{formatCost(invoice.totalAmount, invoice.currency)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </>
+      ) : null}
+
+      {voidOpen && invoice ? (
+        <Modal onClose={() => setVoidOpen(false)} closeOnBackdrop showCloseButton>
+          <div className="space-y-4">
+            <div className="text-lg font-semibold">Void {invoice.number}</div>
+            <div className="text-sm text-muted-foreground">
+              Void this invoice? Its {invoice.entryCount} time entries are unlocked so they can be edited and invoiced
+              again. The invoice number is not reused.
+            </div>
+
+            {voidInvoice.error ? (
+              <div className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm">
+                <div className="font-medium text-destructive">Void failed</div>
+                <div className="text-muted-foreground mt-1">{voidInvoice.error.message}</div>
+              </div>
+            ) : null}
+
+            <div className="flex items-center justify-end gap-3">
+              <button
+                type="button"
+                className="rounded-md border px-4 py-2"
+                onClick={() => setVoidOpen(false)}
+                disabled={voidInvoice.isPending}
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                className="rounded-md bg-destructive px-4 py-2 text-destructive-foreground disabled:opacity-50"
+                onClick={() => voidInvoice.mutate({ id })}
+                disabled={voidInvoice.isPending}
+              >
+                {voidInvoice.isPending ? 'Voiding…' : 'Void invoice'}
+              </button>
+            </div>
+          </div>
+        </Modal>
+      ) : null}
+    </div>
+  );
+}
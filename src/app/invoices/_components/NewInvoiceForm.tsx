@@ -0,0 +1,180 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { skipToken } from '@tanstack/react-query';
+import { trpc } from '@/lib/trpc-client';
+import { formatCost } from '@/lib/cost';
+import { localDateFromIso, toLocalIsoDate } from '@/lib/date-utils';
+import { INVOICE_GROUP_BY, INVOICE_GROUP_BY_LABELS, type InvoiceGroupBy } from '@/lib/invoices';
+
+/** First and last day of the previous calendar month — the usual invoicing period. */
+function lastMonthIso(): { start: string; end: string } {
+  const now = new Date();
+  return {
+    start: toLocalIsoDate(new Date(now.getFullYear(), now.getMonth() - 1, 1)),
+    end: toLocalIsoDate(new Date(now.getFullYear(), now.getMonth(), 0)),
+  };
+}
+
+/**
+ * Story 9.6 — pick a project and period, check the preview of what would be billed, then issue.
+ * Only billable time (Story 9.7) not already on an issued invoice is included.
+ */
+export function NewInvoiceForm() {
+  const router = useRouter();
+  const utils = trpc.useUtils();
+  const projects = trpc.project.list.useQuery(undefined, { meta: { suppressGlobalError: true } });
+
+  const [projectId, setProjectId] = useState('');
+  const [period, setPeriod] = useState(lastMonthIso);
+  const [groupBy, setGroupBy] = useState<InvoiceGroupBy>('task');
+
+  const input =
+    projectId && period.start && period.end
+      ? {
+          projectId: Number(projectId),
+          startDate: localDateFromIso(period.start),
+          endDate: localDateFromIso(period.end),
+          groupBy,
+        }
+      : null;
+  const preview = trpc.invoice.preview.useQuery(input && period.start <= period.end ? input : skipToken, {
+    meta: { suppressGlobalError: true },
+  });
+  const createInvoice = trpc.invoice.create.useMutation({
+    onSuccess: async (invoice) => {
+      await utils.invoice.list.invalidate();
+      router.push(`/invoices/${invoice.id}`);
+    },
+    meta: { suppressGlobalToast: true },
+  });
+
+  const data = preview.data;
+  const canIssue =
+    input !== null && !!data && data.entryCount > 0 && data.developersWithoutRate.length === 0;
+
+  return (
+    <div className="rounded-lg border bg-card p-4 space-y-4">
+      <div className="font-medium">New invoice</div>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <label className="space-y-2 text-sm">
+          <span className="font-medium">Project</span>
+          <select
+            className="w-full rounded-md border bg-background px-3 py-2"
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+          >
+            <option value="">Select a project…</option>
+            {(projects.data ?? []).map((p) => (
+              <option key={p.id} value={p.id}>
+                {p.name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-2 text-sm">
+          <span className="font-medium">From</span>
+          <input
+            type="date"
+            className="w-full rounded-md border bg-background px-3 py-2"
+            value={period.start}
+            onChange={(e) => setPeriod((prev) => ({ ...prev, start: e.target.value }))}
+          />
+        </label>
+        <label className="space-y-2 text-sm">
+          <span className="font-medium">To</span>
+          <input
+            type="date"
+            className="w-full rounded-md border bg-background px-3 py-2"
+            value={period.end}
+            onChange={(e) => setPeriod((prev) => ({ ...prev, end: e.target.value }))}
+          />
+        </label>
+        <label className="space-y-2 text-sm">
+          <span className="font-medium">Lines by</span>
+          <select
+            className="w-full rounded-md border bg-background px-3 py-2"
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as InvoiceGroupBy)}
+          >
+            {INVOICE_GROUP_BY.map((g) => (
+              <option key={g} value={g}>
+                {INVOICE_GROUP_BY_LABELS[g]}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {period.start && period.end && period.start > period.end ? (
+        <div className="text-sm text-destructive">The period must start on or before its last day.</div>
+      ) : null}
+      {preview.isLoading ? <div className="text-sm text-muted-foreground">Loading preview…</div> : null}
+      {preview.error ? <div className="text-sm text-destructive">{preview.error.message}</div> : null}
+
+      {data && input ? (
+        data.entryCount === 0 ? (
+          <div className="text-sm text-muted-foreground">
+            There is no uninvoiced billable time for this project in the period.
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {data.developersWithoutRate.length > 0 ? (
+              <div className="rounded-md border border-amber-500/40 bg-amber-500/10 p-3 text-sm">
+                <div className="font-medium">Some time has no hourly rate</div>
+                <div className="text-muted-foreground mt-1">
+                  Set a rate for {data.developersWithoutRate.map((d) => d.developerName).join(', ')} on the
+                  Developers page before issuing this invoice.
+                </div>
+              </div>
+            ) : null}
+            <div className="rounded-md border overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-muted/40">
+                    <th className="text-left py-2 px-3">{INVOICE_GROUP_BY_LABELS[groupBy]}</th>
+                    <th className="text-right py-2 px-3">Hours</th>
+                    <th className="text-right py-2 px-3">Rate</th>
+                    <th className="text-right py-2 px-3">Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.lines.map((line) => (
+                    <tr key={`${line.label}-${line.hourlyRate}`} className="border-b">
+                      <td className="py-2 px-3">{line.label}</td>
+                      <td className="py-2 px-3 text-right">{line.hours.toFixed(2)}</td>
+                      <td className="py-2 px-3 text-right">{formatCost(line.hourlyRate, data.currency)}/h</td>
+                      <td className="py-2 px-3 text-right">{formatCost(line.amount, data.currency)}</td>
+                    </tr>
+                  ))}
+                  <tr className="font-medium">
+                    <td className="py-2 px-3">Total ({data.entryCount} entries)</td>
+                    <td className="py-2 px-3 text-right">{data.totalHours.toFixed(2)}</td>
+                    <td className="py-2 px-3" />
+                    <td className="py-2 px-3 text-right">{formatCost(data.totalAmount, data.currency)}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )
+      ) : null}
+
+      {createInvoice.error ? <div className="text-sm text-destructive">{createInvoice.error.message}</div> : null}
+      <div className="flex items-center justify-end gap-3">
+        <span className="text-xs text-muted-foreground">
+          Issuing locks the invoiced time entries until the invoice is voided.
+        </span>
+        <button
+          type="button"
+          className="inline-flex items-center rounded-md bg-primary px-4 py-2 text-primary-foreground disabled:opacity-50"
+          disabled={!canIssue || createInvoice.isPending}
+          onClick={() => input && createInvoice.mutate(input)}
+        >
+          {createInvoice.isPending ? 'Issuing…' : 'Issue invoice'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,92 @@
+'use client';
+
+import Link from 'next/link';
+import { trpc } from '@/lib/trpc-client';
+import type { InvoiceListRow } from '@/lib/router-types';
+import { formatCost } from '@/lib/cost';
+import { toLocalIsoDate } from '@/lib/date-utils';
+import { INVOICE_STATUS_LABELS } from '@/lib/invoices';
+import { NewInvoiceForm } from './_components/NewInvoiceForm';
+
+export default function InvoicesPage() {
+  const { data, isLoading, error, refetch } = trpc.invoice.list.useQuery(undefined, {
+    meta: { suppressGlobalError: true },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Invoices</h1>
+        <p className="text-muted-foreground mt-2">
+          Bill a project&apos;s uninvoiced billable time for a period at each developer&apos;s rate. Invoiced time is
+          locked until its invoice is voided.
+        </p>
+      </div>
+
+      <NewInvoiceForm />
+
+      {isLoading ? <div>Loading…</div> : null}
+      {error && !isLoading && !data ? (
+        <div className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm">
+          <div className="font-medium text-destructive">Failed to load invoices</div>
+          <div className="text-muted-foreground mt-1">{error.message}</div>
+          <button
+            type="button"
+            className="mt-2 inline-flex items-center rounded-md border px-3 py-1.5 text-xs"
+            onClick={() => refetch()}
+          >
+            Retry
+          </button>
+        </div>
+      ) : null}
+
+      {data ? (
+        <div className="rounded-lg border bg-card overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b">
+                <th className="text-left py-3 px-4">Invoice</th>
+                <th className="text-left py-3 px-4">Project</th>
+                <th className="text-left py-3 px-4">Period</th>
+                <th className="text-right py-3 px-4">Hours</th>
+                <th className="text-right py-3 px-4">Total</th>
+                <th className="text-left py-3 px-4">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {data.length === 0 ? (
+                <tr>
+                  <td className="py-6 px-4 text-muted-foreground" colSpan={6}>
+                    No invoices yet.
+                  </td>
+                </tr>
+              ) : (
+                data.map((invoice: InvoiceListRow) => (
+                  <tr key={invoice.id} className="border-b last:border-b-0">
+                    <td className="py-3 px-4">
+                      <Link className="font-medium hover:underline" href={`/invoices/${invoice.id}`}>
+                        {invoice.number}
+                      </Link>
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Issued {toLocalIsoDate(invoice.createdAt)}
+                      </div>
+                    </td>
+                    <td className="py-3 px-4">{invoice.projectName}</td>
+                    <td className="py-3 px-4 whitespace-nowrap">
+                      {toLocalIsoDate(invoice.periodStart)} – {toLocalIsoDate(invoice.periodEnd)}
+                    </td>
+                    <td className="py-3 px-4 text-right">{invoice.totalHours.toFixed(1)}h</td>
+                    <td className="py-3 px-4 text-right">{formatCost(invoice.totalAmount, invoice.currency)}</td>
+                    <td className={`py-3 px-4 ${invoice.status === 'void' ? 'text-muted-foreground line-through' : ''}`}>
+                      {INVOICE_STATUS_LABELS[invoice.status]}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -34,6 +34,9 @@ export default function RootLayout({
                     <Link href="/" className="hover:text-primary">
                       Dashboard
                     </Link>
+                    <Link href="/clients" className="hover:text-primary">
+                      Clients
+                    </Link>
                     <Link href="/projects" className="hover:text-primary">
                       Projects
                     </Link>
@@ -46,6 +49,12 @@ export default function RootLayout({
                     <Link href="/reports" className="hover:text-primary">
                       Reports
                     </Link>
+                    <Link href="/invoices" className="hover:text-primary">
+                      Invoices
+                    </Link>
+                    <Link href="/settings" className="hover:text-primary">
+                      Settings
+                    </Link>
                   </nav>
                 </div>
               </div>
@@ -1,15 +1,22 @@
 'use client';
 
 import Link from 'next/link';
+import { Fragment, useState } from 'react';
 import { trpc } from '@/lib/trpc-client';
 import type { ProjectSummaryRow } from '@/lib/router-types';
 import { formatProjectBudgetHours, totalActiveProjectBudget } from '@/lib/budget-display';
 import { ProjectPastEndCue } from '@/components/ProjectPastEndCue';
+import { ClientFilterBar } from '@/components/ClientFilterBar';
+import { clientFilterInput, groupProjectsByClient } from '@/lib/clients';
 
 export default function HomePage() {
-  const { data: projects, isLoading, error, refetch } = trpc.report.projectsSummary.useQuery(undefined, {
-    meta: { suppressGlobalError: true },
-  });
+  // Story 9.8 — the stats and the table cover the selected client's projects
+  const [clientFilter, setClientFilter] = useState('');
+  const [groupByClient, setGroupByClient] = useState(false);
+  const { data: projects, isLoading, error, refetch } = trpc.report.projectsSummary.useQuery(
+    clientFilterInput(clientFilter),
+    { meta: { suppressGlobalError: true } }
+  );
 
   if (isLoading) {
     return <div>Loading dashboard...</div>;
@@ -46,6 +53,55 @@ export default function HomePage() {
       ? (totalVariance / totalBudgetAgg.value) * 100
       : null;
 
+  function renderRow(project: ProjectSummaryRow) {
+    const hasBudget =
+      project.estimatedHours !== null && project.estimatedHours !== undefined;
+    const varianceClass = hasBudget
+      ? project.variance > 0
+        ? 'text-destructive'
+        : 'text-green-600'
+      : 'text-muted-foreground';
+    return (
+      <tr key={project.projectId} className="border-b hover:bg-muted/50">
+        <td className="py-3 px-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Link
+              href={`/projects/${project.projectId}`}
+              className="font-medium hover:text-primary"
+            >
+              {project.projectName}
+            </Link>
+            <ProjectPastEndCue endDate={project.endDate} status={project.status} />
+          </div>
+        </td>
+        <td className="text-right py-3 px-4">
+          {formatProjectBudgetHours(project.estimatedHours)}
+        </td>
+        <td className="text-right py-3 px-4">
+          {formatProjectBudgetHours(project.taskEstimatesTotal)}
+        </td>
+        <td className="text-right py-3 px-4">
+          {project.actualHours.toFixed(1)}h
+        </td>
+        <td className={`text-right py-3 px-4 ${varianceClass}`}>
+          {hasBudget ? (
+            <>
+              {project.variance > 0 ? '+' : ''}
+              {project.variance.toFixed(1)}h
+              <span className="text-xs ml-1">
+                ({project.variancePercentage.toFixed(0)}%)
+              </span>
+            </>
+          ) : (
+            'TBD'
+          )}
+        </td>
+        <td className="text-right py-3 px-4">{project.taskCount}</td>
+        <td className="text-right py-3 px-4">{project.developerCount}</td>
+      </tr>
+    );
+  }
+
   return (
     <div className="space-y-8">
       <div>
@@ -58,6 +114,13 @@ export default function HomePage() {
         </p>
       </div>
 
+      <ClientFilterBar
+        value={clientFilter}
+        onChange={setClientFilter}
+        groupByClient={groupByClient}
+        onGroupByClientChange={setGroupByClient}
+      />
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <div className="bg-card border rounded-lg p-6">
@@ -122,54 +185,24 @@ export default function HomePage() {
                   </tr>
                 </thead>
                 <tbody>
-                  {activeProjects.map((project: ProjectSummaryRow) => {
-                    const hasBudget =
-                      project.estimatedHours !== null && project.estimatedHours !== undefined;
-                    const varianceClass = hasBudget
-                      ? project.variance > 0
-                        ? 'text-destructive'
-                        : 'text-green-600'
-                      : 'text-muted-foreground';
-                    return (
-                      <tr key={project.projectId} className="border-b hover:bg-muted/50">
-                        <td className="py-3 px-4">
-                          <div className="flex flex-wrap items-center gap-2">
-                            <Link
-                              href={`/projects/${project.projectId}`}
-                              className="font-medium hover:text-primary"
-                            >
-                              {project.projectName}
-                            </Link>
-                            <ProjectPastEndCue endDate={project.endDate} status={project.status} />
-                          </div>
-                        </td>
-                        <td className="text-right py-3 px-4">
-                          {formatProjectBudgetHours(project.estimatedHours)}
-                        </td>
-                        <td className="text-right py-3 px-4">
-                          {formatProjectBudgetHours(project.taskEstimatesTotal)}
-                        </td>
-                        <td className="text-right py-3 px-4">
-                          {project.actualHours.toFixed(1)}h
-                        </td>
-                        <td className={`text-right py-3 px-4 ${varianceClass}`}>
-                          {hasBudget ? (
-                            <>
-                              {project.variance > 0 ? '+' : ''}
-                              {project.variance.toFixed(1)}h
-                              <span className="text-xs ml-1">
-                                ({project.variancePercentage.toFixed(0)}%)
+                  {groupByClient
+                    ? groupProjectsByClient(activeProjects).map((group) => (
+                        <Fragment key={group.clientId ?? 'none'}>
+                          <tr className="border-b bg-muted/40 font-medium">
+                            <td className="py-2 px-4">
+                              {group.clientName}
+                              <span className="text-xs text-muted-foreground ml-2">
+                                {group.projects.length} project{group.projects.length === 1 ? '' : 's'}
                               </span>
-                            </>
-                          ) : (
-                            'TBD'
-                          )}
-                        </td>
-                        <td className="text-right py-3 px-4">{project.taskCount}</td>
-                        <td className="text-right py-3 px-4">{project.developerCount}</td>
-                      </tr>
-                    );
-                  })}
+                            </td>
+                            <td className="py-2 px-4" colSpan={2} />
+                            <td className="text-right py-2 px-4">{group.actualHours.toFixed(1)}h</td>
+                            <td className="py-2 px-4" colSpan={3} />
+                          </tr>
+                          {group.projects.map(renderRow)}
+                        </Fragment>
+                      ))
+                    : activeProjects.map(renderRow)}
                 </tbody>
               </table>
             </div>
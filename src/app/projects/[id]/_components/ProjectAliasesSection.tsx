@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { trpc } from '@/lib/trpc-client';
+
+/**
+ * Story 3.4 — sheet codes that Excel import resolves to this project.
+ */
+export function ProjectAliasesSection({ projectId }: { projectId: number }) {
+  const utils = trpc.useUtils();
+  const aliases = trpc.projectAlias.list.useQuery({ projectId }, { meta: { suppressGlobalError: true } });
+  const setAlias = trpc.projectAlias.set.useMutation({ meta: { suppressGlobalToast: true } });
+  const deleteAlias = trpc.projectAlias.delete.useMutation();
+
+  const [newAlias, setNewAlias] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  async function onAdd() {
+    setError(null);
+    try {
+      await setAlias.mutateAsync({ alias: newAlias, projectId });
+      setNewAlias('');
+      await utils.projectAlias.list.invalidate();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not save alias');
+    }
+  }
+
+  return (
+    <div className="rounded-lg border bg-card p-4 space-y-3">
+      <div>
+        <h2 className="text-lg font-semibold">Import aliases</h2>
+        <p className="text-sm text-muted-foreground mt-1">
+          Project codes on timesheets that map to this project (case-insensitive).
+        </p>
+      </div>
+
+      {aliases.data?.length ? (
+        <ul className="flex flex-wrap gap-2">
+          {aliases.data.map((a) => (
+            <li key={a.id} className="inline-flex items-center gap-2 rounded-md border px-2 py-1 text-sm">
+              <span>{a.alias}</span>
+              <button
+                type="button"
+                className="text-xs text-destructive hover:underline"
+                aria-label={`Remove alias ${a.alias}`}
+                disabled={deleteAlias.isPending}
+                onClick={async () => {
+                  await deleteAlias.mutateAsync({ id: a.id });
+                  await utils.projectAlias.list.invalidate();
+                }}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : aliases.isLoading ? (
+        <div className="text-sm text-muted-foreground">Loading…</div>
+      ) : (
+        <div className="text-sm text-muted-foreground">No aliases yet.</div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <input
+          className="rounded-md border bg-background px-3 py-1.5 text-sm"
+          placeholder="e.g. VAN-01"
+          value={newAlias}
+          onChange={(e) => setNewAlias(e.target.value)}
+        />
+        <button
+          type="button"
+          className="rounded-md border px-3 py-1.5 text-sm disabled:opacity-50"
+          disabled={!newAlias.trim() || setAlias.isPending}
+          onClick={onAdd}
+        >
+          Add alias
+        </button>
+      </div>
+      {error ? <div className="text-sm text-destructive">{error}</div> : null}
+    </div>
+  );
+}
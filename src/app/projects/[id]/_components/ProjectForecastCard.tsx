@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import { trpc } from '@/lib/trpc-client';
+import { toLocalIsoDate } from '@/lib/date-utils';
+import { DEFAULT_FORECAST_METHOD, TRAILING_BURN_DAYS, type ForecastMethod } from '@/lib/forecast';
+import { ForecastMethodSelect } from '@/components/ForecastMethodSelect';
+
+function hours(value: number | null): string {
+  return value === null ? 'TBD' : `${value.toFixed(1)}h`;
+}
+
+function overrunClass(value: number | null): string {
+  if (value === null) return '';
+  return value > 0 ? 'text-destructive' : 'text-green-600';
+}
+
+/**
+ * Story 9.10 — estimate at completion, projected finish and projected overrun against the budget and
+ * end date, with the forecast method selectable.
+ */
+export function ProjectForecastCard({ projectId }: { projectId: number }) {
+  const [method, setMethod] = useState<ForecastMethod>(DEFAULT_FORECAST_METHOD);
+  const summary = trpc.report.projectsSummary.useQuery(
+    { projectId, forecastMethod: method },
+    { meta: { suppressGlobalError: true } }
+  );
+  const forecast = summary.data?.[0]?.forecast;
+
+  return (
+    <div className="rounded-lg border bg-card p-4 space-y-3">
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div>
+          <h2 className="text-lg font-semibold">Forecast</h2>
+          <p className="text-sm text-muted-foreground">
+            {method === 'remaining-estimates'
+              ? 'Remaining work is what open tasks’ estimates have left.'
+              : `Remaining work is the last ${TRAILING_BURN_DAYS} days’ burn rate kept up until the end date.`}{' '}
+            With either method, the finish date is estimate-based: when that burn rate gets through open tasks’
+            remaining estimates. Open tasks are the pending and in-progress ones.
+          </p>
+        </div>
+        <ForecastMethodSelect value={method} onChange={setMethod} />
+      </div>
+
+      {summary.isLoading ? <div className="text-sm text-muted-foreground">Loading…</div> : null}
+      {summary.error ? (
+        <div className="text-sm text-destructive flex flex-wrap items-center gap-2">
+          <span>Failed to load the forecast: {summary.error.message}</span>
+          <button
+            type="button"
+            className="rounded-md border px-2 py-0.5 text-xs text-foreground"
+            onClick={() => summary.refetch()}
+          >
+            Retry
+          </button>
+        </div>
+      ) : null}
+
+      {forecast ? (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            <div>
+              <div className="text-sm text-muted-foreground">Estimate at completion</div>
+              <div className="text-lg font-semibold mt-1">{hours(forecast.estimateAtCompletion)}</div>
+            </div>
+            <div>
+              <div className="text-sm text-muted-foreground">Remaining</div>
+              <div className="text-lg font-semibold mt-1">{hours(forecast.remainingHours)}</div>
+            </div>
+            <div>
+              <div className="text-sm text-muted-foreground">Burn rate</div>
+              <div className="text-lg font-semibold mt-1">{forecast.burnRateHoursPerDay.toFixed(1)}h / day</div>
+            </div>
+            <div>
+              <div className="text-sm text-muted-foreground">Projected finish (from estimates)</div>
+              <div className="text-lg font-semibold mt-1">
+                {forecast.projectedFinishDate ? toLocalIsoDate(forecast.projectedFinishDate) : 'TBD'}
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-muted-foreground">Overrun vs budget</div>
+              <div className={`text-lg font-semibold mt-1 ${overrunClass(forecast.projectedOverrunHours)}`}>
+                {forecast.projectedOverrunHours === null
+                  ? '—'
+                  : `${forecast.projectedOverrunHours > 0 ? '+' : ''}${forecast.projectedOverrunHours.toFixed(1)}h`}
+              </div>
+            </div>
+            <div>
+              <div className="text-sm text-muted-foreground">Overrun vs end date</div>
+              <div className={`text-lg font-semibold mt-1 ${overrunClass(forecast.projectedOverrunDays)}`}>
+                {forecast.projectedOverrunDays === null
+                  ? '—'
+                  : `${forecast.projectedOverrunDays > 0 ? '+' : ''}${forecast.projectedOverrunDays} days`}
+              </div>
+            </div>
+          </div>
+          {forecast.remainingHours === null ? (
+            <p className="text-sm text-muted-foreground">Set an end date to forecast from the trailing-average burn.</p>
+          ) : null}
+          {forecast.projectedFinishDate === null ? (
+            <p className="text-sm text-muted-foreground">
+              No time logged in the last {TRAILING_BURN_DAYS} days, so there is no finish date to project.
+            </p>
+          ) : null}
+          {method === 'remaining-estimates' && forecast.openTasksWithoutEstimate > 0 ? (
+            <p className="text-sm text-muted-foreground">
+              {forecast.openTasksWithoutEstimate} open task{forecast.openTasksWithoutEstimate === 1 ? ' has' : 's have'} no
+              estimate and {forecast.openTasksWithoutEstimate === 1 ? 'is' : 'are'} left out.
+            </p>
+          ) : null}
+        </>
+      ) : null}
+    </div>
+  );
+}
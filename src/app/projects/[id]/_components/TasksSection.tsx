@@ -14,6 +14,14 @@ import { formatTaskEstimatedHours, formatTaskStoryNumber } from '@/lib/budget-di
 import { tasksAwaitingEstimatesSorted } from '@/lib/tasks-awaiting-estimates';
 import type { TaskListSortBy, TaskListSortDir } from '@/lib/task-list-sort';
 import { visibleTasksForMainTable } from '@/lib/task-hide-completed';
+import {
+  buildTaskTree,
+  flattenTaskTree,
+  parentTaskOptions,
+  rollUpTaskHours,
+  taskTreeParentIds,
+} from '@/lib/task-tree';
+import { TaskTreeToggle } from '@/components/TaskTreeToggle';
 
 function EyeIcon({ className }: { className?: string }) {
   return (
@@ -60,6 +68,7 @@ function EyeOffIcon({ className }: { className?: string }) {
 
 export function TasksSection({
   projectId,
+  projectBillable,
   onTaskCountChange,
   tasks,
   tasksLoading,
@@ -72,6 +81,8 @@ export function TasksSection({
   setHideCompleted,
 }: {
   projectId: number;
+  /** Story 9.7 — the project's billable default (task forms name it) */
+  projectBillable: boolean;
   onTaskCountChange?: (count: number) => void;
   tasks: TaskByProjectRow[];
   tasksLoading: boolean;
@@ -87,6 +98,10 @@ export function TasksSection({
 
   const [toast, setToast] = useState<string | null>(null);
   const [createOpen, setCreateOpen] = useState(false);
+  /** Story 9.3 — parent preselected when the create modal opens from "Add subtask" */
+  const [createParentTaskId, setCreateParentTaskId] = useState<number | null>(null);
+  /** Story 9.3 — parents start expanded; ids here are collapsed */
+  const [collapsedTaskIds, setCollapsedTaskIds] = useState<Set<number>>(() => new Set());
   /** Story 6.2 — focus estimated hours when opening edit from awaiting-estimates card */
   const [editFocusEstimate, setEditFocusEstimate] = useState(false);
   const [editTask, setEditTask] = useState<
@@ -98,6 +113,8 @@ export function TasksSection({
         estimatedHours: number | null;
         storyNumber: number | null;
         status: TaskStatus;
+        parentTaskId: number | null;
+        billable: boolean | null;
       }
   >(null);
   const [confirmDelete, setConfirmDelete] = useState<null | { id: number; name: string }>(null);
@@ -128,6 +145,7 @@ export function TasksSection({
   const updateTaskInline = trpc.task.update.useMutation({
     onSuccess: async () => {
       await utils.task.listByProject.invalidate();
+      await utils.report.projectsSummary.invalidate();
       setToast('Task updated.');
       setEditTask(null);
     },
@@ -150,6 +168,32 @@ export function TasksSection({
   const taskCount = useMemo(() => taskRows.length, [taskRows.length]);
   const awaitingRows = useMemo(() => tasksAwaitingEstimatesSorted(taskRows), [taskRows]);
 
+  // Story 9.3: the table nests subtasks under their parents (sort order kept among siblings);
+  // estimate rollups count every task, including completed ones hidden from the table
+  const estimateRollups = useMemo(
+    () => rollUpTaskHours(taskRows.map((t) => ({ ...t, actualHours: 0 }))),
+    [taskRows]
+  );
+  const taskTree = useMemo(() => buildTaskTree(tableRows), [tableRows]);
+  const treeRows = useMemo(() => {
+    const expanded = taskTreeParentIds(taskTree);
+    for (const id of collapsedTaskIds) expanded.delete(id);
+    return flattenTaskTree(taskTree, expanded);
+  }, [taskTree, collapsedTaskIds]);
+
+  function toggleTaskExpanded(taskId: number) {
+    setCollapsedTaskIds((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(taskId)) next.add(taskId);
+      return next;
+    });
+  }
+
+  function openCreate(parentTaskId: number | null) {
+    setCreateParentTaskId(parentTaskId);
+    setCreateOpen(true);
+  }
+
   useEffect(() => {
     onTaskCountChange?.(taskCount);
   }, [onTaskCountChange, taskCount]);
@@ -220,6 +264,8 @@ export function TasksSection({
                         estimatedHours: t.estimatedHours ?? null,
                         storyNumber: t.storyNumber ?? null,
                         status: t.status as TaskStatus,
+                        parentTaskId: t.parentTaskId ?? null,
+                        billable: t.billable ?? null,
                       });
                     }}
                   >
@@ -238,7 +284,7 @@ export function TasksSection({
           <button
             type="button"
             className="inline-flex items-center rounded-md bg-primary px-4 py-2 text-primary-foreground"
-            onClick={() => setCreateOpen(true)}
+            onClick={() => openCreate(null)}
           >
             Add Task
           </button>
@@ -318,14 +364,33 @@ export function TasksSection({
                       </td>
                     </tr>
                   ) : (
-                    tableRows.map((t: TaskByProjectRow) => (
+                    treeRows.map(({ task: t, depth, hasChildren, expanded }) => (
                       <tr key={t.id} className="border-b last:border-b-0">
                         <td className="py-3 px-4 tabular-nums">{formatTaskStoryNumber(t.storyNumber)}</td>
                         <td className="py-3 px-4">
-                          <div className="font-medium">{t.name}</div>
-                          {t.description ? (
-                            <div className="text-muted-foreground text-xs mt-1">{t.description}</div>
-                          ) : null}
+                          <div className="flex items-start">
+                            <TaskTreeToggle
+                              name={t.name}
+                              depth={depth}
+                              hasChildren={hasChildren}
+                              expanded={expanded}
+                              onToggle={() => toggleTaskExpanded(t.id)}
+                            />
+                            <div className="min-w-0">
+                              <div className="font-medium">
+                                {t.name}
+                                {t.billable !== null && t.billable !== projectBillable ? (
+                                  // Story 9.7: only overrides of the project default are called out
+                                  <span className="ml-2 rounded-md border px-1.5 py-0.5 text-xs font-normal text-muted-foreground">
+                                    {t.billable ? 'Billable' : 'Non-billable'}
+                                  </span>
+                                ) : null}
+                              </div>
+                              {t.description ? (
+                                <div className="text-muted-foreground text-xs mt-1">{t.description}</div>
+                              ) : null}
+                            </div>
+                          </div>
                         </td>
                         <td className="py-3 px-4">
                           <select
@@ -347,9 +412,25 @@ export function TasksSection({
                         </td>
                         <td className="py-3 px-4 text-right">
                           {formatTaskEstimatedHours(t.estimatedHours)}
+                          {hasChildren ? (
+                            <div
+                              className="text-xs text-muted-foreground mt-1"
+                              title="This task's own estimate plus all of its subtasks"
+                            >
+                              {formatTaskEstimatedHours(estimateRollups.get(t.id)?.estimatedHours)} with subtasks
+                            </div>
+                          ) : null}
                         </td>
                         <td className="py-3 px-4 text-right">
                           <div className="inline-flex gap-2">
+                            <button
+                              type="button"
+                              className="rounded-md border px-3 py-1 hover:bg-muted"
+                              aria-label={`Add subtask to ${t.name}`}
+                              onClick={() => openCreate(t.id)}
+                            >
+                              Add subtask
+                            </button>
                             <button
                               type="button"
                               className="rounded-md border px-3 py-1 hover:bg-muted"
@@ -362,6 +443,8 @@ export function TasksSection({
                                   estimatedHours: t.estimatedHours ?? null,
                                   storyNumber: t.storyNumber ?? null,
                                   status: t.status as TaskStatus,
+                                  parentTaskId: t.parentTaskId ?? null,
+                                  billable: t.billable ?? null,
                                 });
                               }}
                             >
@@ -398,8 +481,12 @@ export function TasksSection({
                 description: '',
                 estimatedHours: '',
                 status: 'pending',
+                parentTaskId: createParentTaskId === null ? '' : String(createParentTaskId),
+                billable: '',
               } satisfies TaskFormValues
             }
+            parentOptions={taskRows}
+            projectBillable={projectBillable}
             submitLabel="Create Task"
             isSubmitting={createTask.isPending}
             submitError={createTask.error?.message ?? null}
@@ -412,6 +499,8 @@ export function TasksSection({
                 estimatedHours: values.estimatedHours,
                 status: values.status,
                 ...(values.storyNumber != null ? { storyNumber: values.storyNumber } : {}),
+                ...(values.parentTaskId != null ? { parentTaskId: values.parentTaskId } : {}),
+                ...(values.billable != null ? { billable: values.billable } : {}),
               });
             }}
           />
@@ -443,7 +532,11 @@ export function TasksSection({
                   ? ''
                   : String(editTask.estimatedHours),
               status: editTask.status,
+              parentTaskId: editTask.parentTaskId === null ? '' : String(editTask.parentTaskId),
+              billable: editTask.billable === null ? '' : editTask.billable ? 'billable' : 'non-billable',
             }}
+            parentOptions={parentTaskOptions(taskRows, editTask.id)}
+            projectBillable={projectBillable}
             submitLabel="Save Changes"
             isSubmitting={updateTaskFromModal.isPending}
             submitError={updateTaskFromModal.error?.message ?? null}
@@ -4,6 +4,7 @@ import { useParams, useRouter } from 'next/navigation';
 import { useState } from 'react';
 import { trpc } from '@/lib/trpc-client';
 import { ProjectForm, type ProjectFormSubmitValues } from '../../_components/ProjectForm';
+import { DEFAULT_APP_SETTINGS } from '@/lib/app-settings';
 
 function toDateInputValue(d: Date | null | undefined): string {
   if (!d) return '';
@@ -22,6 +23,8 @@ export default function EditProjectPage() {
   const idParam = Array.isArray(params?.id) ? params.id[0] : params?.id;
   const projectId = Number(idParam);
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const settings = trpc.settings.get.useQuery(undefined, { meta: { suppressGlobalError: true } });
+  const clients = trpc.customer.list.useQuery(undefined, { meta: { suppressGlobalError: true } });
 
   const { data: project, isLoading, error, refetch } = trpc.project.get.useQuery(
     { id: projectId },
@@ -33,6 +36,7 @@ export default function EditProjectPage() {
       await utils.project.list.invalidate();
       await utils.project.get.invalidate({ id: projectId });
       await utils.report.projectsSummary.invalidate();
+      await utils.customer.list.invalidate();
       router.push('/projects?updated=1');
     },
     onError: (e) => setSubmitError(e.message),
@@ -72,6 +76,9 @@ export default function EditProjectPage() {
         name: project.name,
         description: project.description ?? '',
         estimatedHours: project.estimatedHours === null || project.estimatedHours === undefined ? '' : String(project.estimatedHours),
+        budgetAmount: project.budgetAmount === null ? '' : String(project.budgetAmount),
+        billable: project.billable,
+        clientId: project.clientId === null ? '' : String(project.clientId),
         startDate: toDateInputValue(project.startDate),
         endDate: toDateInputValue(project.endDate),
         status: project.status,
@@ -80,6 +87,8 @@ export default function EditProjectPage() {
       isSubmitting={updateProject.isPending}
       onSubmit={onSubmit}
       submitError={submitError}
+      currency={settings.data?.currency ?? DEFAULT_APP_SETTINGS.currency}
+      clients={clients.data ?? []}
     />
   );
 }
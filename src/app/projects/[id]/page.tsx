@@ -4,6 +4,8 @@ import { useParams } from 'next/navigation';
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { trpc } from '@/lib/trpc-client';
 import { TasksSection } from './_components/TasksSection';
+import { ProjectAliasesSection } from './_components/ProjectAliasesSection';
+import { ProjectForecastCard } from './_components/ProjectForecastCard';
 import { formatProjectBudgetHours, taskEstimatesTotal, taskEstimatesTotalDisplay } from '@/lib/budget-display';
 import { ProjectPastEndCue } from '@/components/ProjectPastEndCue';
 import type { TaskListSortBy } from '@/lib/task-list-sort';
@@ -184,8 +186,11 @@ export default function ProjectDetailPage() {
         </div>
       </div>
 
+      <ProjectForecastCard projectId={projectId} />
+
       <TasksSection
         projectId={projectId}
+        projectBillable={data.billable}
         onTaskCountChange={setTaskCount}
         tasks={tasks}
         tasksLoading={tasksLoading}
@@ -197,6 +202,8 @@ export default function ProjectDetailPage() {
         hideCompleted={hideCompleted}
         setHideCompleted={setHideCompleted}
       />
+
+      <ProjectAliasesSection projectId={projectId} />
     </div>
   );
 }
@@ -9,6 +9,12 @@ export interface ProjectFormValues {
   name: string;
   description: string;
   estimatedHours: string; // keep as string for input control
+  /** Story 9.4 — budget in the system currency */
+  budgetAmount: string;
+  /** Story 9.7 — default for new time on the project */
+  billable: boolean;
+  /** Story 9.8 — client id, '' = no client */
+  clientId: string;
   startDate: string; // YYYY-MM-DD
   endDate: string; // YYYY-MM-DD
   status: ProjectStatus;
@@ -18,6 +24,9 @@ export interface ProjectFormSubmitValues {
   name: string;
   description?: string;
   estimatedHours?: number;
+  budgetAmount?: number;
+  billable: boolean;
+  clientId: number | null;
   startDate?: Date;
   endDate?: Date;
   status: ProjectStatus;
@@ -35,6 +44,8 @@ export function ProjectForm({
   isSubmitting,
   onSubmit,
   submitError,
+  currency,
+  clients,
 }: {
   title: string;
   initialValues: ProjectFormValues;
@@ -42,6 +53,10 @@ export function ProjectForm({
   isSubmitting: boolean;
   onSubmit: (values: ProjectFormSubmitValues) => void | Promise<void>;
   submitError?: string | null;
+  /** Story 9.4 — system currency, shown on the budget amount field */
+  currency: string;
+  /** Story 9.8 — clients the project can be assigned to */
+  clients: Array<{ id: number; name: string }>;
 }) {
   const [values, setValues] = useState<ProjectFormValues>(initialValues);
   const [fieldErrors, setFieldErrors] = useState<Partial<Record<keyof ProjectFormValues, string>>>(
@@ -61,6 +76,12 @@ export function ProjectForm({
       else if (n < 0) next.estimatedHours = 'Budget must be 0 or greater';
     }
 
+    if (v.budgetAmount.trim()) {
+      const n = Number(v.budgetAmount);
+      if (!Number.isFinite(n)) next.budgetAmount = 'Budget amount must be a number';
+      else if (n < 0) next.budgetAmount = 'Budget amount must be 0 or greater';
+    }
+
     return next;
   }
 
@@ -74,6 +95,9 @@ export function ProjectForm({
       name: values.name.trim(),
       description: values.description.trim() ? values.description.trim() : undefined,
       estimatedHours: values.estimatedHours.trim() ? Number(values.estimatedHours) : undefined,
+      budgetAmount: values.budgetAmount.trim() ? Number(values.budgetAmount) : undefined,
+      billable: values.billable,
+      clientId: values.clientId ? Number(values.clientId) : null,
       startDate: values.startDate ? parseLocalDate(values.startDate) : undefined,
       endDate: values.endDate ? parseLocalDate(values.endDate) : undefined,
       status: values.status,
@@ -125,6 +149,28 @@ export function ProjectForm({
             </select>
           </div>
 
+          <div className="space-y-2 md:col-span-2">
+            <label className="text-sm font-medium">Client (optional)</label>
+            <select
+              className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+              value={values.clientId}
+              onChange={(e) => setValues((s) => ({ ...s, clientId: e.target.value }))}
+            >
+              <option value="">No client</option>
+              {clients.map((c) => (
+                <option key={c.id} value={String(c.id)}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-muted-foreground">
+              The client&apos;s default rate prices time when the developer has no rate.{' '}
+              <Link href="/clients" className="hover:underline">
+                Manage clients
+              </Link>
+            </p>
+          </div>
+
           <div className="space-y-2 md:col-span-2">
             <label className="text-sm font-medium">Description</label>
             <textarea
@@ -153,6 +199,38 @@ export function ProjectForm({
             </p>
           </div>
 
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Budget amount (optional, {currency})</label>
+            <input
+              className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+              value={values.budgetAmount}
+              onChange={(e) => setValues((s) => ({ ...s, budgetAmount: e.target.value }))}
+              inputMode="decimal"
+              placeholder="e.g. 15000"
+            />
+            {fieldErrors.budgetAmount ? (
+              <div className="text-sm text-destructive">{fieldErrors.budgetAmount}</div>
+            ) : null}
+            <p className="text-xs text-muted-foreground">
+              Reports compare it with the cost of logged time at each developer&apos;s hourly rate.
+            </p>
+          </div>
+
+          <div className="space-y-2 md:col-span-2">
+            <label className="inline-flex items-center gap-2 text-sm font-medium">
+              <input
+                type="checkbox"
+                checked={values.billable}
+                onChange={(e) => setValues((s) => ({ ...s, billable: e.target.checked }))}
+              />
+              Time is billable by default
+            </label>
+            <p className="text-xs text-muted-foreground">
+              Applies to new time entries. A task or a single entry can override it; time already logged keeps its
+              setting.
+            </p>
+          </div>
+
           <div className="space-y-2">
             <label className="text-sm font-medium">Start Date (optional)</label>
             <input
@@ -11,6 +11,10 @@ export interface TaskFormValues {
   description: string;
   estimatedHours: string; // string for controlled input
   status: TaskStatus;
+  /** Story 9.3 — task id as a string; empty = top level */
+  parentTaskId: string;
+  /** Story 9.7 — empty = the project's default */
+  billable: '' | 'billable' | 'non-billable';
 }
 
 export interface TaskFormSubmitValues {
@@ -20,6 +24,10 @@ export interface TaskFormSubmitValues {
   /** undefined = omit on create; null on edit clears DB column */
   storyNumber?: number | null;
   status: TaskStatus;
+  /** undefined = omit on create; null on edit moves the task to the top level */
+  parentTaskId?: number | null;
+  /** undefined = omit on create; null on edit follows the project's default again */
+  billable?: boolean | null;
 }
 
 export function TaskForm({
@@ -33,6 +41,8 @@ export function TaskForm({
   initialFocusField,
   /** Story 6.3 — edit modal clears story # when field emptied */
   variant = 'create',
+  parentOptions = [],
+  projectBillable = true,
 }: {
   title: string;
   initialValues: TaskFormValues;
@@ -44,6 +54,10 @@ export function TaskForm({
   /** Story 6.2 — open edit from “Tasks awaiting estimates” with focus on hours field */
   initialFocusField?: 'estimatedHours';
   variant?: 'create' | 'edit';
+  /** Story 9.3 — tasks that can be this task's parent (edit: excludes the task and its subtasks) */
+  parentOptions?: ReadonlyArray<{ id: number; name: string }>;
+  /** Story 9.7 — the project's default, named on the "project default" option */
+  projectBillable?: boolean;
 }) {
   const [values, setValues] = useState<TaskFormValues>(initialValues);
   const [fieldErrors, setFieldErrors] = useState<
@@ -104,6 +118,10 @@ export function TaskForm({
       status: values.status,
     };
     if (storyNumber !== undefined) payload.storyNumber = storyNumber;
+    if (values.parentTaskId) payload.parentTaskId = Number(values.parentTaskId);
+    else if (variant === 'edit') payload.parentTaskId = null;
+    if (values.billable) payload.billable = values.billable === 'billable';
+    else if (variant === 'edit') payload.billable = null;
 
     await onSubmit(payload);
   }
@@ -147,6 +165,22 @@ export function TaskForm({
           ) : null}
         </div>
 
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Parent task (optional)</label>
+          <select
+            className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+            value={values.parentTaskId}
+            onChange={(e) => setValues((s) => ({ ...s, parentTaskId: e.target.value }))}
+          >
+            <option value="">None — top-level task</option>
+            {parentOptions.map((t) => (
+              <option key={t.id} value={String(t.id)}>
+                {t.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div className="space-y-2">
           <label className="text-sm font-medium">Status</label>
           <select
@@ -161,6 +195,20 @@ export function TaskForm({
           </select>
         </div>
 
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Billable</label>
+          <select
+            className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+            value={values.billable}
+            onChange={(e) => setValues((s) => ({ ...s, billable: e.target.value as TaskFormValues['billable'] }))}
+          >
+            <option value="">Project default ({projectBillable ? 'billable' : 'non-billable'})</option>
+            <option value="billable">Billable</option>
+            <option value="non-billable">Non-billable</option>
+          </select>
+          <p className="text-xs text-muted-foreground">Default for new time on this task; an entry can override it.</p>
+        </div>
+
         <div className="space-y-2">
           <label className="text-sm font-medium">Estimated Hours (optional)</label>
           <input
@@ -4,16 +4,20 @@ import { useRouter } from 'next/navigation';
 import { useState } from 'react';
 import { trpc } from '@/lib/trpc-client';
 import { ProjectForm, type ProjectFormSubmitValues } from '../_components/ProjectForm';
+import { DEFAULT_APP_SETTINGS } from '@/lib/app-settings';
 
 export default function NewProjectPage() {
   const router = useRouter();
   const utils = trpc.useUtils();
   const [submitError, setSubmitError] = useState<string | null>(null);
+  const settings = trpc.settings.get.useQuery(undefined, { meta: { suppressGlobalError: true } });
+  const clients = trpc.customer.list.useQuery(undefined, { meta: { suppressGlobalError: true } });
 
   const createProject = trpc.project.create.useMutation({
     onSuccess: async () => {
       await utils.project.list.invalidate();
       await utils.report.projectsSummary.invalidate();
+      await utils.customer.list.invalidate();
       router.push('/projects?created=1');
     },
     onError: (e) => {
@@ -34,6 +38,9 @@ export default function NewProjectPage() {
         name: '',
         description: '',
         estimatedHours: '',
+        budgetAmount: '',
+        billable: true,
+        clientId: '',
         startDate: '',
         endDate: '',
         status: 'active',
@@ -42,6 +49,8 @@ export default function NewProjectPage() {
       isSubmitting={createProject.isPending}
       onSubmit={onSubmit}
       submitError={submitError}
+      currency={settings.data?.currency ?? DEFAULT_APP_SETTINGS.currency}
+      clients={clients.data ?? []}
     />
   );
 }
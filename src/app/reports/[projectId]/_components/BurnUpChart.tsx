@@ -0,0 +1,144 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceDot,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { trpc } from '@/lib/trpc-client';
+import { buildBurnUpSeries } from '@/lib/burn-up';
+
+/**
+ * Story 9.9 — cumulative actual hours over the project's life against its budget, the task
+ * estimates total and an ideal line from the start date to the end date. Always all time: the
+ * report's period filter does not apply.
+ */
+export function BurnUpChart({
+  projectId,
+  startDate,
+  endDate,
+  budgetHours,
+  taskEstimatesTotal,
+}: {
+  projectId: number;
+  startDate: Date | null;
+  endDate: Date | null;
+  budgetHours: number | null;
+  taskEstimatesTotal: number | null;
+}) {
+  const timeline = trpc.report.timeline.useQuery({ projectId }, { meta: { suppressGlobalError: true } });
+
+  const series = useMemo(
+    () =>
+      buildBurnUpSeries({
+        timeline: timeline.data ?? [],
+        startDate,
+        endDate,
+        budgetHours,
+        taskEstimatesTotal,
+      }),
+    [timeline.data, startDate, endDate, budgetHours, taskEstimatesTotal]
+  );
+  const crossedAt = series.points.find((p) => p.date === series.budgetCrossedOn);
+
+  return (
+    <div className="rounded-lg border bg-card p-4 space-y-3">
+      <div>
+        <h2 className="text-lg font-semibold">Burn-up</h2>
+        <p className="text-sm text-muted-foreground">
+          Cumulative actual hours since the project began (all time), against the budget and the task estimates.
+          {startDate && endDate ? '' : ' Set a start and end date on the project to see the ideal line.'}
+        </p>
+      </div>
+
+      {timeline.isLoading ? <div className="text-sm text-muted-foreground">Loading…</div> : null}
+      {timeline.error ? (
+        <div className="text-sm text-destructive flex flex-wrap items-center gap-2">
+          <span>Failed to load the burn-up: {timeline.error.message}</span>
+          <button
+            type="button"
+            className="rounded-md border px-2 py-0.5 text-xs text-foreground"
+            onClick={() => timeline.refetch()}
+          >
+            Retry
+          </button>
+        </div>
+      ) : null}
+
+      {timeline.data && series.points.length === 0 ? (
+        <div className="text-sm text-muted-foreground">No time logged and no start date yet.</div>
+      ) : null}
+
+      {series.points.length > 0 ? (
+        <>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={series.points} margin={{ top: 16, right: 24, bottom: 0, left: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="date" tick={{ fontSize: 12 }} minTickGap={24} />
+                <YAxis tick={{ fontSize: 12 }} unit="h" />
+                <Tooltip formatter={(value) => (typeof value === 'number' ? `${value.toFixed(1)}h` : '—')} />
+                <Legend />
+                <Line
+                  type="monotone"
+                  dataKey="actualHours"
+                  name="Actual (cumulative)"
+                  stroke="hsl(221 83% 53%)"
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls={false}
+                />
+                <Line
+                  type="linear"
+                  dataKey="idealHours"
+                  name="Ideal"
+                  stroke="hsl(215 16% 47%)"
+                  strokeDasharray="6 4"
+                  dot={false}
+                  connectNulls={false}
+                />
+                {budgetHours !== null ? (
+                  <ReferenceLine
+                    y={budgetHours}
+                    stroke="hsl(0 72% 51%)"
+                    label={{ value: 'Budget', position: 'insideTopLeft', fontSize: 12 }}
+                  />
+                ) : null}
+                {taskEstimatesTotal !== null ? (
+                  <ReferenceLine
+                    y={taskEstimatesTotal}
+                    stroke="hsl(38 92% 50%)"
+                    strokeDasharray="2 2"
+                    label={{ value: 'Task estimates', position: 'insideBottomLeft', fontSize: 12 }}
+                  />
+                ) : null}
+                {crossedAt ? <ReferenceLine x={crossedAt.date} stroke="hsl(0 72% 51%)" strokeDasharray="3 3" /> : null}
+                {crossedAt && crossedAt.actualHours !== null ? (
+                  <ReferenceDot
+                    x={crossedAt.date}
+                    y={crossedAt.actualHours}
+                    r={5}
+                    fill="hsl(0 72% 51%)"
+                    stroke="none"
+                    label={{ value: 'Over budget', position: 'top', fontSize: 12 }}
+                  />
+                ) : null}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          {series.budgetCrossedOn ? (
+            <p className="text-sm text-destructive">Went over the budget on {series.budgetCrossedOn}.</p>
+          ) : null}
+        </>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+'use client';
+
+import Link from 'next/link';
+import { formatCost, formatCostVariance } from '@/lib/cost';
+import type { ActualsReportCost } from '@/lib/router-types';
+
+/**
+ * Story 9.4 — the period's labour cost at developer hourly rates against the project's budget
+ * amount. Cost is TBD while some logged time has no rate in force (Story 9.5); the note names who.
+ */
+export function CostSummaryCards({ cost, currency }: { cost: ActualsReportCost; currency: string }) {
+  const varianceClass =
+    cost.variance === null ? 'text-muted-foreground' : cost.variance > 0 ? 'text-destructive' : 'text-green-600';
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <div className="rounded-lg border bg-card p-4">
+          <div className="text-sm text-muted-foreground">Budget (amount)</div>
+          <div className="text-2xl font-bold mt-1">{formatCost(cost.budgetAmount, currency)}</div>
+        </div>
+        <div className="rounded-lg border bg-card p-4">
+          <div className="text-sm text-muted-foreground">Actual cost</div>
+          <div className="text-2xl font-bold mt-1">{formatCost(cost.actualCost, currency)}</div>
+        </div>
+        <div className="rounded-lg border bg-card p-4">
+          <div className="text-sm text-muted-foreground">Cost variance</div>
+          <div className={`text-2xl font-bold mt-1 ${varianceClass}`}>
+            {formatCostVariance(cost.variance, currency)}
+            {cost.variancePercentage !== null ? (
+              <span className="text-sm ml-2">({cost.variancePercentage.toFixed(1)}%)</span>
+            ) : null}
+          </div>
+        </div>
+      </div>
+      {cost.developersWithoutRate.length > 0 ? (
+        <p className="text-sm text-muted-foreground">
+          Cost is <span className="text-foreground font-medium">TBD</span> until these developers have an hourly
+          rate for all their time in the period: {cost.developersWithoutRate.map((d) => d.developerName).join(', ')}.{' '}
+          <Link href="/developers" className="text-primary hover:underline">
+            Set rates on the Developers page
+          </Link>
+          .
+        </p>
+      ) : null}
+    </div>
+  );
+}
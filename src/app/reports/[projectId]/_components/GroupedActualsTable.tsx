@@ -0,0 +1,62 @@
+'use client';
+
+import type { ActualsReportGroup } from '@/lib/router-types';
+import { ACTUALS_GROUP_BY_LABELS, type ActualsGroupBy } from '@/lib/actuals-grouping';
+import { formatCost } from '@/lib/cost';
+
+/**
+ * Story 9.2 — actuals per developer, day or week. These groupings have no estimates, so the
+ * table shows hours (with the billable part, Story 9.7), entry count and each group's share of the
+ * period's actual hours.
+ */
+export function GroupedActualsTable({
+  groupBy,
+  groups,
+  totalActualHours,
+  currency,
+}: {
+  groupBy: Exclude<ActualsGroupBy, 'task'>;
+  groups: ActualsReportGroup[];
+  totalActualHours: number;
+  /** Story 9.4 — for the cost column */
+  currency: string;
+}) {
+  return (
+    <div className="rounded-lg border bg-card overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b">
+            <th className="text-left py-3 px-4">{ACTUALS_GROUP_BY_LABELS[groupBy]}</th>
+            <th className="text-right py-3 px-4">Actual</th>
+            <th className="text-right py-3 px-4">Billable</th>
+            <th className="text-right py-3 px-4">Entries</th>
+            <th className="text-right py-3 px-4">Share</th>
+            <th className="text-right py-3 px-4">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {groups.length === 0 ? (
+            <tr>
+              <td className="py-6 px-4 text-muted-foreground" colSpan={6}>
+                No time entries found for this project in the selected date range.
+              </td>
+            </tr>
+          ) : (
+            groups.map((g) => (
+              <tr key={g.key} className="border-b last:border-b-0">
+                <td className="py-3 px-4">{g.label}</td>
+                <td className="py-3 px-4 text-right">{g.actualHours.toFixed(1)}h</td>
+                <td className="py-3 px-4 text-right">{g.billableHours.toFixed(1)}h</td>
+                <td className="py-3 px-4 text-right">{g.entryCount}</td>
+                <td className="py-3 px-4 text-right text-muted-foreground">
+                  {totalActualHours > 0 ? `${((g.actualHours / totalActualHours) * 100).toFixed(0)}%` : '—'}
+                </td>
+                <td className="py-3 px-4 text-right">{formatCost(g.actualCost, currency)}</td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
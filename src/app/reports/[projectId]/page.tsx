@@ -8,8 +8,16 @@ import type { ProjectSummaryRow } from '@/lib/router-types';
 import { type DatePreset, endOfDay, getPresetRange, startOfDay } from '@/lib/date-utils';
 import { formatProjectBudgetHours, formatTaskEstimatedHours } from '@/lib/budget-display';
 import { ProjectPastEndCue } from '@/components/ProjectPastEndCue';
+import { ACTUALS_GROUP_BY, ACTUALS_GROUP_BY_LABELS, type ActualsGroupBy } from '@/lib/actuals-grouping';
+import { buildTaskTree, flattenTaskTree, taskTreeParentIds } from '@/lib/task-tree';
+import { TaskTreeToggle } from '@/components/TaskTreeToggle';
+import { formatCost } from '@/lib/cost';
+import { DEFAULT_APP_SETTINGS } from '@/lib/app-settings';
+import { GroupedActualsTable } from './_components/GroupedActualsTable';
+import { CostSummaryCards } from './_components/CostSummaryCards';
+import { BurnUpChart } from './_components/BurnUpChart';
 
-function downloadTextFile(filename: string, content: string, mime = 'text/plain') {
+function downloadFile(filename: string, content: BlobPart, mime = 'text/plain') {
   const blob = new Blob([content], { type: mime });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
@@ -37,6 +45,7 @@ export default function ProjectReportPage() {
   const [preset, setPreset] = useState<DatePreset>('All Time');
   const [startDate, setStartDate] = useState<Date | undefined>(undefined);
   const [endDate, setEndDate] = useState<Date | undefined>(undefined);
+  const [groupBy, setGroupBy] = useState<ActualsGroupBy>('task');
 
   const effectiveStartDate = startDate ? startOfDay(startDate) : undefined;
   const effectiveEndDate = endDate ? endOfDay(endDate) : undefined;
@@ -46,20 +55,27 @@ export default function ProjectReportPage() {
       projectId,
       startDate: effectiveStartDate,
       endDate: effectiveEndDate,
-      groupBy: 'task',
+      groupBy,
     },
     { enabled, meta: { suppressGlobalError: true } }
   );
+  const settings = trpc.settings.get.useQuery(undefined, { meta: { suppressGlobalError: true } });
+  const currency = settings.data?.currency ?? DEFAULT_APP_SETTINGS.currency;
 
   const exportCsv = trpc.report.exportCSV.useMutation({
     meta: { suppressGlobalToast: true },
   });
+  const exportXlsx = trpc.report.exportXLSX.useMutation({
+    meta: { suppressGlobalToast: true },
+  });
   const [exportError, setExportError] = useState<string | null>(null);
 
   const [sortKey, setSortKey] = useState<
     'taskName' | 'estimatedHours' | 'actualHours' | 'variance' | 'variancePercentage'
   >('variance');
   const [sortDir, setSortDir] = useState<'asc' | 'desc'>('desc');
+  /** Story 9.3 — parents start expanded; ids here are collapsed */
+  const [collapsedTaskIds, setCollapsedTaskIds] = useState<Set<number>>(() => new Set());
 
   const totals = useMemo(() => {
     if (!data) return null;
@@ -74,6 +90,8 @@ export default function ProjectReportPage() {
     return projectsSummary.data?.find((p) => p.projectId === projectId) ?? null;
   }, [projectsSummary.data, projectId]);
 
+  // Story 9.3: rows are sorted on their rolled-up hours, then nested under their parents
+  // (the sort applies among siblings)
   const sortedTasks = useMemo(() => {
     if (!data) return [];
     const rows = [...data.tasks];
@@ -83,15 +101,34 @@ export default function ProjectReportPage() {
 
     rows.sort((a, b) => {
       if (sortKey === 'taskName') return dir * a.taskName.localeCompare(b.taskName);
-      if (sortKey === 'estimatedHours') return dir * (numberOrNullLast(a.estimatedHours) - numberOrNullLast(b.estimatedHours));
-      if (sortKey === 'actualHours') return dir * (a.actualHours - b.actualHours);
-      if (sortKey === 'variance') return dir * (a.variance - b.variance);
-      return dir * (a.variancePercentage - b.variancePercentage);
+      if (sortKey === 'estimatedHours')
+        return dir * (numberOrNullLast(a.rollup.estimatedHours) - numberOrNullLast(b.rollup.estimatedHours));
+      if (sortKey === 'actualHours') return dir * (a.rollup.actualHours - b.rollup.actualHours);
+      if (sortKey === 'variance') return dir * (a.rollup.variance - b.rollup.variance);
+      return dir * (a.rollup.variancePercentage - b.rollup.variancePercentage);
     });
 
     return rows;
   }, [data, sortKey, sortDir]);
 
+  const taskTree = useMemo(
+    () => buildTaskTree(sortedTasks.map((t) => ({ ...t, id: t.taskId }))),
+    [sortedTasks]
+  );
+  const taskTreeRows = useMemo(() => {
+    const expanded = taskTreeParentIds(taskTree);
+    for (const id of collapsedTaskIds) expanded.delete(id);
+    return flattenTaskTree(taskTree, expanded);
+  }, [taskTree, collapsedTaskIds]);
+
+  function toggleTaskExpanded(taskId: number) {
+    setCollapsedTaskIds((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(taskId)) next.add(taskId);
+      return next;
+    });
+  }
+
   function toggleSort(nextKey: typeof sortKey) {
     if (nextKey === sortKey) {
       setSortDir((d) => (d === 'asc' ? 'desc' : 'asc'));
@@ -116,8 +153,29 @@ export default function ProjectReportPage() {
         projectId,
         startDate: effectiveStartDate,
         endDate: effectiveEndDate,
+        groupBy,
+      });
+      downloadFile(res.filename, res.content, 'text/csv');
+    } catch (e) {
+      setExportError(e instanceof Error ? e.message : 'Export failed');
+    }
+  }
+
+  // Story 9.1: formatted workbook with summary, task, developer and entry sheets
+  async function onExportXlsx() {
+    setExportError(null);
+    if (!enabled) return;
+    try {
+      const res = await exportXlsx.mutateAsync({
+        projectId,
+        startDate: effectiveStartDate,
+        endDate: effectiveEndDate,
       });
-      downloadTextFile(res.filename, res.content, 'text/csv');
+      downloadFile(
+        res.filename,
+        Uint8Array.from(atob(res.content), (c) => c.charCodeAt(0)),
+        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+      );
     } catch (e) {
       setExportError(e instanceof Error ? e.message : 'Export failed');
     }
@@ -144,7 +202,8 @@ export default function ProjectReportPage() {
           </div>
           <p className="text-muted-foreground mt-2">
             Project row uses <span className="text-foreground">budget</span>; task rows use per-task{' '}
-            <span className="text-foreground">estimated</span> hours.
+            <span className="text-foreground">estimated</span> hours. A parent task&apos;s row includes its
+            subtasks.
           </p>
         </div>
         <div className="flex items-center gap-3">
@@ -156,6 +215,14 @@ export default function ProjectReportPage() {
           >
             {exportCsv.isPending ? 'Exporting…' : 'Export CSV'}
           </button>
+          <button
+            type="button"
+            onClick={onExportXlsx}
+            disabled={exportXlsx.isPending}
+            className="inline-flex items-center rounded-md bg-secondary px-4 py-2 text-secondary-foreground disabled:opacity-50"
+          >
+            {exportXlsx.isPending ? 'Exporting…' : 'Export Excel'}
+          </button>
           <Link href="/reports" className="text-sm text-muted-foreground hover:underline">
             Back to Reports
           </Link>
@@ -163,7 +230,7 @@ export default function ProjectReportPage() {
       </div>
 
       <div className="rounded-lg border bg-card p-4 space-y-4">
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
           <div className="space-y-2">
             <label className="text-sm font-medium">Project</label>
             <select
@@ -198,9 +265,24 @@ export default function ProjectReportPage() {
             </select>
           </div>
 
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Group by</label>
+            <select
+              className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+              value={groupBy}
+              onChange={(e) => setGroupBy(e.target.value as ActualsGroupBy)}
+            >
+              {ACTUALS_GROUP_BY.map((g) => (
+                <option key={g} value={g}>
+                  {ACTUALS_GROUP_BY_LABELS[g]}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div className="text-sm text-muted-foreground">
-            Filters apply to both the report and CSV export. CSV column names are documented in the README
-            (project budget vs task estimates).
+            Filters apply to the report and both exports; the CSV follows the grouping. CSV column names are
+            documented in the README (project budget vs task estimates).
           </div>
         </div>
 
@@ -275,6 +357,12 @@ export default function ProjectReportPage() {
             <div className="rounded-lg border bg-card p-4">
               <div className="text-sm text-muted-foreground">Actual</div>
               <div className="text-2xl font-bold mt-1">{data.totalActualHours.toFixed(1)}h</div>
+              {data.totalActualHours > 0 ? (
+                <div className="text-xs text-muted-foreground mt-1">
+                  {data.totalBillableHours.toFixed(1)}h billable · {data.totalNonBillableHours.toFixed(1)}h
+                  non-billable
+                </div>
+              ) : null}
             </div>
             <div className="rounded-lg border bg-card p-4">
               <div className="text-sm text-muted-foreground">Variance</div>
@@ -298,78 +386,121 @@ export default function ProjectReportPage() {
             </div>
           </div>
 
-          <div className="rounded-lg border bg-card overflow-x-auto">
-            <table className="w-full text-sm">
-              <thead>
-                <tr className="border-b">
-                  <th className="text-left py-3 px-4">
-                    <button type="button" className="hover:underline" onClick={() => toggleSort('taskName')}>
-                      Task
-                    </button>
-                  </th>
-                  <th className="text-right py-3 px-4">
-                    <button type="button" className="hover:underline" onClick={() => toggleSort('estimatedHours')}>
-                      Est. (task)
-                    </button>
-                  </th>
-                  <th className="text-right py-3 px-4">
-                    <button type="button" className="hover:underline" onClick={() => toggleSort('actualHours')}>
-                      Actual
-                    </button>
-                  </th>
-                  <th className="text-right py-3 px-4">
-                    <button type="button" className="hover:underline" onClick={() => toggleSort('variance')}>
-                      Variance
-                    </button>
-                  </th>
-                </tr>
-              </thead>
-              <tbody>
-                {data.totalActualHours === 0 ? (
-                  <tr>
-                    <td className="py-6 px-4 text-muted-foreground" colSpan={4}>
-                      No time entries found for this project in the selected date range.
-                    </td>
+          <CostSummaryCards cost={data.cost} currency={currency} />
+
+          {projectRow ? (
+            <BurnUpChart
+              projectId={projectId}
+              startDate={projectRow.startDate}
+              endDate={projectRow.endDate}
+              budgetHours={projectRow.estimatedHours}
+              taskEstimatesTotal={projectRow.taskEstimatesTotal}
+            />
+          ) : null}
+
+          {data.groupBy === 'task' ? (
+            <div className="rounded-lg border bg-card overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="text-left py-3 px-4">
+                      <button type="button" className="hover:underline" onClick={() => toggleSort('taskName')}>
+                        Task
+                      </button>
+                    </th>
+                    <th className="text-right py-3 px-4">
+                      <button type="button" className="hover:underline" onClick={() => toggleSort('estimatedHours')}>
+                        Est. (task)
+                      </button>
+                    </th>
+                    <th className="text-right py-3 px-4">
+                      <button type="button" className="hover:underline" onClick={() => toggleSort('actualHours')}>
+                        Actual
+                      </button>
+                    </th>
+                    <th className="text-right py-3 px-4">
+                      <button type="button" className="hover:underline" onClick={() => toggleSort('variance')}>
+                        Variance
+                      </button>
+                    </th>
+                    <th className="text-right py-3 px-4">Cost</th>
                   </tr>
-                ) : (
-                  sortedTasks.map((t) => {
-                    const taskHasEstimate =
-                      t.estimatedHours !== null && t.estimatedHours !== undefined;
-                    const varianceClass = taskHasEstimate
-                      ? t.variance > 0
-                        ? 'text-destructive'
-                        : 'text-green-600'
-                      : 'text-muted-foreground';
-
-                    return (
-                      <tr key={t.taskId} className="border-b last:border-b-0">
-                        <td className="py-3 px-4">{t.taskName}</td>
-                        <td className="py-3 px-4 text-right">
-                          {formatTaskEstimatedHours(t.estimatedHours)}
-                        </td>
-                        <td className="py-3 px-4 text-right">
-                          {t.actualHours.toFixed(1)}h
-                        </td>
-                        <td className={`py-3 px-4 text-right ${varianceClass}`}>
-                          {taskHasEstimate ? (
-                            <>
-                              {t.variance > 0 ? '+' : ''}
-                              {t.variance.toFixed(1)}h
-                              <span className="text-xs ml-1">
-                                ({t.variancePercentage.toFixed(0)}%)
-                              </span>
-                            </>
-                          ) : (
-                            'TBD'
-                          )}
-                        </td>
-                      </tr>
-                    );
-                  })
-                )}
-              </tbody>
-            </table>
-          </div>
+                </thead>
+                <tbody>
+                  {data.totalActualHours === 0 ? (
+                    <tr>
+                      <td className="py-6 px-4 text-muted-foreground" colSpan={5}>
+                        No time entries found for this project in the selected date range.
+                      </td>
+                    </tr>
+                  ) : (
+                    taskTreeRows.map(({ task: t, depth, hasChildren, expanded }) => {
+                      const rollup = t.rollup;
+                      const taskHasEstimate =
+                        rollup.estimatedHours !== null && rollup.estimatedHours !== undefined;
+                      const varianceClass = taskHasEstimate
+                        ? rollup.variance > 0
+                          ? 'text-destructive'
+                          : 'text-green-600'
+                        : 'text-muted-foreground';
+
+                      return (
+                        <tr key={t.taskId} className="border-b last:border-b-0">
+                          <td className="py-3 px-4">
+                            <div className="flex items-start">
+                              <TaskTreeToggle
+                                name={t.taskName}
+                                depth={depth}
+                                hasChildren={hasChildren}
+                                expanded={expanded}
+                                onToggle={() => toggleTaskExpanded(t.taskId)}
+                              />
+                              <div className="min-w-0">
+                                <div>{t.taskName}</div>
+                                {hasChildren ? (
+                                  <div className="text-xs text-muted-foreground mt-0.5">
+                                    Incl. {rollup.subtaskCount} subtask{rollup.subtaskCount === 1 ? '' : 's'} · own{' '}
+                                    {formatTaskEstimatedHours(t.estimatedHours)} est. / {t.actualHours.toFixed(1)}h actual
+                                  </div>
+                                ) : null}
+                              </div>
+                            </div>
+                          </td>
+                          <td className="py-3 px-4 text-right">
+                            {formatTaskEstimatedHours(rollup.estimatedHours)}
+                          </td>
+                          <td className="py-3 px-4 text-right">
+                            {rollup.actualHours.toFixed(1)}h
+                          </td>
+                          <td className={`py-3 px-4 text-right ${varianceClass}`}>
+                            {taskHasEstimate ? (
+                              <>
+                                {rollup.variance > 0 ? '+' : ''}
+                                {rollup.variance.toFixed(1)}h
+                                <span className="text-xs ml-1">
+                                  ({rollup.variancePercentage.toFixed(0)}%)
+                                </span>
+                              </>
+                            ) : (
+                              'TBD'
+                            )}
+                          </td>
+                          <td className="py-3 px-4 text-right">{formatCost(rollup.actualCost, currency)}</td>
+                        </tr>
+                      );
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <GroupedActualsTable
+              groupBy={data.groupBy}
+              groups={data.groups}
+              totalActualHours={data.totalActualHours}
+              currency={currency}
+            />
+          )}
         </>
       ) : null}
     </div>
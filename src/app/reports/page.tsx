@@ -1,17 +1,33 @@
 'use client';
 
 import Link from 'next/link';
-import { useMemo, useState } from 'react';
+import { Fragment, Suspense, useMemo, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { trpc } from '@/lib/trpc-client';
 import type { ProjectSummaryRow } from '@/lib/router-types';
 import { formatProjectBudgetHours } from '@/lib/budget-display';
 import { ProjectPastEndCue } from '@/components/ProjectPastEndCue';
+import { formatCost, formatCostVariance } from '@/lib/cost';
+import { DEFAULT_APP_SETTINGS } from '@/lib/app-settings';
+import { clientFilterInput, groupProjectsByClient } from '@/lib/clients';
+import { ClientFilterBar } from '@/components/ClientFilterBar';
+import { ForecastMethodSelect } from '@/components/ForecastMethodSelect';
+import { toLocalIsoDate } from '@/lib/date-utils';
+import { DEFAULT_FORECAST_METHOD, type ForecastMethod } from '@/lib/forecast';
 
-export default function ReportsPage() {
-  const { data, isLoading, error, refetch } = trpc.report.projectsSummary.useQuery(undefined, {
-    meta: { suppressGlobalError: true },
-  });
+function ReportsPageContent() {
+  // Story 9.8: `?client=<id>` (linked from the Clients page) preselects the client filter
+  const searchParams = useSearchParams();
+  const [clientFilter, setClientFilter] = useState(searchParams.get('client') ?? '');
+  const [groupByClient, setGroupByClient] = useState(false);
+  const [forecastMethod, setForecastMethod] = useState<ForecastMethod>(DEFAULT_FORECAST_METHOD);
+  const { data, isLoading, error, refetch } = trpc.report.projectsSummary.useQuery(
+    { ...clientFilterInput(clientFilter), forecastMethod },
+    { meta: { suppressGlobalError: true } }
+  );
   const [selectedProjectId, setSelectedProjectId] = useState<string>('');
+  const settings = trpc.settings.get.useQuery(undefined, { meta: { suppressGlobalError: true } });
+  const currency = settings.data?.currency ?? DEFAULT_APP_SETTINGS.currency;
 
   const sortedProjects = useMemo((): ProjectSummaryRow[] => {
     if (!data) return [];
@@ -20,6 +36,100 @@ export default function ReportsPage() {
     );
   }, [data]);
 
+  function renderRow(p: ProjectSummaryRow) {
+    const hasBudget =
+      p.estimatedHours !== null && p.estimatedHours !== undefined;
+    const varianceClass = hasBudget
+      ? p.variance > 0
+        ? 'text-destructive'
+        : 'text-green-600'
+      : 'text-muted-foreground';
+
+    return (
+      <tr key={p.projectId} className="border-b last:border-b-0">
+        <td className="py-3 px-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <Link
+              className="font-medium hover:underline"
+              href={`/reports/${p.projectId}`}
+            >
+              {p.projectName}
+            </Link>
+            <ProjectPastEndCue endDate={p.endDate} status={p.status} />
+          </div>
+          <div className="text-xs text-muted-foreground mt-1">
+            {!groupByClient && p.clientName ? `${p.clientName} · ` : ''}
+            {p.status}
+          </div>
+        </td>
+        <td className="py-3 px-4 text-right">
+          {formatProjectBudgetHours(p.estimatedHours)}
+        </td>
+        <td className="py-3 px-4 text-right">
+          {formatProjectBudgetHours(p.taskEstimatesTotal)}
+        </td>
+        <td className="py-3 px-4 text-right">
+          {p.actualHours.toFixed(1)}h
+          {p.nonBillableHours > 0 ? (
+            <div className="text-xs text-muted-foreground mt-1">
+              {p.nonBillableHours.toFixed(1)}h non-billable
+            </div>
+          ) : null}
+        </td>
+        <td className={`py-3 px-4 text-right ${varianceClass}`}>
+          {hasBudget ? (
+            <>
+              {p.variance > 0 ? '+' : ''}
+              {p.variance.toFixed(1)}h
+              <span className="text-xs ml-1">
+                ({p.variancePercentage.toFixed(0)}%)
+              </span>
+            </>
+          ) : (
+            'TBD'
+          )}
+        </td>
+        <td className="py-3 px-4 text-right">
+          {p.forecast.estimateAtCompletion === null ? 'TBD' : `${p.forecast.estimateAtCompletion.toFixed(1)}h`}
+          {p.forecast.projectedFinishDate ? (
+            <div className="text-xs text-muted-foreground mt-1">
+              estimates done by {toLocalIsoDate(p.forecast.projectedFinishDate)}
+            </div>
+          ) : null}
+          {p.forecast.projectedOverrunHours !== null && p.forecast.projectedOverrunHours > 0 ? (
+            <div className="text-xs text-destructive mt-1">
+              +{p.forecast.projectedOverrunHours.toFixed(1)}h over budget
+            </div>
+          ) : null}
+          {p.forecast.projectedOverrunDays !== null && p.forecast.projectedOverrunDays > 0 ? (
+            <div className="text-xs text-destructive mt-1">
+              {p.forecast.projectedOverrunDays} day{p.forecast.projectedOverrunDays === 1 ? '' : 's'} late
+            </div>
+          ) : null}
+        </td>
+        <td className="py-3 px-4 text-right">
+          {formatCost(p.actualCost, currency)}
+          {p.budgetAmount !== null ? (
+            <div className="text-xs text-muted-foreground mt-1">
+              of {formatCost(p.budgetAmount, currency)}
+            </div>
+          ) : null}
+        </td>
+        <td
+          className={`py-3 px-4 text-right ${
+            p.costVariance === null
+              ? 'text-muted-foreground'
+              : p.costVariance > 0
+                ? 'text-destructive'
+                : 'text-green-600'
+          }`}
+        >
+          {formatCostVariance(p.costVariance, currency)}
+        </td>
+      </tr>
+    );
+  }
+
   return (
     <div className="space-y-6">
       <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
@@ -52,6 +162,15 @@ export default function ReportsPage() {
         </div>
       ) : null}
 
+      <ClientFilterBar
+        value={clientFilter}
+        onChange={setClientFilter}
+        groupByClient={groupByClient}
+        onGroupByClientChange={setGroupByClient}
+      />
+
+      <ForecastMethodSelect value={forecastMethod} onChange={setForecastMethod} />
+
       {sortedProjects.length ? (
         <div className="rounded-lg border bg-card p-4 space-y-2">
           <label className="text-sm font-medium">Project</label>
@@ -89,64 +208,41 @@ export default function ReportsPage() {
                 <th className="text-right py-3 px-4">Task est. total</th>
                 <th className="text-right py-3 px-4">Actual</th>
                 <th className="text-right py-3 px-4">Variance</th>
+                <th className="text-right py-3 px-4">Forecast (EAC)</th>
+                <th className="text-right py-3 px-4">Cost</th>
+                <th className="text-right py-3 px-4">Cost variance</th>
               </tr>
             </thead>
             <tbody>
               {data.length === 0 ? (
                 <tr>
-                  <td className="py-6 px-4 text-muted-foreground" colSpan={5}>
-                    No data yet. Create a project and import a timesheet.
+                  <td className="py-6 px-4 text-muted-foreground" colSpan={8}>
+                    {clientFilter
+                      ? 'No projects for this client.'
+                      : 'No data yet. Create a project and import a timesheet.'}
                   </td>
                 </tr>
-              ) : (
-                data.map((p: ProjectSummaryRow) => {
-                  const hasBudget =
-                    p.estimatedHours !== null && p.estimatedHours !== undefined;
-                  const varianceClass = hasBudget
-                    ? p.variance > 0
-                      ? 'text-destructive'
-                      : 'text-green-600'
-                    : 'text-muted-foreground';
-
-                  return (
-                    <tr key={p.projectId} className="border-b last:border-b-0">
-                      <td className="py-3 px-4">
-                        <div className="flex flex-wrap items-center gap-2">
-                          <Link
-                            className="font-medium hover:underline"
-                            href={`/reports/${p.projectId}`}
-                          >
-                            {p.projectName}
-                          </Link>
-                          <ProjectPastEndCue endDate={p.endDate} status={p.status} />
-                        </div>
-                        <div className="text-xs text-muted-foreground mt-1">{p.status}</div>
-                      </td>
-                      <td className="py-3 px-4 text-right">
-                        {formatProjectBudgetHours(p.estimatedHours)}
-                      </td>
-                      <td className="py-3 px-4 text-right">
-                        {formatProjectBudgetHours(p.taskEstimatesTotal)}
-                      </td>
-                      <td className="py-3 px-4 text-right">
-                        {p.actualHours.toFixed(1)}h
-                      </td>
-                      <td className={`py-3 px-4 text-right ${varianceClass}`}>
-                        {hasBudget ? (
-                          <>
-                            {p.variance > 0 ? '+' : ''}
-                            {p.variance.toFixed(1)}h
-                            <span className="text-xs ml-1">
-                              ({p.variancePercentage.toFixed(0)}%)
-                            </span>
-                          </>
-                        ) : (
-                          'TBD'
-                        )}
+              ) : groupByClient ? (
+                groupProjectsByClient(data as ProjectSummaryRow[]).map((group) => (
+                  <Fragment key={group.clientId ?? 'none'}>
+                    <tr className="border-b bg-muted/40 font-medium">
+                      <td className="py-2 px-4">
+                        {group.clientName}
+                        <span className="text-xs text-muted-foreground ml-2">
+                          {group.projects.length} project{group.projects.length === 1 ? '' : 's'}
+                        </span>
                       </td>
+                      <td className="py-2 px-4" colSpan={2} />
+                      <td className="py-2 px-4 text-right">{group.actualHours.toFixed(1)}h</td>
+                      <td className="py-2 px-4" colSpan={2} />
+                      <td className="py-2 px-4 text-right">{formatCost(group.actualCost, currency)}</td>
+                      <td className="py-2 px-4" />
                     </tr>
-                  );
-                })
+                    {group.projects.map(renderRow)}
+                  </Fragment>
+                ))
+              ) : (
+                (data as ProjectSummaryRow[]).map(renderRow)
               )}
             </tbody>
           </table>
@@ -156,3 +252,10 @@ export default function ReportsPage() {
   );
 }
 
+export default function ReportsPage() {
+  return (
+    <Suspense fallback={<div>Loading…</div>}>
+      <ReportsPageContent />
+    </Suspense>
+  );
+}
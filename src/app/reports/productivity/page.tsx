@@ -5,6 +5,9 @@ import { useMemo, useState } from 'react';
 import { trpc } from '@/lib/trpc-client';
 import type { DeveloperProductivityRow } from '@/lib/router-types';
 import { type DatePreset, endOfDay, getPresetRange, startOfDay } from '@/lib/date-utils';
+import { formatCost } from '@/lib/cost';
+import { DEFAULT_APP_SETTINGS } from '@/lib/app-settings';
+import { billablePercentage } from '@/lib/billable';
 
 const AVG_DAY_TOOLTIP =
   'Average hours per calendar day on which this developer logged at least one entry in the selected range.';
@@ -15,7 +18,8 @@ type SortKey =
   | 'projectCount'
   | 'taskCount'
   | 'averageHoursPerDay'
-  | 'entriesCount';
+  | 'entriesCount'
+  | 'totalCost';
 
 function formatLocalDateInputValue(d: Date): string {
   const yyyy = String(d.getFullYear());
@@ -39,6 +43,8 @@ export default function DeveloperProductivityReportPage() {
     },
     { meta: { suppressGlobalError: true } }
   );
+  const settings = trpc.settings.get.useQuery(undefined, { meta: { suppressGlobalError: true } });
+  const currency = settings.data?.currency ?? DEFAULT_APP_SETTINGS.currency;
 
   const [sortKey, setSortKey] = useState<SortKey>('developerName');
   const [sortDir, setSortDir] = useState<'asc' | 'desc'>('asc');
@@ -67,6 +73,13 @@ export default function DeveloperProductivityReportPage() {
       if (sortKey === 'taskCount') return dir * (a.taskCount - b.taskCount);
       if (sortKey === 'averageHoursPerDay')
         return dir * (a.averageHoursPerDay - b.averageHoursPerDay);
+      // Story 9.4: developers without a rate (TBD) sort last
+      if (sortKey === 'totalCost') {
+        if (a.totalCost === null || b.totalCost === null) {
+          return Number(a.totalCost === null) - Number(b.totalCost === null);
+        }
+        return dir * (a.totalCost - b.totalCost);
+      }
       return dir * (a.entriesCount - b.entriesCount);
     });
     return rows;
@@ -208,6 +221,7 @@ export default function DeveloperProductivityReportPage() {
                     {sortHeader('Avg Hours/Active Day', 'averageHoursPerDay')}
                   </th>
                   <th className="text-right py-3 px-4">{sortHeader('Entries', 'entriesCount')}</th>
+                  <th className="text-right py-3 px-4">{sortHeader('Cost', 'totalCost')}</th>
                 </tr>
               </thead>
               <tbody>
@@ -216,6 +230,11 @@ export default function DeveloperProductivityReportPage() {
                     <td className="py-3 px-4 font-medium">{row.developerName}</td>
                     <td className="py-3 px-4 text-right whitespace-nowrap">
                       {row.totalHours.toFixed(1)}h
+                      {row.totalHours > 0 ? (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          {billablePercentage(row.billableHours, row.totalHours).toFixed(0)}% billable
+                        </div>
+                      ) : null}
                     </td>
                     <td className="py-3 px-4 text-right">{row.projectCount}</td>
                     <td className="py-3 px-4 text-right">{row.taskCount}</td>
@@ -223,6 +242,16 @@ export default function DeveloperProductivityReportPage() {
                       {row.averageHoursPerDay.toFixed(1)}h
                     </td>
                     <td className="py-3 px-4 text-right">{row.entriesCount}</td>
+                    <td className="py-3 px-4 text-right whitespace-nowrap">
+                      {formatCost(row.totalCost, currency)}
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {row.averageHourlyRate !== null
+                          ? `avg ${formatCost(row.averageHourlyRate, currency)}/h`
+                          : row.totalCost === null
+                            ? 'No rate for some time'
+                            : '—'}
+                      </div>
+                    </td>
                   </tr>
                 ))}
               </tbody>
@@ -0,0 +1,183 @@
+'use client';
+
+import { useState } from 'react';
+import { trpc } from '@/lib/trpc-client';
+import {
+  DURATION_POLICIES,
+  DURATION_POLICY_LABELS,
+  ROUNDING_POLICIES,
+  ROUNDING_POLICY_LABELS,
+  type DurationPolicy,
+  type RoundingPolicy,
+} from '@/lib/duration-rounding';
+import { WEEKDAYS, WEEKDAY_LABELS, type Weekday } from '@/lib/date-utils';
+import { CURRENCIES, CURRENCY_LABELS, type Currency } from '@/lib/cost';
+
+/**
+ * System-wide defaults (stored in `app_settings`).
+ */
+export default function SettingsPage() {
+  const utils = trpc.useUtils();
+  const { data, isLoading, error, refetch } = trpc.settings.get.useQuery(undefined, {
+    meta: { suppressGlobalError: true },
+  });
+  const updateSettings = trpc.settings.update.useMutation({
+    meta: { suppressGlobalToast: true },
+  });
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  async function save(patch: Parameters<typeof updateSettings.mutateAsync>[0]) {
+    setSaveError(null);
+    try {
+      await updateSettings.mutateAsync(patch);
+      await utils.settings.get.invalidate();
+    } catch (e) {
+      setSaveError(e instanceof Error ? e.message : 'Save failed');
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Settings</h1>
+        <p className="text-muted-foreground mt-2">Defaults that apply to everyone using this Vandura instance.</p>
+      </div>
+
+      {isLoading ? <div>Loading…</div> : null}
+      {error ? (
+        <div className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm">
+          <div className="font-medium text-destructive">Failed to load settings</div>
+          <div className="text-muted-foreground mt-1">{error.message}</div>
+          <button
+            type="button"
+            className="mt-2 inline-flex items-center rounded-md border px-3 py-1.5 text-xs"
+            onClick={() => refetch()}
+          >
+            Retry
+          </button>
+        </div>
+      ) : null}
+
+      {data ? (
+        <div className="rounded-lg border bg-card p-6 space-y-4">
+          <h2 className="text-lg font-semibold">Excel import</h2>
+          <label className="flex items-start gap-3 text-sm">
+            <input
+              type="checkbox"
+              className="mt-0.5"
+              checked={data.importStrictMode}
+              disabled={updateSettings.isPending}
+              onChange={(e) => save({ importStrictMode: e.target.checked })}
+            />
+            <span>
+              <span className="font-medium">Strict import by default</span>
+              <span className="block text-muted-foreground mt-1">
+                Unknown developers, projects or tasks become row errors instead of being created. The upload
+                page can still override this per import, and the preview lets a manager approve creating them.
+              </span>
+            </span>
+          </label>
+
+          <div className="space-y-1 text-sm">
+            <label className="font-medium" htmlFor="tracker-rounding">
+              Toggl / Clockify / Harvest durations
+            </label>
+            <select
+              id="tracker-rounding"
+              className="block rounded-md border bg-background px-3 py-1.5"
+              value={data.trackerImportRounding}
+              disabled={updateSettings.isPending}
+              onChange={(e) => save({ trackerImportRounding: e.target.value as RoundingPolicy })}
+            >
+              {ROUNDING_POLICIES.map((p) => (
+                <option key={p} value={p}>
+                  {ROUNDING_POLICY_LABELS[p]}
+                </option>
+              ))}
+            </select>
+            <span className="block text-muted-foreground">
+              Time-tracker exports are measured to the second; each duration is fitted to Vandura&apos;s
+              15-minute grid on import and every adjusted row is listed as a preview warning.
+            </span>
+          </div>
+
+          <div className="space-y-1 text-sm">
+            <label className="font-medium" htmlFor="duration-rounding">
+              Durations off the 15-minute grid
+            </label>
+            <select
+              id="duration-rounding"
+              className="block rounded-md border bg-background px-3 py-1.5"
+              value={data.durationRoundingPolicy}
+              disabled={updateSettings.isPending}
+              onChange={(e) => save({ durationRoundingPolicy: e.target.value as DurationPolicy })}
+            >
+              {DURATION_POLICIES.map((p) => (
+                <option key={p} value={p}>
+                  {DURATION_POLICY_LABELS[p]}
+                </option>
+              ))}
+            </select>
+            <span className="block text-muted-foreground">
+              Applies to Vandura sheets, manual entries and the API. When rounding, the entry keeps its original
+              minutes alongside the rounded duration and imports list every adjusted row as a warning.
+            </span>
+          </div>
+
+          <div className="space-y-1 text-sm">
+            <label className="font-medium" htmlFor="weekly-grid-week-start">
+              First day of the week on weekly grids
+            </label>
+            <select
+              id="weekly-grid-week-start"
+              className="block rounded-md border bg-background px-3 py-1.5"
+              value={data.weeklyGridWeekStart}
+              disabled={updateSettings.isPending}
+              onChange={(e) => save({ weeklyGridWeekStart: e.target.value as Weekday })}
+            >
+              {WEEKDAYS.map((day) => (
+                <option key={day} value={day}>
+                  {WEEKDAY_LABELS[day]}
+                </option>
+              ))}
+            </select>
+            <span className="block text-muted-foreground">
+              Used when a weekly grid has no weekday headers: columns E–K are read as seven days starting on this
+              day. Grids with weekday headers or dates above the day columns are unaffected.
+            </span>
+          </div>
+
+          <div className="space-y-1 text-sm">
+            <label className="font-medium" htmlFor="currency">
+              Currency
+            </label>
+            <select
+              id="currency"
+              className="block rounded-md border bg-background px-3 py-1.5"
+              value={data.currency}
+              disabled={updateSettings.isPending}
+              onChange={(e) => save({ currency: e.target.value as Currency })}
+            >
+              {CURRENCIES.map((c) => (
+                <option key={c} value={c}>
+                  {CURRENCY_LABELS[c]}
+                </option>
+              ))}
+            </select>
+            <span className="block text-muted-foreground">
+              Developer hourly rates and project budget amounts are in this currency; reports show costs in it. Changing
+              it does not convert stored amounts.
+            </span>
+          </div>
+
+          {saveError ? (
+            <div className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm">
+              <div className="font-medium text-destructive">Save failed</div>
+              <div className="text-muted-foreground mt-1">{saveError}</div>
+            </div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
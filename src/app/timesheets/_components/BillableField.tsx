@@ -0,0 +1,34 @@
+'use client';
+
+/**
+ * Story 9.7 — billable choice for the manual entry form. A new entry may follow the task's (else the
+ * project's) default; once saved, an entry is simply billable or not.
+ */
+export function BillableField({
+  value,
+  onChange,
+  defaultBillable,
+}: {
+  /** null = use the default (new entries only). */
+  value: boolean | null;
+  onChange: (billable: boolean | null) => void;
+  /** The task's or project's default; undefined hides the "default" option (editing). */
+  defaultBillable?: boolean;
+}) {
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium">Billable</label>
+      <select
+        className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+        value={value === null ? '' : value ? 'billable' : 'non-billable'}
+        onChange={(e) => onChange(e.target.value === '' ? null : e.target.value === 'billable')}
+      >
+        {defaultBillable !== undefined ? (
+          <option value="">Default ({defaultBillable ? 'billable' : 'non-billable'})</option>
+        ) : null}
+        <option value="billable">Billable</option>
+        <option value="non-billable">Non-billable</option>
+      </select>
+    </div>
+  );
+}
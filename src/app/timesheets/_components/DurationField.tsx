@@ -0,0 +1,79 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  DURATION_STEP_MINUTES,
+  applyDurationPolicy,
+  describeRounding,
+  formatClockDuration,
+  type DurationPolicy,
+} from '@/lib/duration-rounding';
+
+/**
+ * Story 7.7 — duration input for the manual entry form.
+ * Under the `strict` policy only 15-minute steps are offered; otherwise any whole number of minutes
+ * is accepted and the rounded value the server will store is shown.
+ */
+export function DurationField({
+  value,
+  onChange,
+  policy,
+  invalid,
+  rawDurationMinutes,
+}: {
+  value: number;
+  onChange: (minutes: number) => void;
+  policy: DurationPolicy;
+  invalid: boolean;
+  /** Pre-rounding minutes stored on the entry being edited. */
+  rawDurationMinutes?: number | null;
+}) {
+  const options = useMemo(() => {
+    const out: number[] = [];
+    for (let m = DURATION_STEP_MINUTES; m <= 480; m += DURATION_STEP_MINUTES) out.push(m);
+    return out;
+  }, []);
+
+  let hint: string | null = null;
+  if (policy !== 'strict' && value > 0) {
+    const adjustment = applyDurationPolicy(value, policy);
+    if (adjustment.durationMinutes === 0) hint = 'Rounds down to 0 minutes — enter a longer duration.';
+    else if (adjustment.rawDurationMinutes !== null) hint = `Will be saved as ${describeRounding(adjustment, policy)}.`;
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className={`text-sm font-medium ${invalid ? 'text-destructive' : ''}`}>
+        Duration *{policy === 'strict' ? '' : ' (minutes)'}
+      </label>
+      {policy === 'strict' ? (
+        <select
+          className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+          value={String(value)}
+          onChange={(e) => onChange(Number(e.target.value))}
+        >
+          {options.map((m) => (
+            <option key={m} value={String(m)}>
+              {m} min
+            </option>
+          ))}
+        </select>
+      ) : (
+        <input
+          type="number"
+          min={1}
+          step={1}
+          className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+          value={value ? String(value) : ''}
+          onChange={(e) => onChange(Math.max(0, Math.trunc(Number(e.target.value) || 0)))}
+        />
+      )}
+      {hint ? <div className="text-xs text-muted-foreground">{hint}</div> : null}
+      {rawDurationMinutes !== null && rawDurationMinutes !== undefined ? (
+        <div className="text-xs text-muted-foreground">
+          Originally recorded as {formatClockDuration(rawDurationMinutes)} before rounding.
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+'use client';
+
+import { trpc } from '@/lib/trpc-client';
+import { describeTimeEntrySource } from '@/lib/time-entry-source';
+
+/**
+ * Story 7.12 — where the entry being edited came from: entered manually, the API, or the file,
+ * sheet and row (or weekly-grid cell) of an import, so a disputed number can be traced.
+ */
+export function EntrySource({ entryId }: { entryId: number }) {
+  const entry = trpc.timesheet.get.useQuery({ id: entryId }, { meta: { suppressGlobalError: true } });
+
+  return (
+    <div className="rounded-md border bg-muted/40 px-3 py-2 text-sm">
+      <span className="font-medium">Source:</span>{' '}
+      {entry.data ? (
+        <>
+          {describeTimeEntrySource(entry.data.source)}
+          {entry.data.importBatchId ? (
+            <>
+              {' '}
+              (
+              <a href="/timesheets/imports" className="text-primary hover:underline">
+                import #{entry.data.importBatchId}
+              </a>
+              )
+            </>
+          ) : null}
+        </>
+      ) : (
+        <span className="text-muted-foreground">{entry.error ? entry.error.message : 'Loading…'}</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,222 @@
+'use client';
+
+import { useState } from 'react';
+import { trpc } from '@/lib/trpc-client';
+import { Modal } from '@/components/Modal';
+import type { ImportBatchListRow } from '@/lib/router-types';
+
+const STATUS_LABEL: Record<ImportBatchListRow['status'], string> = {
+  active: 'Active',
+  discarded: 'Discarded',
+  replaced: 'Replaced',
+};
+
+function formatPeriod(b: ImportBatchListRow): string {
+  if (!b.periodStart || !b.periodEnd) return '—';
+  const start = new Date(b.periodStart).toLocaleDateString();
+  const end = new Date(b.periodEnd).toLocaleDateString();
+  return start === end ? start : `${start} – ${end}`;
+}
+
+/**
+ * Story 7.2 — past Excel imports: discard a whole batch or upload a corrected replacement.
+ */
+export default function TimesheetImportsPage() {
+  const utils = trpc.useUtils();
+  const { data, isLoading, error, refetch } = trpc.importBatch.list.useQuery(undefined, {
+    meta: { suppressGlobalError: true },
+  });
+
+  const [discardId, setDiscardId] = useState<number | null>(null);
+  const [discardError, setDiscardError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const discardBatch = trpc.importBatch.discard.useMutation({
+    meta: { suppressGlobalToast: true },
+  });
+
+  const discardTarget = (data ?? []).find((b) => b.id === discardId) ?? null;
+
+  async function onConfirmDiscard() {
+    if (discardId === null) return;
+    setDiscardError(null);
+    try {
+      const result = await discardBatch.mutateAsync({ id: discardId });
+      await utils.importBatch.list.invalidate();
+      await utils.timesheet.list.invalidate();
+      await utils.report.projectsSummary.invalidate();
+      setNotice(
+        `Discarded import #${result.batch.id} — deleted ${result.deletedEntries} time entries` +
+          (result.restoredEntries > 0 ? ` and restored ${result.restoredEntries} it had overwritten.` : '.')
+      );
+      setDiscardId(null);
+    } catch (e) {
+      setDiscardError(e instanceof Error ? e.message : 'Discard failed');
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Past Imports</h1>
+          <p className="text-muted-foreground mt-2">
+            Every Excel import is recorded as a batch. Discard removes all of its entries at once and
+            restores entries it overwrote; Replace swaps them for a corrected sheet.
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <a
+            href="/timesheets/upload"
+            className="inline-flex items-center rounded-md bg-primary px-4 py-2 text-primary-foreground"
+          >
+            Upload Excel
+          </a>
+          <a href="/timesheets" className="text-sm hover:underline text-muted-foreground">
+            Back to Timesheets
+          </a>
+        </div>
+      </div>
+
+      {notice ? (
+        <div className="rounded-md border border-green-600/30 bg-green-600/10 p-3 text-sm">{notice}</div>
+      ) : null}
+
+      {isLoading ? <div>Loading…</div> : null}
+      {error ? (
+        <div className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm">
+          <div className="font-medium text-destructive">Failed to load imports</div>
+          <div className="text-muted-foreground mt-1">{error.message}</div>
+          <button
+            type="button"
+            className="mt-2 inline-flex items-center rounded-md border px-3 py-1.5 text-xs"
+            onClick={() => refetch()}
+          >
+            Retry
+          </button>
+        </div>
+      ) : null}
+
+      {data ? (
+        <div className="rounded-lg border bg-card overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b text-sm">
+                <th className="text-left py-3 px-4">Imported</th>
+                <th className="text-left py-3 px-4">File</th>
+                <th className="text-left py-3 px-4">Developer</th>
+                <th className="text-left py-3 px-4">Period</th>
+                <th className="text-right py-3 px-4">Rows</th>
+                <th className="text-left py-3 px-4">Status</th>
+                <th className="text-right py-3 px-4">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="text-sm">
+              {data.length === 0 ? (
+                <tr>
+                  <td className="py-6 px-4 text-muted-foreground" colSpan={7}>
+                    No imports yet.
+                  </td>
+                </tr>
+              ) : (
+                data.map((b) => (
+                  <tr key={b.id} className="border-b last:border-b-0">
+                    <td className="py-3 px-4 whitespace-nowrap">
+                      <div>{new Date(b.createdAt).toLocaleDateString()}</div>
+                      <div className="text-xs text-muted-foreground">#{b.id}</div>
+                    </td>
+                    <td className="py-3 px-4">
+                      <div>{b.fileName}</div>
+                      <div className="text-xs text-muted-foreground font-mono" title={b.checksum}>
+                        {b.checksum.slice(0, 12)}
+                      </div>
+                    </td>
+                    <td className="py-3 px-4">{b.developerName ?? 'Multiple'}</td>
+                    <td className="py-3 px-4 whitespace-nowrap">{formatPeriod(b)}</td>
+                    <td className="py-3 px-4 text-right whitespace-nowrap">
+                      {b.status === 'active' && b.currentRowCount !== b.rowCount
+                        ? `${b.currentRowCount} of ${b.rowCount}`
+                        : b.rowCount}
+                      {b.status === 'active' && b.replacedRowCount > 0 ? (
+                        <div className="text-xs text-muted-foreground">+{b.replacedRowCount} overwritten</div>
+                      ) : null}
+                    </td>
+                    <td className="py-3 px-4">
+                      {STATUS_LABEL[b.status]}
+                      {b.replacedByBatchId ? (
+                        <span className="text-xs text-muted-foreground"> by #{b.replacedByBatchId}</span>
+                      ) : null}
+                    </td>
+                    <td className="py-3 px-4 text-right whitespace-nowrap">
+                      {b.status === 'active' ? (
+                        <>
+                          <a href={`/timesheets/upload?replace=${b.id}`} className="text-sm hover:underline">
+                            Replace
+                          </a>
+                          <span className="mx-2 text-muted-foreground">|</span>
+                          <button
+                            type="button"
+                            className="text-sm text-destructive hover:underline"
+                            onClick={() => {
+                              setDiscardError(null);
+                              setNotice(null);
+                              setDiscardId(b.id);
+                            }}
+                          >
+                            Discard
+                          </button>
+                        </>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+
+      {discardTarget ? (
+        <Modal onClose={() => setDiscardId(null)} closeOnBackdrop showCloseButton>
+          <div className="space-y-4">
+            <div className="text-lg font-semibold">Discard import</div>
+            <div className="text-sm text-muted-foreground">
+              Delete all {discardTarget.currentRowCount} time entries imported from{' '}
+              <span className="text-foreground font-medium">{discardTarget.fileName}</span>
+              {discardTarget.replacedRowCount > 0
+                ? `, and put back the previous values of the ${discardTarget.replacedRowCount} existing entries it overwrote`
+                : ''}
+              ? This cannot be undone.
+            </div>
+
+            {discardError ? (
+              <div className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm">
+                <div className="font-medium text-destructive">Discard failed</div>
+                <div className="text-muted-foreground mt-1">{discardError}</div>
+              </div>
+            ) : null}
+
+            <div className="flex items-center justify-end gap-3">
+              <button
+                type="button"
+                className="rounded-md border px-4 py-2"
+                onClick={() => setDiscardId(null)}
+                disabled={discardBatch.isPending}
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                className="rounded-md bg-destructive px-4 py-2 text-destructive-foreground disabled:opacity-50"
+                onClick={onConfirmDiscard}
+                disabled={discardBatch.isPending}
+              >
+                {discardBatch.isPending ? 'Discarding…' : 'Discard'}
+              </button>
+            </div>
+          </div>
+        </Modal>
+      ) : null}
+    </div>
+  );
+}
@@ -1,9 +1,14 @@
 'use client';
 
 import { useMemo, useState } from 'react';
+import Link from 'next/link';
 import { trpc } from '@/lib/trpc-client';
 import { Modal } from '@/components/Modal';
+import { DurationField } from './_components/DurationField';
+import { EntrySource } from './_components/EntrySource';
+import { BillableField } from './_components/BillableField';
 import { type DatePreset, endOfDay, formatMinutesHumanReadable, getPresetRange, startOfDay } from '@/lib/date-utils';
+import { BILLABLE_FILTERS, BILLABLE_FILTER_LABELS, resolveBillable, type BillableFilter } from '@/lib/billable';
 import type {
   DeveloperListRow,
   ProjectListRow,
@@ -19,6 +24,7 @@ export default function TimesheetsPage() {
 
   const [filterProjectId, setFilterProjectId] = useState<number | undefined>(undefined);
   const [filterDeveloperId, setFilterDeveloperId] = useState<number | undefined>(undefined);
+  const [filterBillable, setFilterBillable] = useState<BillableFilter>('all');
   const [preset, setPreset] = useState<DatePreset>('All Time');
   const [startDate, setStartDate] = useState<Date | undefined>(undefined);
   const [endDate, setEndDate] = useState<Date | undefined>(undefined);
@@ -30,6 +36,7 @@ export default function TimesheetsPage() {
     {
       projectId: filterProjectId,
       developerId: filterDeveloperId,
+      billable: filterBillable === 'all' ? undefined : filterBillable === 'billable',
       startDate: effectiveStartDate,
       endDate: effectiveEndDate,
       limit,
@@ -46,6 +53,8 @@ export default function TimesheetsPage() {
     { activeOnly: true },
     { meta: { suppressGlobalError: true } }
   );
+  const settings = trpc.settings.get.useQuery(undefined, { meta: { suppressGlobalError: true } });
+  const durationPolicy = settings.data?.durationRoundingPolicy ?? 'strict';
   const allProjects = trpc.project.list.useQuery(undefined, { meta: { suppressGlobalError: true } });
   const activeProjects = trpc.project.list.useQuery(
     { status: 'active' },
@@ -70,6 +79,7 @@ export default function TimesheetsPage() {
   const [formTime, setFormTime] = useState<string>('');
   const [formDurationMinutes, setFormDurationMinutes] = useState<number>(60);
   const [formDescription, setFormDescription] = useState<string>('');
+  const [formBillable, setFormBillable] = useState<boolean | null>(null);
   const [submitAttempted, setSubmitAttempted] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
 
@@ -91,12 +101,6 @@ export default function TimesheetsPage() {
     meta: { suppressGlobalToast: true },
   });
 
-  const durationOptions = useMemo(() => {
-    const out: number[] = [];
-    for (let m = 15; m <= 480; m += 15) out.push(m);
-    return out;
-  }, []);
-
   function formatLocalDateInputValue(d: Date): string {
     const yyyy = String(d.getFullYear());
     const mm = String(d.getMonth() + 1).padStart(2, '0');
@@ -114,6 +118,7 @@ export default function TimesheetsPage() {
     setFormTime('');
     setFormDurationMinutes(60);
     setFormDescription('');
+    setFormBillable(null);
   }
 
   function openCreate() {
@@ -138,6 +143,7 @@ export default function TimesheetsPage() {
     );
     setFormDurationMinutes(entry.durationMinutes);
     setFormDescription(entry.description ?? '');
+    setFormBillable(entry.billable);
     setEditOpen(true);
   }
 
@@ -184,8 +190,11 @@ export default function TimesheetsPage() {
             projectId: formProjectId!,
             taskId: formTaskId!,
             startTime,
-            durationMinutes: formDurationMinutes,
+            // Story 7.7 — resending an unchanged duration would drop the entry's pre-rounding minutes
+            durationMinutes:
+              formDurationMinutes === selectedEntry?.durationMinutes ? undefined : formDurationMinutes,
             description: formDescription || undefined,
+            billable: formBillable ?? undefined,
           },
         });
       } else {
@@ -196,6 +205,7 @@ export default function TimesheetsPage() {
           startTime,
           durationMinutes: formDurationMinutes,
           description: formDescription || undefined,
+          billable: formBillable ?? undefined,
         });
         setOffset(0);
       }
@@ -228,6 +238,11 @@ export default function TimesheetsPage() {
     return tasksByProject.data ?? [];
   }, [tasksByProject.data]);
 
+  // Story 9.7 — what a new entry gets when "Default" is left selected
+  const formProject = activeProjects.data?.find((p: ProjectListRow) => p.id === formProjectId);
+  const formTask = taskOptions.find((t: TaskByProjectRow) => t.id === formTaskId);
+  const defaultBillable = formProject ? resolveBillable(null, formTask?.billable, formProject.billable) : true;
+
   return (
     <div className="space-y-6">
       <div className="flex items-start justify-between gap-4">
@@ -249,11 +264,17 @@ export default function TimesheetsPage() {
           >
             Upload Excel
           </a>
+          <a
+            href="/timesheets/imports"
+            className="inline-flex items-center rounded-md border px-4 py-2 text-sm"
+          >
+            Past imports
+          </a>
         </div>
       </div>
 
       <div className="rounded-lg border bg-card p-4 space-y-4">
-        <div className="grid grid-cols-1 lg:grid-cols-5 gap-4 items-end">
+        <div className="grid grid-cols-1 lg:grid-cols-6 gap-4 items-end">
           <div className="space-y-2">
             <label className="text-sm font-medium">Project</label>
             <select
@@ -294,6 +315,24 @@ export default function TimesheetsPage() {
             </select>
           </div>
 
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Billable</label>
+            <select
+              className="w-full rounded-md border bg-background px-3 py-2 text-sm"
+              value={filterBillable}
+              onChange={(e) => {
+                setFilterBillable(e.target.value as BillableFilter);
+                setOffset(0);
+              }}
+            >
+              {BILLABLE_FILTERS.map((f) => (
+                <option key={f} value={f}>
+                  {BILLABLE_FILTER_LABELS[f]}
+                </option>
+              ))}
+            </select>
+          </div>
+
           <div className="space-y-2">
             <label className="text-sm font-medium">Preset</label>
             <select
@@ -388,24 +427,38 @@ export default function TimesheetsPage() {
                     <td className="py-3 px-4">{e.taskName ?? ''}</td>
                     <td className="py-3 px-4 text-right whitespace-nowrap">
                       {formatMinutesHumanReadable(e.durationMinutes)}
+                      {e.billable ? null : <div className="text-xs text-muted-foreground">Non-billable</div>}
                     </td>
                     <td className="py-3 px-4">{e.description ?? ''}</td>
                     <td className="py-3 px-4 text-right whitespace-nowrap">
-                      <button
-                        type="button"
-                        className="text-sm hover:underline"
-                        onClick={() => openEdit(e.id)}
-                      >
-                        Edit
-                      </button>
-                      <span className="mx-2 text-muted-foreground">|</span>
-                      <button
-                        type="button"
-                        className="text-sm text-destructive hover:underline"
-                        onClick={() => openDelete(e.id)}
-                      >
-                        Delete
-                      </button>
+                      {e.invoiceId !== null ? (
+                        // Story 9.6: invoiced entries are locked until the invoice is voided
+                        <Link
+                          href={`/invoices/${e.invoiceId}`}
+                          className="text-sm text-muted-foreground hover:underline"
+                          title="Locked by an issued invoice. Void the invoice to change this entry."
+                        >
+                          Invoiced {e.invoiceNumber}
+                        </Link>
+                      ) : (
+                        <>
+                          <button
+                            type="button"
+                            className="text-sm hover:underline"
+                            onClick={() => openEdit(e.id)}
+                          >
+                            Edit
+                          </button>
+                          <span className="mx-2 text-muted-foreground">|</span>
+                          <button
+                            type="button"
+                            className="text-sm text-destructive hover:underline"
+                            onClick={() => openDelete(e.id)}
+                          >
+                            Delete
+                          </button>
+                        </>
+                      )}
                     </td>
                   </tr>
                 ))
@@ -563,22 +616,14 @@ export default function TimesheetsPage() {
                 ) : null}
               </div>
 
-              <div className="space-y-2">
-                <label className={`text-sm font-medium ${submitAttempted && !formDurationMinutes ? 'text-destructive' : ''}`}>
-                  Duration *
-                </label>
-                <select
-                  className="w-full rounded-md border bg-background px-3 py-2 text-sm"
-                  value={String(formDurationMinutes)}
-                  onChange={(e) => setFormDurationMinutes(Number(e.target.value))}
-                >
-                  {durationOptions.map((m) => (
-                    <option key={m} value={String(m)}>
-                      {m} min
-                    </option>
-                  ))}
-                </select>
-              </div>
+              <DurationField
+                value={formDurationMinutes}
+                onChange={setFormDurationMinutes}
+                policy={durationPolicy}
+                invalid={submitAttempted && !formDurationMinutes}
+              />
+
+              <BillableField value={formBillable} onChange={setFormBillable} defaultBillable={defaultBillable} />
 
               <div className="space-y-2 md:col-span-2">
                 <label className="text-sm font-medium">Description</label>
@@ -623,6 +668,8 @@ export default function TimesheetsPage() {
           <div className="space-y-4">
             <div className="text-lg font-semibold">Edit Time Entry</div>
 
+            <EntrySource entryId={selectedEntry.id} />
+
             {formError ? (
               <div className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm">
                 <div className="font-medium text-destructive">Save failed</div>
@@ -734,22 +781,17 @@ export default function TimesheetsPage() {
                 ) : null}
               </div>
 
-              <div className="space-y-2">
-                <label className={`text-sm font-medium ${submitAttempted && !formDurationMinutes ? 'text-destructive' : ''}`}>
-                  Duration *
-                </label>
-                <select
-                  className="w-full rounded-md border bg-background px-3 py-2 text-sm"
-                  value={String(formDurationMinutes)}
-                  onChange={(e) => setFormDurationMinutes(Number(e.target.value))}
-                >
-                  {durationOptions.map((m) => (
-                    <option key={m} value={String(m)}>
-                      {m} min
-                    </option>
-                  ))}
-                </select>
-              </div>
+              <DurationField
+                value={formDurationMinutes}
+                onChange={setFormDurationMinutes}
+                policy={durationPolicy}
+                invalid={submitAttempted && !formDurationMinutes}
+                rawDurationMinutes={
+                  formDurationMinutes === selectedEntry?.durationMinutes ? selectedEntry.rawDurationMinutes : null
+                }
+              />
+
+              <BillableField value={formBillable} onChange={setFormBillable} />
 
               <div className="space-y-2 md:col-span-2">
                 <label className="text-sm font-medium">Description</label>
@@ -0,0 +1,89 @@
+'use client';
+
+import { trpc } from '@/lib/trpc-client';
+import { formatMinutesHumanReadable } from '@/lib/date-utils';
+
+type DeveloperBreakdown = {
+  name: string;
+  entryCount: number;
+  totalMinutes: number;
+  errorCount: number;
+  match: { developerId: number; developerName: string; via: 'manual' | 'name' | 'email' } | null;
+};
+
+/**
+ * Story 7.9 — per-developer totals of a consolidated team sheet, and the existing developer each
+ * name will be recorded under. Names are matched automatically by name or email; a manager can
+ * pick another developer, which re-runs the preview and is sent with the import.
+ */
+export function DeveloperMatchPanel({
+  breakdown,
+  matches,
+  strict,
+  onChange,
+  disabled,
+}: {
+  breakdown: DeveloperBreakdown[];
+  matches: Record<string, number>;
+  strict: boolean;
+  onChange: (name: string, developerId: number | null) => void;
+  disabled: boolean;
+}) {
+  const developers = trpc.developer.list.useQuery({ activeOnly: false }, { meta: { suppressGlobalError: true } });
+
+  function automaticLabel(row: DeveloperBreakdown): string {
+    if (row.match && row.match.via !== 'manual') {
+      return `${row.match.developerName} (same ${row.match.via})`;
+    }
+    return strict ? 'No match — rows are rejected' : 'New developer';
+  }
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="text-sm font-medium">Developers ({breakdown.length})</div>
+      <div className="overflow-x-auto rounded-md border bg-card">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b bg-muted/40">
+              <th className="text-left py-2 px-3">On sheet</th>
+              <th className="text-right py-2 px-3">Entries</th>
+              <th className="text-right py-2 px-3">Total</th>
+              <th className="text-right py-2 px-3">Errors</th>
+              <th className="text-left py-2 px-3">Record as</th>
+            </tr>
+          </thead>
+          <tbody>
+            {breakdown.map((row) => (
+              <tr key={row.name} className="border-b last:border-b-0">
+                <td className="py-2 px-3 font-medium">{row.name}</td>
+                <td className="py-2 px-3 text-right">{row.entryCount}</td>
+                <td className="py-2 px-3 text-right">{formatMinutesHumanReadable(row.totalMinutes)}</td>
+                <td className={`py-2 px-3 text-right ${row.errorCount ? 'text-destructive font-medium' : ''}`}>
+                  {row.errorCount}
+                </td>
+                <td className="py-2 px-3">
+                  <select
+                    className="rounded-md border bg-background px-2 py-1 text-sm"
+                    aria-label={`Developer for ${row.name}`}
+                    value={matches[row.name] ?? ''}
+                    disabled={disabled}
+                    onChange={(e) => onChange(row.name, e.target.value ? Number(e.target.value) : null)}
+                  >
+                    <option value="">Automatic — {automaticLabel(row)}</option>
+                    {(developers.data ?? []).map((d) => (
+                      <option key={d.id} value={d.id}>
+                        {d.name}
+                        {d.email ? ` <${d.email}>` : ''}
+                        {d.isActive ? '' : ' (inactive)'}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { useEffect, useRef } from 'react';
+import { trpc } from '@/lib/trpc-client';
+import type { ImportJobData } from '@/lib/router-types';
+import { IMPORT_JOB_STATUS_LABELS, isActiveImportJob } from '@/lib/import-jobs';
+
+function ProgressBar({ value, total }: { value: number; total: number }) {
+  const percent = total > 0 ? Math.min(100, Math.round((value / total) * 100)) : 0;
+  return (
+    <div className="h-2 w-full overflow-hidden rounded bg-muted">
+      <div className="h-full bg-primary transition-all" style={{ width: `${percent}%` }} />
+    </div>
+  );
+}
+
+/**
+ * Story 7.11 — live status of a background import: rows read, entries saved and errors so far,
+ * polled every second until the job finishes. Cancel stops it and removes entries already saved.
+ */
+export function ImportJobProgress({
+  jobId,
+  onFinished,
+}: {
+  jobId: number;
+  onFinished: (job: ImportJobData) => void;
+}) {
+  const job = trpc.importJob.get.useQuery(
+    { id: jobId },
+    {
+      meta: { suppressGlobalError: true },
+      refetchInterval: (query) => (query.state.data && !isActiveImportJob(query.state.data.status) ? false : 1000),
+    }
+  );
+  const cancel = trpc.importJob.cancel.useMutation({ meta: { suppressGlobalToast: true } });
+
+  const reported = useRef(false);
+  useEffect(() => {
+    if (job.data && !isActiveImportJob(job.data.status) && !reported.current) {
+      reported.current = true;
+      onFinished(job.data);
+    }
+  }, [job.data, onFinished]);
+
+  if (!job.data) {
+    return (
+      <div className="rounded-md border p-3 text-sm text-muted-foreground">
+        {job.error ? `Could not load import #${jobId}: ${job.error.message}` : 'Starting import…'}
+      </div>
+    );
+  }
+
+  const j = job.data;
+  const active = isActiveImportJob(j.status);
+
+  return (
+    <div className="rounded-md border p-3 space-y-3 text-sm">
+      <div className="flex items-center justify-between gap-3">
+        <div>
+          <span className="font-medium">Background import</span> — {j.fileName}:{' '}
+          <span className={j.status === 'failed' ? 'text-destructive font-medium' : 'font-medium'}>
+            {IMPORT_JOB_STATUS_LABELS[j.status]}
+          </span>
+        </div>
+        {active ? (
+          <button
+            type="button"
+            className="rounded-md border px-3 py-1.5 disabled:opacity-50"
+            disabled={cancel.isPending || j.cancelRequested}
+            onClick={() => cancel.mutate({ id: jobId })}
+          >
+            {j.cancelRequested ? 'Cancelling…' : 'Cancel'}
+          </button>
+        ) : null}
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-muted-foreground">
+          Rows read: <span className="text-foreground font-medium">{j.rowsParsed}</span>
+          {j.rowsFound ? ` of ${j.rowsFound}` : ''} — errors so far:{' '}
+          <span className={j.errorCount ? 'text-destructive font-medium' : 'text-foreground font-medium'}>
+            {j.errorCount}
+          </span>
+        </div>
+        <ProgressBar value={j.rowsParsed} total={j.rowsFound} />
+      </div>
+
+      {j.status === 'inserting' || j.rowsInserted > 0 ? (
+        <div className="space-y-1">
+          <div className="text-muted-foreground">
+            Entries saved: <span className="text-foreground font-medium">{j.rowsInserted}</span> of {j.rowsToInsert}
+            {j.skippedDuplicates ? ` (${j.skippedDuplicates} already imported, skipped)` : ''}
+          </div>
+          <ProgressBar value={j.rowsInserted} total={j.rowsToInsert} />
+        </div>
+      ) : null}
+
+      {j.message ? <div className={j.status === 'failed' ? 'text-destructive' : ''}>{j.message}</div> : null}
+      {cancel.error ? <div className="text-destructive">{cancel.error.message}</div> : null}
+
+      {j.errors.length ? (
+        <ul className="max-h-48 overflow-y-auto list-disc pl-5 space-y-1 text-muted-foreground">
+          {j.errors.map((e, i) => (
+            <li key={i}>{e}</li>
+          ))}
+          {j.errorCount > j.errors.length ? <li>…and {j.errorCount - j.errors.length} more</li> : null}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+'use client';
+
+import { useState } from 'react';
+import { trpc } from '@/lib/trpc-client';
+import type { ProjectListRow } from '@/lib/router-types';
+
+/**
+ * Story 3.4 — per invalid project code: map to an existing project (saved as an alias) or create it,
+ * then ask the parent to re-validate the already-loaded file.
+ */
+export function InvalidProjectsPanel({
+  invalid,
+  aliased,
+  onResolved,
+}: {
+  invalid: string[];
+  aliased: Array<{ code: string; projectName: string }>;
+  onResolved: () => Promise<void>;
+}) {
+  const utils = trpc.useUtils();
+  const projects = trpc.project.list.useQuery(undefined, { meta: { suppressGlobalError: true } });
+  const setAlias = trpc.projectAlias.set.useMutation({ meta: { suppressGlobalToast: true } });
+  const createProject = trpc.project.create.useMutation({ meta: { suppressGlobalToast: true } });
+
+  const [mapTo, setMapTo] = useState<Record<string, number | undefined>>({});
+  const [busyCode, setBusyCode] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  async function run(code: string, action: () => Promise<unknown>) {
+    setError(null);
+    setBusyCode(code);
+    try {
+      await action();
+      await utils.projectAlias.list.invalidate();
+      await onResolved();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not resolve project');
+    } finally {
+      setBusyCode(null);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      {invalid.length ? (
+        <div className="rounded-md border border-destructive/40 bg-destructive/5 p-3 space-y-3">
+          <div className="text-sm font-medium">
+            Unknown projects ({invalid.length}) — map each code to an existing project or create it
+          </div>
+          <div className="overflow-x-auto rounded-md border bg-card">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b bg-muted/40">
+                  <th className="text-left py-2 px-3">Code on sheet</th>
+                  <th className="text-left py-2 px-3">Map to existing project</th>
+                  <th className="text-right py-2 px-3">Or</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invalid.map((code) => (
+                  <tr key={code} className="border-b last:border-b-0">
+                    <td className="py-2 px-3 font-medium">{code}</td>
+                    <td className="py-2 px-3">
+                      <div className="flex items-center gap-2">
+                        <select
+                          className="rounded-md border bg-background px-2 py-1 text-sm"
+                          aria-label={`Existing project for ${code}`}
+                          value={mapTo[code] ? String(mapTo[code]) : ''}
+                          onChange={(e) =>
+                            setMapTo((prev) => ({
+                              ...prev,
+                              [code]: e.target.value ? Number(e.target.value) : undefined,
+                            }))
+                          }
+                        >
+                          <option value="">Choose project…</option>
+                          {(projects.data ?? []).map((p: ProjectListRow) => (
+                            <option key={p.id} value={String(p.id)}>
+                              {p.name}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          type="button"
+                          className="rounded-md border px-2 py-1 text-xs disabled:opacity-50"
+                          disabled={!mapTo[code] || busyCode !== null}
+                          onClick={() =>
+                            run(code, () => setAlias.mutateAsync({ alias: code, projectId: mapTo[code]! }))
+                          }
+                        >
+                          {busyCode === code && setAlias.isPending ? 'Saving…' : 'Map'}
+                        </button>
+                      </div>
+                    </td>
+                    <td className="py-2 px-3 text-right">
+                      <button
+                        type="button"
+                        className="rounded-md border px-2 py-1 text-xs disabled:opacity-50"
+                        disabled={busyCode !== null}
+                        onClick={() =>
+                          run(code, async () => {
+                            await createProject.mutateAsync({ name: code, status: 'active' });
+                            await utils.project.list.invalidate();
+                            await utils.report.projectsSummary.invalidate();
+                          })
+                        }
+                      >
+                        {busyCode === code && createProject.isPending ? 'Creating…' : 'Create project'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {error ? <div className="text-sm text-destructive">{error}</div> : null}
+        </div>
+      ) : null}
+
+      {aliased.length ? (
+        <div className="text-sm text-muted-foreground">
+          Resolved by alias:{' '}
+          {aliased.map((a, i) => (
+            <span key={a.code}>
+              {i > 0 ? ', ' : ''}
+              <span className="text-foreground">{a.code}</span> → {a.projectName}
+            </span>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+'use client';
+
+import { useState } from 'react';
+import { trpc } from '@/lib/trpc-client';
+import type { ParseIssueReportRequest } from '@/lib/router-types';
+import type { ParseIssueReportFormat } from '@/lib/parse-issue-report';
+
+function downloadFile(fileName: string, content: BlobPart, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Story 7.13 — download the preview's errors and warnings to send back to the developer: an
+ * annotated copy of the workbook, or a Markdown summary to paste into an email.
+ */
+export function IssueReportDownloads({ request, disabled }: { request: ParseIssueReportRequest; disabled: boolean }) {
+  const report = trpc.timesheet.parseIssueReport.useMutation({ meta: { suppressGlobalToast: true } });
+  const [pending, setPending] = useState<ParseIssueReportFormat | null>(null);
+
+  async function onDownload(format: ParseIssueReportFormat) {
+    setPending(format);
+    try {
+      const res = await report.mutateAsync({ ...request, format });
+      downloadFile(
+        res.fileName,
+        format === 'xlsx' ? Uint8Array.from(atob(res.content), (c) => c.charCodeAt(0)) : res.content,
+        res.mimeType
+      );
+    } catch {
+      // shown below from report.error
+    } finally {
+      setPending(null);
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm">
+      <span className="text-muted-foreground">Send the problems back to the developer:</span>
+      <button
+        type="button"
+        className="rounded-md border px-3 py-1.5 disabled:opacity-50"
+        disabled={disabled || pending !== null}
+        onClick={() => onDownload('xlsx')}
+      >
+        {pending === 'xlsx' ? 'Preparing…' : 'Annotated workbook (.xlsx)'}
+      </button>
+      <button
+        type="button"
+        className="rounded-md border px-3 py-1.5 disabled:opacity-50"
+        disabled={disabled || pending !== null}
+        onClick={() => onDownload('markdown')}
+      >
+        {pending === 'markdown' ? 'Preparing…' : 'Summary (.md)'}
+      </button>
+      {report.error ? <span className="text-destructive">{report.error.message}</span> : null}
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import { trpc } from '@/lib/trpc-client';
+import {
+  DATE_FORMATS,
+  DURATION_UNITS,
+  MAPPABLE_FIELDS,
+  MAPPABLE_FIELD_LABELS,
+  TIME_FORMATS,
+  validateColumnMapping,
+  type DateFormat,
+  type DurationUnit,
+  type MappableField,
+  type TimeFormat,
+} from '@/lib/column-mapping';
+
+/**
+ * Story 7.4 — build a column-mapping profile from the headers of the sheet just previewed.
+ */
+export function MappingProfileEditor({
+  headers,
+  onSaved,
+  onCancel,
+}: {
+  headers: string[];
+  onSaved: (profileId: number) => Promise<void>;
+  onCancel: () => void;
+}) {
+  const utils = trpc.useUtils();
+  const createProfile = trpc.columnMappingProfile.create.useMutation({
+    meta: { suppressGlobalToast: true },
+  });
+
+  const [name, setName] = useState('');
+  const [fields, setFields] = useState<Record<string, MappableField | ''>>({});
+  const [dateFormat, setDateFormat] = useState<DateFormat>('auto');
+  const [timeFormat, setTimeFormat] = useState<TimeFormat>('auto');
+  const [durationUnit, setDurationUnit] = useState<DurationUnit>('minutes');
+  const [error, setError] = useState<string | null>(null);
+
+  const columns = headers
+    .filter((h) => fields[h])
+    .map((h) => ({ header: h, field: fields[h] as MappableField }));
+  const problems = validateColumnMapping(columns);
+
+  async function onSave() {
+    setError(null);
+    try {
+      const profile = await createProfile.mutateAsync({
+        name,
+        columns,
+        dateFormat,
+        timeFormat,
+        durationUnit,
+      });
+      await utils.columnMappingProfile.list.invalidate();
+      await onSaved(profile.id);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not save mapping profile');
+    }
+  }
+
+  return (
+    <div className="rounded-md border p-3 space-y-3">
+      <div className="text-sm font-medium">New column mapping profile</div>
+
+      <div className="space-y-1">
+        <label className="text-sm font-medium">Profile name</label>
+        <input
+          className="w-full rounded-md border bg-background px-3 py-1.5 text-sm"
+          placeholder="e.g. Acme weekly export"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      </div>
+
+      <div className="overflow-x-auto rounded-md border max-h-64">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b bg-muted/40">
+              <th className="text-left py-2 px-3">Column on sheet</th>
+              <th className="text-left py-2 px-3">Vandura field</th>
+            </tr>
+          </thead>
+          <tbody>
+            {headers.map((h) => (
+              <tr key={h} className="border-b last:border-b-0">
+                <td className="py-2 px-3">{h}</td>
+                <td className="py-2 px-3">
+                  <select
+                    className="rounded-md border bg-background px-2 py-1 text-sm"
+                    aria-label={`Field for column ${h}`}
+                    value={fields[h] ?? ''}
+                    onChange={(e) =>
+                      setFields((prev) => ({ ...prev, [h]: e.target.value as MappableField | '' }))
+                    }
+                  >
+                    <option value="">Ignore</option>
+                    {MAPPABLE_FIELDS.map((f) => (
+                      <option key={f} value={f}>
+                        {MAPPABLE_FIELD_LABELS[f]}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Date format</label>
+          <select
+            className="w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+            value={dateFormat}
+            onChange={(e) => setDateFormat(e.target.value as DateFormat)}
+          >
+            {DATE_FORMATS.map((f) => (
+              <option key={f} value={f}>
+                {f === 'auto' ? 'Auto-detect' : f}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Time format</label>
+          <select
+            className="w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+            value={timeFormat}
+            onChange={(e) => setTimeFormat(e.target.value as TimeFormat)}
+          >
+            {TIME_FORMATS.map((f) => (
+              <option key={f} value={f}>
+                {f === 'auto' ? 'Auto-detect' : f}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="space-y-1">
+          <label className="text-sm font-medium">Duration is in</label>
+          <select
+            className="w-full rounded-md border bg-background px-2 py-1.5 text-sm"
+            value={durationUnit}
+            onChange={(e) => setDurationUnit(e.target.value as DurationUnit)}
+          >
+            {DURATION_UNITS.map((u) => (
+              <option key={u} value={u}>
+                {u}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {problems.length ? (
+        <ul className="text-xs text-muted-foreground list-disc pl-5">
+          {problems.map((p) => (
+            <li key={p}>{p}</li>
+          ))}
+        </ul>
+      ) : null}
+      {error ? <div className="text-sm text-destructive">{error}</div> : null}
+
+      <div className="flex items-center justify-end gap-3">
+        <button type="button" className="rounded-md border px-3 py-1.5 text-sm" onClick={onCancel}>
+          Cancel
+        </button>
+        <button
+          type="button"
+          className="rounded-md bg-primary px-3 py-1.5 text-sm text-primary-foreground disabled:opacity-50"
+          disabled={!name.trim() || problems.length > 0 || createProfile.isPending}
+          onClick={onSave}
+        >
+          {createProfile.isPending ? 'Saving…' : 'Save profile & re-parse'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  PARSE_ISSUE_CODE_LABELS,
+  PARSE_ISSUE_COLUMN_LABELS,
+  type ParseIssue,
+  type ParseIssueCode,
+  type ParseIssueSeverity,
+} from '@/lib/parse-issues';
+
+/**
+ * Story 7.14 — the preview's errors and warnings grouped by type, with a severity and type filter.
+ * Each issue shows where it is (sheet, row or cell), the column and the value read from the file.
+ */
+export function ParseIssuesPanel({ issues, withSheet }: { issues: ParseIssue[]; withSheet: boolean }) {
+  const [severity, setSeverity] = useState<ParseIssueSeverity | 'all'>('all');
+  const [code, setCode] = useState<ParseIssueCode | 'all'>('all');
+
+  const counts = useMemo(() => {
+    const byCode = new Map<ParseIssueCode, { severity: ParseIssueSeverity; count: number }>();
+    for (const issue of issues) {
+      const group = byCode.get(issue.code) ?? { severity: issue.severity, count: 0 };
+      group.count++;
+      byCode.set(issue.code, group);
+    }
+    return byCode;
+  }, [issues]);
+
+  const visible = issues.filter(
+    (issue) => (severity === 'all' || issue.severity === severity) && (code === 'all' || issue.code === code)
+  );
+  const groups = new Map<ParseIssueCode, ParseIssue[]>();
+  for (const issue of visible) groups.set(issue.code, [...(groups.get(issue.code) ?? []), issue]);
+
+  const errorCount = issues.filter((issue) => issue.severity === 'error').length;
+  const warningCount = issues.length - errorCount;
+
+  return (
+    <div
+      className={`rounded-md border p-3 space-y-3 ${errorCount ? 'border-destructive/40 bg-destructive/5' : ''}`}
+    >
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="text-sm font-medium">
+          <span className={errorCount ? 'text-destructive' : ''}>
+            {errorCount} errors{errorCount ? ' — import is blocked' : ''}
+          </span>
+          , {warningCount} warnings
+        </div>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select
+            className="rounded-md border bg-background px-2 py-1"
+            aria-label="Filter issues by severity"
+            value={severity}
+            onChange={(e) => setSeverity(e.target.value as ParseIssueSeverity | 'all')}
+          >
+            <option value="all">Errors and warnings</option>
+            <option value="error">Errors only</option>
+            <option value="warning">Warnings only</option>
+          </select>
+          <select
+            className="rounded-md border bg-background px-2 py-1"
+            aria-label="Filter issues by type"
+            value={code}
+            onChange={(e) => setCode(e.target.value as ParseIssueCode | 'all')}
+          >
+            <option value="all">All types</option>
+            {Array.from(counts.entries()).map(([c, group]) => (
+              <option key={c} value={c}>
+                {PARSE_ISSUE_CODE_LABELS[c]} ({group.count})
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <div className="text-sm text-muted-foreground">No issues match the filter.</div>
+      ) : (
+        Array.from(groups.entries()).map(([c, group]) => (
+          <details key={c} className="rounded-md border bg-card" open={groups.size === 1}>
+            <summary className="cursor-pointer px-3 py-2 text-sm font-medium">
+              <span className={group[0]!.severity === 'error' ? 'text-destructive' : ''}>
+                {PARSE_ISSUE_CODE_LABELS[c]}
+              </span>{' '}
+              <span className="text-muted-foreground">({group.length})</span>
+            </summary>
+            <div className="overflow-x-auto max-h-64 border-t">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b bg-muted/40">
+                    {withSheet ? <th className="text-left py-1.5 px-3">Sheet</th> : null}
+                    <th className="text-left py-1.5 px-3">Where</th>
+                    <th className="text-left py-1.5 px-3">Column</th>
+                    <th className="text-left py-1.5 px-3">Value</th>
+                    <th className="text-left py-1.5 px-3">Problem</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {group.map((issue, i) => (
+                    <tr key={i} className="border-b last:border-b-0 align-top">
+                      {withSheet ? <td className="py-1.5 px-3">{issue.sheet ?? '—'}</td> : null}
+                      <td className="py-1.5 px-3 whitespace-nowrap">{issue.location ?? '—'}</td>
+                      <td className="py-1.5 px-3">{issue.column ? PARSE_ISSUE_COLUMN_LABELS[issue.column] : '—'}</td>
+                      <td className="py-1.5 px-3 font-mono text-xs">{issue.value ?? ''}</td>
+                      <td className="py-1.5 px-3 text-muted-foreground">{issue.message}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </details>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+type SheetSummary = {
+  name: string;
+  included: boolean;
+  detectedDeveloper: string | null;
+  entryCount: number;
+  /** Story 7.10 — week-ending date of a weekly-grid sheet. */
+  weeklyGrid: { weekEnding: Date | null } | null;
+  errors: string[];
+  warnings: string[];
+};
+
+/**
+ * Story 7.8 — one row per eligible sheet of a multi-sheet workbook (e.g. a tab per developer or week).
+ * Unticking a sheet re-runs the preview without it; the import only reads the ticked sheets.
+ */
+export function SheetSelector({
+  sheets,
+  onToggle,
+  disabled,
+}: {
+  sheets: SheetSummary[];
+  onToggle: (name: string) => void;
+  disabled: boolean;
+}) {
+  const includedCount = sheets.filter((s) => s.included).length;
+  const hasWeeklyGrids = sheets.some((s) => s.weeklyGrid);
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="text-sm font-medium">
+        Sheets — {includedCount} of {sheets.length} included
+      </div>
+      <div className="overflow-x-auto rounded-md border bg-card">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b bg-muted/40">
+              <th className="text-left py-2 px-3">Import</th>
+              <th className="text-left py-2 px-3">Sheet</th>
+              <th className="text-left py-2 px-3">Developer</th>
+              {hasWeeklyGrids ? <th className="text-left py-2 px-3">Week ending</th> : null}
+              <th className="text-right py-2 px-3">Entries</th>
+              <th className="text-right py-2 px-3">Errors</th>
+              <th className="text-right py-2 px-3">Warnings</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sheets.map((s) => (
+              <tr key={s.name} className={`border-b last:border-b-0 align-top ${s.included ? '' : 'text-muted-foreground'}`}>
+                <td className="py-2 px-3">
+                  <input
+                    type="checkbox"
+                    aria-label={`Import sheet ${s.name}`}
+                    checked={s.included}
+                    // The last included sheet cannot be unticked
+                    disabled={disabled || (s.included && includedCount === 1)}
+                    onChange={() => onToggle(s.name)}
+                  />
+                </td>
+                <td className="py-2 px-3 font-medium">{s.name}</td>
+                <td className="py-2 px-3">{s.detectedDeveloper ?? 'Not detected'}</td>
+                {hasWeeklyGrids ? (
+                  <td className="py-2 px-3">{s.weeklyGrid?.weekEnding?.toLocaleDateString() ?? '—'}</td>
+                ) : null}
+                <td className="py-2 px-3 text-right">{s.entryCount}</td>
+                <td className={`py-2 px-3 text-right ${s.included && s.errors.length ? 'text-destructive font-medium' : ''}`}>
+                  {s.errors.length}
+                </td>
+                <td className="py-2 px-3 text-right">{s.warnings.length}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="text-xs text-muted-foreground">
+        All included sheets are imported together in one batch — errors on any of them block the import. Untick a
+        sheet to leave it out.
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+'use client';
+
+import { useState } from 'react';
+import { WEEKDAY_LABELS, type Weekday } from '@/lib/date-utils';
+
+type WeeklyGrid = {
+  weekEnding: Date | null;
+  source: 'columns' | 'upload' | 'sheet';
+  days: Array<{ day: Weekday; column: string; date: Date | null }>;
+};
+
+const SOURCE_LABELS: Record<WeeklyGrid['source'], string> = {
+  columns: 'dates above the day columns',
+  upload: 'the week ending entered here',
+  sheet: 'the “Week Ending” label on the sheet',
+};
+
+/** `YYYY-MM-DD` of a local calendar day (what `<input type="date">` expects). */
+function toDateInput(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+/**
+ * Story 7.10 — how the day columns of a weekly grid were dated, with a week-ending date that
+ * overrides the sheet's own label (or supplies one when the sheet has none).
+ */
+export function WeeklyGridPanel({
+  grid,
+  weekEnding,
+  weekStart,
+  onChangeWeekEnding,
+  disabled,
+}: {
+  grid: WeeklyGrid;
+  /** The week ending entered on this upload ('' = use the sheet). */
+  weekEnding: string;
+  /** Settings value used for day columns without weekday headers. */
+  weekStart: Weekday;
+  onChangeWeekEnding: (value: string) => void;
+  disabled: boolean;
+}) {
+  const [draft, setDraft] = useState(weekEnding || (grid.weekEnding ? toDateInput(grid.weekEnding) : ''));
+
+  return (
+    <div className="rounded-md border p-3 space-y-2 text-sm">
+      <div className="font-medium">Weekly grid</div>
+      <div className="text-muted-foreground">
+        {grid.days.some((d) => d.date)
+          ? `Day columns dated from ${SOURCE_LABELS[grid.source]}.`
+          : 'No dates found for the day columns — enter the week-ending date below.'}{' '}
+        Columns without weekday headers are read as a week starting on {WEEKDAY_LABELS[weekStart]} (
+        <a href="/settings" className="text-primary hover:underline">
+          Settings
+        </a>
+        ).
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {grid.days.map((d) => (
+          <span key={d.column} className="rounded border bg-muted/40 px-2 py-0.5">
+            <span className="font-mono">{d.column}</span> {WEEKDAY_LABELS[d.day].slice(0, 3)}{' '}
+            {d.date ? d.date.toLocaleDateString() : '—'}
+          </span>
+        ))}
+      </div>
+      {grid.source !== 'columns' ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <label htmlFor="week-ending" className="font-medium">
+            Week ending
+          </label>
+          <input
+            id="week-ending"
+            type="date"
+            className="rounded-md border bg-background px-3 py-1.5"
+            value={draft}
+            disabled={disabled}
+            onChange={(e) => setDraft(e.target.value)}
+          />
+          <button
+            type="button"
+            className="rounded-md border px-3 py-1.5 disabled:opacity-50"
+            disabled={disabled || !draft || draft === weekEnding}
+            onClick={() => onChangeWeekEnding(draft)}
+          >
+            Apply
+          </button>
+          {weekEnding ? (
+            <button
+              type="button"
+              className="text-primary hover:underline disabled:opacity-50"
+              disabled={disabled}
+              onClick={() => {
+                setDraft('');
+                onChangeWeekEnding('');
+              }}
+            >
+              Use the sheet&apos;s date
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
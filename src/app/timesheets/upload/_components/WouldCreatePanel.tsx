@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import { trpc } from '@/lib/trpc-client';
+
+type WouldCreate = {
+  developers: string[];
+  projects: string[];
+  tasks: Array<{ project: string; task: string }>;
+  projectClients?: Array<{ project: string; client: string }>;
+};
+
+/**
+ * Story 7.3 — master data the sheet references but the DB does not have yet.
+ * Strict imports reject those rows; a manager can approve creating everything here, then re-validate.
+ */
+export function WouldCreatePanel({
+  wouldCreate,
+  strict,
+  onCreated,
+}: {
+  wouldCreate: WouldCreate;
+  strict: boolean;
+  onCreated: () => Promise<void>;
+}) {
+  const utils = trpc.useUtils();
+  const createEntities = trpc.timesheet.createImportEntities.useMutation({
+    meta: { suppressGlobalToast: true },
+  });
+  const [error, setError] = useState<string | null>(null);
+
+  const total = wouldCreate.developers.length + wouldCreate.projects.length + wouldCreate.tasks.length;
+  if (total === 0) return null;
+
+  async function onApprove() {
+    setError(null);
+    try {
+      await createEntities.mutateAsync(wouldCreate);
+      await utils.developer.list.invalidate();
+      await utils.project.list.invalidate();
+      await utils.report.projectsSummary.invalidate();
+      await onCreated();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not create records');
+    }
+  }
+
+  return (
+    <div
+      className={
+        strict
+          ? 'rounded-md border border-destructive/40 bg-destructive/5 p-3 space-y-2'
+          : 'rounded-md border p-3 space-y-2'
+      }
+    >
+      <div className="text-sm font-medium">
+        {strict
+          ? `Not in Vandura yet (${total}) — strict import rejects these rows`
+          : `Import will create ${total} new record(s)`}
+      </div>
+      <ul className="text-sm text-muted-foreground list-disc pl-5 space-y-1">
+        {wouldCreate.developers.length ? (
+          <li>
+            Developers: <span className="text-foreground">{wouldCreate.developers.join(', ')}</span>
+          </li>
+        ) : null}
+        {wouldCreate.projects.length ? (
+          <li>
+            Projects:{' '}
+            <span className="text-foreground">
+              {wouldCreate.projects
+                .map((project) => {
+                  const client = wouldCreate.projectClients?.find((pc) => pc.project === project)?.client;
+                  return client ? `${project} (${client})` : project;
+                })
+                .join(', ')}
+            </span>
+          </li>
+        ) : null}
+        {wouldCreate.tasks.length ? (
+          <li>
+            Tasks:{' '}
+            <span className="text-foreground">
+              {wouldCreate.tasks.map((t) => `${t.task} (${t.project})`).join(', ')}
+            </span>
+          </li>
+        ) : null}
+      </ul>
+      {strict ? (
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            className="rounded-md border px-3 py-1.5 text-sm disabled:opacity-50"
+            onClick={onApprove}
+            disabled={createEntities.isPending}
+          >
+            {createEntities.isPending ? 'Creating…' : 'Approve & create all'}
+          </button>
+          <span className="text-xs text-muted-foreground">Then the file is re-validated.</span>
+        </div>
+      ) : null}
+      {error ? <div className="text-sm text-destructive">{error}</div> : null}
+    </div>
+  );
+}
@@ -1,13 +1,71 @@
 'use client';
 
-import { useMemo, useState } from 'react';
+import { useCallback, useEffect, useMemo, useState } from 'react';
 import { trpc } from '@/lib/trpc-client';
 import { Modal } from '@/components/Modal';
-
-/** Canonical copy for support/QA (Story 3.3) — keep in sync with README.md */
-const DUPLICATE_EXACT = 'Importing the same file twice will create duplicate entries.';
+import { formatMinutesHumanReadable } from '@/lib/date-utils';
+import type { ImportConflictAction } from '@/lib/time-entry-identity';
+import { CSV_DELIMITER_LABELS, TEXT_ENCODING_LABELS } from '@/lib/delimited-text';
+import { TRACKER_TOOL_LABELS } from '@/lib/tracker-exports';
+import { ROUNDING_POLICY_LABELS } from '@/lib/duration-rounding';
+import { InvalidProjectsPanel } from './_components/InvalidProjectsPanel';
+import { WouldCreatePanel } from './_components/WouldCreatePanel';
+import { MappingProfileEditor } from './_components/MappingProfileEditor';
+import { SheetSelector } from './_components/SheetSelector';
+import { DeveloperMatchPanel } from './_components/DeveloperMatchPanel';
+import { WeeklyGridPanel } from './_components/WeeklyGridPanel';
+import { ImportJobProgress } from './_components/ImportJobProgress';
+import { IssueReportDownloads } from './_components/IssueReportDownloads';
+import { ParseIssuesPanel } from './_components/ParseIssuesPanel';
+import { BACKGROUND_IMPORT_THRESHOLD_BYTES, IMPORT_JOB_MAX_BYTES } from '@/lib/import-jobs';
+import type { ImportJobData } from '@/lib/router-types';
+import type { ParseIssue, ParseIssueColumn, ParseIssueSeverity } from '@/lib/parse-issues';
+
+/** Canonical copy for support/QA (Story 3.3 / 7.1) — keep in sync with README.md */
+const DUPLICATE_EXACT =
+  'Re-importing the same file skips rows that already exist; rows that changed are held for your review.';
 const TIMEZONE_EXACT = 'All times are treated as local machine time (no timezone conversion).';
 
+/** Story 7.11 — a background import applies one action to every conflicting row. */
+const BACKGROUND_CONFLICT_LABELS: Record<ImportConflictAction, string> = {
+  'keep-existing': 'Keep existing entries',
+  'take-incoming': 'Take incoming values',
+  'keep-both': 'Keep both',
+};
+
+/** Story 7.14 — preview table column an issue column is shown in. */
+const PREVIEW_COLUMN: Record<ParseIssueColumn, 'developer' | 'project' | 'task' | 'date' | 'duration' | null> = {
+  developer: 'developer',
+  project: 'project',
+  task: 'task',
+  date: 'date',
+  startTime: 'date',
+  endTime: 'duration',
+  duration: 'duration',
+  notes: null,
+  billable: null,
+  client: 'project',
+};
+
+/** Story 7.14 — `sheet|row` → preview column → most severe issue on that cell. */
+function issueCells(issues: ParseIssue[]): Map<string, Map<string, ParseIssueSeverity>> {
+  const cells = new Map<string, Map<string, ParseIssueSeverity>>();
+  for (const issue of issues) {
+    const column = issue.column ? PREVIEW_COLUMN[issue.column] : null;
+    if (issue.row === null || !column) continue;
+    const key = `${issue.sheet ?? ''}|${issue.row}`;
+    const row = cells.get(key) ?? new Map<string, ParseIssueSeverity>();
+    if (row.get(column) !== 'error') row.set(column, issue.severity);
+    cells.set(key, row);
+  }
+  return cells;
+}
+
+function issueCellClass(severity: ParseIssueSeverity | undefined): string {
+  if (severity === 'error') return ' bg-destructive/10 text-destructive';
+  return severity === 'warning' ? ' bg-amber-500/15' : '';
+}
+
 function arrayBufferToBase64(buffer: ArrayBuffer): string {
   const bytes = new Uint8Array(buffer);
   const chunkSize = 0x8000;
@@ -26,6 +84,45 @@ export default function TimesheetUploadPage() {
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [previewOpen, setPreviewOpen] = useState(false);
+  /** Story 7.1 — conflict decisions keyed by incoming row index. */
+  const [resolutions, setResolutions] = useState<Record<number, ImportConflictAction>>({});
+  /** Story 7.2 — `?replace=<batchId>` from the imports page. */
+  const [replaceBatchId, setReplaceBatchId] = useState<number | null>(null);
+
+  useEffect(() => {
+    const id = Number(new URLSearchParams(window.location.search).get('replace'));
+    if (Number.isInteger(id) && id > 0) setReplaceBatchId(id);
+  }, []);
+
+  /** Story 7.3 — per-import choice; `null` follows the stored default. */
+  const [strictOverride, setStrictOverride] = useState<boolean | null>(null);
+  const settings = trpc.settings.get.useQuery(undefined, { meta: { suppressGlobalError: true } });
+  const strict = strictOverride ?? settings.data?.importStrictMode ?? false;
+
+  /** Story 7.4 — `null` uses the built-in header detection. */
+  const [profileId, setProfileId] = useState<number | null>(null);
+  const [profileEditorOpen, setProfileEditorOpen] = useState(false);
+  const profiles = trpc.columnMappingProfile.list.useQuery(undefined, {
+    meta: { suppressGlobalError: true },
+  });
+
+  /** Story 7.8 — sheets of a multi-sheet workbook left out of the preview and import. */
+  const [excludedSheets, setExcludedSheets] = useState<string[]>([]);
+  /** Story 7.9 — sheet developer name → existing developer id chosen on the preview. */
+  const [developerMatches, setDeveloperMatches] = useState<Record<string, number>>({});
+  /** Story 7.10 — YYYY-MM-DD week ending for weekly grids ('' = the sheet's own label). */
+  const [weekEnding, setWeekEnding] = useState('');
+  /** Story 7.11 — background import being polled, and its conflict action. */
+  const [jobId, setJobId] = useState<number | null>(null);
+  const [jobActive, setJobActive] = useState(false);
+  const [startingJob, setStartingJob] = useState(false);
+  const [backgroundConflictAction, setBackgroundConflictAction] = useState<ImportConflictAction>('keep-existing');
+  const largeFile = !!file && file.size > BACKGROUND_IMPORT_THRESHOLD_BYTES;
+
+  const replaceBatch = trpc.importBatch.get.useQuery(
+    { id: replaceBatchId ?? 0 },
+    { enabled: replaceBatchId !== null }
+  );
 
   const parseExcel = trpc.timesheet.parseExcel.useMutation({
     meta: { suppressGlobalToast: true },
@@ -39,12 +136,33 @@ export default function TimesheetUploadPage() {
     [file, fileBuffer, parseExcel.isPending, importExcel.isPending]
   );
 
+  const conflicts = parseExcel.data?.conflicts ?? [];
+  const multiSheet = (parseExcel.data?.sheets ?? []).filter((s) => s.included).length > 1;
+  const previewIssueCells = useMemo(() => issueCells(parseExcel.data?.issues ?? []), [parseExcel.data?.issues]);
+  const unresolvedConflictCount = conflicts.filter((c) => !resolutions[c.index]).length;
+
   const canImport =
     !!fileBuffer &&
     !!parseExcel.data &&
     parseExcel.data.errors.length === 0 &&
+    unresolvedConflictCount === 0 &&
     !importExcel.isPending;
 
+  /** Story 7.8 — `undefined` (every eligible sheet) until a sheet has been unticked. */
+  function includedSheets(excluded: string[]): string[] | undefined {
+    if (!excluded.length) return undefined;
+    return (parseExcel.data?.sheets ?? []).map((s) => s.name).filter((name) => !excluded.includes(name));
+  }
+
+  function developerMatchList(matches: Record<string, number>) {
+    const list = Object.entries(matches).map(([name, developerId]) => ({ name, developerId }));
+    return list.length ? list : undefined;
+  }
+
+  function setAllResolutions(action: ImportConflictAction) {
+    setResolutions(Object.fromEntries(conflicts.map((c) => [c.index, action])));
+  }
+
   async function onParse() {
     setError(null);
     setSuccess(null);
@@ -52,7 +170,18 @@ export default function TimesheetUploadPage() {
     if (!file || !fileBuffer) return;
 
     try {
-      await parseExcel.mutateAsync({ fileBuffer });
+      setResolutions({});
+      setProfileEditorOpen(false);
+      setExcludedSheets([]);
+      setDeveloperMatches({});
+      setWeekEnding('');
+      await parseExcel.mutateAsync({
+        fileBuffer,
+        fileName: file.name,
+        replaceBatchId: replaceBatchId ?? undefined,
+        strict,
+        profileId: profileId ?? undefined,
+      });
       setPreviewOpen(true);
     } catch (e) {
       const message = e instanceof Error ? e.message : 'Parse failed';
@@ -60,15 +189,167 @@ export default function TimesheetUploadPage() {
     }
   }
 
+  /** Story 3.4 — re-run preview on the loaded file after mapping/creating projects. */
+  async function revalidate(
+    next: {
+      profile?: number | null;
+      excluded?: string[];
+      matches?: Record<string, number>;
+      weekEnding?: string;
+    } = {}
+  ) {
+    if (!fileBuffer) return;
+    setResolutions({});
+    await parseExcel.mutateAsync({
+      fileBuffer,
+      fileName: file?.name,
+      replaceBatchId: replaceBatchId ?? undefined,
+      strict,
+      profileId: (next.profile === undefined ? profileId : next.profile) ?? undefined,
+      sheets: includedSheets(next.excluded ?? excludedSheets),
+      developerMatches: developerMatchList(next.matches ?? developerMatches),
+      weekEnding: (next.weekEnding ?? weekEnding) || undefined,
+    });
+  }
+
+  /** Story 7.8 — include / exclude a sheet and preview the remaining ones again. */
+  async function onToggleSheet(name: string) {
+    const next = excludedSheets.includes(name)
+      ? excludedSheets.filter((n) => n !== name)
+      : [...excludedSheets, name];
+    setError(null);
+    setExcludedSheets(next);
+    try {
+      await revalidate({ excluded: next });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Parse failed');
+    }
+  }
+
+  /** Story 7.9 — record a sheet developer as an existing developer (null = automatic match). */
+  async function onMatchDeveloper(name: string, developerId: number | null) {
+    const next = { ...developerMatches };
+    if (developerId === null) delete next[name];
+    else next[name] = developerId;
+    setError(null);
+    setDeveloperMatches(next);
+    try {
+      await revalidate({ matches: next });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Parse failed');
+    }
+  }
+
+  /** Story 7.10 — date the weekly grid from an entered week ending ('' = back to the sheet's label). */
+  async function onChangeWeekEnding(value: string) {
+    setError(null);
+    setWeekEnding(value);
+    try {
+      await revalidate({ weekEnding: value });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Parse failed');
+    }
+  }
+
+  /** Story 7.4 — select a freshly saved profile and preview the same file with it. */
+  async function onProfileSaved(id: number) {
+    setProfileId(id);
+    setProfileEditorOpen(false);
+    setExcludedSheets([]);
+    await revalidate({ profile: id, excluded: [] });
+  }
+
+  /**
+   * Story 7.11 — upload the file itself (no base64) and import it as a background job; the
+   * preview's sheet / developer / week-ending choices are sent along when a preview was run.
+   */
+  async function onImportInBackground() {
+    if (!file) return;
+    setError(null);
+    setSuccess(null);
+    setStartingJob(true);
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      form.append(
+        'options',
+        JSON.stringify({
+          strict,
+          profileId: profileId ?? undefined,
+          sheets: parseExcel.data ? includedSheets(excludedSheets) : undefined,
+          developerMatches: developerMatchList(developerMatches),
+          weekEnding: weekEnding || undefined,
+          conflictAction: backgroundConflictAction,
+        })
+      );
+      const response = await fetch('/api/import-jobs', { method: 'POST', body: form });
+      const body = (await response.json().catch(() => ({}))) as { jobId?: number; error?: string };
+      if (!response.ok || !body.jobId) {
+        throw new Error(body.error ?? `Upload failed (HTTP ${response.status})`);
+      }
+      setPreviewOpen(false);
+      setJobId(body.jobId);
+      setJobActive(true);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Upload failed');
+    } finally {
+      setStartingJob(false);
+    }
+  }
+
+  const onJobFinished = useCallback(
+    async (job: ImportJobData) => {
+      setJobActive(false);
+      if (job.status === 'completed') {
+        setSuccess(job.message ?? 'Import completed.');
+        await utils.report.projectsSummary.invalidate();
+        await utils.timesheet.list.invalidate();
+        await utils.importBatch.list.invalidate();
+      } else {
+        setError(job.message ?? `Import ${job.status}.`);
+      }
+    },
+    [utils]
+  );
+
   async function onImport() {
     setError(null);
     setSuccess(null);
     if (!fileBuffer) return;
 
     try {
-      const result = await importExcel.mutateAsync({ fileBuffer });
+      const result = await importExcel.mutateAsync({
+        fileBuffer,
+        fileName: file?.name,
+        replaceBatchId: replaceBatchId ?? undefined,
+        strict,
+        profileId: profileId ?? undefined,
+        sheets: includedSheets(excludedSheets),
+        developerMatches: developerMatchList(developerMatches),
+        weekEnding: weekEnding || undefined,
+        resolutions: conflicts.map((c) => ({
+          index: c.index,
+          existingId: c.existing.id,
+          action: resolutions[c.index]!,
+        })),
+      });
       await utils.report.projectsSummary.invalidate();
-      setSuccess(`Imported ${result.imported} time entries.`);
+      await utils.timesheet.list.invalidate();
+      await utils.importBatch.list.invalidate();
+      const parts = [
+        result.sheets.length > 1
+          ? `Imported ${result.imported} new time entries from ${result.sheets.length} sheets.`
+          : `Imported ${result.imported} new time entries.`,
+      ];
+      if (result.replacedBatchId) {
+        parts.unshift(`Replaced import #${result.replacedBatchId}.`);
+        setReplaceBatchId(null);
+        window.history.replaceState(null, '', window.location.pathname);
+      }
+      if (result.skippedDuplicates) parts.push(`${result.skippedDuplicates} already imported (skipped).`);
+      if (result.replaced) parts.push(`${result.replaced} replaced with incoming values.`);
+      if (result.keptExisting) parts.push(`${result.keptExisting} kept as existing.`);
+      setSuccess(parts.join(' '));
       setPreviewOpen(false);
     } catch (e) {
       const message = e instanceof Error ? e.message : 'Import failed';
@@ -81,10 +362,44 @@ export default function TimesheetUploadPage() {
       <div>
         <h1 className="text-3xl font-bold">Upload Timesheet</h1>
         <p className="text-muted-foreground mt-2">
-          Import time entries from an Excel file (.xlsx / .xls).
+          Import time entries from an Excel file (.xlsx / .xls), a CSV / TSV export, or a Toggl Track, Clockify or Harvest export.{' '}
+          <a href="/timesheets/imports" className="text-primary hover:underline">
+            Past imports
+          </a>
         </p>
       </div>
 
+      {replaceBatchId !== null ? (
+        <div className="rounded-lg border border-primary/40 bg-primary/5 p-4 text-sm space-y-1">
+          <div className="font-medium">Replacing an earlier import</div>
+          {replaceBatch.data ? (
+            <div className="text-muted-foreground">
+              Import #{replaceBatch.data.id} —{' '}
+              <span className="text-foreground font-medium">{replaceBatch.data.fileName}</span> (
+              {replaceBatch.data.rowCount} rows). Its entries are deleted when the corrected file is imported.
+              {replaceBatch.data.status !== 'active' ? (
+                <span className="text-destructive"> This import is already {replaceBatch.data.status}.</span>
+              ) : null}
+            </div>
+          ) : replaceBatch.isLoading ? (
+            <div className="text-muted-foreground">Loading…</div>
+          ) : (
+            <div className="text-destructive">Import #{replaceBatchId} was not found.</div>
+          )}
+          <button
+            type="button"
+            className="text-xs text-muted-foreground hover:underline"
+            onClick={() => {
+              setReplaceBatchId(null);
+              parseExcel.reset();
+              window.history.replaceState(null, '', window.location.pathname);
+            }}
+          >
+            Import as a new batch instead
+          </button>
+        </div>
+      ) : null}
+
       <div className="rounded-lg border bg-card p-4 sm:p-6 space-y-4">
         <div>
           <h2 className="text-lg font-semibold">Expected format</h2>
@@ -107,7 +422,9 @@ export default function TimesheetUploadPage() {
                 <th className="text-left py-2 pr-3 font-medium">Start Time</th>
                 <th className="text-left py-2 pr-3 font-medium">End Time</th>
                 <th className="text-left py-2 pr-3 font-medium">Duration (min)</th>
-                <th className="text-left py-2 font-medium">Notes</th>
+                <th className="text-left py-2 pr-3 font-medium">Notes</th>
+                <th className="text-left py-2 pr-3 font-medium">Billable</th>
+                <th className="text-left py-2 font-medium">Client</th>
               </tr>
             </thead>
             <tbody>
@@ -119,7 +436,9 @@ export default function TimesheetUploadPage() {
                 <td className="py-2 pr-3 align-top">Optional if duration set</td>
                 <td className="py-2 pr-3 align-top">Optional if duration set</td>
                 <td className="py-2 pr-3 align-top">15-minute multiples</td>
-                <td className="py-2 align-top">Optional</td>
+                <td className="py-2 pr-3 align-top">Optional</td>
+                <td className="py-2 pr-3 align-top">Optional yes / no; blank uses the task or project default</td>
+                <td className="py-2 align-top">Optional; an existing client that matches the project&apos;s</td>
               </tr>
             </tbody>
           </table>
@@ -129,8 +448,8 @@ export default function TimesheetUploadPage() {
           Provide either <span className="text-foreground font-medium">Duration (min)</span> or both{' '}
           <span className="text-foreground font-medium">Start Time</span> and{' '}
           <span className="text-foreground font-medium">End Time</span> — the parser derives the missing
-          piece. Duration must be a <span className="text-foreground font-medium">multiple of 15 minutes</span>
-          .
+          piece. Duration must be a <span className="text-foreground font-medium">multiple of 15 minutes</span>{' '}
+          unless the rounding policy in Settings rounds other values (each adjusted row is listed as a warning).
         </p>
 
         <p>
@@ -158,6 +477,17 @@ export default function TimesheetUploadPage() {
               <code className="text-xs bg-muted px-1 rounded">M/D/YYYY</code> or{' '}
               <code className="text-xs bg-muted px-1 rounded">D/M/YYYY</code>; ambiguous day/month values default to US-style (M/D).
             </li>
+            <li>
+              <span className="text-foreground font-medium">CSV / TSV</span> — comma, semicolon, tab or pipe
+              delimited; quoted fields may contain delimiters and line breaks. UTF-8 (with or without BOM) and
+              Windows-1252 (Excel &quot;CSV&quot; on Windows) are detected automatically.
+            </li>
+            <li>
+              <span className="text-foreground font-medium">Toggl Track / Clockify / Harvest</span> — detailed
+              exports (CSV, XLSX or JSON) are recognised by their columns. Durations (hh:mm:ss or decimal hours)
+              are rounded to 15 minutes under the policy in Settings; the client stands in when an entry has no
+              project.
+            </li>
             <li>
               Other date strings may parse via ISO 8601 / common formats where the cell is plain text.
             </li>
@@ -192,10 +522,10 @@ export default function TimesheetUploadPage() {
 
       <div className="rounded-lg border bg-card p-6 space-y-4">
         <div className="space-y-2">
-          <label className="text-sm font-medium">Excel file</label>
+          <label className="text-sm font-medium">Timesheet file</label>
           <input
             type="file"
-            accept=".xlsx,.xls"
+            accept=".xlsx,.xls,.csv,.tsv,.txt,.json"
             onChange={async (e) => {
               setError(null);
               setSuccess(null);
@@ -206,7 +536,8 @@ export default function TimesheetUploadPage() {
               setFile(f);
               setFileBuffer(null);
 
-              if (f) {
+              // Story 7.11: large files are only uploaded as a background job, never base64-encoded
+              if (f && f.size <= BACKGROUND_IMPORT_THRESHOLD_BYTES) {
                 const buffer = await f.arrayBuffer();
                 setFileBuffer(arrayBufferToBase64(buffer));
               }
@@ -221,6 +552,57 @@ export default function TimesheetUploadPage() {
           )}
         </div>
 
+        <div className="space-y-2">
+          <label className="text-sm font-medium" htmlFor="column-mapping">
+            Column mapping
+          </label>
+          <div className="flex items-center gap-3">
+            <select
+              id="column-mapping"
+              className="rounded-md border bg-background px-3 py-1.5 text-sm"
+              value={profileId ?? ''}
+              onChange={(e) => {
+                setProfileId(e.target.value ? Number(e.target.value) : null);
+                parseExcel.reset();
+                setPreviewOpen(false);
+              }}
+            >
+              <option value="">Auto-detect (Vandura headers)</option>
+              {(profiles.data ?? []).map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+            <span className="text-sm text-muted-foreground">
+              Saved profiles map another tool&apos;s column names, date format and duration unit.
+            </span>
+          </div>
+        </div>
+
+        <label className="flex items-start gap-2 text-sm">
+          <input
+            type="checkbox"
+            className="mt-0.5"
+            checked={strict}
+            onChange={(e) => {
+              setStrictOverride(e.target.checked);
+              parseExcel.reset();
+              setPreviewOpen(false);
+            }}
+          />
+          <span>
+            <span className="font-medium">Strict import</span>{' '}
+            <span className="text-muted-foreground">
+              — unknown developers, projects or tasks are errors instead of being created (default set in{' '}
+              <a href="/settings" className="text-primary hover:underline">
+                Settings
+              </a>
+              ).
+            </span>
+          </span>
+        </label>
+
         <div className="flex items-center gap-3">
           <button
             type="button"
@@ -230,11 +612,41 @@ export default function TimesheetUploadPage() {
           >
             {parseExcel.isPending ? 'Parsing…' : 'Parse'}
           </button>
+          <button
+            type="button"
+            onClick={onImportInBackground}
+            disabled={!file || startingJob || jobActive || importExcel.isPending}
+            className="inline-flex items-center rounded-md border px-4 py-2 disabled:opacity-50"
+          >
+            {startingJob ? 'Uploading…' : 'Import in background'}
+          </button>
+          <select
+            aria-label="Conflicting rows in a background import"
+            className="rounded-md border bg-background px-3 py-2 text-sm"
+            value={backgroundConflictAction}
+            onChange={(e) => setBackgroundConflictAction(e.target.value as ImportConflictAction)}
+          >
+            {Object.entries(BACKGROUND_CONFLICT_LABELS).map(([action, label]) => (
+              <option key={action} value={action}>
+                Conflicts: {label}
+              </option>
+            ))}
+          </select>
           <a href="/timesheets" className="text-sm hover:underline text-muted-foreground">
             Back to Timesheets
           </a>
         </div>
 
+        {largeFile ? (
+          <div className="text-sm text-muted-foreground">
+            This file is over {BACKGROUND_IMPORT_THRESHOLD_BYTES / (1024 * 1024)} MB, so it is imported in the background
+            without a preview (up to {IMPORT_JOB_MAX_BYTES / (1024 * 1024)} MB). Duplicate rows are skipped, conflicting rows follow the choice above, and any row error
+            stops the import before anything is saved.
+          </div>
+        ) : null}
+
+        {jobId !== null ? <ImportJobProgress key={jobId} jobId={jobId} onFinished={onJobFinished} /> : null}
+
         {error ? (
           <div className="rounded-md border border-destructive/40 bg-destructive/10 p-3 text-sm">
             <div className="font-medium text-destructive">Import failed</div>
@@ -264,18 +676,113 @@ export default function TimesheetUploadPage() {
             </div>
 
             <div className="text-sm text-muted-foreground">
-              Sheet selected:{' '}
-              <span className="text-foreground font-medium">
-                {parseExcel.data.sheetName ? parseExcel.data.sheetName : 'Unknown'}
-              </span>
+              <span className="text-foreground font-medium">{parseExcel.data.newCount}</span> new,{' '}
+              <span className="text-foreground font-medium">{parseExcel.data.duplicateCount}</span> already
+              imported (will be skipped),{' '}
+              <span className={conflicts.length ? 'text-amber-600 font-medium' : 'text-foreground font-medium'}>
+                {conflicts.length}
+              </span>{' '}
+              conflicting with existing entries
             </div>
 
-            <div className="text-sm text-muted-foreground">
-              Developer detected:{' '}
-              <span className="text-foreground font-medium">
-                {parseExcel.data.detectedDeveloper ? parseExcel.data.detectedDeveloper : 'Not detected'}
-              </span>
-            </div>
+            {parseExcel.data.previousImports.length ? (
+              <div className="rounded-md border border-amber-500/40 bg-amber-500/5 p-3 text-sm">
+                This exact file was already imported as{' '}
+                {parseExcel.data.previousImports.map((b, i) => (
+                  <span key={b.id}>
+                    {i > 0 ? ', ' : ''}
+                    <span className="font-medium">#{b.id}</span> ({new Date(b.createdAt).toLocaleDateString()})
+                  </span>
+                ))}
+                . To swap out an earlier upload, use Replace on{' '}
+                <a href="/timesheets/imports" className="text-primary hover:underline">
+                  Past imports
+                </a>
+                .
+              </div>
+            ) : null}
+
+            {parseExcel.data.sheets.length > 1 ? (
+              <SheetSelector
+                sheets={parseExcel.data.sheets}
+                onToggle={onToggleSheet}
+                disabled={parseExcel.isPending || importExcel.isPending}
+              />
+            ) : (
+              <div className="text-sm text-muted-foreground">
+                Sheet selected:{' '}
+                <span className="text-foreground font-medium">
+                  {parseExcel.data.sheetName ? parseExcel.data.sheetName : 'Unknown'}
+                </span>
+              </div>
+            )}
+
+            {parseExcel.data.weeklyGrid ? (
+              <WeeklyGridPanel
+                key={`${parseExcel.data.sheetName}:${weekEnding}`}
+                grid={parseExcel.data.weeklyGrid}
+                weekEnding={weekEnding}
+                weekStart={parseExcel.data.weekStart}
+                onChangeWeekEnding={onChangeWeekEnding}
+                disabled={parseExcel.isPending || importExcel.isPending}
+              />
+            ) : null}
+
+            {parseExcel.data.trackerExport ? (
+              <div className="text-sm text-muted-foreground">
+                Recognised a{' '}
+                <span className="text-foreground font-medium">
+                  {TRACKER_TOOL_LABELS[parseExcel.data.trackerExport.tool]}
+                </span>{' '}
+                export — durations: {ROUNDING_POLICY_LABELS[parseExcel.data.trackerExport.rounding].toLowerCase()} (
+                <a href="/settings" className="text-primary hover:underline">
+                  Settings
+                </a>
+                ); each adjusted row is listed under Warnings.
+              </div>
+            ) : null}
+
+            {parseExcel.data.source.format === 'csv' ? (
+              <div className="text-sm text-muted-foreground">
+                Read as delimited text:{' '}
+                <span className="text-foreground font-medium">
+                  {CSV_DELIMITER_LABELS[parseExcel.data.source.delimiter ?? ',']}-separated,{' '}
+                  {TEXT_ENCODING_LABELS[parseExcel.data.source.encoding ?? 'utf-8']}
+                </span>
+              </div>
+            ) : null}
+
+            {parseExcel.data.headers?.length ? (
+              profileEditorOpen ? (
+                <MappingProfileEditor
+                  headers={parseExcel.data.headers}
+                  onSaved={onProfileSaved}
+                  onCancel={() => setProfileEditorOpen(false)}
+                />
+              ) : (
+                <button
+                  type="button"
+                  className="text-sm text-primary hover:underline"
+                  onClick={() => setProfileEditorOpen(true)}
+                >
+                  Columns not recognized? Create a mapping profile from this sheet
+                </button>
+              )
+            ) : null}
+
+            {parseExcel.data.developerBreakdown.length ? (
+              <DeveloperMatchPanel
+                breakdown={parseExcel.data.developerBreakdown}
+                matches={developerMatches}
+                strict={parseExcel.data.strict}
+                onChange={onMatchDeveloper}
+                disabled={parseExcel.isPending || importExcel.isPending}
+              />
+            ) : (
+              <div className="text-sm text-muted-foreground">
+                Developer detected: <span className="text-foreground font-medium">Not detected</span>
+              </div>
+            )}
 
             <div className="text-sm text-muted-foreground">
               Projects on sheet:{' '}
@@ -295,11 +802,27 @@ export default function TimesheetUploadPage() {
               ) : null}
             </div>
 
+            <WouldCreatePanel
+              wouldCreate={parseExcel.data.wouldCreate}
+              strict={parseExcel.data.strict}
+              onCreated={() => revalidate()}
+            />
+
+            {parseExcel.data.projects.invalid.length || parseExcel.data.projects.aliased?.length ? (
+              <InvalidProjectsPanel
+                invalid={parseExcel.data.projects.invalid}
+                aliased={parseExcel.data.projects.aliased ?? []}
+                onResolved={() => revalidate()}
+              />
+            ) : null}
+
             {parseExcel.data.preview.length ? (
               <div className="overflow-x-auto rounded-md border">
                 <table className="w-full text-sm">
                   <thead>
                     <tr className="border-b bg-muted/40">
+                      {multiSheet ? <th className="text-left py-2 px-3">Sheet</th> : null}
+                      <th className="text-left py-2 px-3">Row</th>
                       <th className="text-left py-2 px-3">Developer</th>
                       <th className="text-left py-2 px-3">Project</th>
                       <th className="text-left py-2 px-3">Task</th>
@@ -308,15 +831,28 @@ export default function TimesheetUploadPage() {
                     </tr>
                   </thead>
                   <tbody>
-                    {parseExcel.data.preview.map((r, idx) => (
-                      <tr key={idx} className="border-b last:border-b-0">
-                        <td className="py-2 px-3">{r.developer}</td>
-                        <td className="py-2 px-3">{r.project}</td>
-                        <td className="py-2 px-3">{r.task ?? ''}</td>
-                        <td className="py-2 px-3">{new Date(r.startTime).toLocaleString()}</td>
-                        <td className="py-2 px-3 text-right">{r.durationMinutes}m</td>
-                      </tr>
-                    ))}
+                    {parseExcel.data.preview.map((r, idx) => {
+                      // Story 7.14: tint the cells an issue points at (e.g. a rounded duration)
+                      const cells = previewIssueCells.get(`${r.sheet ?? parseExcel.data.sheetName ?? ''}|${r.row}`);
+                      return (
+                        <tr key={idx} className="border-b last:border-b-0">
+                          {multiSheet ? <td className="py-2 px-3">{r.sheet ?? ''}</td> : null}
+                          <td className="py-2 px-3 text-muted-foreground">{r.row}</td>
+                          <td className={`py-2 px-3${issueCellClass(cells?.get('developer'))}`}>{r.developer}</td>
+                          <td className={`py-2 px-3${issueCellClass(cells?.get('project'))}`}>{r.project}</td>
+                          <td className={`py-2 px-3${issueCellClass(cells?.get('task'))}`}>{r.task ?? ''}</td>
+                          <td className={`py-2 px-3${issueCellClass(cells?.get('date'))}`}>
+                            {new Date(r.startTime).toLocaleString()}
+                          </td>
+                          <td className={`py-2 px-3 text-right${issueCellClass(cells?.get('duration'))}`}>
+                            {r.durationMinutes}m
+                            {r.billable === false ? (
+                              <span className="ml-1 text-xs text-muted-foreground">non-billable</span>
+                            ) : null}
+                          </td>
+                        </tr>
+                      );
+                    })}
                   </tbody>
                 </table>
               </div>
@@ -324,30 +860,96 @@ export default function TimesheetUploadPage() {
               <div className="text-sm text-muted-foreground">No valid entries found to preview.</div>
             )}
 
-            {parseExcel.data.errors.length ? (
-              <details className="rounded-md border border-destructive/40 bg-destructive/10 p-3">
-                <summary className="cursor-pointer text-sm font-medium text-destructive">
-                  Errors ({parseExcel.data.errors.length}) — import is blocked
-                </summary>
-                <ul className="mt-2 text-sm text-muted-foreground list-disc pl-5 space-y-1">
-                  {parseExcel.data.errors.map((e, i) => (
-                    <li key={i}>{e}</li>
-                  ))}
-                </ul>
-              </details>
+            {conflicts.length ? (
+              <div className="rounded-md border border-amber-500/40 bg-amber-500/5 p-3 space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="text-sm font-medium">
+                    Conflicts ({conflicts.length}) — {unresolvedConflictCount} still need a decision
+                  </div>
+                  <div className="flex items-center gap-2 text-xs">
+                    <span className="text-muted-foreground">Apply to all:</span>
+                    <button type="button" className="rounded-md border px-2 py-1" onClick={() => setAllResolutions('keep-existing')}>
+                      Keep existing
+                    </button>
+                    <button type="button" className="rounded-md border px-2 py-1" onClick={() => setAllResolutions('take-incoming')}>
+                      Take incoming
+                    </button>
+                  </div>
+                </div>
+                <div className="overflow-x-auto rounded-md border bg-card max-h-80">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b bg-muted/40">
+                        <th className="text-left py-2 px-3">Slot</th>
+                        <th className="text-left py-2 px-3">Existing</th>
+                        <th className="text-left py-2 px-3">Incoming</th>
+                        <th className="text-left py-2 px-3">Action</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {conflicts.map((c) => (
+                        <tr key={c.index} className="border-b last:border-b-0 align-top">
+                          <td className="py-2 px-3">
+                            <div>{c.existing.developerName}</div>
+                            <div className="text-xs text-muted-foreground">
+                              {c.existing.projectName}
+                              {c.existing.taskName ? ` / ${c.existing.taskName}` : ''}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {new Date(c.existing.startTime).toLocaleString()}
+                            </div>
+                          </td>
+                          <td className="py-2 px-3">
+                            <div>{formatMinutesHumanReadable(c.existing.durationMinutes)}</div>
+                            <div className="text-xs text-muted-foreground">{c.existing.description ?? ''}</div>
+                          </td>
+                          <td className="py-2 px-3">
+                            <div>{formatMinutesHumanReadable(c.incoming.durationMinutes)}</div>
+                            <div className="text-xs text-muted-foreground">{c.incoming.description ?? ''}</div>
+                          </td>
+                          <td className="py-2 px-3">
+                            <select
+                              className="rounded-md border bg-background px-2 py-1 text-sm"
+                              aria-label={`Resolution for conflict ${c.index + 1}`}
+                              value={resolutions[c.index] ?? ''}
+                              onChange={(e) =>
+                                setResolutions((prev) => ({
+                                  ...prev,
+                                  [c.index]: e.target.value as ImportConflictAction,
+                                }))
+                              }
+                            >
+                              <option value="">Choose…</option>
+                              <option value="keep-existing">Keep existing</option>
+                              <option value="take-incoming">Take incoming</option>
+                              <option value="keep-both">Keep both</option>
+                            </select>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ) : null}
+
+            {fileBuffer && (parseExcel.data.errors.length || parseExcel.data.warnings.length) ? (
+              <IssueReportDownloads
+                request={{
+                  fileBuffer,
+                  fileName: file?.name,
+                  strict,
+                  profileId: profileId ?? undefined,
+                  sheets: includedSheets(excludedSheets),
+                  developerMatches: developerMatchList(developerMatches),
+                  weekEnding: weekEnding || undefined,
+                }}
+                disabled={parseExcel.isPending || importExcel.isPending}
+              />
             ) : null}
 
-            {parseExcel.data.warnings.length ? (
-              <details className="rounded-md border p-3">
-                <summary className="cursor-pointer text-sm font-medium">
-                  Warnings ({parseExcel.data.warnings.length})
-                </summary>
-                <ul className="mt-2 text-sm text-muted-foreground list-disc pl-5 space-y-1">
-                  {parseExcel.data.warnings.map((w, i) => (
-                    <li key={i}>{w}</li>
-                  ))}
-                </ul>
-              </details>
+            {parseExcel.data.issues.length ? (
+              <ParseIssuesPanel issues={parseExcel.data.issues} withSheet={multiSheet} />
             ) : null}
 
             <div className="flex items-center justify-end gap-3 pt-2">
@@ -0,0 +1,44 @@
+'use client';
+
+import { trpc } from '@/lib/trpc-client';
+import { NO_CLIENT_FILTER, NO_CLIENT_LABEL } from '@/lib/clients';
+
+type Props = {
+  /** '' = all clients, `NO_CLIENT_FILTER`, or a client id */
+  value: string;
+  onChange: (value: string) => void;
+  groupByClient: boolean;
+  onGroupByClientChange: (groupByClient: boolean) => void;
+};
+
+/**
+ * Story 9.8 — client filter and "group by client" toggle for project summary tables (dashboard and
+ * reports list). Hidden until at least one client exists.
+ */
+export function ClientFilterBar({ value, onChange, groupByClient, onGroupByClientChange }: Props) {
+  const { data: clients } = trpc.customer.list.useQuery(undefined, { meta: { suppressGlobalError: true } });
+  if (!clients?.length) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <label className="text-sm font-medium">Client</label>
+      <select
+        className="rounded-md border bg-background px-3 py-2 text-sm"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        <option value="">All clients</option>
+        {clients.map((c) => (
+          <option key={c.id} value={String(c.id)}>
+            {c.name}
+          </option>
+        ))}
+        <option value={NO_CLIENT_FILTER}>{NO_CLIENT_LABEL}</option>
+      </select>
+      <label className="inline-flex items-center gap-2 text-sm">
+        <input type="checkbox" checked={groupByClient} onChange={(e) => onGroupByClientChange(e.target.checked)} />
+        Group by client
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { FORECAST_METHODS, FORECAST_METHOD_LABELS, type ForecastMethod } from '@/lib/forecast';
+
+/** Story 9.10 — picks how remaining work is forecast (project page and reports list). */
+export function ForecastMethodSelect({
+  value,
+  onChange,
+}: {
+  value: ForecastMethod;
+  onChange: (value: ForecastMethod) => void;
+}) {
+  return (
+    <div className="flex flex-wrap items-center gap-3">
+      <label className="text-sm font-medium">Forecast</label>
+      <select
+        className="rounded-md border bg-background px-3 py-2 text-sm"
+        value={value}
+        onChange={(e) => onChange(e.target.value as ForecastMethod)}
+      >
+        {FORECAST_METHODS.map((m) => (
+          <option key={m} value={m}>
+            {FORECAST_METHOD_LABELS[m]}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,33 @@
+'use client';
+
+type Props = {
+  name: string;
+  depth: number;
+  hasChildren: boolean;
+  expanded: boolean;
+  onToggle: () => void;
+};
+
+/**
+ * Story 9.3 — indented disclosure control for a task row in a parent / subtask tree table.
+ * Leaf rows keep the same indent so names line up under their parent.
+ */
+export function TaskTreeToggle({ name, depth, hasChildren, expanded, onToggle }: Props) {
+  return (
+    <span className="inline-flex shrink-0 items-center" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+      {hasChildren ? (
+        <button
+          type="button"
+          className="w-5 text-muted-foreground hover:text-foreground"
+          aria-expanded={expanded}
+          aria-label={`${expanded ? 'Collapse' : 'Expand'} subtasks of ${name}`}
+          onClick={onToggle}
+        >
+          {expanded ? '▾' : '▸'}
+        </button>
+      ) : (
+        <span className="w-5" aria-hidden />
+      )}
+    </span>
+  );
+}
@@ -0,0 +1,17 @@
+/**
+ * Story 9.2 — how the actuals report groups its rows: per task (with estimates and variance),
+ * per developer, or per day / week (Monday-first, `startOfWeek`) of the entries' start times.
+ */
+
+export const ACTUALS_GROUP_BY = ['task', 'developer', 'day', 'week'] as const;
+export type ActualsGroupBy = (typeof ACTUALS_GROUP_BY)[number];
+
+export const ACTUALS_GROUP_BY_LABELS: Record<ActualsGroupBy, string> = {
+  task: 'Task',
+  developer: 'Developer',
+  day: 'Day',
+  week: 'Week',
+};
+
+/** Key and label of the group for entries without a task. */
+export const NO_TASK_GROUP = { key: 'none', label: '(no task)' } as const;
@@ -0,0 +1,45 @@
+import {
+  DURATION_POLICIES,
+  ROUNDING_POLICIES,
+  type DurationPolicy,
+  type RoundingPolicy,
+} from './duration-rounding';
+import { WEEKDAYS, type Weekday } from './date-utils';
+import { CURRENCIES, type Currency } from './cost';
+
+/**
+ * System-wide defaults stored in `app_settings` (one row per key, JSON value).
+ * Unknown or malformed stored values fall back to the defaults below.
+ */
+export interface AppSettings {
+  /** Story 7.3 — Excel import turns unknown developers/projects/tasks into row errors instead of creating them. */
+  importStrictMode: boolean;
+  /** Story 7.6 — how Toggl / Clockify / Harvest durations are fitted to the 15-minute grid. */
+  trackerImportRounding: RoundingPolicy;
+  /** Story 7.7 — off-grid durations on Vandura sheets and manual / API entries: reject or round. */
+  durationRoundingPolicy: DurationPolicy;
+  /** Story 7.10 — first day of weekly grids whose day columns E–K carry no weekday headers. */
+  weeklyGridWeekStart: Weekday;
+  /** Story 9.4 — currency of developer hourly rates and project budget amounts. */
+  currency: Currency;
+}
+
+export const DEFAULT_APP_SETTINGS: AppSettings = {
+  importStrictMode: false,
+  trackerImportRounding: 'nearest',
+  durationRoundingPolicy: 'strict',
+  weeklyGridWeekStart: 'saturday',
+  currency: 'USD',
+};
+
+/** Allowed values for string settings; a stored value outside the list falls back to the default. */
+export const APP_SETTING_CHOICES: Partial<Record<keyof AppSettings, readonly string[]>> = {
+  trackerImportRounding: ROUNDING_POLICIES,
+  durationRoundingPolicy: DURATION_POLICIES,
+  weeklyGridWeekStart: WEEKDAYS,
+  currency: CURRENCIES,
+};
+
+export type AppSettingKey = keyof AppSettings;
+
+export const APP_SETTING_KEYS = Object.keys(DEFAULT_APP_SETTINGS) as AppSettingKey[];
@@ -0,0 +1,47 @@
+/**
+ * Story 9.7 — billable vs non-billable time. Projects carry a default (billable unless set
+ * otherwise), a task may override it (null = the project's default), and a time entry may override
+ * both. The resolved value is stored on the entry when it is created, so changing a default later
+ * leaves logged time as it was.
+ */
+
+export const BILLABLE_FILTERS = ['all', 'billable', 'non-billable'] as const;
+export type BillableFilter = (typeof BILLABLE_FILTERS)[number];
+
+export const BILLABLE_FILTER_LABELS: Record<BillableFilter, string> = {
+  all: 'All time',
+  billable: 'Billable',
+  'non-billable': 'Non-billable',
+};
+
+/** Whether new time is billable: the entry's own choice, else the task's default, else the project's. */
+export function resolveBillable(
+  entryBillable: boolean | null | undefined,
+  taskBillable: boolean | null | undefined,
+  projectBillable: boolean
+): boolean {
+  return entryBillable ?? taskBillable ?? projectBillable;
+}
+
+const BILLABLE_YES = new Set(['y', 'yes', 'true', '1', 'billable', 'x']);
+const BILLABLE_NO = new Set(['n', 'no', 'false', '0', 'non-billable', 'nonbillable', 'not billable']);
+
+/**
+ * A "Billable" import cell: yes / no, true / false, 1 / 0, y / n or `x`. Blank is `undefined` (the
+ * task or project default applies); anything else is `null`.
+ */
+export function parseBillableCell(value: unknown): boolean | null | undefined {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value === 1 ? true : value === 0 ? false : null;
+  const s = String(value).trim().toLowerCase();
+  if (!s) return undefined;
+  if (BILLABLE_YES.has(s)) return true;
+  if (BILLABLE_NO.has(s)) return false;
+  return null;
+}
+
+/** Billable share of `totalHours` (0–100); 0 when there is no time. */
+export function billablePercentage(billableHours: number, totalHours: number): number {
+  return totalHours > 0 ? (billableHours / totalHours) * 100 : 0;
+}
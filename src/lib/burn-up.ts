@@ -0,0 +1,105 @@
+/**
+ * Story 9.9 — burn-up chart on the project report. Cumulative actual hours per day (from
+ * `report.timeline`) against the project budget (`projects.estimatedHours`) and the task estimates
+ * total, with an ideal line rising from 0 on `startDate` to the target on `endDate`. The target is
+ * the budget, else the task estimates total.
+ */
+
+import { toLocalIsoDate } from './date-utils';
+
+export interface BurnUpPoint {
+  /** Local day, `YYYY-MM-DD` */
+  date: string;
+  /** Cumulative hours up to and including the day; null after today (no actuals yet). */
+  actualHours: number | null;
+  /** The ideal line; null outside `startDate`–`endDate`. */
+  idealHours: number | null;
+}
+
+export interface BurnUpSeries {
+  points: BurnUpPoint[];
+  /** Hours the ideal line rises to; null without a budget or task estimates. */
+  idealTargetHours: number | null;
+  /** First day the cumulative actuals went over the budget; null if they have not. */
+  budgetCrossedOn: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function localDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/** Whole days from `a` to `b` (local calendar days, DST-safe). */
+function daysBetween(a: Date, b: Date): number {
+  return Math.round((localDay(b).getTime() - localDay(a).getTime()) / DAY_MS);
+}
+
+/**
+ * Daily burn-up points from the earlier of `startDate` and the first logged day to the later of
+ * `endDate` and the last logged day. Actuals run to today (or the last logged day, if later); the
+ * ideal line needs both planning dates.
+ */
+export function buildBurnUpSeries({
+  timeline,
+  startDate,
+  endDate,
+  budgetHours,
+  taskEstimatesTotal,
+  today = new Date(),
+}: {
+  timeline: Array<{ date: Date; totalMinutes: number }>;
+  startDate: Date | null;
+  endDate: Date | null;
+  budgetHours: number | null;
+  taskEstimatesTotal: number | null;
+  today?: Date;
+}): BurnUpSeries {
+  const idealTargetHours = budgetHours ?? taskEstimatesTotal;
+  const logged = [...timeline].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const firstLogged = logged[0]?.date;
+  const lastLogged = logged[logged.length - 1]?.date;
+
+  const candidatesFrom = [startDate, firstLogged].filter((d): d is Date => !!d);
+  const candidatesTo = [endDate, lastLogged].filter((d): d is Date => !!d);
+  if (candidatesFrom.length === 0 || candidatesTo.length === 0) {
+    return { points: [], idealTargetHours, budgetCrossedOn: null };
+  }
+  const from = localDay(new Date(Math.min(...candidatesFrom.map((d) => d.getTime()))));
+  const to = localDay(new Date(Math.max(...candidatesTo.map((d) => d.getTime()), from.getTime())));
+  const actualsUntil = localDay(
+    new Date(Math.max(Math.min(localDay(today).getTime(), to.getTime()), lastLogged ? localDay(lastLogged).getTime() : 0))
+  );
+
+  const minutesByDay = new Map<string, number>();
+  for (const day of logged) {
+    const key = toLocalIsoDate(day.date);
+    minutesByDay.set(key, (minutesByDay.get(key) ?? 0) + day.totalMinutes);
+  }
+
+  const idealDays = startDate && endDate ? daysBetween(startDate, endDate) : null;
+  const points: BurnUpPoint[] = [];
+  let cumulativeMinutes = 0;
+  let budgetCrossedOn: string | null = null;
+
+  for (let day = from; day.getTime() <= to.getTime(); day = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1)) {
+    const key = toLocalIsoDate(day);
+    cumulativeMinutes += minutesByDay.get(key) ?? 0;
+    const actualHours = day.getTime() <= actualsUntil.getTime() ? cumulativeMinutes / 60 : null;
+    if (budgetCrossedOn === null && budgetHours !== null && actualHours !== null && actualHours > budgetHours) {
+      budgetCrossedOn = key;
+    }
+
+    let idealHours: number | null = null;
+    if (idealTargetHours !== null && startDate && idealDays !== null && idealDays >= 0) {
+      const elapsed = daysBetween(startDate, day);
+      if (elapsed >= 0 && elapsed <= idealDays) {
+        idealHours = idealDays === 0 ? idealTargetHours : (idealTargetHours * elapsed) / idealDays;
+      }
+    }
+
+    points.push({ date: key, actualHours, idealHours });
+  }
+
+  return { points, idealTargetHours, budgetCrossedOn };
+}
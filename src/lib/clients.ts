@@ -0,0 +1,71 @@
+/**
+ * Story 9.8 — clients above projects. A project belongs to at most one client; the client's default
+ * hourly rate prices time whose developer has no rate (`rate-history.ts`, step 4). The reports list
+ * and the dashboard filter by client and can group their projects under each client.
+ */
+
+import { sumCosts } from './cost';
+
+export const NO_CLIENT_LABEL = 'No client';
+
+/** Client names are compared in any case / spacing: "acme  corp" is "Acme Corp". */
+export function normalizeClientName(raw: string): string {
+  return raw.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/** Client filter select value: '' = all clients, 'none' = projects without a client, else a client id. */
+export const NO_CLIENT_FILTER = 'none';
+
+/** `report.projectsSummary` input for a client filter select value; undefined for all clients. */
+export function clientFilterInput(value: string): { clientId: number | null } | undefined {
+  if (!value) return undefined;
+  if (value === NO_CLIENT_FILTER) return { clientId: null };
+  const clientId = Number(value);
+  return Number.isInteger(clientId) && clientId > 0 ? { clientId } : undefined;
+}
+
+export interface ClientGroup<T> {
+  clientId: number | null;
+  clientName: string;
+  projects: T[];
+  actualHours: number;
+  billableHours: number;
+  /** null (TBD) when any project's cost is */
+  actualCost: number | null;
+}
+
+/**
+ * Projects under their client with per-client totals, clients by name and projects without a client
+ * last. Project order within a client is kept.
+ */
+export function groupProjectsByClient<
+  T extends {
+    clientId: number | null;
+    clientName: string | null;
+    actualHours: number;
+    billableHours: number;
+    actualCost: number | null;
+  },
+>(rows: T[]): ClientGroup<T>[] {
+  const byClient = new Map<number | null, T[]>();
+  for (const row of rows) {
+    const list = byClient.get(row.clientId) ?? [];
+    list.push(row);
+    byClient.set(row.clientId, list);
+  }
+
+  return [...byClient.entries()]
+    .map(([clientId, projects]) => ({
+      clientId,
+      clientName: clientId === null ? NO_CLIENT_LABEL : (projects[0]?.clientName ?? NO_CLIENT_LABEL),
+      projects,
+      actualHours: projects.reduce((sum, p) => sum + p.actualHours, 0),
+      billableHours: projects.reduce((sum, p) => sum + p.billableHours, 0),
+      actualCost: sumCosts(projects.map((p) => p.actualCost)),
+    }))
+    .sort((a, b) => {
+      if (a.clientId === null) return b.clientId === null ? 0 : 1;
+      if (b.clientId === null) return -1;
+      return a.clientName.localeCompare(b.clientName);
+    });
+}
@@ -0,0 +1,199 @@
+/**
+ * Story 7.4 — saved column-mapping profiles for tabular imports.
+ * A profile maps each source header (matched case-insensitively, whitespace-collapsed) to a Vandura
+ * field and pins the date format, time format and duration unit instead of relying on the
+ * parser's built-in header synonyms and date heuristics.
+ */
+
+export const MAPPABLE_FIELDS = [
+  'developer',
+  'project',
+  'task',
+  'date',
+  'startTime',
+  'endTime',
+  'duration',
+  'notes',
+  'billable',
+  'client',
+] as const;
+export type MappableField = (typeof MAPPABLE_FIELDS)[number];
+
+export const MAPPABLE_FIELD_LABELS: Record<MappableField, string> = {
+  developer: 'Developer',
+  project: 'Project',
+  task: 'Task',
+  date: 'Date',
+  startTime: 'Start Time',
+  endTime: 'End Time',
+  duration: 'Duration',
+  notes: 'Notes',
+  billable: 'Billable',
+  client: 'Client',
+};
+
+export const DATE_FORMATS = ['auto', 'YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY'] as const;
+export type DateFormat = (typeof DATE_FORMATS)[number];
+
+export const TIME_FORMATS = ['auto', 'HH:mm', 'h:mm a'] as const;
+export type TimeFormat = (typeof TIME_FORMATS)[number];
+
+export const DURATION_UNITS = ['minutes', 'hours'] as const;
+export type DurationUnit = (typeof DURATION_UNITS)[number];
+
+export type ColumnMapping = Array<{ header: string; field: MappableField }>;
+
+export interface ColumnMappingProfileConfig {
+  columns: ColumnMapping;
+  dateFormat: DateFormat;
+  timeFormat: TimeFormat;
+  durationUnit: DurationUnit;
+}
+
+/** Row shape shared with `ExcelParser.normalizeColumnNames`. */
+export interface MappedRow {
+  developer?: string;
+  project?: string;
+  task?: string;
+  date?: unknown;
+  startTime?: string;
+  endTime?: string;
+  durationMinutes?: unknown;
+  notes?: string;
+  /** Story 9.7 — read with `parseBillableCell` */
+  billable?: unknown;
+  /** Story 9.8 — an existing client's name */
+  client?: string;
+}
+
+export function normalizeHeader(header: unknown): string {
+  return typeof header === 'string' || typeof header === 'number'
+    ? String(header).toLowerCase().trim().replace(/\s+/g, ' ').replace(/:$/, '')
+    : '';
+}
+
+/**
+ * Problems that make a mapping unusable: a field mapped twice, or no way to get project, date and
+ * duration (either a duration column or both start and end). Developer may come from the sheet label.
+ */
+export function validateColumnMapping(columns: ColumnMapping): string[] {
+  const problems: string[] = [];
+  const fields = columns.map((c) => c.field);
+  const headers = columns.map((c) => normalizeHeader(c.header));
+
+  for (const field of MAPPABLE_FIELDS) {
+    if (fields.filter((f) => f === field).length > 1) {
+      problems.push(`${MAPPABLE_FIELD_LABELS[field]} is mapped more than once`);
+    }
+  }
+  if (new Set(headers).size !== headers.length) {
+    problems.push('A source header is mapped more than once');
+  }
+  if (!fields.includes('project')) problems.push('Project must be mapped');
+  if (!fields.includes('date')) problems.push('Date must be mapped');
+  if (!fields.includes('duration') && !(fields.includes('startTime') && fields.includes('endTime'))) {
+    problems.push('Map Duration, or both Start Time and End Time');
+  }
+  return problems;
+}
+
+/** Count how many of the profile's headers appear in a candidate header row. */
+export function countMappedHeaders(cells: unknown[], columns: ColumnMapping): number {
+  const present = new Set(cells.map(normalizeHeader).filter(Boolean));
+  return columns.filter((c) => present.has(normalizeHeader(c.header))).length;
+}
+
+/** Apply a profile to one `sheet_to_json` row object. Unmapped columns are ignored. */
+export function applyColumnMapping(row: Record<string, unknown>, columns: ColumnMapping): MappedRow {
+  const byHeader = new Map(columns.map((c) => [normalizeHeader(c.header), c.field]));
+  const result: Record<string, unknown> = {};
+
+  for (const key of Object.keys(row)) {
+    const field = byHeader.get(normalizeHeader(key));
+    if (!field) continue;
+    result[field === 'duration' ? 'durationMinutes' : field] = row[key];
+  }
+
+  return result as MappedRow;
+}
+
+/**
+ * Parse a date with a pinned format (local midnight). `auto` returns undefined so the caller can
+ * fall back to its own heuristics; a value that does not match the format returns null. A number
+ * is a spreadsheet date cell's serial (days since 1899-12-30): the format only applies to text.
+ */
+export function parseDateWithFormat(value: unknown, format: DateFormat): Date | null | undefined {
+  if (format === 'auto') return undefined;
+  if (value instanceof Date) return value;
+  if (typeof value === 'number') return Number.isFinite(value) ? new Date(1899, 11, 30 + Math.floor(value)) : null;
+  if (typeof value !== 'string') return null;
+
+  const s = value.trim();
+  const patterns: Record<Exclude<DateFormat, 'auto'>, { re: RegExp; order: ['y' | 'm' | 'd', 'y' | 'm' | 'd', 'y' | 'm' | 'd'] }> = {
+    'YYYY-MM-DD': { re: /^(\d{4})-(\d{1,2})-(\d{1,2})$/, order: ['y', 'm', 'd'] },
+    'MM/DD/YYYY': { re: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: ['m', 'd', 'y'] },
+    'DD/MM/YYYY': { re: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: ['d', 'm', 'y'] },
+    'DD.MM.YYYY': { re: /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/, order: ['d', 'm', 'y'] },
+  };
+
+  const { re, order } = patterns[format];
+  const match = s.match(re);
+  if (!match) return null;
+
+  const parts: Record<'y' | 'm' | 'd', number> = { y: 0, m: 0, d: 0 };
+  order.forEach((key, i) => {
+    parts[key] = parseInt(match[i + 1]!, 10);
+  });
+
+  const date = new Date(parts.y, parts.m - 1, parts.d);
+  // Reject rollovers such as 31/02/2026
+  if (date.getFullYear() !== parts.y || date.getMonth() !== parts.m - 1 || date.getDate() !== parts.d) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Parse a time with a pinned format onto `date`. `auto` returns undefined (caller falls back).
+ */
+export function parseTimeWithFormat(date: Date, value: unknown, format: TimeFormat): Date | null | undefined {
+  if (format === 'auto') return undefined;
+  if (value instanceof Date) return value;
+  if (typeof value !== 'string') return null;
+
+  const s = value.trim();
+  let hours: number;
+  let minutes: number;
+
+  if (format === 'HH:mm') {
+    const m = s.match(/^(\d{1,2}):(\d{2})$/);
+    if (!m) return null;
+    hours = parseInt(m[1]!, 10);
+    minutes = parseInt(m[2]!, 10);
+    if (hours > 23) return null;
+  } else {
+    const m = s.match(/^(\d{1,2}):(\d{2})\s*(AM|PM)$/i);
+    if (!m) return null;
+    hours = parseInt(m[1]!, 10);
+    minutes = parseInt(m[2]!, 10);
+    if (hours < 1 || hours > 12) return null;
+    const pm = m[3]!.toUpperCase() === 'PM';
+    if (pm && hours < 12) hours += 12;
+    if (!pm && hours === 12) hours = 0;
+  }
+  if (minutes > 59) return null;
+
+  const result = new Date(date);
+  result.setHours(hours, minutes, 0, 0);
+  return result;
+}
+
+/**
+ * Duration cell → exact minutes (hours are converted; decimal comma accepted). NaN when
+ * unparseable. Not rounded: the duration policy (Story 7.7) rounds off-grid values and reports it.
+ */
+export function durationToMinutes(value: unknown, unit: DurationUnit): number {
+  const n = typeof value === 'number' ? value : Number(String(value).trim().replace(',', '.'));
+  if (!Number.isFinite(n)) return NaN;
+  return unit === 'hours' ? n * 60 : n;
+}
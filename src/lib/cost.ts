@@ -0,0 +1,61 @@
+/**
+ * Story 9.4 — labour cost at developer hourly rates against the project's budget amount
+ * (`projects.budgetAmount`), both in the system currency (`settings.currency`). Each entry is
+ * priced at the rate in force when it started (Story 9.5, `rate-history.ts`).
+ * A cost is TBD (`null`) when any of the time has no hourly rate.
+ */
+
+export const CURRENCIES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'NZD', 'CHF', 'JPY'] as const;
+export type Currency = (typeof CURRENCIES)[number];
+
+export const CURRENCY_LABELS: Record<Currency, string> = {
+  USD: 'US dollar (USD)',
+  EUR: 'Euro (EUR)',
+  GBP: 'Pound sterling (GBP)',
+  CAD: 'Canadian dollar (CAD)',
+  AUD: 'Australian dollar (AUD)',
+  NZD: 'New Zealand dollar (NZD)',
+  CHF: 'Swiss franc (CHF)',
+  JPY: 'Japanese yen (JPY)',
+};
+
+/** Cost of `minutes` at `hourlyRate`; null without a rate. */
+export function timeCost(minutes: number, hourlyRate: number | null | undefined): number | null {
+  if (hourlyRate === null || hourlyRate === undefined) return null;
+  return (minutes / 60) * hourlyRate;
+}
+
+/** Sum of costs — null (TBD) if any of them is; `0` for none. */
+export function sumCosts(costs: Iterable<number | null>): number | null {
+  let total = 0;
+  for (const cost of costs) {
+    if (cost === null) return null;
+    total += cost;
+  }
+  return total;
+}
+
+/**
+ * Actual cost minus the budget amount; null when either is unset. The percentage is also null
+ * for a zero budget.
+ */
+export function costVariance(
+  actualCost: number | null,
+  budgetAmount: number | null
+): { variance: number | null; variancePercentage: number | null } {
+  if (actualCost === null || budgetAmount === null) return { variance: null, variancePercentage: null };
+  const variance = actualCost - budgetAmount;
+  return { variance, variancePercentage: budgetAmount > 0 ? (variance / budgetAmount) * 100 : null };
+}
+
+/** `$1,234.50` in `currency`; **TBD** when the amount is unknown. */
+export function formatCost(amount: number | null | undefined, currency: string): string {
+  if (amount === null || amount === undefined) return 'TBD';
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount);
+}
+
+/** Cost variance with a sign (`+$120.00` over budget); **TBD** when unknown. */
+export function formatCostVariance(amount: number | null | undefined, currency: string): string {
+  if (amount === null || amount === undefined) return 'TBD';
+  return `${amount > 0 ? '+' : ''}${formatCost(amount, currency)}`;
+}
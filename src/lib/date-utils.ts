@@ -91,6 +91,46 @@ export function endOfWeek(date: Date): Date {
   return result;
 }
 
+/** Story 7.10 — Monday-first, matching the weekly-grid day indexes in `ExcelParser`. */
+export const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  monday: 'Monday',
+  tuesday: 'Tuesday',
+  wednesday: 'Wednesday',
+  thursday: 'Thursday',
+  friday: 'Friday',
+  saturday: 'Saturday',
+  sunday: 'Sunday',
+};
+
+export function weekdayOf(date: Date): Weekday {
+  return WEEKDAYS[(date.getDay() + 6) % 7]!;
+}
+
+/**
+ * The date of `day` within the seven days ending on `weekEnding` (inclusive), so a week ending on
+ * Friday puts Saturday and Sunday before Monday.
+ */
+export function dateInWeekEnding(weekEnding: Date, day: Weekday): Date {
+  const back = (WEEKDAYS.indexOf(weekdayOf(weekEnding)) - WEEKDAYS.indexOf(day) + 7) % 7;
+  const result = new Date(weekEnding);
+  result.setDate(result.getDate() - back);
+  return result;
+}
+
+/** A `YYYY-MM-DD` string as local midnight of that calendar day (not UTC like `new Date(value)`). */
+export function localDateFromIso(value: string): Date {
+  const [y, m, d] = value.split('-').map(Number) as [number, number, number];
+  return new Date(y, m - 1, d);
+}
+
+/** The local calendar day of `date` as `YYYY-MM-DD` (inverse of `localDateFromIso`). */
+export function toLocalIsoDate(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
 export type DatePreset = 'Last 7 Days' | 'Last 30 Days' | 'This Month' | 'All Time';
 
 export function getPresetRange(
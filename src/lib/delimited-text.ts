@@ -0,0 +1,181 @@
+/**
+ * Story 7.5 — CSV / TSV timesheet files.
+ * Decodes the bytes (UTF-8 with or without BOM, UTF-16LE with BOM, otherwise Windows-1252),
+ * detects the delimiter and quote character, and splits the text into a cell matrix that
+ * `ExcelParser` turns into a one-sheet workbook, so everything after reading the file is shared
+ * with `.xlsx` imports.
+ */
+
+export const CSV_DELIMITERS = [',', ';', '\t', '|'] as const;
+export type CsvDelimiter = (typeof CSV_DELIMITERS)[number];
+
+export type CsvQuote = '"' | "'";
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'windows-1252';
+
+export interface DelimitedText {
+  rows: Array<Array<string | null>>;
+  delimiter: CsvDelimiter;
+  quote: CsvQuote;
+  encoding: TextEncoding;
+}
+
+export const CSV_DELIMITER_LABELS: Record<CsvDelimiter, string> = {
+  ',': 'comma',
+  ';': 'semicolon',
+  '\t': 'tab',
+  '|': 'pipe',
+};
+
+export const TEXT_ENCODING_LABELS: Record<TextEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'utf-16le': 'UTF-16',
+  'windows-1252': 'Windows-1252',
+};
+
+/** `.xlsx` (zip) and `.xls` (OLE compound document) signatures — anything else is read as text. */
+export function isSpreadsheetBinary(bytes: Uint8Array): boolean {
+  const zip = bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+  const ole = bytes[0] === 0xd0 && bytes[1] === 0xcf && bytes[2] === 0x11 && bytes[3] === 0xe0;
+  return zip || ole;
+}
+
+// Windows-1252 differs from Latin-1 only in 0x80–0x9F (unassigned bytes keep their Latin-1 value).
+// Decoded by hand: Node's `TextDecoder('windows-1252')` falls back to Latin-1 for this range.
+const CP1252_HIGH = [
+  0x20ac, 0x81, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0x8d,
+  0x017d, 0x8f, 0x90, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a,
+  0x0153, 0x9d, 0x017e, 0x0178,
+];
+
+function decodeWindows1252(bytes: Uint8Array): string {
+  let text = '';
+  for (const b of bytes) {
+    text += String.fromCharCode(b >= 0x80 && b <= 0x9f ? CP1252_HIGH[b - 0x80]! : b);
+  }
+  return text;
+}
+
+/**
+ * Decode a text file. A BOM wins; BOM-less bytes that are not valid UTF-8 are treated as
+ * Windows-1252 (Excel's "CSV" save on Western-locale Windows).
+ */
+export function decodeText(bytes: Uint8Array): { text: string; encoding: TextEncoding } {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'utf-8' };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'utf-16le' };
+  }
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+  } catch {
+    return { text: decodeWindows1252(bytes), encoding: 'windows-1252' };
+  }
+}
+
+/**
+ * Split delimited text into rows (RFC 4180: quoted fields may contain the delimiter, line breaks
+ * and doubled quotes). Empty cells become null; blank lines stay as empty records so every record
+ * keeps its line's row number in the sheet (the parser skips them), and trailing ones are dropped.
+ */
+export function parseDelimited(
+  text: string,
+  delimiter: CsvDelimiter,
+  quote: CsvQuote = '"'
+): Array<Array<string | null>> {
+  const rows: Array<Array<string | null>> = [];
+  let row: Array<string | null> = [];
+  let field = '';
+  let quoted = false;
+  let inQuotes = false;
+
+  const endField = () => {
+    row.push(field === '' && !quoted ? null : field);
+    field = '';
+    quoted = false;
+  };
+  const endRow = () => {
+    endField();
+    rows.push(row.some((cell) => cell !== null && cell.trim() !== '') ? row : []);
+    row = [];
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]!;
+
+    if (inQuotes) {
+      if (ch === quote) {
+        if (text[i + 1] === quote) {
+          field += quote;
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === quote && field.trim() === '') {
+      field = '';
+      quoted = true;
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      endField();
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || quoted || row.length) endRow();
+  while (rows.length && rows[rows.length - 1]!.length === 0) rows.pop();
+
+  return rows;
+}
+
+/**
+ * Pick the delimiter that splits the first lines into the most columns, most consistently.
+ * Defaults to comma when nothing splits.
+ */
+export function detectDelimiter(text: string): CsvDelimiter {
+  const sample = text.split(/\r?\n|\r/).filter((l) => l.trim()).slice(0, 20).join('\n');
+  let best: { delimiter: CsvDelimiter; score: number } = { delimiter: ',', score: 0 };
+
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = parseDelimited(sample, delimiter).map((r) => r.length);
+    if (!counts.length) continue;
+
+    const frequency = new Map<number, number>();
+    for (const n of counts) frequency.set(n, (frequency.get(n) ?? 0) + 1);
+    const [width, hits] = Array.from(frequency.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0])[0]!;
+    if (width < 2) continue;
+
+    const score = (hits / counts.length) * width;
+    if (score > best.score) best = { delimiter, score };
+  }
+
+  return best.delimiter;
+}
+
+/** Single quotes only count as the quote character when fields are wrapped in them and never in double quotes. */
+export function detectQuote(text: string, delimiter: CsvDelimiter): CsvQuote {
+  const d = delimiter === '|' ? '\\|' : delimiter === '\t' ? '\\t' : delimiter;
+  const wrapped = (q: string) =>
+    (text.match(new RegExp(`(^|${d})${q}[^${q}\\r\\n]*${q}(?=${d}|\\r|\\n|$)`, 'gm')) ?? []).length;
+  return wrapped("'") > 0 && wrapped('"') === 0 ? "'" : '"';
+}
+
+export function splitDelimitedText(text: string): Omit<DelimitedText, 'encoding'> {
+  const delimiter = detectDelimiter(text);
+  const quote = detectQuote(text, delimiter);
+  return { rows: parseDelimited(text, delimiter, quote), delimiter, quote };
+}
+
+export function readDelimitedText(bytes: Uint8Array): DelimitedText {
+  const { text, encoding } = decodeText(bytes);
+  return { ...splitDelimitedText(text), encoding };
+}
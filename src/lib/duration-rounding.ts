@@ -0,0 +1,73 @@
+/**
+ * Story 7.6 — fitting measured durations onto Vandura's 15-minute grid.
+ * Time-tracker exports carry second-level precision, so their durations are rounded on import
+ * under a configurable policy (`app_settings.trackerImportRounding`).
+ * Story 7.7 — the system policy (`app_settings.durationRoundingPolicy`) adds `strict` (reject
+ * off-grid durations) and governs Vandura-format sheets and manual / API entries.
+ */
+
+export const DURATION_STEP_MINUTES = 15;
+
+export const ROUNDING_POLICIES = ['nearest', 'up', 'down'] as const;
+export type RoundingPolicy = (typeof ROUNDING_POLICIES)[number];
+
+export const ROUNDING_POLICY_LABELS: Record<RoundingPolicy, string> = {
+  nearest: 'Round to nearest 15 minutes',
+  up: 'Round up to the next 15 minutes',
+  down: 'Round down to the previous 15 minutes',
+};
+
+export const DURATION_POLICIES = ['strict', ...ROUNDING_POLICIES] as const;
+export type DurationPolicy = (typeof DURATION_POLICIES)[number];
+
+export const DURATION_POLICY_LABELS: Record<DurationPolicy, string> = {
+  strict: 'Strict — reject durations that are not a multiple of 15 minutes',
+  ...ROUNDING_POLICY_LABELS,
+};
+
+/** Round minutes (may be fractional) to the grid. Halfway values round up under `nearest`. */
+export function roundToDurationStep(minutes: number, policy: RoundingPolicy, step = DURATION_STEP_MINUTES): number {
+  // Strip float noise such as 45.00000000001 minutes from seconds → minutes conversions
+  const units = Math.round((minutes / step) * 1e6) / 1e6;
+  const rounded = policy === 'up' ? Math.ceil(units) : policy === 'down' ? Math.floor(units) : Math.round(units);
+  return rounded * step;
+}
+
+/** `75` → `1:15`, `52.2` → `0:52:12` (seconds only when present). */
+export function formatClockDuration(minutes: number): string {
+  const totalSeconds = Math.round(minutes * 60);
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  const hm = `${h}:${String(m).padStart(2, '0')}`;
+  return s ? `${hm}:${String(s).padStart(2, '0')}` : hm;
+}
+
+export interface DurationAdjustment {
+  durationMinutes: number;
+  /** Minutes as entered when the policy changed them; null when already on the grid. */
+  rawDurationMinutes: number | null;
+}
+
+/**
+ * Apply a duration policy. Throws for non-positive values and, under `strict`, for off-grid ones.
+ * A short duration may round down to 0 — callers decide whether that skips the row or is an error.
+ */
+export function applyDurationPolicy(minutes: number, policy: DurationPolicy): DurationAdjustment {
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    throw new Error('Duration must be greater than 0');
+  }
+  if (minutes % DURATION_STEP_MINUTES === 0) {
+    return { durationMinutes: minutes, rawDurationMinutes: null };
+  }
+  if (policy === 'strict') {
+    throw new Error('Duration must be a multiple of 15 minutes');
+  }
+  return { durationMinutes: roundToDurationStep(minutes, policy), rawDurationMinutes: minutes };
+}
+
+/** Preview / warning wording: `0:52:30 rounded up to 1:00`. */
+export function describeRounding(adjustment: DurationAdjustment, policy: RoundingPolicy): string {
+  const raw = adjustment.rawDurationMinutes ?? adjustment.durationMinutes;
+  return `${formatClockDuration(raw)} rounded ${policy === 'nearest' ? '' : `${policy} `}to ${formatClockDuration(adjustment.durationMinutes)}`;
+}
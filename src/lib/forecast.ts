@@ -0,0 +1,108 @@
+/**
+ * Story 9.10 — estimate at completion (EAC). A project's remaining work is either what its open
+ * tasks' estimates still have left, or — trailing-average burn — the burn rate of the trailing
+ * `TRAILING_BURN_DAYS` (the `getTimeline` days in that window) kept up until `endDate`. The projected
+ * finish is estimate-based under either method — when that burn rate gets through the remaining
+ * estimates (trailing-average burn alone would always finish on `endDate`); both are compared with
+ * the budget and `endDate`. Open tasks are the pending and in-progress ones: blocked work is not
+ * being burned down, so it is left out like completed work.
+ */
+
+export const FORECAST_METHODS = ['remaining-estimates', 'trailing-burn'] as const;
+export type ForecastMethod = (typeof FORECAST_METHODS)[number];
+
+export const FORECAST_METHOD_LABELS: Record<ForecastMethod, string> = {
+  'remaining-estimates': 'Remaining estimates',
+  'trailing-burn': 'Trailing-average burn',
+};
+
+export const DEFAULT_FORECAST_METHOD: ForecastMethod = 'remaining-estimates';
+
+/** Days of logged time (today included) the burn rate averages over. */
+export const TRAILING_BURN_DAYS = 28;
+
+export interface ForecastInput {
+  method: ForecastMethod;
+  actualHours: number;
+  budgetHours: number | null;
+  endDate: Date | null;
+  /** Minutes logged in the trailing `TRAILING_BURN_DAYS` */
+  trailingMinutes: number;
+  /** Task counts and estimates cover leaf tasks only (Story 9.3: a parent's subtasks are its work) */
+  openTaskCount: number;
+  openTasksWithoutEstimate: number;
+  /** Open tasks' estimates minus the hours already logged on each (never below 0 per task) */
+  remainingEstimateHours: number;
+}
+
+export interface ProjectForecast {
+  method: ForecastMethod;
+  /** Hours per calendar day over the trailing `TRAILING_BURN_DAYS` */
+  burnRateHoursPerDay: number;
+  /** null (TBD) for trailing-average burn without an end date */
+  remainingHours: number | null;
+  estimateAtCompletion: number | null;
+  /**
+   * When the burn rate gets through the remaining estimates — estimate-based for either method.
+   * Local day; today when nothing remains; null while there is no recent burn to project with
+   */
+  projectedFinishDate: Date | null;
+  /** Estimate at completion minus the budget (negative = under); null without either */
+  projectedOverrunHours: number | null;
+  /** Days from `endDate` to the projected finish (negative = early); null without either */
+  projectedOverrunDays: number | null;
+  openTaskCount: number;
+  /** Left out of the remaining estimates (counted as 0) */
+  openTasksWithoutEstimate: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function localDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/** First day of the trailing burn window that ends on `today`. */
+export function trailingBurnStart(today: Date): Date {
+  return new Date(today.getFullYear(), today.getMonth(), today.getDate() - (TRAILING_BURN_DAYS - 1));
+}
+
+export function forecastProject(input: ForecastInput, today: Date = new Date()): ProjectForecast {
+  const burnRateHoursPerDay = input.trailingMinutes / 60 / TRAILING_BURN_DAYS;
+
+  const day = localDay(today);
+  let remainingHours: number | null;
+  if (input.openTaskCount === 0) remainingHours = 0;
+  else if (input.method === 'remaining-estimates') remainingHours = input.remainingEstimateHours;
+  else if (input.endDate === null) remainingHours = null;
+  else {
+    // the days after today up to and including the end date (none once it has passed)
+    const daysLeft = Math.max(0, Math.round((localDay(input.endDate).getTime() - day.getTime()) / DAY_MS));
+    remainingHours = burnRateHoursPerDay * daysLeft;
+  }
+
+  const estimateAtCompletion = remainingHours === null ? null : input.actualHours + remainingHours;
+
+  let projectedFinishDate: Date | null = null;
+  if (input.remainingEstimateHours === 0) projectedFinishDate = day;
+  else if (burnRateHoursPerDay > 0) {
+    const days = Math.ceil(input.remainingEstimateHours / burnRateHoursPerDay);
+    projectedFinishDate = new Date(day.getFullYear(), day.getMonth(), day.getDate() + days);
+  }
+
+  return {
+    method: input.method,
+    burnRateHoursPerDay,
+    remainingHours,
+    estimateAtCompletion,
+    projectedFinishDate,
+    projectedOverrunHours:
+      estimateAtCompletion === null || input.budgetHours === null ? null : estimateAtCompletion - input.budgetHours,
+    projectedOverrunDays:
+      projectedFinishDate === null || input.endDate === null
+        ? null
+        : Math.round((projectedFinishDate.getTime() - localDay(input.endDate).getTime()) / DAY_MS),
+    openTaskCount: input.openTaskCount,
+    openTasksWithoutEstimate: input.openTasksWithoutEstimate,
+  };
+}
@@ -0,0 +1,34 @@
+/**
+ * Story 7.11 — background imports of large timesheet files (`POST /api/import-jobs`).
+ * The upload returns a job id; the upload page polls `importJob.get` until the job finishes.
+ */
+
+export const IMPORT_JOB_STATUSES = ['queued', 'parsing', 'inserting', 'completed', 'failed', 'cancelled'] as const;
+export type ImportJobStatus = (typeof IMPORT_JOB_STATUSES)[number];
+
+export const IMPORT_JOB_STATUS_LABELS: Record<ImportJobStatus, string> = {
+  queued: 'Queued',
+  parsing: 'Reading rows',
+  inserting: 'Saving entries',
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+/** Statuses of a job that is still running (and can be cancelled). */
+export function isActiveImportJob(status: ImportJobStatus): boolean {
+  return status === 'queued' || status === 'parsing' || status === 'inserting';
+}
+
+/**
+ * Largest file a background import accepts. The workbook is still read whole (SheetJS has no
+ * streaming reader), which takes roughly 30× the file size in memory for XLSX and 70× for CSV —
+ * 25 MB covers 100k+ row files while keeping a job under ~2 GB.
+ */
+export const IMPORT_JOB_MAX_BYTES = 25 * 1024 * 1024;
+
+/** Files above this size skip the in-browser preview and can only be imported in the background. */
+export const BACKGROUND_IMPORT_THRESHOLD_BYTES = 10 * 1024 * 1024;
+
+/** Parse errors kept on a failed job (the count covers all of them). */
+export const IMPORT_JOB_ERROR_LIMIT = 50;
@@ -0,0 +1,97 @@
+/**
+ * Story 9.6 — invoices built from a project's uninvoiced time in a period. Each line is the time of
+ * one task or developer at one hourly rate (the rate in force for each entry, Story 9.5), so an
+ * item billed at two rates in the period gets two lines. Amounts are rounded to cents per line and
+ * the invoice total is the sum of its lines.
+ */
+
+export const INVOICE_GROUP_BY = ['task', 'developer'] as const;
+export type InvoiceGroupBy = (typeof INVOICE_GROUP_BY)[number];
+
+export const INVOICE_GROUP_BY_LABELS: Record<InvoiceGroupBy, string> = {
+  task: 'Task',
+  developer: 'Developer',
+};
+
+/** `issued` invoices lock their entries; voiding unlocks them. */
+export const INVOICE_STATUSES = ['issued', 'void'] as const;
+export type InvoiceStatus = (typeof INVOICE_STATUSES)[number];
+
+export const INVOICE_STATUS_LABELS: Record<InvoiceStatus, string> = {
+  issued: 'Issued',
+  void: 'Void',
+};
+
+/** Label of the line for time without a task. */
+export const NO_TASK_LINE_LABEL = '(no task)';
+
+export interface InvoiceEntryInput {
+  taskName: string | null;
+  developerName: string;
+  durationMinutes: number;
+  /** Rate in force for the entry; must be set before invoicing */
+  hourlyRate: number;
+}
+
+export interface InvoiceLineDraft {
+  label: string;
+  hours: number;
+  hourlyRate: number;
+  amount: number;
+}
+
+/** Round to cents. */
+export function roundMoney(amount: number): number {
+  return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+/** Lines of an invoice: one per item and rate, by label then rate. */
+export function buildInvoiceLines(entries: readonly InvoiceEntryInput[], groupBy: InvoiceGroupBy): InvoiceLineDraft[] {
+  const lines = new Map<string, { label: string; minutes: number; hourlyRate: number }>();
+  for (const entry of entries) {
+    const label = groupBy === 'task' ? (entry.taskName ?? NO_TASK_LINE_LABEL) : entry.developerName;
+    const key = JSON.stringify([label, entry.hourlyRate]);
+    const line = lines.get(key) ?? { label, minutes: 0, hourlyRate: entry.hourlyRate };
+    line.minutes += entry.durationMinutes;
+    lines.set(key, line);
+  }
+
+  return Array.from(lines.values())
+    .sort((a, b) => a.label.localeCompare(b.label) || a.hourlyRate - b.hourlyRate)
+    .map((line) => ({
+      label: line.label,
+      hours: line.minutes / 60,
+      hourlyRate: line.hourlyRate,
+      amount: roundMoney((line.minutes / 60) * line.hourlyRate),
+    }));
+}
+
+/** `INV-0042` */
+export function formatInvoiceNumber(sequence: number): string {
+  return `INV-${String(sequence).padStart(4, '0')}`;
+}
+
+/** Why an invoiced entry cannot be changed or deleted. */
+export function invoicedEntryMessage(invoiceNumber: string): string {
+  return `This time entry is on invoice ${invoiceNumber} and is locked. Void the invoice to change it.`;
+}
+
+/** Why an import (replacement or discard) cannot touch invoiced entries. */
+export function invoicedEntriesMessage(invoiceNumber: string): string {
+  return `Some of this time is on invoice ${invoiceNumber} and is locked. Void the invoice first.`;
+}
+
+/** Why a project with invoices (issued or void) cannot be deleted: their numbers must stay. */
+export function projectInvoicedMessage(invoiceNumber: string): string {
+  return `This project has invoice ${invoiceNumber}. Projects with invoices cannot be deleted.`;
+}
+
+/** Why a task whose time is locked on an invoice cannot be deleted. */
+export function taskInvoicedMessage(invoiceNumber: string): string {
+  return `Some of this task's time is on invoice ${invoiceNumber} and is locked. Void the invoice first.`;
+}
+
+/** Why a developer whose time is locked on an invoice cannot be deleted. */
+export function developerInvoicedMessage(invoiceNumber: string): string {
+  return `Some of this developer's time is on invoice ${invoiceNumber} and is locked. Void the invoice first.`;
+}
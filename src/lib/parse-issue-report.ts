@@ -0,0 +1,60 @@
+/**
+ * Story 7.13 — parse errors and warnings as a report a manager can send back to the developer:
+ * a Markdown summary here, and an annotated copy of the workbook (`ParseIssueReportService`).
+ */
+
+import type { ParseIssue } from './parse-issues';
+
+export const PARSE_ISSUE_REPORT_FORMATS = ['xlsx', 'markdown'] as const;
+export type ParseIssueReportFormat = (typeof PARSE_ISSUE_REPORT_FORMATS)[number];
+
+/** `timesheet.xlsx` → `timesheet-issues.xlsx` (or `.md`). */
+export function parseIssueReportFileName(fileName: string, format: ParseIssueReportFormat): string {
+  const base = fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]*$/, '').trim() || 'timesheet';
+  return `${base}-issues.${format === 'xlsx' ? 'xlsx' : 'md'}`;
+}
+
+/** Where an issue is, as written in the reports: `Row 12`, `Cell G14` or `—`. */
+export function parseIssueLocationLabel(issue: Pick<ParseIssue, 'row' | 'cell'>): string {
+  if (issue.cell) return `Cell ${issue.cell}`;
+  return issue.row !== null ? `Row ${issue.row}` : '—';
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+function issueTable(issues: ParseIssue[], withSheet: boolean): string[] {
+  const lines = withSheet ? ['| Sheet | Location | Problem |', '| --- | --- | --- |'] : ['| Location | Problem |', '| --- | --- |'];
+  for (const issue of issues) {
+    const cells = [parseIssueLocationLabel(issue), issue.message];
+    if (withSheet) cells.unshift(issue.sheet ?? '—');
+    lines.push(`| ${cells.map(markdownCell).join(' | ')} |`);
+  }
+  return lines;
+}
+
+/**
+ * Markdown summary of a parse: counts, then an errors table and a warnings table with the sheet
+ * (when several sheets were parsed), row or cell, and the problem.
+ */
+export function parseIssueMarkdown(fileName: string, issues: ParseIssue[], withSheet = false): string {
+  const errors = issues.filter((i) => i.severity === 'error');
+  const warnings = issues.filter((i) => i.severity === 'warning');
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+  const lines = [`# Import issues — ${fileName}`, ''];
+  if (issues.length === 0) {
+    lines.push('No problems found — the file can be imported as it is.');
+    return `${lines.join('\n')}\n`;
+  }
+  lines.push(
+    `${plural(errors.length, 'error')}, ${plural(warnings.length, 'warning')}.` +
+      (errors.length
+        ? ' Errors block the import: fix those rows and send the file back.'
+        : ' Warnings do not block the import, but check the rows listed.')
+  );
+  if (errors.length) lines.push('', '## Errors', '', ...issueTable(errors, withSheet));
+  if (warnings.length) lines.push('', '## Warnings', '', ...issueTable(warnings, withSheet));
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,131 @@
+/**
+ * Story 7.14 — structured parse issues. `ExcelParser` records every problem it finds as a
+ * `ParseIssue` (what went wrong, where, and the value it read); `ParseResult.errors` / `warnings`
+ * are these issues formatted as text (`[Sheet] Row 12: …`).
+ */
+
+export type ParseIssueSeverity = 'error' | 'warning';
+
+export const PARSE_ISSUE_CODES = [
+  'unreadable_file',
+  'sheet_layout',
+  'unknown_sheet',
+  'mapped_column_missing',
+  'week_ending',
+  'missing_developer',
+  'missing_project',
+  'missing_date',
+  'invalid_date',
+  'invalid_time',
+  'missing_duration',
+  'invalid_duration',
+  'off_grid_duration',
+  'invalid_billable',
+  'unknown_client',
+  'client_mismatch',
+  'duration_rounded',
+  'row_skipped',
+  'unknown_entity',
+  'invalid_project',
+  'tracker_row',
+  'row_error',
+] as const;
+export type ParseIssueCode = (typeof PARSE_ISSUE_CODES)[number];
+
+export const PARSE_ISSUE_CODE_LABELS: Record<ParseIssueCode, string> = {
+  unreadable_file: 'Unreadable file',
+  sheet_layout: 'Sheet layout',
+  unknown_sheet: 'Unknown sheet',
+  mapped_column_missing: 'Mapped column missing',
+  week_ending: 'Week ending',
+  missing_developer: 'Missing developer',
+  missing_project: 'Missing project',
+  missing_date: 'Missing date',
+  invalid_date: 'Invalid date',
+  invalid_time: 'Invalid start / end time',
+  missing_duration: 'Missing duration',
+  invalid_duration: 'Invalid duration',
+  off_grid_duration: 'Off the 15-minute grid',
+  invalid_billable: 'Invalid billable value',
+  unknown_client: 'Unknown client',
+  client_mismatch: "Not the project's client",
+  duration_rounded: 'Duration rounded',
+  row_skipped: 'Row skipped',
+  unknown_entity: 'Unknown in strict import',
+  invalid_project: 'Invalid projects',
+  tracker_row: 'Unreadable tracker row',
+  row_error: 'Other row error',
+};
+
+/** The Vandura column a row issue is about (the preview table's columns). */
+export const PARSE_ISSUE_COLUMNS = [
+  'developer',
+  'project',
+  'task',
+  'date',
+  'startTime',
+  'endTime',
+  'duration',
+  'notes',
+  'billable',
+  'client',
+] as const;
+export type ParseIssueColumn = (typeof PARSE_ISSUE_COLUMNS)[number];
+
+export const PARSE_ISSUE_COLUMN_LABELS: Record<ParseIssueColumn, string> = {
+  developer: 'Developer',
+  project: 'Project',
+  task: 'Task',
+  date: 'Date',
+  startTime: 'Start time',
+  endTime: 'End time',
+  duration: 'Duration',
+  notes: 'Notes',
+  billable: 'Billable',
+  client: 'Client',
+};
+
+export interface ParseIssue {
+  code: ParseIssueCode;
+  severity: ParseIssueSeverity;
+  /** null for file-wide issues (and CSV / JSON uploads before `parseFile` names the sheet). */
+  sheet: string | null;
+  /** 1-based sheet row; null for sheet- or file-level issues. */
+  row: number | null;
+  column: ParseIssueColumn | null;
+  /** Weekly-grid day cell, e.g. `G14`. */
+  cell: string | null;
+  /** The value as read from the file. */
+  value: string | null;
+  message: string;
+  /** How the text form refers to the row — `Row 12`, `Cell G14 (0.3 h)`; null when not row-level. */
+  location: string | null;
+}
+
+/** A sheet- or file-level issue (no row). */
+export function parseIssue(
+  code: ParseIssueCode,
+  severity: ParseIssueSeverity,
+  message: string,
+  details: Partial<Omit<ParseIssue, 'code' | 'severity' | 'message'>> = {}
+): ParseIssue {
+  return { code, severity, sheet: null, row: null, column: null, cell: null, value: null, location: null, message, ...details };
+}
+
+/** `[Sheet] Row 12: message` — the sheet prefix only when `withSheet` (multi-sheet parses). */
+export function formatParseIssue(issue: ParseIssue, withSheet = false): string {
+  const sheet = withSheet && issue.sheet !== null ? `[${issue.sheet}] ` : '';
+  return `${sheet}${issue.location ? `${issue.location}: ` : ''}${issue.message}`;
+}
+
+/** `issues` plus their text forms, as carried by a parse result. */
+export function withIssueMessages(
+  issues: ParseIssue[],
+  withSheet = false
+): { issues: ParseIssue[]; errors: string[]; warnings: string[] } {
+  return {
+    issues,
+    errors: issues.filter((i) => i.severity === 'error').map((i) => formatParseIssue(i, withSheet)),
+    warnings: issues.filter((i) => i.severity === 'warning').map((i) => formatParseIssue(i, withSheet)),
+  };
+}
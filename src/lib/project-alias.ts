@@ -0,0 +1,8 @@
+/**
+ * Story 3.4 — project aliases map raw sheet tokens to existing projects.
+ * Matching is case-insensitive and ignores surrounding/repeated whitespace, so "VAN-01",
+ * " van-01 " and "Van-01" are the same alias.
+ */
+export function normalizeProjectAlias(raw: string): string {
+  return raw.trim().replace(/\s+/g, ' ').toLowerCase();
+}
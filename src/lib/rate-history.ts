@@ -0,0 +1,77 @@
+/**
+ * Story 9.5 — effective-dated developer rates (`developer_rates`). Time is priced at the rate in
+ * force when the entry starts:
+ * 1. the developer's latest rate for the entry's project with `effectiveFrom` on or before it;
+ * 2. else their latest general rate (no project) on or before it;
+ * 3. else the base rate `developers.hourlyRate`;
+ * 4. else the default rate of the project's client (Story 9.8); null = TBD.
+ * Changing a rate from a date leaves the cost of earlier time alone. `entryHourlyRateSql` in
+ * the AggregationEngine applies the same rules in SQL.
+ */
+
+export interface RateHistoryEntry {
+  /** null = general rate; otherwise an override on that project */
+  projectId: number | null;
+  hourlyRate: number;
+  effectiveFrom: Date;
+}
+
+export type RateStatus = 'past' | 'current' | 'scheduled';
+
+export const RATE_STATUS_LABELS: Record<RateStatus, string> = {
+  past: 'Past',
+  current: 'Current',
+  scheduled: 'Scheduled',
+};
+
+/** Latest rate of `rates` with `effectiveFrom` on or before `at`, or undefined. */
+function latestInForce<T extends RateHistoryEntry>(rates: readonly T[], at: Date): T | undefined {
+  let latest: T | undefined;
+  for (const rate of rates) {
+    if (rate.effectiveFrom.getTime() > at.getTime()) continue;
+    if (!latest || rate.effectiveFrom.getTime() >= latest.effectiveFrom.getTime()) latest = rate;
+  }
+  return latest;
+}
+
+/** One developer's rate for time on `projectId` starting at `at` (rules above). */
+export function rateInForce(
+  rates: readonly RateHistoryEntry[],
+  at: Date,
+  projectId: number | null,
+  baseRate: number | null,
+  clientRate: number | null = null
+): number | null {
+  const override =
+    projectId === null ? undefined : latestInForce(rates.filter((rate) => rate.projectId === projectId), at);
+  const general = latestInForce(
+    rates.filter((rate) => rate.projectId === null),
+    at
+  );
+  return override?.hourlyRate ?? general?.hourlyRate ?? baseRate ?? clientRate;
+}
+
+/**
+ * Whether each rate is past, current (in force `now` for its project or as the general rate) or
+ * scheduled; newest first.
+ */
+export function rateHistoryStatuses<T extends RateHistoryEntry>(
+  rates: readonly T[],
+  now: Date
+): Array<T & { status: RateStatus }> {
+  const current = new Set<T>();
+  for (const projectId of new Set(rates.map((rate) => rate.projectId))) {
+    const inForce = latestInForce(
+      rates.filter((rate) => rate.projectId === projectId),
+      now
+    );
+    if (inForce) current.add(inForce);
+  }
+
+  return [...rates]
+    .sort((a, b) => b.effectiveFrom.getTime() - a.effectiveFrom.getTime())
+    .map((rate) => ({
+      ...rate,
+      status: current.has(rate) ? 'current' : rate.effectiveFrom.getTime() > now.getTime() ? 'scheduled' : 'past',
+    }));
+}
@@ -1,4 +1,4 @@
-import type { inferRouterOutputs } from '@trpc/server';
+import type { inferRouterInputs, inferRouterOutputs } from '@trpc/server';
 import type { AppRouter } from '@/server/routers';
 
 export type ProjectSummaryRow = inferRouterOutputs<AppRouter>['report']['projectsSummary'][number];
@@ -8,4 +8,12 @@ export type DeveloperProductivityRow =
   inferRouterOutputs<AppRouter>['report']['developerProductivity'][number];
 export type TaskByProjectRow = inferRouterOutputs<AppRouter>['task']['listByProject'][number];
 export type DeveloperListRow = inferRouterOutputs<AppRouter>['developer']['list'][number];
+export type ClientListRow = inferRouterOutputs<AppRouter>['customer']['list'][number];
 export type ProjectListRow = inferRouterOutputs<AppRouter>['project']['list'][number];
+export type ImportBatchListRow = inferRouterOutputs<AppRouter>['importBatch']['list'][number];
+export type ImportJobData = NonNullable<inferRouterOutputs<AppRouter>['importJob']['get']>;
+export type ParseIssueReportRequest = Omit<inferRouterInputs<AppRouter>['timesheet']['parseIssueReport'], 'format'>;
+export type ActualsReportGroup = inferRouterOutputs<AppRouter>['report']['actualsVsEstimates']['groups'][number];
+export type ActualsReportCost = inferRouterOutputs<AppRouter>['report']['actualsVsEstimates']['cost'];
+export type InvoiceListRow = inferRouterOutputs<AppRouter>['invoice']['list'][number];
+export type InvoicePreviewData = inferRouterOutputs<AppRouter>['invoice']['preview'];
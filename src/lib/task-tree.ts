@@ -0,0 +1,164 @@
+/**
+ * Story 9.3 — parent / subtask hierarchy (`tasks.parentTaskId`) and its hour rollups.
+ *
+ * Rollup rules:
+ * - A parent's own estimate covers work on the parent itself, on top of its subtasks. Its rolled-up
+ *   estimate is its own estimate plus every subtask's rolled-up estimate.
+ * - The rolled-up estimate is TBD when the task or any task below it is TBD (Hannibal B — set `0`
+ *   on a parent that only groups subtasks). Summing the roots' rollups gives the flat task total.
+ * - Rolled-up actuals are the task's own actuals plus every task below it; so is the actual cost
+ *   (Story 9.4), which is TBD when any of those costs is.
+ */
+
+import { sumCosts } from './cost';
+
+export interface TaskTreeInput {
+  id: number;
+  parentTaskId: number | null;
+}
+
+export interface TaskTreeNode<T extends TaskTreeInput> {
+  task: T;
+  depth: number;
+  children: TaskTreeNode<T>[];
+}
+
+/** A visible row of an expandable tree table. */
+export interface TaskTreeRow<T extends TaskTreeInput> {
+  task: T;
+  depth: number;
+  hasChildren: boolean;
+  expanded: boolean;
+}
+
+export interface TaskRollup {
+  /** null = TBD somewhere in the subtree. */
+  estimatedHours: number | null;
+  actualHours: number;
+  /** Story 9.4 — null = TBD (time by a developer without a rate) somewhere in the subtree. */
+  actualCost: number | null;
+  /** Tasks below this one (all levels). */
+  subtaskCount: number;
+}
+
+/**
+ * Forest of `tasks`, keeping their order among siblings. A task whose parent is not in the list
+ * (another project, or filtered out — e.g. a completed parent hidden from the table) is a root;
+ * so is any task on a parent loop in existing data.
+ */
+export function buildTaskTree<T extends TaskTreeInput>(tasks: readonly T[]): TaskTreeNode<T>[] {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const children = new Map<number, T[]>();
+  const roots: T[] = [];
+
+  for (const task of tasks) {
+    const parentId = task.parentTaskId;
+    if (parentId !== null && byId.has(parentId) && !taskAncestorLoop(task.id, byId)) {
+      children.set(parentId, [...(children.get(parentId) ?? []), task]);
+    } else {
+      roots.push(task);
+    }
+  }
+
+  const node = (task: T, depth: number): TaskTreeNode<T> => ({
+    task,
+    depth,
+    children: (children.get(task.id) ?? []).map((child) => node(child, depth + 1)),
+  });
+  return roots.map((task) => node(task, 0));
+}
+
+/** True when walking up from `taskId` comes back to a task already visited. */
+function taskAncestorLoop(taskId: number, byId: ReadonlyMap<number, TaskTreeInput>): boolean {
+  const seen = new Set<number>([taskId]);
+  let parentId = byId.get(taskId)?.parentTaskId ?? null;
+  while (parentId !== null && byId.has(parentId)) {
+    if (seen.has(parentId)) return true;
+    seen.add(parentId);
+    parentId = byId.get(parentId)!.parentTaskId;
+  }
+  return false;
+}
+
+/** Rows to render: depth-first, skipping the subtasks of collapsed parents. */
+export function flattenTaskTree<T extends TaskTreeInput>(
+  nodes: readonly TaskTreeNode<T>[],
+  expanded: ReadonlySet<number>
+): TaskTreeRow<T>[] {
+  const rows: TaskTreeRow<T>[] = [];
+  const visit = (node: TaskTreeNode<T>) => {
+    const isExpanded = expanded.has(node.task.id);
+    rows.push({ task: node.task, depth: node.depth, hasChildren: node.children.length > 0, expanded: isExpanded });
+    if (isExpanded) node.children.forEach(visit);
+  };
+  nodes.forEach(visit);
+  return rows;
+}
+
+/** Ids of every task with subtasks (the "expand all" set). */
+export function taskTreeParentIds<T extends TaskTreeInput>(nodes: readonly TaskTreeNode<T>[]): Set<number> {
+  const ids = new Set<number>();
+  const visit = (node: TaskTreeNode<T>) => {
+    if (node.children.length === 0) return;
+    ids.add(node.task.id);
+    node.children.forEach(visit);
+  };
+  nodes.forEach(visit);
+  return ids;
+}
+
+/** Rolled-up estimate and actuals for every task, by id (see the rules above). */
+export function rollUpTaskHours<
+  T extends TaskTreeInput & { estimatedHours: number | null; actualHours: number; actualCost?: number | null },
+>(tasks: readonly T[]): Map<number, TaskRollup> {
+  const rollups = new Map<number, TaskRollup>();
+  const visit = (node: TaskTreeNode<T>): TaskRollup => {
+    const own = node.task;
+    const rollup: TaskRollup = {
+      estimatedHours: own.estimatedHours,
+      actualHours: own.actualHours,
+      // no cost given (e.g. the task table) = nothing to roll up
+      actualCost: own.actualCost === undefined ? 0 : own.actualCost,
+      subtaskCount: 0,
+    };
+    for (const child of node.children.map(visit)) {
+      rollup.estimatedHours =
+        rollup.estimatedHours === null || child.estimatedHours === null
+          ? null
+          : rollup.estimatedHours + child.estimatedHours;
+      rollup.actualHours += child.actualHours;
+      rollup.actualCost = sumCosts([rollup.actualCost, child.actualCost]);
+      rollup.subtaskCount += child.subtaskCount + 1;
+    }
+    rollups.set(own.id, rollup);
+    return rollup;
+  };
+  buildTaskTree(tasks).forEach(visit);
+  return rollups;
+}
+
+/**
+ * Would making `parentTaskId` the parent of `taskId` close a loop? True for the task itself and
+ * for any task below it. `tasks` is the project's task list (current parents).
+ */
+export function wouldCreateTaskCycle(
+  taskId: number,
+  parentTaskId: number,
+  tasks: readonly TaskTreeInput[]
+): boolean {
+  const parentOf = new Map(tasks.map((task) => [task.id, task.parentTaskId]));
+  const seen = new Set<number>();
+  let current: number | null = parentTaskId;
+  while (current !== null && !seen.has(current)) {
+    if (current === taskId) return true;
+    seen.add(current);
+    current = parentOf.get(current) ?? null;
+  }
+  return false;
+}
+
+/** Tasks that may become `taskId`'s parent: not the task itself or anything below it. */
+export function parentTaskOptions<T extends TaskTreeInput>(tasks: readonly T[], taskId?: number): T[] {
+  if (taskId === undefined) return [...tasks];
+  return tasks.filter((task) => !wouldCreateTaskCycle(taskId, task.id, tasks));
+}
@@ -0,0 +1,130 @@
+/**
+ * Story 7.1 — canonical identity for imported time entries.
+ *
+ * - **Slot** = developer + project + task (or none) + start time. Weekly grids put every cell at
+ *   local midnight, so task must be part of the slot or different tasks on one day would collide.
+ * - **Identity** = slot + duration + notes. Same identity as an existing row → skip silently.
+ * - Same slot, different duration/notes → **conflict**; the user picks an action before commit.
+ */
+
+export type TimeEntryIdentityFields = {
+  developerId: number;
+  projectId: number;
+  taskId?: number | null;
+  startTime: Date;
+  durationMinutes: number;
+  description?: string | null;
+};
+
+export type ExistingTimeEntryForIdentity = TimeEntryIdentityFields & { id: number };
+
+export const IMPORT_CONFLICT_ACTIONS = ['keep-existing', 'take-incoming', 'keep-both'] as const;
+export type ImportConflictAction = (typeof IMPORT_CONFLICT_ACTIONS)[number];
+
+export type ImportConflictResolution = {
+  /** Position of the incoming row in the parsed entries (stable for the same file). */
+  index: number;
+  existingId: number;
+  action: ImportConflictAction;
+};
+
+export type ImportClassification = {
+  newIndexes: number[];
+  duplicateIndexes: number[];
+  conflicts: Array<{ index: number; existingId: number }>;
+};
+
+function normalizeNotes(v: string | null | undefined): string {
+  return (v ?? '').trim();
+}
+
+export function timeEntrySlotKey(e: TimeEntryIdentityFields): string {
+  return [e.developerId, e.projectId, e.taskId ?? '', e.startTime.getTime()].join('|');
+}
+
+export function isSameTimeEntryIdentity(a: TimeEntryIdentityFields, b: TimeEntryIdentityFields): boolean {
+  return (
+    timeEntrySlotKey(a) === timeEntrySlotKey(b) &&
+    a.durationMinutes === b.durationMinutes &&
+    normalizeNotes(a.description) === normalizeNotes(b.description)
+  );
+}
+
+/**
+ * Compare incoming rows against existing `time_entries`. Rows with `developerId` 0 (preview rows
+ * whose developer/project/task are not in the DB yet) are always new.
+ * When a slot already holds several rows, any identical one makes the incoming row a duplicate;
+ * otherwise the conflict points at the lowest existing id.
+ */
+export function classifyImportEntries(
+  incoming: ReadonlyArray<TimeEntryIdentityFields>,
+  existing: ReadonlyArray<ExistingTimeEntryForIdentity>
+): ImportClassification {
+  const bySlot = new Map<string, ExistingTimeEntryForIdentity[]>();
+  for (const e of [...existing].sort((a, b) => a.id - b.id)) {
+    const key = timeEntrySlotKey(e);
+    const list = bySlot.get(key);
+    if (list) list.push(e);
+    else bySlot.set(key, [e]);
+  }
+
+  const result: ImportClassification = { newIndexes: [], duplicateIndexes: [], conflicts: [] };
+
+  incoming.forEach((entry, index) => {
+    const candidates = entry.developerId > 0 ? bySlot.get(timeEntrySlotKey(entry)) : undefined;
+    if (!candidates || candidates.length === 0) {
+      result.newIndexes.push(index);
+      return;
+    }
+    if (candidates.some((c) => isSameTimeEntryIdentity(c, entry))) {
+      result.duplicateIndexes.push(index);
+      return;
+    }
+    result.conflicts.push({ index, existingId: candidates[0]!.id });
+  });
+
+  return result;
+}
+
+/**
+ * Apply per-row conflict decisions. A resolution only counts when both `index` and `existingId`
+ * still match (the sheet or DB may have changed since preview); anything else stays unresolved.
+ */
+export function applyImportConflictResolutions(
+  classification: ImportClassification,
+  resolutions: ReadonlyArray<ImportConflictResolution>
+): {
+  insertIndexes: number[];
+  replacements: Array<{ index: number; existingId: number }>;
+  keptExistingIndexes: number[];
+  unresolved: Array<{ index: number; existingId: number }>;
+} {
+  const byIndex = new Map(resolutions.map((r) => [r.index, r]));
+  const insertIndexes = [...classification.newIndexes];
+  const replacements: Array<{ index: number; existingId: number }> = [];
+  const keptExistingIndexes: number[] = [];
+  const unresolved: Array<{ index: number; existingId: number }> = [];
+  const replacedIds = new Set<number>();
+
+  for (const conflict of classification.conflicts) {
+    const r = byIndex.get(conflict.index);
+    if (!r || r.existingId !== conflict.existingId) {
+      unresolved.push(conflict);
+      continue;
+    }
+    if (r.action === 'keep-existing') {
+      keptExistingIndexes.push(conflict.index);
+    } else if (r.action === 'keep-both') {
+      insertIndexes.push(conflict.index);
+    } else if (replacedIds.has(conflict.existingId)) {
+      // Two incoming rows cannot both overwrite the same existing entry — keep the later one as new.
+      insertIndexes.push(conflict.index);
+    } else {
+      replacedIds.add(conflict.existingId);
+      replacements.push(conflict);
+    }
+  }
+
+  insertIndexes.sort((a, b) => a - b);
+  return { insertIndexes, replacements, keptExistingIndexes, unresolved };
+}
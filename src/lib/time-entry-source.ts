@@ -0,0 +1,58 @@
+/**
+ * Story 7.12 — provenance of a time entry: how it was created and, for imports, the file, sheet
+ * and row (or weekly-grid cell) it came from. Stored on `time_entries`; null type = before 7.12.
+ */
+
+export const TIME_ENTRY_SOURCE_TYPES = ['manual', 'excel', 'csv', 'json', 'api'] as const;
+export type TimeEntrySourceType = (typeof TIME_ENTRY_SOURCE_TYPES)[number];
+
+export const TIME_ENTRY_SOURCE_LABELS: Record<TimeEntrySourceType, string> = {
+  manual: 'Entered manually',
+  excel: 'Excel import',
+  csv: 'CSV / TSV import',
+  json: 'Time-tracker JSON import',
+  api: 'API',
+};
+
+export interface TimeEntrySource {
+  type: TimeEntrySourceType;
+  fileName?: string | null;
+  sheet?: string | null;
+  /** 1-based sheet / file row (for JSON exports, the entry's position in the export) */
+  row?: number | null;
+  /** Weekly-grid day cell, e.g. `G14` */
+  cell?: string | null;
+}
+
+/** e.g. `Excel import — timesheet.xlsx, sheet "Week 1", cell G14`. */
+export function describeTimeEntrySource(source: TimeEntrySource | null): string {
+  if (!source) return 'Unknown (recorded before sources were tracked)';
+  const where = [
+    source.fileName,
+    source.sheet ? `sheet "${source.sheet}"` : null,
+    source.cell
+      ? `cell ${source.cell}`
+      : source.row
+        ? `${source.type === 'json' ? 'entry' : 'row'} ${source.row}`
+        : null,
+  ].filter(Boolean);
+  return where.length ? `${TIME_ENTRY_SOURCE_LABELS[source.type]} — ${where.join(', ')}` : TIME_ENTRY_SOURCE_LABELS[source.type];
+}
+
+/** Provenance from the `time_entries` columns (null for rows saved before Story 7.12). */
+export function timeEntrySourceOf(row: {
+  sourceType: TimeEntrySourceType | null;
+  sourceFileName: string | null;
+  sourceSheet: string | null;
+  sourceRow: number | null;
+  sourceCell: string | null;
+}): TimeEntrySource | null {
+  if (!row.sourceType) return null;
+  return {
+    type: row.sourceType,
+    fileName: row.sourceFileName,
+    sheet: row.sourceSheet,
+    row: row.sourceRow,
+    cell: row.sourceCell,
+  };
+}
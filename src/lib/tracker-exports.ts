@@ -0,0 +1,245 @@
+import { normalizeHeader } from './column-mapping';
+
+/**
+ * Story 7.6 — adapters for time-tracker exports (Toggl Track, Clockify, Harvest).
+ * Each adapter recognises its tool's detailed-export header row (CSV / XLSX) and converts a row
+ * into a `TrackerEntry` with exact (unrounded) minutes. JSON exports are flattened into the same
+ * header-keyed records first, so CSV, XLSX and JSON share one conversion path.
+ */
+
+export const TRACKER_TOOLS = ['toggl', 'clockify', 'harvest'] as const;
+export type TrackerTool = (typeof TRACKER_TOOLS)[number];
+
+export const TRACKER_TOOL_LABELS: Record<TrackerTool, string> = {
+  toggl: 'Toggl Track',
+  clockify: 'Clockify',
+  harvest: 'Harvest',
+};
+
+export interface TrackerEntry {
+  developer: string;
+  client: string;
+  /** Tool project, or the client when the entry has no project. */
+  project: string;
+  task: string;
+  date: string;
+  /** `HH:mm` (24h) or '' when the tool does not export a start time. */
+  startTime: string;
+  /** Exact duration from the export (fractional minutes). */
+  minutes: number;
+  notes: string;
+}
+
+export type TrackerRecord = Record<string, unknown>;
+
+interface TrackerAdapter {
+  tool: TrackerTool;
+  /** Normalized header names that must all be present. */
+  requiredHeaders: string[];
+  convert(get: (header: string) => string): TrackerEntry;
+  /** Flatten the tool's JSON export into records keyed by its CSV headers, or null if not this tool. */
+  fromJson(value: unknown): TrackerRecord[] | null;
+}
+
+/** `1:30:00`, `01:30`, `1.5` / `1,5` (decimal hours) → minutes; NaN when unparseable. */
+export function parseTrackerDuration(value: string): number {
+  const s = value.trim();
+  const clock = s.match(/^(\d+):(\d{1,2})(?::(\d{1,2}))?$/);
+  if (clock) {
+    return parseInt(clock[1]!, 10) * 60 + parseInt(clock[2]!, 10) + (clock[3] ? parseInt(clock[3], 10) / 60 : 0);
+  }
+  if (/^\d+(?:[.,]\d+)?$/.test(s)) return Number(s.replace(',', '.')) * 60;
+  return NaN;
+}
+
+/** `9:05:00 AM`, `09:05`, `21:05:30` → `HH:mm`; '' when blank or unparseable. */
+export function normalizeClockTime(value: string): string {
+  const m = value.trim().match(/^(\d{1,2}):(\d{2})(?::\d{2})?\s*([ap]\.?m\.?)?$/i);
+  if (!m) return '';
+  let hours = parseInt(m[1]!, 10);
+  const suffix = m[3]?.toLowerCase().replace(/\./g, '');
+  if (suffix === 'pm' && hours < 12) hours += 12;
+  if (suffix === 'am' && hours === 12) hours = 0;
+  if (hours > 23) return '';
+  return `${String(hours).padStart(2, '0')}:${m[2]}`;
+}
+
+/** Wall-clock date and time of an ISO timestamp as written (no timezone conversion). */
+function splitIsoTimestamp(value: unknown): { date: string; time: string } {
+  const m = typeof value === 'string' ? value.match(/^(\d{4}-\d{2}-\d{2})[T ](\d{2}:\d{2})/) : null;
+  return m ? { date: m[1]!, time: m[2]! } : { date: '', time: '' };
+}
+
+function clockFromMinutes(minutes: number): string {
+  const seconds = Math.round(minutes * 60);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${Math.floor(seconds / 3600)}:${pad(Math.floor((seconds % 3600) / 60))}:${pad(seconds % 60)}`;
+}
+
+/** ISO 8601 duration (`PT1H30M15S`) → minutes; NaN when unparseable. */
+function isoDurationToMinutes(value: string): number {
+  const m = value.match(/^PT(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?$/);
+  if (!m || value === 'PT') return NaN;
+  return Number(m[1] ?? 0) * 60 + Number(m[2] ?? 0) + Number(m[3] ?? 0) / 60;
+}
+
+function text(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+function nameOf(value: unknown): string {
+  return value && typeof value === 'object' && 'name' in value ? text((value as { name: unknown }).name) : '';
+}
+
+function arrayAt(value: unknown, key?: string): unknown[] | null {
+  if (Array.isArray(value)) return value;
+  if (key && value && typeof value === 'object' && Array.isArray((value as Record<string, unknown>)[key])) {
+    return (value as Record<string, unknown[]>)[key]!;
+  }
+  return null;
+}
+
+const ADAPTERS: TrackerAdapter[] = [
+  {
+    tool: 'clockify',
+    requiredHeaders: ['project', 'user', 'start date', 'duration (h)'],
+    convert: (get) => {
+      const decimal = get('duration (decimal)');
+      return {
+        developer: get('user'),
+        client: get('client'),
+        project: get('project'),
+        task: get('task'),
+        date: get('start date'),
+        startTime: normalizeClockTime(get('start time')),
+        minutes: parseTrackerDuration(decimal || get('duration (h)')),
+        notes: get('description'),
+      };
+    },
+    fromJson: (value) => {
+      const items = arrayAt(value, 'timeentries');
+      if (!items?.length || !items.every((e) => e && typeof e === 'object' && 'timeInterval' in e)) return null;
+      return items.map((raw) => {
+        const e = raw as Record<string, any>;
+        const start = splitIsoTimestamp(e.timeInterval?.start);
+        const duration = e.timeInterval?.duration;
+        const minutes =
+          typeof duration === 'number' ? duration / 60 : isoDurationToMinutes(text(duration));
+        return {
+          Project: text(e.projectName ?? e.project?.name),
+          Client: text(e.clientName ?? e.client?.name),
+          Task: text(e.taskName ?? e.task?.name),
+          User: text(e.userName ?? e.user?.name),
+          Description: text(e.description),
+          'Start Date': start.date,
+          'Start Time': start.time,
+          'Duration (h)': Number.isFinite(minutes) ? clockFromMinutes(minutes) : text(duration),
+        };
+      });
+    },
+  },
+  {
+    tool: 'toggl',
+    requiredHeaders: ['user', 'project', 'description', 'start date', 'duration'],
+    convert: (get) => ({
+      developer: get('user'),
+      client: get('client'),
+      project: get('project'),
+      task: get('task'),
+      date: get('start date'),
+      startTime: normalizeClockTime(get('start time')),
+      minutes: parseTrackerDuration(get('duration')),
+      notes: get('description'),
+    }),
+    fromJson: (value) => {
+      const items = arrayAt(value, 'data');
+      if (!items?.length || !items.every((e) => e && typeof e === 'object' && 'dur' in e && 'start' in e)) {
+        return null;
+      }
+      return items.map((raw) => {
+        const e = raw as Record<string, unknown>;
+        const start = splitIsoTimestamp(e.start);
+        return {
+          User: text(e.user),
+          Client: text(e.client),
+          Project: text(e.project),
+          Task: text(e.task),
+          Description: text(e.description),
+          'Start date': start.date,
+          'Start time': start.time,
+          // Reports API `dur` is milliseconds
+          Duration: typeof e.dur === 'number' ? clockFromMinutes(e.dur / 60000) : text(e.dur),
+        };
+      });
+    },
+  },
+  {
+    tool: 'harvest',
+    requiredHeaders: ['date', 'project', 'hours', 'first name', 'last name'],
+    convert: (get) => ({
+      developer: `${get('first name')} ${get('last name')}`.trim(),
+      client: get('client'),
+      project: get('project'),
+      task: get('task'),
+      date: get('date'),
+      // CSV reports have no start time; the API's `started_time` is only set for timer entries
+      startTime: normalizeClockTime(get('start time')),
+      minutes: parseTrackerDuration(get('hours')),
+      notes: get('notes'),
+    }),
+    fromJson: (value) => {
+      const items = arrayAt(value, 'time_entries');
+      if (!items?.length || !items.every((e) => e && typeof e === 'object' && 'spent_date' in e && 'hours' in e)) {
+        return null;
+      }
+      return items.map((raw) => {
+        const e = raw as Record<string, unknown>;
+        const [first, ...rest] = nameOf(e.user).split(' ');
+        return {
+          Date: text(e.spent_date),
+          Client: nameOf(e.client),
+          Project: nameOf(e.project),
+          Task: nameOf(e.task),
+          Notes: text(e.notes),
+          Hours: text(e.hours),
+          'First Name': first ?? '',
+          'Last Name': rest.join(' '),
+          'Start Time': text(e.started_time),
+        };
+      });
+    },
+  },
+];
+
+/** The tool whose export header row this is, or null. */
+export function detectTrackerExport(headerCells: unknown[]): TrackerTool | null {
+  const present = new Set(headerCells.map(normalizeHeader).filter(Boolean));
+  return ADAPTERS.find((a) => a.requiredHeaders.every((h) => present.has(h)))?.tool ?? null;
+}
+
+/**
+ * Convert one header-keyed export row. Throws a row-level message when the duration cannot be read.
+ * Blank rows return null.
+ */
+export function convertTrackerRecord(tool: TrackerTool, record: TrackerRecord): TrackerEntry | null {
+  const adapter = ADAPTERS.find((a) => a.tool === tool)!;
+  const byHeader = new Map(Object.keys(record).map((k) => [normalizeHeader(k), text(record[k])]));
+  const get = (header: string) => byHeader.get(header) ?? '';
+
+  if (!Array.from(byHeader.values()).some(Boolean)) return null;
+
+  const entry = adapter.convert(get);
+  if (!Number.isFinite(entry.minutes)) {
+    throw new Error(`Invalid ${TRACKER_TOOL_LABELS[tool]} duration`);
+  }
+  return { ...entry, project: entry.project || entry.client };
+}
+
+/** Recognise a parsed JSON export; returns its rows keyed by the tool's CSV headers. */
+export function trackerRecordsFromJson(value: unknown): { tool: TrackerTool; records: TrackerRecord[] } | null {
+  for (const adapter of ADAPTERS) {
+    const records = adapter.fromJson(value);
+    if (records) return { tool: adapter.tool, records };
+  }
+  return null;
+}
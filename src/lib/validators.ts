@@ -1,4 +1,11 @@
 import { z } from 'zod';
+import { IMPORT_CONFLICT_ACTIONS } from './time-entry-identity';
+import { DATE_FORMATS, DURATION_UNITS, MAPPABLE_FIELDS, TIME_FORMATS } from './column-mapping';
+import { DURATION_POLICIES, ROUNDING_POLICIES } from './duration-rounding';
+import { WEEKDAYS } from './date-utils';
+import { ACTUALS_GROUP_BY } from './actuals-grouping';
+import { CURRENCIES } from './cost';
+import { INVOICE_GROUP_BY } from './invoices';
 
 /**
  * Zod validators for runtime type checking
@@ -12,11 +19,35 @@ export const createDeveloperSchema = z.object({
   isActive: z.boolean().default(true),
 });
 
+/** Story 9.5 — a dated rate change; without `projectId` it is the developer's general rate */
+export const addDeveloperRateSchema = z.object({
+  developerId: z.number().int().positive(),
+  projectId: z.number().int().positive().optional(),
+  hourlyRate: z.number().nonnegative('Hourly rate must be 0 or greater'),
+  effectiveFrom: z.date(),
+});
+
+/** Story 9.8 — optional fields are null (or omitted) when unset, so an update can clear them */
+export const createClientSchema = z.object({
+  name: z.string().trim().min(1, 'Client name is required').max(200),
+  contactName: z.string().trim().max(200).nullable().optional(),
+  contactEmail: z.string().trim().email('Invalid email').nullable().optional(),
+  contactPhone: z.string().trim().max(50).nullable().optional(),
+  /** Default rate for the client's time by developers without a rate of their own */
+  hourlyRate: z.number().nonnegative('Hourly rate must be 0 or greater').nullable().optional(),
+});
+
 export const createProjectSchema = z.object({
   name: z.string().min(1, 'Project name is required').max(200),
   description: z.string().optional(),
+  /** Story 9.8 — null = no client */
+  clientId: z.number().int().positive().nullable().optional(),
   // Allow 0 for MVP (explicit "0h" projects are valid)
   estimatedHours: z.number().nonnegative().optional(),
+  /** Story 9.4 — budget in the system currency */
+  budgetAmount: z.number().nonnegative().optional(),
+  /** Story 9.7 — default for new time on the project */
+  billable: z.boolean().default(true),
   startDate: z.date().optional(),
   endDate: z.date().optional(),
   status: z.enum(['active', 'completed', 'on-hold', 'cancelled']).default('active'),
@@ -37,6 +68,8 @@ export const createTaskSchema = z.object({
   /** Story 6.3 — omit or undefined => unset (null in DB) */
   storyNumber: storyNumberFieldSchema.optional(),
   parentTaskId: z.number().int().positive().optional(),
+  /** Story 9.7 — default for new time on the task; omit to follow the project */
+  billable: z.boolean().optional(),
   status: z.enum(['pending', 'in-progress', 'completed', 'blocked']).default('pending'),
 });
 
@@ -46,6 +79,10 @@ export const updateTaskDataSchema = createTaskSchema
   .omit({ projectId: true })
   .extend({
     storyNumber: z.union([storyNumberFieldSchema, z.null()]).optional(),
+    /** Story 9.3 — `null` moves the task back to the top level */
+    parentTaskId: z.union([z.number().int().positive(), z.null()]).optional(),
+    /** Story 9.7 — `null` makes the task follow the project's default again */
+    billable: z.union([z.boolean(), z.null()]).optional(),
   });
 
 export const createTimeEntrySchema = z.object({
@@ -53,18 +90,99 @@ export const createTimeEntrySchema = z.object({
   taskId: z.number().int().positive().optional(),
   developerId: z.number().int().positive(),
   startTime: z.date(),
-  durationMinutes: z
-    .number()
-    .int()
-    .positive()
-    .refine((val) => val % 15 === 0, {
-      message: 'Duration must be a multiple of 15 minutes',
-    }),
+  // Story 7.7: any positive minute count — the system rounding policy fits it to the 15-minute grid
+  // (or rejects it under `strict`) in the timesheet router.
+  durationMinutes: z.number().int().positive(),
   description: z.string().optional(),
+  /** Story 9.7 — omit to use the task's (else the project's) default */
+  billable: z.boolean().optional(),
 });
 
 export const bulkCreateTimeEntriesSchema = z.array(createTimeEntrySchema);
 
+/** Story 7.1 — per-row decision for an import conflict (see `time-entry-identity.ts`). */
+export const importConflictResolutionSchema = z.object({
+  index: z.number().int().nonnegative(),
+  existingId: z.number().int().positive(),
+  action: z.enum(IMPORT_CONFLICT_ACTIONS),
+});
+
+/** Story 7.3 — entities a manager approved creating from the import preview summary. */
+export const approveImportEntitiesSchema = z.object({
+  developers: z.array(z.string().trim().min(1).max(100)).default([]),
+  projects: z.array(z.string().trim().min(1).max(200)).default([]),
+  tasks: z
+    .array(z.object({ project: z.string().trim().min(1).max(200), task: z.string().trim().min(1).max(200) }))
+    .default([]),
+  // Story 9.8 — the client each new project is created under
+  projectClients: z
+    .array(z.object({ project: z.string().trim().min(1).max(200), client: z.string().trim().min(1).max(200) }))
+    .default([]),
+});
+
+/** Story 7.8 — sheet names chosen on the upload preview of a multi-sheet workbook. */
+export const importSheetsSchema = z
+  .array(z.string().min(1).max(31))
+  .min(1, 'Select at least one sheet to import');
+
+/** Story 7.9 — a sheet developer name matched to an existing developer on the upload preview. */
+export const importDeveloperMatchSchema = z.object({
+  name: z.string().min(1).max(200),
+  developerId: z.number().int().positive(),
+});
+
+/** Story 7.10 — week-ending date entered on the upload for a weekly-grid sheet (local calendar day). */
+export const importWeekEndingSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, 'Week ending must be a YYYY-MM-DD date')
+  .refine((value) => {
+    const [y, m, d] = value.split('-').map(Number) as [number, number, number];
+    const date = new Date(y, m - 1, d);
+    return date.getFullYear() === y && date.getMonth() === m - 1 && date.getDate() === d;
+  }, 'Week ending is not a valid date');
+
+/** Story 7.11 — options sent with a background import upload (`POST /api/import-jobs`). */
+export const importJobOptionsSchema = z.object({
+  strict: z.boolean().optional(),
+  profileId: z.number().int().positive().optional(),
+  sheets: importSheetsSchema.optional(),
+  developerMatches: z.array(importDeveloperMatchSchema).optional(),
+  weekEnding: importWeekEndingSchema.optional(),
+  /** There is no per-row review in the background, so one action covers every conflicting row. */
+  conflictAction: z.enum(IMPORT_CONFLICT_ACTIONS).default('keep-existing'),
+});
+
+/** Story 7.4 — saved column-mapping profile (usability checks live in `validateColumnMapping`). */
+export const columnMappingProfileSchema = z.object({
+  name: z.string().trim().min(1, 'Profile name is required').max(100),
+  columns: z
+    .array(
+      z.object({
+        header: z.string().trim().min(1).max(200),
+        field: z.enum(MAPPABLE_FIELDS),
+      })
+    )
+    .min(1, 'Map at least one column'),
+  dateFormat: z.enum(DATE_FORMATS).default('auto'),
+  timeFormat: z.enum(TIME_FORMATS).default('auto'),
+  durationUnit: z.enum(DURATION_UNITS).default('minutes'),
+});
+
+/** Story 3.4 — map a raw sheet project token to an existing project. */
+export const setProjectAliasSchema = z.object({
+  alias: z.string().trim().min(1, 'Alias is required').max(200),
+  projectId: z.number().int().positive(),
+});
+
+/** System-wide defaults (`src/lib/app-settings.ts`); every key optional for partial updates. */
+export const updateAppSettingsSchema = z.object({
+  importStrictMode: z.boolean().optional(),
+  trackerImportRounding: z.enum(ROUNDING_POLICIES).optional(),
+  durationRoundingPolicy: z.enum(DURATION_POLICIES).optional(),
+  weeklyGridWeekStart: z.enum(WEEKDAYS).optional(),
+  currency: z.enum(CURRENCIES).optional(),
+});
+
 export const dateRangeSchema = z.object({
   startDate: z.date(),
   endDate: z.date(),
@@ -74,7 +192,15 @@ export const actualsReportInputSchema = z.object({
   projectId: z.number().int().positive(),
   startDate: z.date().optional(),
   endDate: z.date().optional(),
-  groupBy: z.enum(['task', 'developer', 'day', 'week']).default('task'),
+  groupBy: z.enum(ACTUALS_GROUP_BY).default('task'),
+});
+
+/** Story 9.6 — the project, period (local days, inclusive) and line grouping of an invoice */
+export const invoiceInputSchema = z.object({
+  projectId: z.number().int().positive(),
+  startDate: z.date(),
+  endDate: z.date(),
+  groupBy: z.enum(INVOICE_GROUP_BY).default('task'),
 });
 
 /** Epic 8 — Story 8.1 */
@@ -30,6 +30,9 @@ sqlite.pragma('foreign_keys = ON');
 // Create Drizzle instance
 export const db = drizzle(sqlite, { schema });
 
+/** The `tx` of a `db.transaction` callback (synchronous: queries end in `.all()` / `.run()`). */
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 // Export raw SQLite instance for advanced operations
 export { sqlite };
 
@@ -0,0 +1,19 @@
+CREATE TABLE `import_batches` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`file_name` text NOT NULL,
+	`checksum` text NOT NULL,
+	`developer_id` integer,
+	`period_start` integer,
+	`period_end` integer,
+	`row_count` integer NOT NULL,
+	`status` text DEFAULT 'active' NOT NULL,
+	`replaced_by_batch_id` integer,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`closed_at` integer,
+	FOREIGN KEY (`developer_id`) REFERENCES `developers`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `import_batches_checksum_idx` ON `import_batches` (`checksum`);--> statement-breakpoint
+CREATE INDEX `import_batches_created_at_idx` ON `import_batches` (`created_at`);--> statement-breakpoint
+ALTER TABLE `time_entries` ADD `import_batch_id` integer REFERENCES import_batches(id);--> statement-breakpoint
+CREATE INDEX `time_entries_import_batch_id_idx` ON `time_entries` (`import_batch_id`);
\ No newline at end of file
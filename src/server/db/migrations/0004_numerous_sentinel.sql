@@ -0,0 +1,10 @@
+CREATE TABLE `project_aliases` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`alias` text NOT NULL,
+	`project_id` integer NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `project_aliases_alias_uidx` ON `project_aliases` (`alias`);--> statement-breakpoint
+CREATE INDEX `project_aliases_project_id_idx` ON `project_aliases` (`project_id`);
\ No newline at end of file
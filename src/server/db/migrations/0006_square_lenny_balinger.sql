@@ -0,0 +1,12 @@
+CREATE TABLE `column_mapping_profiles` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`columns` text NOT NULL,
+	`date_format` text DEFAULT 'auto' NOT NULL,
+	`time_format` text DEFAULT 'auto' NOT NULL,
+	`duration_unit` text DEFAULT 'minutes' NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `column_mapping_profiles_name_uidx` ON `column_mapping_profiles` (`name`);
\ No newline at end of file
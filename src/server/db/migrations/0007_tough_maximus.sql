@@ -0,0 +1 @@
+ALTER TABLE `time_entries` ADD `raw_duration_minutes` real;
\ No newline at end of file
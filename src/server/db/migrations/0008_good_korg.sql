@@ -0,0 +1,21 @@
+CREATE TABLE `import_jobs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`file_name` text NOT NULL,
+	`status` text DEFAULT 'queued' NOT NULL,
+	`rows_found` integer DEFAULT 0 NOT NULL,
+	`rows_parsed` integer DEFAULT 0 NOT NULL,
+	`error_count` integer DEFAULT 0 NOT NULL,
+	`errors` text DEFAULT '[]' NOT NULL,
+	`rows_to_insert` integer DEFAULT 0 NOT NULL,
+	`rows_inserted` integer DEFAULT 0 NOT NULL,
+	`skipped_duplicates` integer DEFAULT 0 NOT NULL,
+	`import_batch_id` integer,
+	`cancel_requested` integer DEFAULT false NOT NULL,
+	`message` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`finished_at` integer,
+	FOREIGN KEY (`import_batch_id`) REFERENCES `import_batches`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `import_jobs_created_at_idx` ON `import_jobs` (`created_at`);
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE `time_entries` ADD `source_type` text;--> statement-breakpoint
+ALTER TABLE `time_entries` ADD `source_file_name` text;--> statement-breakpoint
+ALTER TABLE `time_entries` ADD `source_sheet` text;--> statement-breakpoint
+ALTER TABLE `time_entries` ADD `source_row` integer;--> statement-breakpoint
+ALTER TABLE `time_entries` ADD `source_cell` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `projects` ADD `budget_amount` real;
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `developer_rates` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`developer_id` integer NOT NULL,
+	`project_id` integer,
+	`hourly_rate` real NOT NULL,
+	`effective_from` integer NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`developer_id`) REFERENCES `developers`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `developer_rates_developer_effective_from_idx` ON `developer_rates` (`developer_id`,`effective_from`);
\ No newline at end of file
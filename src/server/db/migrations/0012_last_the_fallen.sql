@@ -0,0 +1,33 @@
+CREATE TABLE `invoice_lines` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`invoice_id` integer NOT NULL,
+	`position` integer NOT NULL,
+	`label` text NOT NULL,
+	`hours` real NOT NULL,
+	`hourly_rate` real NOT NULL,
+	`amount` real NOT NULL,
+	FOREIGN KEY (`invoice_id`) REFERENCES `invoices`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `invoice_lines_invoice_id_idx` ON `invoice_lines` (`invoice_id`);--> statement-breakpoint
+CREATE TABLE `invoices` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`number` text NOT NULL,
+	`project_id` integer NOT NULL,
+	`period_start` integer NOT NULL,
+	`period_end` integer NOT NULL,
+	`group_by` text NOT NULL,
+	`currency` text NOT NULL,
+	`total_hours` real NOT NULL,
+	`total_amount` real NOT NULL,
+	`entry_count` integer NOT NULL,
+	`status` text DEFAULT 'issued' NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`voided_at` integer,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `invoices_number_uidx` ON `invoices` (`number`);--> statement-breakpoint
+CREATE INDEX `invoices_project_id_idx` ON `invoices` (`project_id`);--> statement-breakpoint
+ALTER TABLE `time_entries` ADD `invoice_id` integer REFERENCES invoices(id);--> statement-breakpoint
+CREATE INDEX `time_entries_invoice_id_idx` ON `time_entries` (`invoice_id`);
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `actuals_cache` ADD `billable_minutes` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `projects` ADD `billable` integer DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE `tasks` ADD `billable` integer;--> statement-breakpoint
+ALTER TABLE `time_entries` ADD `billable` integer DEFAULT true NOT NULL;
\ No newline at end of file
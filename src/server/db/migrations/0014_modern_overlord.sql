@@ -0,0 +1,13 @@
+CREATE TABLE `clients` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`contact_name` text,
+	`contact_email` text,
+	`contact_phone` text,
+	`hourly_rate` real,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `clients_name_unique` ON `clients` (`name`);--> statement-breakpoint
+ALTER TABLE `projects` ADD `client_id` integer REFERENCES clients(id) ON DELETE set null;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `import_jobs` ADD `worker` text;
\ No newline at end of file
@@ -0,0 +1,36 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+-- The migrator runs in a transaction, where the pragma above is a no-op: dropping `invoices` would
+-- cascade to its lines, and locked entries would block it. Keep both (and the id high-water mark) aside.
+CREATE TABLE `__invoice_lines_backup` AS SELECT * FROM `invoice_lines`;--> statement-breakpoint
+CREATE TABLE `__invoiced_entries_backup` AS SELECT `id`, `invoice_id` FROM `time_entries` WHERE `invoice_id` IS NOT NULL;--> statement-breakpoint
+CREATE TABLE `__invoices_seq_backup` AS SELECT `seq` FROM `sqlite_sequence` WHERE `name` = 'invoices';--> statement-breakpoint
+UPDATE `time_entries` SET `invoice_id` = NULL WHERE `invoice_id` IS NOT NULL;--> statement-breakpoint
+CREATE TABLE `__new_invoices` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`number` text NOT NULL,
+	`project_id` integer NOT NULL,
+	`period_start` integer NOT NULL,
+	`period_end` integer NOT NULL,
+	`group_by` text NOT NULL,
+	`currency` text NOT NULL,
+	`total_hours` real NOT NULL,
+	`total_amount` real NOT NULL,
+	`entry_count` integer NOT NULL,
+	`status` text DEFAULT 'issued' NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`voided_at` integer,
+	FOREIGN KEY (`project_id`) REFERENCES `projects`(`id`) ON UPDATE no action ON DELETE restrict
+);
+--> statement-breakpoint
+INSERT INTO `__new_invoices`("id", "number", "project_id", "period_start", "period_end", "group_by", "currency", "total_hours", "total_amount", "entry_count", "status", "created_at", "voided_at") SELECT "id", "number", "project_id", "period_start", "period_end", "group_by", "currency", "total_hours", "total_amount", "entry_count", "status", "created_at", "voided_at" FROM `invoices`;--> statement-breakpoint
+DROP TABLE `invoices`;--> statement-breakpoint
+ALTER TABLE `__new_invoices` RENAME TO `invoices`;--> statement-breakpoint
+INSERT INTO `invoice_lines` SELECT * FROM `__invoice_lines_backup`;--> statement-breakpoint
+UPDATE `time_entries` SET `invoice_id` = (SELECT `b`.`invoice_id` FROM `__invoiced_entries_backup` `b` WHERE `b`.`id` = `time_entries`.`id`) WHERE `id` IN (SELECT `id` FROM `__invoiced_entries_backup`);--> statement-breakpoint
+UPDATE `sqlite_sequence` SET `seq` = MAX(`seq`, COALESCE((SELECT `seq` FROM `__invoices_seq_backup`), 0)) WHERE `name` = 'invoices';--> statement-breakpoint
+DROP TABLE `__invoice_lines_backup`;--> statement-breakpoint
+DROP TABLE `__invoiced_entries_backup`;--> statement-breakpoint
+DROP TABLE `__invoices_seq_backup`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE UNIQUE INDEX `invoices_number_uidx` ON `invoices` (`number`);--> statement-breakpoint
+CREATE INDEX `invoices_project_id_idx` ON `invoices` (`project_id`);
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE `import_batch_replaced_entries` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`import_batch_id` integer NOT NULL,
+	`time_entry_id` integer NOT NULL,
+	`previous` text NOT NULL,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`import_batch_id`) REFERENCES `import_batches`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`time_entry_id`) REFERENCES `time_entries`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `import_batch_replaced_entries_import_batch_id_idx` ON `import_batch_replaced_entries` (`import_batch_id`);--> statement-breakpoint
+CREATE INDEX `import_batch_replaced_entries_time_entry_id_idx` ON `import_batch_replaced_entries` (`time_entry_id`);
\ No newline at end of file
@@ -1,6 +1,9 @@
 import { sql } from 'drizzle-orm';
 import { integer, text, real, sqliteTable, index, uniqueIndex } from 'drizzle-orm/sqlite-core';
 import { relations } from 'drizzle-orm';
+import { IMPORT_JOB_STATUSES } from '../../lib/import-jobs';
+import { TIME_ENTRY_SOURCE_TYPES } from '../../lib/time-entry-source';
+import { INVOICE_GROUP_BY, INVOICE_STATUSES } from '../../lib/invoices';
 
 /**
  * Developers Table
@@ -16,6 +19,49 @@ export const developers = sqliteTable('developers', {
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
 });
 
+/**
+ * Developer Rates Table (Story 9.5)
+ * Effective-dated hourly rates: a rate applies to time that starts on or after `effectiveFrom`
+ * until the developer's next rate. A row with a `projectId` overrides the general rate on that
+ * project; `developers.hourlyRate` is the base rate for time before any dated rate.
+ */
+export const developerRates = sqliteTable(
+  'developer_rates',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    developerId: integer('developer_id')
+      .notNull()
+      .references(() => developers.id, { onDelete: 'cascade' }),
+    projectId: integer('project_id').references(() => projects.id, { onDelete: 'cascade' }),
+    hourlyRate: real('hourly_rate').notNull(),
+    /** Local start of the first day the rate applies */
+    effectiveFrom: integer('effective_from', { mode: 'timestamp' }).notNull(),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    developerEffectiveFromIdx: index('developer_rates_developer_effective_from_idx').on(
+      table.developerId,
+      table.effectiveFrom
+    ),
+  })
+);
+
+/**
+ * Clients Table (Story 9.8)
+ * The customer a project is done for, with contact details and a default hourly rate for time
+ * by developers who have no rate of their own
+ */
+export const clients = sqliteTable('clients', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull().unique(),
+  contactName: text('contact_name'),
+  contactEmail: text('contact_email'),
+  contactPhone: text('contact_phone'),
+  hourlyRate: real('hourly_rate'),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+});
+
 /**
  * Projects Table
  * Top-level container for work items
@@ -23,8 +69,13 @@ export const developers = sqliteTable('developers', {
 export const projects = sqliteTable('projects', {
   id: integer('id').primaryKey({ autoIncrement: true }),
   name: text('name').notNull(),
+  /** Story 9.8 — null = no client; deleting the client unassigns its projects */
+  clientId: integer('client_id').references(() => clients.id, { onDelete: 'set null' }),
   description: text('description'),
   estimatedHours: real('estimated_hours'),
+  budgetAmount: real('budget_amount'), // Story 9.4: budget in the system currency (settings.currency)
+  /** Story 9.7 — default for new time on the project (tasks and entries may override it) */
+  billable: integer('billable', { mode: 'boolean' }).notNull().default(true),
   startDate: integer('start_date', { mode: 'timestamp' }),
   endDate: integer('end_date', { mode: 'timestamp' }),
   status: text('status', { enum: ['active', 'completed', 'on-hold', 'cancelled'] })
@@ -52,6 +103,8 @@ export const tasks = sqliteTable(
     /** Story 6.3 — optional backlog/story id for sorting (≥1 when set; null = unset / display TBD) */
     storyNumber: integer('story_number'),
     parentTaskId: integer('parent_task_id'), // Self-referential for subtasks
+    /** Story 9.7 — default for new time on the task; null = the project's default */
+    billable: integer('billable', { mode: 'boolean' }),
     status: text('status', { enum: ['pending', 'in-progress', 'completed', 'blocked'] })
       .notNull()
       .default('pending'),
@@ -68,6 +121,200 @@ export const tasks = sqliteTable(
   })
 );
 
+/**
+ * App Settings Table
+ * Key/value store for system-wide defaults (values are JSON; see `src/lib/app-settings.ts`).
+ */
+export const appSettings = sqliteTable('app_settings', {
+  key: text('key').primaryKey(),
+  value: text('value').notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+});
+
+/**
+ * Column Mapping Profiles Table (Story 7.4)
+ * Saved header → field mappings plus date/time/duration conventions for a client's sheet layout.
+ */
+export const columnMappingProfiles = sqliteTable(
+  'column_mapping_profiles',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    name: text('name').notNull(),
+    /** JSON `ColumnMapping` — `[{ header, field }]` (see `src/lib/column-mapping.ts`) */
+    columns: text('columns').notNull(),
+    dateFormat: text('date_format').notNull().default('auto'),
+    timeFormat: text('time_format').notNull().default('auto'),
+    durationUnit: text('duration_unit', { enum: ['minutes', 'hours'] }).notNull().default('minutes'),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    nameUidx: uniqueIndex('column_mapping_profiles_name_uidx').on(table.name),
+  })
+);
+
+/**
+ * Project Aliases Table (Story 3.4)
+ * Maps raw sheet tokens (e.g. "VAN-01", "vandura") to an existing project so imports resolve them
+ * instead of creating a new project per spelling. `alias` is stored normalized (see `normalizeProjectAlias`).
+ */
+export const projectAliases = sqliteTable(
+  'project_aliases',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    alias: text('alias').notNull(),
+    projectId: integer('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'cascade' }),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    aliasUidx: uniqueIndex('project_aliases_alias_uidx').on(table.alias),
+    projectIdIdx: index('project_aliases_project_id_idx').on(table.projectId),
+  })
+);
+
+/**
+ * Import Batches Table (Story 7.2)
+ * One row per committed Excel import; `time_entries.import_batch_id` points back here
+ * so a whole upload can be discarded or replaced as a unit.
+ */
+export const importBatches = sqliteTable(
+  'import_batches',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    fileName: text('file_name').notNull(),
+    /** SHA-256 of the uploaded file bytes (hex) */
+    checksum: text('checksum').notNull(),
+    developerId: integer('developer_id').references(() => developers.id, { onDelete: 'set null' }),
+    periodStart: integer('period_start', { mode: 'timestamp' }),
+    periodEnd: integer('period_end', { mode: 'timestamp' }),
+    rowCount: integer('row_count').notNull(),
+    status: text('status', { enum: ['active', 'discarded', 'replaced'] }).notNull().default('active'),
+    replacedByBatchId: integer('replaced_by_batch_id'),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+    closedAt: integer('closed_at', { mode: 'timestamp' }),
+  },
+  (table) => ({
+    checksumIdx: index('import_batches_checksum_idx').on(table.checksum),
+    createdAtIdx: index('import_batches_created_at_idx').on(table.createdAt),
+  })
+);
+
+/**
+ * Import Batch Replaced Entries Table (Story 7.2)
+ * Existing entries an import overwrote ("take incoming"). The entry is stamped with the batch;
+ * discarding or replacing the batch restores `previous` instead of deleting the entry.
+ */
+export const importBatchReplacedEntries = sqliteTable(
+  'import_batch_replaced_entries',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    importBatchId: integer('import_batch_id')
+      .notNull()
+      .references(() => importBatches.id, { onDelete: 'cascade' }),
+    timeEntryId: integer('time_entry_id')
+      .notNull()
+      .references(() => timeEntries.id, { onDelete: 'cascade' }),
+    /** JSON — the entry's values before the import (see `ReplacedEntryValues`) */
+    previous: text('previous').notNull(),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+  },
+  (table) => ({
+    importBatchIdIdx: index('import_batch_replaced_entries_import_batch_id_idx').on(table.importBatchId),
+    timeEntryIdIdx: index('import_batch_replaced_entries_time_entry_id_idx').on(table.timeEntryId),
+  })
+);
+
+/**
+ * Import Jobs Table (Story 7.11)
+ * Background imports of large files: progress counters polled by the upload page, a cancel flag
+ * the running job checks between steps, and the batch it inserted into (removed on cancel/failure).
+ */
+export const importJobs = sqliteTable(
+  'import_jobs',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    fileName: text('file_name').notNull(),
+    status: text('status', { enum: IMPORT_JOB_STATUSES }).notNull().default('queued'),
+    rowsFound: integer('rows_found').notNull().default(0),
+    rowsParsed: integer('rows_parsed').notNull().default(0),
+    errorCount: integer('error_count').notNull().default(0),
+    /** JSON string[] — the first parse errors (see `IMPORT_JOB_ERROR_LIMIT`) */
+    errors: text('errors').notNull().default('[]'),
+    rowsToInsert: integer('rows_to_insert').notNull().default(0),
+    rowsInserted: integer('rows_inserted').notNull().default(0),
+    skippedDuplicates: integer('skipped_duplicates').notNull().default(0),
+    importBatchId: integer('import_batch_id').references(() => importBatches.id, { onDelete: 'set null' }),
+    cancelRequested: integer('cancel_requested', { mode: 'boolean' }).notNull().default(false),
+    /** Server process running the job; an active job from another process has lost its worker */
+    worker: text('worker'),
+    /** Outcome summary or failure reason */
+    message: text('message'),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+    updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+    finishedAt: integer('finished_at', { mode: 'timestamp' }),
+  },
+  (table) => ({
+    createdAtIdx: index('import_jobs_created_at_idx').on(table.createdAt),
+  })
+);
+
+/**
+ * Invoices Table (Story 9.6)
+ * One invoice per project and period, built from the period's uninvoiced time. While `issued`,
+ * `time_entries.invoice_id` locks the entries it covers; voiding unlocks them. Currency, totals and
+ * lines are stored as issued, so later rate or name changes do not alter it.
+ */
+export const invoices = sqliteTable(
+  'invoices',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    /** `INV-0001` (`formatInvoiceNumber` of the row's autoincrement id, so never reused) */
+    number: text('number').notNull(),
+    /** Restrict: an issued number must never disappear with its project */
+    projectId: integer('project_id')
+      .notNull()
+      .references(() => projects.id, { onDelete: 'restrict' }),
+    periodStart: integer('period_start', { mode: 'timestamp' }).notNull(),
+    periodEnd: integer('period_end', { mode: 'timestamp' }).notNull(),
+    groupBy: text('group_by', { enum: INVOICE_GROUP_BY }).notNull(),
+    currency: text('currency').notNull(),
+    totalHours: real('total_hours').notNull(),
+    totalAmount: real('total_amount').notNull(),
+    entryCount: integer('entry_count').notNull(),
+    status: text('status', { enum: INVOICE_STATUSES }).notNull().default('issued'),
+    createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
+    voidedAt: integer('voided_at', { mode: 'timestamp' }),
+  },
+  (table) => ({
+    numberUidx: uniqueIndex('invoices_number_uidx').on(table.number),
+    projectIdIdx: index('invoices_project_id_idx').on(table.projectId),
+  })
+);
+
+/**
+ * Invoice Lines Table (Story 9.6)
+ * One task or developer at one hourly rate (`buildInvoiceLines`), in display order.
+ */
+export const invoiceLines = sqliteTable(
+  'invoice_lines',
+  {
+    id: integer('id').primaryKey({ autoIncrement: true }),
+    invoiceId: integer('invoice_id')
+      .notNull()
+      .references(() => invoices.id, { onDelete: 'cascade' }),
+    position: integer('position').notNull(),
+    label: text('label').notNull(),
+    hours: real('hours').notNull(),
+    hourlyRate: real('hourly_rate').notNull(),
+    amount: real('amount').notNull(),
+  },
+  (table) => ({
+    invoiceIdIdx: index('invoice_lines_invoice_id_idx').on(table.invoiceId),
+  })
+);
+
 /**
  * Time Entries Table
  * Core table: stores individual 15-minute increments
@@ -86,7 +333,23 @@ export const timeEntries = sqliteTable(
       .references(() => developers.id, { onDelete: 'cascade' }),
     startTime: integer('start_time', { mode: 'timestamp' }).notNull(),
     durationMinutes: integer('duration_minutes').notNull(), // Always 15, 30, 45, 60, etc.
+    /** Story 7.7 — minutes as entered/imported when the rounding policy adjusted them; null if on-grid */
+    rawDurationMinutes: real('raw_duration_minutes'),
     description: text('description'),
+    /** Story 9.7 — resolved when the entry is created (entry, else task, else project default) */
+    billable: integer('billable', { mode: 'boolean' }).notNull().default(true),
+    /** Story 7.2 — null for manual entries and imports that predate batches */
+    importBatchId: integer('import_batch_id').references(() => importBatches.id, {
+      onDelete: 'set null',
+    }),
+    /** Story 7.12 — provenance (see `src/lib/time-entry-source.ts`); null type for older rows */
+    sourceType: text('source_type', { enum: TIME_ENTRY_SOURCE_TYPES }),
+    sourceFileName: text('source_file_name'),
+    sourceSheet: text('source_sheet'),
+    sourceRow: integer('source_row'),
+    sourceCell: text('source_cell'),
+    /** Story 9.6 — the issued invoice that locks this entry; null = not invoiced */
+    invoiceId: integer('invoice_id').references(() => invoices.id, { onDelete: 'set null' }),
     createdAt: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
     updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
   },
@@ -102,6 +365,8 @@ export const timeEntries = sqliteTable(
     ),
     taskIdIdx: index('time_entries_task_id_idx').on(table.taskId),
     startTimeIdx: index('time_entries_start_time_idx').on(table.startTime),
+    importBatchIdIdx: index('time_entries_import_batch_id_idx').on(table.importBatchId),
+    invoiceIdIdx: index('time_entries_invoice_id_idx').on(table.invoiceId),
   })
 );
 
@@ -144,6 +409,7 @@ export const actualsCache = sqliteTable(
     periodStart: integer('period_start', { mode: 'timestamp' }).notNull(),
     periodEnd: integer('period_end', { mode: 'timestamp' }).notNull(),
     totalMinutes: integer('total_minutes').notNull(),
+    billableMinutes: integer('billable_minutes').notNull().default(0), // Story 9.7
     entryCount: integer('entry_count').notNull(),
     calculatedAt: integer('calculated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
   },
@@ -163,6 +429,12 @@ export const actualsCache = sqliteTable(
 export type Developer = typeof developers.$inferSelect;
 export type NewDeveloper = typeof developers.$inferInsert;
 
+export type DeveloperRate = typeof developerRates.$inferSelect;
+export type NewDeveloperRate = typeof developerRates.$inferInsert;
+
+export type Client = typeof clients.$inferSelect;
+export type NewClient = typeof clients.$inferInsert;
+
 export type Project = typeof projects.$inferSelect;
 export type NewProject = typeof projects.$inferInsert;
 
@@ -175,17 +447,58 @@ export type NewTimeEntry = typeof timeEntries.$inferInsert;
 export type ActualsCache = typeof actualsCache.$inferSelect;
 export type NewActualsCache = typeof actualsCache.$inferInsert;
 
+export type Invoice = typeof invoices.$inferSelect;
+export type NewInvoice = typeof invoices.$inferInsert;
+
+export type InvoiceLine = typeof invoiceLines.$inferSelect;
+export type NewInvoiceLine = typeof invoiceLines.$inferInsert;
+
 export type BugReport = typeof bugReports.$inferSelect;
 export type NewBugReport = typeof bugReports.$inferInsert;
 
+export type AppSetting = typeof appSettings.$inferSelect;
+export type NewAppSetting = typeof appSettings.$inferInsert;
+
+export type ColumnMappingProfileRow = typeof columnMappingProfiles.$inferSelect;
+export type NewColumnMappingProfileRow = typeof columnMappingProfiles.$inferInsert;
+
+export type ProjectAlias = typeof projectAliases.$inferSelect;
+export type NewProjectAlias = typeof projectAliases.$inferInsert;
+
+export type ImportBatch = typeof importBatches.$inferSelect;
+export type NewImportBatch = typeof importBatches.$inferInsert;
+
+export type ImportBatchReplacedEntry = typeof importBatchReplacedEntries.$inferSelect;
+export type NewImportBatchReplacedEntry = typeof importBatchReplacedEntries.$inferInsert;
+
+export type ImportJob = typeof importJobs.$inferSelect;
+export type NewImportJob = typeof importJobs.$inferInsert;
+
 /**
  * Drizzle Relations
  * Define relationships between tables for relational queries
  */
-export const projectsRelations = relations(projects, ({ many }) => ({
+export const clientsRelations = relations(clients, ({ many }) => ({
+  projects: many(projects),
+}));
+
+export const projectsRelations = relations(projects, ({ one, many }) => ({
+  client: one(clients, {
+    fields: [projects.clientId],
+    references: [clients.id],
+  }),
   tasks: many(tasks),
+  invoices: many(invoices),
   timeEntries: many(timeEntries),
   actualsCache: many(actualsCache),
+  aliases: many(projectAliases),
+}));
+
+export const projectAliasesRelations = relations(projectAliases, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectAliases.projectId],
+    references: [projects.id],
+  }),
 }));
 
 export const tasksRelations = relations(tasks, ({ one, many }) => ({
@@ -206,8 +519,29 @@ export const tasksRelations = relations(tasks, ({ one, many }) => ({
 }));
 
 export const developersRelations = relations(developers, ({ many }) => ({
+  rates: many(developerRates),
   timeEntries: many(timeEntries),
   actualsCache: many(actualsCache),
+  importBatches: many(importBatches),
+}));
+
+export const developerRatesRelations = relations(developerRates, ({ one }) => ({
+  developer: one(developers, {
+    fields: [developerRates.developerId],
+    references: [developers.id],
+  }),
+  project: one(projects, {
+    fields: [developerRates.projectId],
+    references: [projects.id],
+  }),
+}));
+
+export const importBatchesRelations = relations(importBatches, ({ one, many }) => ({
+  developer: one(developers, {
+    fields: [importBatches.developerId],
+    references: [developers.id],
+  }),
+  timeEntries: many(timeEntries),
 }));
 
 export const timeEntriesRelations = relations(timeEntries, ({ one }) => ({
@@ -223,6 +557,30 @@ export const timeEntriesRelations = relations(timeEntries, ({ one }) => ({
     fields: [timeEntries.developerId],
     references: [developers.id],
   }),
+  importBatch: one(importBatches, {
+    fields: [timeEntries.importBatchId],
+    references: [importBatches.id],
+  }),
+  invoice: one(invoices, {
+    fields: [timeEntries.invoiceId],
+    references: [invoices.id],
+  }),
+}));
+
+export const invoicesRelations = relations(invoices, ({ one, many }) => ({
+  project: one(projects, {
+    fields: [invoices.projectId],
+    references: [projects.id],
+  }),
+  lines: many(invoiceLines),
+  timeEntries: many(timeEntries),
+}));
+
+export const invoiceLinesRelations = relations(invoiceLines, ({ one }) => ({
+  invoice: one(invoices, {
+    fields: [invoiceLines.invoiceId],
+    references: [invoices.id],
+  }),
 }));
 
 export const actualsCacheRelations = relations(actualsCache, ({ one }) => ({
@@ -0,0 +1,125 @@
+/**
+ * Story 9.6 — minimal PDF writer for text documents (invoices): A4 pages of positioned text in the
+ * standard Helvetica fonts plus horizontal rules. No embedded fonts, so text is limited to the
+ * WinAnsi character set; anything else prints as `?`.
+ */
+
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+
+export type PdfItem =
+  | {
+      kind: 'text';
+      text: string;
+      /** Left edge, or the right edge when `align` is `right` (points from the left) */
+      x: number;
+      /** Baseline (points from the top) */
+      y: number;
+      size?: number;
+      bold?: boolean;
+      align?: 'left' | 'right';
+    }
+  | { kind: 'rule'; x1: number; x2: number; y: number };
+
+/** Unicode characters WinAnsiEncoding places in 0x80–0x9F. */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  '„': 0x84,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '™': 0x99,
+};
+
+/** Helvetica advance widths (1/1000 em) of narrow characters; most others are close to 556. */
+const NARROW_WIDTHS: Record<string, number> = {
+  ' ': 278,
+  '.': 278,
+  ',': 278,
+  ':': 278,
+  '/': 278,
+  '(': 333,
+  ')': 333,
+  '-': 333,
+  i: 222,
+  l: 222,
+  I: 278,
+  f: 278,
+  t: 278,
+  r: 333,
+  '%': 889,
+  m: 833,
+  W: 944,
+  M: 833,
+};
+
+/** Approximate width of `text` in points — enough to right-align figures. */
+export function pdfTextWidth(text: string, size: number, bold = false): number {
+  let units = 0;
+  for (const char of text) units += NARROW_WIDTHS[char] ?? 556;
+  return (units / 1000) * size * (bold ? 1.05 : 1);
+}
+
+/** `text` as a PDF literal string in WinAnsi bytes (latin1 string). */
+function pdfString(text: string): string {
+  let out = '';
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    const byte = WIN_ANSI_EXTRAS[char] ?? (code >= 0x20 && code <= 0xff && (code < 0x7f || code >= 0xa0) ? code : 0x3f);
+    const c = String.fromCharCode(byte);
+    out += c === '\\' || c === '(' || c === ')' ? `\\${c}` : c;
+  }
+  return `(${out})`;
+}
+
+function pageContent(items: readonly PdfItem[]): string {
+  const ops: string[] = [];
+  for (const item of items) {
+    const y = (PDF_PAGE_HEIGHT - item.y).toFixed(2);
+    if (item.kind === 'rule') {
+      ops.push(`0.5 w ${item.x1.toFixed(2)} ${y} m ${item.x2.toFixed(2)} ${y} l S`);
+      continue;
+    }
+    const size = item.size ?? 10;
+    const x = item.align === 'right' ? item.x - pdfTextWidth(item.text, size, item.bold) : item.x;
+    ops.push(`BT /${item.bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y} Td ${pdfString(item.text)} Tj ET`);
+  }
+  return ops.join('\n');
+}
+
+/** A PDF with one A4 page per entry of `pages`. */
+export function renderPdf(pages: ReadonlyArray<readonly PdfItem[]>, title: string): Buffer {
+  // 1 catalog, 2 page tree, 3–4 fonts, 5 info, then a page and its content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  objects[5] = `<< /Title ${pdfString(title)} /Producer (Vandura) >>`;
+  pages.forEach((items, i) => {
+    const content = pageContent(items);
+    objects[pageIds[i]!] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i]! + 1} 0 R >>`;
+    objects[pageIds[i]! + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xref = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+}
@@ -0,0 +1,52 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { createTRPCRouter, publicProcedure } from '../trpc';
+import { columnMappingProfileService } from '../services/ColumnMappingProfileService';
+import { columnMappingProfileSchema } from '@/lib/validators';
+
+function toBadRequest(e: unknown, fallback: string): never {
+  throw new TRPCError({
+    code: 'BAD_REQUEST',
+    message: e instanceof Error ? e.message : fallback,
+  });
+}
+
+/**
+ * Column Mapping Profile Router
+ * Story 7.4 — saved header → field mappings selectable per upload
+ */
+export const columnMappingProfileRouter = createTRPCRouter({
+  list: publicProcedure.query(async () => {
+    return columnMappingProfileService.listProfiles();
+  }),
+
+  get: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input }) => {
+      return (await columnMappingProfileService.getProfile(input.id)) ?? null;
+    }),
+
+  create: publicProcedure.input(columnMappingProfileSchema).mutation(async ({ input }) => {
+    try {
+      return await columnMappingProfileService.createProfile(input);
+    } catch (e) {
+      toBadRequest(e, 'Could not save mapping profile');
+    }
+  }),
+
+  update: publicProcedure
+    .input(z.object({ id: z.number(), data: columnMappingProfileSchema }))
+    .mutation(async ({ input }) => {
+      try {
+        return await columnMappingProfileService.updateProfile(input.id, input.data);
+      } catch (e) {
+        toBadRequest(e, 'Could not save mapping profile');
+      }
+    }),
+
+  delete: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      return columnMappingProfileService.deleteProfile(input.id);
+    }),
+});
@@ -0,0 +1,104 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { createTRPCRouter, publicProcedure } from '../trpc';
+import { db } from '../db';
+import { clients, projects, type NewClient } from '../db/schema';
+import { asc, eq, ne, sql } from 'drizzle-orm';
+import { createClientSchema } from '@/lib/validators';
+import { normalizeClientName } from '@/lib/clients';
+
+/** Client names are unique regardless of case and spacing, so imports can match them the same way. */
+async function assertClientNameFree(name: string, exceptId?: number) {
+  const key = normalizeClientName(name);
+  const all = await db
+    .select({ id: clients.id, name: clients.name })
+    .from(clients)
+    .where(exceptId === undefined ? undefined : ne(clients.id, exceptId));
+  const clash = all.find((c) => normalizeClientName(c.name) === key);
+  if (clash) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `A client named "${clash.name}" already exists.` });
+  }
+}
+
+/**
+ * Customer Router (Story 9.8)
+ * Handles client CRUD operations; projects are assigned to a client on the project form.
+ * Mounted as `customer` because `client` is a reserved key on the tRPC React proxy.
+ */
+export const customerRouter = createTRPCRouter({
+  // Create new client
+  create: publicProcedure
+    .input(createClientSchema)
+    .mutation(async ({ input }) => {
+      await assertClientNameFree(input.name);
+      const newClient: NewClient = {
+        name: input.name,
+        contactName: input.contactName || null,
+        contactEmail: input.contactEmail || null,
+        contactPhone: input.contactPhone || null,
+        hourlyRate: input.hourlyRate ?? null,
+      };
+
+      const result = await db.insert(clients).values(newClient).returning();
+      return result[0];
+    }),
+
+  // Get all clients, by name, with how many projects each has
+  list: publicProcedure.query(async () => {
+    return db
+      .select({
+        id: clients.id,
+        name: clients.name,
+        contactName: clients.contactName,
+        contactEmail: clients.contactEmail,
+        contactPhone: clients.contactPhone,
+        hourlyRate: clients.hourlyRate,
+        projectCount: sql<number>`(SELECT COUNT(*) FROM ${projects} p WHERE p.client_id = "clients"."id")`,
+      })
+      .from(clients)
+      .orderBy(asc(clients.name));
+  }),
+
+  // Get single client
+  get: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input }) => {
+      return db.query.clients.findFirst({
+        where: eq(clients.id, input.id),
+      });
+    }),
+
+  // Update client
+  update: publicProcedure
+    .input(
+      z.object({
+        id: z.number(),
+        data: createClientSchema.partial(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      if (input.data.name !== undefined) await assertClientNameFree(input.data.name, input.id);
+      const result = await db
+        .update(clients)
+        .set({
+          ...input.data,
+          updatedAt: new Date(),
+        })
+        .where(eq(clients.id, input.id))
+        .returning();
+
+      return result[0];
+    }),
+
+  // Delete client; its projects are kept without a client
+  delete: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      const result = await db
+        .delete(clients)
+        .where(eq(clients.id, input.id))
+        .returning();
+
+      return result.length > 0;
+    }),
+});
@@ -1,9 +1,14 @@
+import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 import { createTRPCRouter, publicProcedure } from '../trpc';
 import { db } from '../db';
-import { developers, type NewDeveloper } from '../db/schema';
-import { eq } from 'drizzle-orm';
-import { createDeveloperSchema } from '@/lib/validators';
+import { developerRates, developers, projects, type NewDeveloper } from '../db/schema';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+import { addDeveloperRateSchema, createDeveloperSchema } from '@/lib/validators';
+import { startOfDay } from '@/lib/date-utils';
+import { rateInForce } from '@/lib/rate-history';
+import { developerInvoicedMessage } from '@/lib/invoices';
+import { invoiceService } from '../services/InvoiceService';
 
 /**
  * Developer Router
@@ -33,12 +38,17 @@ export const developerRouter = createTRPCRouter({
       }).optional()
     )
     .query(async ({ input }) => {
-      if (input?.activeOnly) {
-        return db.query.developers.findMany({
-          where: eq(developers.isActive, true),
-        });
-      }
-      return db.query.developers.findMany();
+      const list = await db.query.developers.findMany({
+        where: input?.activeOnly ? eq(developers.isActive, true) : undefined,
+        with: { rates: { where: isNull(developerRates.projectId) } },
+      });
+
+      // Story 9.5 — the general rate in force today (dated rate, else the base rate)
+      const now = new Date();
+      return list.map(({ rates, ...developer }) => ({
+        ...developer,
+        currentHourlyRate: rateInForce(rates, now, null, developer.hourlyRate),
+      }));
     }),
 
   // Get single developer
@@ -71,10 +81,80 @@ export const developerRouter = createTRPCRouter({
       return result[0];
     }),
 
+  // Story 9.5 — a developer's dated rates, oldest first, with the project name of overrides
+  rates: publicProcedure
+    .input(z.object({ developerId: z.number() }))
+    .query(async ({ input }) => {
+      return db
+        .select({
+          id: developerRates.id,
+          developerId: developerRates.developerId,
+          projectId: developerRates.projectId,
+          projectName: projects.name,
+          hourlyRate: developerRates.hourlyRate,
+          effectiveFrom: developerRates.effectiveFrom,
+        })
+        .from(developerRates)
+        .leftJoin(projects, eq(developerRates.projectId, projects.id))
+        .where(eq(developerRates.developerId, input.developerId))
+        .orderBy(asc(developerRates.effectiveFrom), asc(developerRates.id));
+    }),
+
+  // Story 9.5 — add a rate from a date (usually a future one); earlier time keeps its rate
+  addRate: publicProcedure
+    .input(addDeveloperRateSchema)
+    .mutation(async ({ input }) => {
+      const developer = await db.query.developers.findFirst({ where: eq(developers.id, input.developerId) });
+      if (!developer) throw new TRPCError({ code: 'NOT_FOUND', message: 'Developer not found.' });
+      if (input.projectId !== undefined) {
+        const project = await db.query.projects.findFirst({ where: eq(projects.id, input.projectId) });
+        if (!project) throw new TRPCError({ code: 'BAD_REQUEST', message: 'The rate override project does not exist.' });
+      }
+
+      const effectiveFrom = startOfDay(input.effectiveFrom);
+      const sameDay = await db.query.developerRates.findFirst({
+        where: and(
+          eq(developerRates.developerId, input.developerId),
+          input.projectId === undefined ? isNull(developerRates.projectId) : eq(developerRates.projectId, input.projectId),
+          eq(developerRates.effectiveFrom, effectiveFrom)
+        ),
+      });
+      if (sameDay) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'A rate already starts on that date. Remove it first or choose a different date.',
+        });
+      }
+
+      const result = await db
+        .insert(developerRates)
+        .values({
+          developerId: input.developerId,
+          projectId: input.projectId ?? null,
+          hourlyRate: input.hourlyRate,
+          effectiveFrom,
+        })
+        .returning();
+      return result[0];
+    }),
+
+  // Story 9.5 — remove a dated rate; its time falls back to the rate before it
+  deleteRate: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      const result = await db.delete(developerRates).where(eq(developerRates.id, input.id)).returning();
+      return result.length > 0;
+    }),
+
   // Delete developer
   delete: publicProcedure
     .input(z.object({ id: z.number() }))
     .mutation(async ({ input }) => {
+      // Story 9.6: deleting would cascade to time entries an invoice has locked
+      const invoiceNumber = await invoiceService.developerInvoiceNumber(input.id);
+      if (invoiceNumber) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: developerInvoicedMessage(invoiceNumber) });
+      }
       const result = await db
         .delete(developers)
         .where(eq(developers.id, input.id))
@@ -0,0 +1,35 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { createTRPCRouter, publicProcedure } from '../trpc';
+import { importBatchService } from '../services/ImportBatchService';
+
+/**
+ * Import Batch Router
+ * Story 7.2 — list past Excel imports and discard one as a unit
+ */
+export const importBatchRouter = createTRPCRouter({
+  list: publicProcedure
+    .input(z.object({ limit: z.number().min(1).max(500).default(100) }).optional())
+    .query(async ({ input }) => {
+      return importBatchService.listBatches(input?.limit ?? 100);
+    }),
+
+  get: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input }) => {
+      return (await importBatchService.getBatchById(input.id)) ?? null;
+    }),
+
+  discard: publicProcedure
+    .input(z.object({ id: z.number().int().positive() }))
+    .mutation(async ({ input }) => {
+      try {
+        return await importBatchService.discardBatch(input.id);
+      } catch (e) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: e instanceof Error ? e.message : 'Could not discard import',
+        });
+      }
+    }),
+});
@@ -0,0 +1,29 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { createTRPCRouter, publicProcedure } from '../trpc';
+import { importJobService } from '../services/ImportJobService';
+
+/**
+ * Import Job Router
+ * Story 7.11 — progress and cancellation of background imports (uploaded via `POST /api/import-jobs`)
+ */
+export const importJobRouter = createTRPCRouter({
+  get: publicProcedure
+    .input(z.object({ id: z.number().int().positive() }))
+    .query(async ({ input }) => {
+      return (await importJobService.getJob(input.id)) ?? null;
+    }),
+
+  cancel: publicProcedure
+    .input(z.object({ id: z.number().int().positive() }))
+    .mutation(async ({ input }) => {
+      try {
+        return await importJobService.cancelJob(input.id);
+      } catch (e) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: e instanceof Error ? e.message : 'Could not cancel import',
+        });
+      }
+    }),
+});
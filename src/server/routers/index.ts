@@ -10,6 +10,13 @@ import { taskRouter } from './task';
 import { timesheetRouter } from './timesheet';
 import { reportRouter } from './report';
 import { bugReportRouter } from './bugReport';
+import { importBatchRouter } from './importBatch';
+import { importJobRouter } from './importJob';
+import { projectAliasRouter } from './projectAlias';
+import { settingsRouter } from './settings';
+import { columnMappingProfileRouter } from './columnMappingProfile';
+import { invoiceRouter } from './invoice';
+import { customerRouter } from './customer';
 
 export const appRouter = createTRPCRouter({
   project: projectRouter,
@@ -18,6 +25,13 @@ export const appRouter = createTRPCRouter({
   timesheet: timesheetRouter,
   report: reportRouter,
   bugReport: bugReportRouter,
+  importBatch: importBatchRouter,
+  importJob: importJobRouter,
+  projectAlias: projectAliasRouter,
+  settings: settingsRouter,
+  columnMappingProfile: columnMappingProfileRouter,
+  invoice: invoiceRouter,
+  customer: customerRouter, // Story 9.8 — clients
 });
 
 // Export type definition for client
@@ -0,0 +1,91 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { createTRPCRouter, publicProcedure } from '../trpc';
+import { invoiceService, type InvoiceDetail } from '../services/InvoiceService';
+import { invoiceInputSchema } from '@/lib/validators';
+
+// Keep filename human-friendly; replace Windows-illegal characters.
+function invoiceFileName(invoice: InvoiceDetail, extension: 'pdf' | 'xlsx'): string {
+  const safeProjectName = invoice.projectName.replace(/[\\/:"*?<>|]/g, '-');
+  return `${invoice.number}-${safeProjectName}.${extension}`;
+}
+
+async function requireInvoice(id: number): Promise<InvoiceDetail> {
+  const invoice = await invoiceService.getInvoice(id);
+  if (!invoice) throw new TRPCError({ code: 'NOT_FOUND', message: 'Invoice not found.' });
+  return invoice;
+}
+
+/**
+ * Invoice Router
+ * Story 9.6 — invoices from uninvoiced time: preview, issue, void, PDF / XLSX export
+ */
+export const invoiceRouter = createTRPCRouter({
+  list: publicProcedure
+    .input(z.object({ projectId: z.number().optional() }).optional())
+    .query(async ({ input }) => {
+      return invoiceService.listInvoices(input?.projectId);
+    }),
+
+  get: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input }) => {
+      return (await invoiceService.getInvoice(input.id)) ?? null;
+    }),
+
+  // What issuing the invoice would bill now (lines, totals, developers without a rate)
+  preview: publicProcedure
+    .input(invoiceInputSchema)
+    .query(async ({ input }) => {
+      return invoiceService.previewInvoice(input);
+    }),
+
+  // Issue the invoice and lock its entries
+  create: publicProcedure
+    .input(invoiceInputSchema)
+    .mutation(async ({ input }) => {
+      try {
+        return await invoiceService.createInvoice(input);
+      } catch (e) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: e instanceof Error ? e.message : 'Could not create invoice',
+        });
+      }
+    }),
+
+  // Void the invoice and unlock its entries
+  void: publicProcedure
+    .input(z.object({ id: z.number().int().positive() }))
+    .mutation(async ({ input }) => {
+      try {
+        return await invoiceService.voidInvoice(input.id);
+      } catch (e) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: e instanceof Error ? e.message : 'Could not void invoice',
+        });
+      }
+    }),
+
+  // PDF / XLSX downloads (base64)
+  exportPDF: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      const invoice = await requireInvoice(input.id);
+      return {
+        filename: invoiceFileName(invoice, 'pdf'),
+        content: invoiceService.exportToPDF(invoice).toString('base64'),
+      };
+    }),
+
+  exportXLSX: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      const invoice = await requireInvoice(input.id);
+      return {
+        filename: invoiceFileName(invoice, 'xlsx'),
+        content: invoiceService.exportToXLSX(invoice).toString('base64'),
+      };
+    }),
+});
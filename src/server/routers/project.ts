@@ -1,9 +1,18 @@
+import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 import { createTRPCRouter, publicProcedure } from '../trpc';
 import { db } from '../db';
-import { projects, type NewProject } from '../db/schema';
+import { clients, projects, type NewProject } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { createProjectSchema } from '@/lib/validators';
+import { projectInvoicedMessage } from '@/lib/invoices';
+import { invoiceService } from '../services/InvoiceService';
+
+async function assertClientExists(clientId: number | null | undefined) {
+  if (clientId === null || clientId === undefined) return;
+  const client = await db.query.clients.findFirst({ where: eq(clients.id, clientId) });
+  if (!client) throw new TRPCError({ code: 'BAD_REQUEST', message: 'The selected client does not exist.' });
+}
 
 /**
  * Project Router
@@ -14,10 +23,14 @@ export const projectRouter = createTRPCRouter({
   create: publicProcedure
     .input(createProjectSchema)
     .mutation(async ({ input }) => {
+      await assertClientExists(input.clientId);
       const newProject: NewProject = {
         name: input.name,
         description: input.description || null,
+        clientId: input.clientId ?? null,
         estimatedHours: input.estimatedHours || null,
+        budgetAmount: input.budgetAmount ?? null,
+        billable: input.billable,
         startDate: input.startDate || null,
         endDate: input.endDate || null,
         status: input.status,
@@ -61,6 +74,7 @@ export const projectRouter = createTRPCRouter({
       })
     )
     .mutation(async ({ input }) => {
+      await assertClientExists(input.data.clientId);
       const result = await db
         .update(projects)
         .set({
@@ -77,6 +91,11 @@ export const projectRouter = createTRPCRouter({
   delete: publicProcedure
     .input(z.object({ id: z.number() }))
     .mutation(async ({ input }) => {
+      // Story 9.6: issued invoice numbers must never disappear (or be reused)
+      const invoiceNumber = await invoiceService.projectInvoiceNumber(input.id);
+      if (invoiceNumber) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: projectInvoicedMessage(invoiceNumber) });
+      }
       const result = await db
         .delete(projects)
         .where(eq(projects.id, input.id))
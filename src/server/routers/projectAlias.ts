@@ -0,0 +1,34 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { createTRPCRouter, publicProcedure } from '../trpc';
+import { projectAliasService } from '../services/ProjectAliasService';
+import { setProjectAliasSchema } from '@/lib/validators';
+
+/**
+ * Project Alias Router
+ * Story 3.4 — sheet project tokens → existing projects (used by Excel import + preview remediation)
+ */
+export const projectAliasRouter = createTRPCRouter({
+  list: publicProcedure
+    .input(z.object({ projectId: z.number().optional() }).optional())
+    .query(async ({ input }) => {
+      return projectAliasService.listAliases(input?.projectId);
+    }),
+
+  set: publicProcedure.input(setProjectAliasSchema).mutation(async ({ input }) => {
+    try {
+      return await projectAliasService.setAlias(input.alias, input.projectId);
+    } catch (e) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: e instanceof Error ? e.message : 'Could not save alias',
+      });
+    }
+  }),
+
+  delete: publicProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      return projectAliasService.deleteAlias(input.id);
+    }),
+});
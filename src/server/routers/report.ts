@@ -2,6 +2,13 @@ import { z } from 'zod';
 import { createTRPCRouter, publicProcedure } from '../trpc';
 import { reportService } from '../services/ReportService';
 import { actualsReportInputSchema } from '@/lib/validators';
+import { FORECAST_METHODS } from '@/lib/forecast';
+
+// Keep filename human-friendly; replace Windows-illegal characters.
+function reportFileName(projectName: string, extension: 'csv' | 'xlsx'): string {
+  const safeProjectName = projectName.replace(/[\\/:"*?<>|]/g, '-');
+  return `actuals-report-${safeProjectName}-${Date.now()}.${extension}`;
+}
 
 /**
  * Report Router
@@ -15,14 +22,30 @@ export const reportRouter = createTRPCRouter({
       return reportService.getActualsVsEstimates(
         input.projectId,
         input.startDate,
-        input.endDate
+        input.endDate,
+        input.groupBy
       );
     }),
 
   // Get all projects summary
-  projectsSummary: publicProcedure.query(async () => {
-    return reportService.getAllProjectsSummary();
-  }),
+  projectsSummary: publicProcedure
+    .input(
+      z
+        .object({
+          // Story 9.8 — one client's projects; null = projects without a client
+          clientId: z.number().int().positive().nullable().optional(),
+          // Story 9.10 — one project (the project page's forecast) and how to forecast
+          projectId: z.number().int().positive().optional(),
+          forecastMethod: z.enum(FORECAST_METHODS).optional(),
+        })
+        .optional()
+    )
+    .query(async ({ input }) => {
+      return reportService.getAllProjectsSummary(
+        { clientId: input?.clientId, projectId: input?.projectId },
+        input?.forecastMethod
+      );
+    }),
 
   // Get developer productivity report
   developerProductivity: publicProcedure
@@ -41,13 +64,13 @@ export const reportRouter = createTRPCRouter({
       );
     }),
 
-  // Get timeline data for charts
+  // Get timeline data for charts (Story 9.9: no dates = all time, for the burn-up chart)
   timeline: publicProcedure
     .input(
       z.object({
         projectId: z.number(),
-        startDate: z.date(),
-        endDate: z.date(),
+        startDate: z.date().optional(),
+        endDate: z.date().optional(),
       })
     )
     .query(async ({ input }) => {
@@ -58,30 +81,40 @@ export const reportRouter = createTRPCRouter({
       );
     }),
 
-  // Export report as CSV
+  // Export report as CSV (Story 9.2: in the report's grouping)
   exportCSV: publicProcedure
-    .input(
-      z.object({
-        projectId: z.number(),
-        startDate: z.date().optional(),
-        endDate: z.date().optional(),
-      })
-    )
+    .input(actualsReportInputSchema)
     .mutation(async ({ input }) => {
       const report = await reportService.getActualsVsEstimates(
         input.projectId,
         input.startDate,
-        input.endDate
+        input.endDate,
+        input.groupBy
       );
 
       const csv = reportService.exportToCSV(report);
 
-      // Keep filename human-friendly; replace Windows-illegal characters.
-      const safeProjectName = report.projectName.replace(/[\\/:"*?<>|]/g, '-');
-
       return {
-        filename: `actuals-report-${safeProjectName}-${Date.now()}.csv`,
+        filename: reportFileName(report.projectName, 'csv'),
         content: csv,
       };
     }),
+
+  // Story 9.1: export report as a formatted workbook (base64), same filters as the report
+  exportXLSX: publicProcedure
+    .input(
+      z.object({
+        projectId: z.number(),
+        startDate: z.date().optional(),
+        endDate: z.date().optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      const data = await reportService.getActualsWorkbookData(input.projectId, input.startDate, input.endDate);
+
+      return {
+        filename: reportFileName(data.report.projectName, 'xlsx'),
+        content: reportService.exportToXLSX(data).toString('base64'),
+      };
+    }),
 });
@@ -0,0 +1,17 @@
+import { createTRPCRouter, publicProcedure } from '../trpc';
+import { settingsService } from '../services/SettingsService';
+import { updateAppSettingsSchema } from '@/lib/validators';
+
+/**
+ * Settings Router
+ * System-wide defaults (e.g. strict Excel import)
+ */
+export const settingsRouter = createTRPCRouter({
+  get: publicProcedure.query(async () => {
+    return settingsService.getSettings();
+  }),
+
+  update: publicProcedure.input(updateAppSettingsSchema).mutation(async ({ input }) => {
+    return settingsService.updateSettings(input);
+  }),
+});
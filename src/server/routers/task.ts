@@ -6,6 +6,9 @@ import { tasks, type NewTask } from '../db/schema';
 import { eq } from 'drizzle-orm';
 import { createTaskSchema, updateTaskDataSchema } from '@/lib/validators';
 import { listByProjectInputSchema, taskListOrderBy } from '@/lib/task-list-sort';
+import { wouldCreateTaskCycle } from '@/lib/task-tree';
+import { taskInvoicedMessage } from '@/lib/invoices';
+import { invoiceService } from '../services/InvoiceService';
 
 function isSqliteUniqueViolation(err: unknown): boolean {
   if (!err || typeof err !== 'object') return false;
@@ -26,6 +29,26 @@ function throwStoryNumberConflict(): never {
   });
 }
 
+/**
+ * Story 9.3 — `parentTaskId` must be a task in the same project, and (on update) not the task
+ * itself or one of its subtasks.
+ */
+async function assertValidParentTask(projectId: number, parentTaskId: number, taskId?: number): Promise<void> {
+  const projectTasks = await db
+    .select({ id: tasks.id, parentTaskId: tasks.parentTaskId })
+    .from(tasks)
+    .where(eq(tasks.projectId, projectId));
+  if (!projectTasks.some((t) => t.id === parentTaskId)) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'The parent task must be a task in the same project.' });
+  }
+  if (taskId !== undefined && wouldCreateTaskCycle(taskId, parentTaskId, projectTasks)) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: 'A task cannot be its own parent or a subtask of one of its subtasks. Choose a different parent.',
+    });
+  }
+}
+
 /**
  * Task Router
  * Handles task CRUD operations
@@ -35,6 +58,8 @@ export const taskRouter = createTRPCRouter({
   create: publicProcedure
     .input(createTaskSchema)
     .mutation(async ({ input }) => {
+      if (input.parentTaskId) await assertValidParentTask(input.projectId, input.parentTaskId);
+
       const newTask: NewTask = {
         projectId: input.projectId,
         name: input.name,
@@ -42,6 +67,7 @@ export const taskRouter = createTRPCRouter({
         estimatedHours: input.estimatedHours || null,
         storyNumber: input.storyNumber ?? null,
         parentTaskId: input.parentTaskId || null,
+        billable: input.billable ?? null,
         status: input.status,
       };
 
@@ -89,6 +115,13 @@ export const taskRouter = createTRPCRouter({
       if (d.parentTaskId !== undefined) patch.parentTaskId = d.parentTaskId ?? null;
       if (d.status !== undefined) patch.status = d.status;
       if (d.storyNumber !== undefined) patch.storyNumber = d.storyNumber;
+      if (d.billable !== undefined) patch.billable = d.billable;
+
+      if (d.parentTaskId) {
+        const task = await db.query.tasks.findFirst({ where: eq(tasks.id, input.id) });
+        if (!task) throw new TRPCError({ code: 'NOT_FOUND', message: 'Task not found.' });
+        await assertValidParentTask(task.projectId, d.parentTaskId, task.id);
+      }
 
       try {
         const result = await db.update(tasks).set(patch).where(eq(tasks.id, input.id)).returning();
@@ -104,8 +137,24 @@ export const taskRouter = createTRPCRouter({
   delete: publicProcedure
     .input(z.object({ id: z.number() }))
     .mutation(async ({ input }) => {
-      const result = await db.delete(tasks).where(eq(tasks.id, input.id)).returning();
+      // Story 9.6: deleting would clear the task on time entries an invoice has locked
+      const invoiceNumber = await invoiceService.taskInvoiceNumber(input.id);
+      if (invoiceNumber) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: taskInvoicedMessage(invoiceNumber) });
+      }
+
+      return db.transaction((tx) => {
+        const [deleted] = tx.delete(tasks).where(eq(tasks.id, input.id)).returning().all();
 
-      return result.length > 0;
+        // Story 9.3: subtasks move up to the deleted task's parent
+        if (deleted) {
+          tx.update(tasks)
+            .set({ parentTaskId: deleted.parentTaskId, updatedAt: new Date() })
+            .where(eq(tasks.parentTaskId, input.id))
+            .run();
+        }
+
+        return deleted !== undefined;
+      });
     }),
 });
@@ -1,8 +1,74 @@
+import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 import { createTRPCRouter, publicProcedure } from '../trpc';
 import { timesheetService } from '../services/TimesheetService';
 import { excelParser } from '../services/ExcelParser';
-import { createTimeEntrySchema, bulkCreateTimeEntriesSchema } from '@/lib/validators';
+import { parseIssueReportService } from '../services/ParseIssueReportService';
+import { importBatchService, importFileChecksum } from '../services/ImportBatchService';
+import { settingsService } from '../services/SettingsService';
+import { columnMappingProfileService } from '../services/ColumnMappingProfileService';
+import {
+  createTimeEntrySchema,
+  bulkCreateTimeEntriesSchema,
+  importConflictResolutionSchema,
+  approveImportEntitiesSchema,
+  importSheetsSchema,
+  importDeveloperMatchSchema,
+  importWeekEndingSchema,
+} from '@/lib/validators';
+import { applyImportConflictResolutions } from '@/lib/time-entry-identity';
+import { localDateFromIso } from '@/lib/date-utils';
+import { timeEntrySourceOf } from '@/lib/time-entry-source';
+import { PARSE_ISSUE_REPORT_FORMATS } from '@/lib/parse-issue-report';
+import {
+  applyDurationPolicy,
+  formatClockDuration,
+  type DurationAdjustment,
+  type DurationPolicy,
+} from '@/lib/duration-rounding';
+
+/**
+ * Story 7.3 — an explicit per-import strict choice wins over the stored default.
+ * Story 7.6 / 7.7 — tracker-export and system rounding always follow the stored policies.
+ * Story 7.10 — so does the first day of weekly grids without weekday headers.
+ */
+async function importParseSettings(strict: boolean | undefined) {
+  const settings = await settingsService.getSettings();
+  return {
+    strict: strict ?? settings.importStrictMode,
+    trackerRounding: settings.trackerImportRounding,
+    rounding: settings.durationRoundingPolicy,
+    weekStart: settings.weeklyGridWeekStart,
+  };
+}
+
+
+/** Story 7.7 — fit a manual / API duration to the grid under the system policy. */
+function roundEntryDuration(minutes: number, policy: DurationPolicy): DurationAdjustment {
+  let adjustment: DurationAdjustment;
+  try {
+    adjustment = applyDurationPolicy(minutes, policy);
+  } catch (error) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: error instanceof Error ? error.message : 'Invalid duration',
+    });
+  }
+  if (adjustment.durationMinutes === 0) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Duration ${formatClockDuration(minutes)} rounds down to 0 minutes`,
+    });
+  }
+  return adjustment;
+}
+
+/** Story 7.4 — reject a stale profile id before parsing. */
+async function assertMappingProfileExists(profileId: number | undefined): Promise<void> {
+  if (profileId && !(await columnMappingProfileService.getProfile(profileId))) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'The selected mapping profile no longer exists.' });
+  }
+}
 
 /**
  * Timesheet Router
@@ -13,13 +79,16 @@ export const timesheetRouter = createTRPCRouter({
   create: publicProcedure
     .input(createTimeEntrySchema)
     .mutation(async ({ input }) => {
+      const { durationRoundingPolicy } = await settingsService.getSettings();
       return timesheetService.createEntry({
         projectId: input.projectId,
         taskId: input.taskId,
         developerId: input.developerId,
         startTime: input.startTime,
-        durationMinutes: input.durationMinutes,
+        ...roundEntryDuration(input.durationMinutes, durationRoundingPolicy),
         description: input.description,
+        billable: input.billable,
+        source: { type: 'manual' },
       });
     }),
 
@@ -27,59 +96,202 @@ export const timesheetRouter = createTRPCRouter({
   bulkCreate: publicProcedure
     .input(bulkCreateTimeEntriesSchema)
     .mutation(async ({ input }) => {
+      const { durationRoundingPolicy } = await settingsService.getSettings();
       return timesheetService.bulkCreateEntries(
         input.map((entry) => ({
           projectId: entry.projectId,
           taskId: entry.taskId,
           developerId: entry.developerId,
           startTime: entry.startTime,
-          durationMinutes: entry.durationMinutes,
+          ...roundEntryDuration(entry.durationMinutes, durationRoundingPolicy),
           description: entry.description,
+          billable: entry.billable,
+          source: { type: 'api' },
         }))
       );
     }),
 
-  // Parse Excel file (returns parsed data without saving)
+  // Parse an Excel or CSV/TSV file (returns parsed data without saving)
   parseExcel: publicProcedure
     .input(
       z.object({
         fileBuffer: z.string(), // Base64 encoded file
+        fileName: z.string().trim().min(1).max(255).optional(),
+        replaceBatchId: z.number().int().positive().optional(),
+        strict: z.boolean().optional(),
+        profileId: z.number().int().positive().optional(),
+        sheets: importSheetsSchema.optional(),
+        developerMatches: z.array(importDeveloperMatchSchema).optional(),
+        weekEnding: importWeekEndingSchema.optional(),
       })
     )
     .mutation(async ({ input }) => {
+      await assertMappingProfileExists(input.profileId);
       const buffer = Buffer.from(input.fileBuffer, 'base64');
-      const parseResult = await excelParser.parseFile(buffer, { mode: 'preview' });
+      const { strict, trackerRounding, rounding, weekStart } = await importParseSettings(input.strict);
+      const parseResult = await excelParser.parseFile(buffer, {
+        mode: 'preview',
+        strict,
+        trackerRounding,
+        rounding,
+        weekStart,
+        profileId: input.profileId,
+        fileName: input.fileName,
+        sheets: input.sheets,
+        developerMatches: input.developerMatches,
+        weekEnding: input.weekEnding ? localDateFromIso(input.weekEnding) : undefined,
+      });
+      const plan = await timesheetService.planImport(parseResult.entries, {
+        excludeBatchId: input.replaceBatchId,
+      });
+      // Story 7.2: warn when this exact file is already imported (and not being replaced)
+      const previousImports = (await importBatchService.findActiveByChecksum(importFileChecksum(buffer)))
+        .filter((b) => b.id !== input.replaceBatchId)
+        .map((b) => ({ id: b.id, fileName: b.fileName, createdAt: b.createdAt }));
       return {
         sheetName: parseResult.sheetName,
+        sheets: parseResult.sheets ?? [],
+        source: parseResult.source ?? { format: 'excel' as const },
+        trackerExport: parseResult.trackerExport ?? null,
+        weeklyGrid: parseResult.weeklyGrid ?? null,
+        weekStart,
+        rounding,
         entryCount: parseResult.entries.length,
+        newCount: plan.classification.newIndexes.length,
+        duplicateCount: plan.classification.duplicateIndexes.length,
+        conflicts: plan.conflicts,
+        previousImports,
+        strict,
+        wouldCreate: parseResult.wouldCreate ?? { developers: [], projects: [], tasks: [] },
+        headers: parseResult.headers ?? [],
         detectedDeveloper: parseResult.detectedDeveloper,
         developers: parseResult.developers,
+        developerBreakdown: parseResult.developerBreakdown ?? [],
         projects: parseResult.projects,
         preview: parseResult.preview,
+        // Story 7.14: structured form of errors / warnings (code, sheet, row, column, value)
+        issues: parseResult.issues,
         errors: parseResult.errors,
         warnings: parseResult.warnings,
       };
     }),
 
-  // Import from Excel (parse and save)
+  // Story 7.13: the preview's errors / warnings as an annotated copy of the file or a Markdown summary
+  parseIssueReport: publicProcedure
+    .input(
+      z.object({
+        fileBuffer: z.string(), // Base64 encoded file
+        fileName: z.string().trim().min(1).max(255).default('timesheet.xlsx'),
+        format: z.enum(PARSE_ISSUE_REPORT_FORMATS),
+        strict: z.boolean().optional(),
+        profileId: z.number().int().positive().optional(),
+        sheets: importSheetsSchema.optional(),
+        developerMatches: z.array(importDeveloperMatchSchema).optional(),
+        weekEnding: importWeekEndingSchema.optional(),
+      })
+    )
+    .mutation(async ({ input }) => {
+      await assertMappingProfileExists(input.profileId);
+      return parseIssueReportService.buildReport(
+        Buffer.from(input.fileBuffer, 'base64'),
+        input.fileName,
+        input.format,
+        {
+          ...(await importParseSettings(input.strict)),
+          profileId: input.profileId,
+          sheets: input.sheets,
+          developerMatches: input.developerMatches,
+          weekEnding: input.weekEnding ? localDateFromIso(input.weekEnding) : undefined,
+        }
+      );
+    }),
+
+  // Import from Excel or CSV/TSV (parse and save)
+  // Story 7.1: identical rows are skipped; conflicts must each carry a resolution.
+  // Story 7.2: inserted rows are stamped with a new import batch; `replaceBatchId` swaps out an
+  // earlier batch (its rows are deleted in the same transaction).
   importExcel: publicProcedure
     .input(
       z.object({
         fileBuffer: z.string(), // Base64 encoded file
+        fileName: z.string().trim().min(1).max(255).default('timesheet.xlsx'),
+        resolutions: z.array(importConflictResolutionSchema).default([]),
+        replaceBatchId: z.number().int().positive().optional(),
+        strict: z.boolean().optional(),
+        profileId: z.number().int().positive().optional(),
+        sheets: importSheetsSchema.optional(),
+        developerMatches: z.array(importDeveloperMatchSchema).optional(),
+        weekEnding: importWeekEndingSchema.optional(),
       })
     )
     .mutation(async ({ input }) => {
+      await assertMappingProfileExists(input.profileId);
+      if (input.replaceBatchId) {
+        const target = await importBatchService.getBatchById(input.replaceBatchId);
+        if (!target || target.status !== 'active') {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'The import being replaced no longer exists or was already discarded/replaced.',
+          });
+        }
+      }
+
+      // Story 7.1: nothing is written until the file parses and every conflict is resolved — new
+      // developers / projects / tasks are created in the same transaction as the entries
       const buffer = Buffer.from(input.fileBuffer, 'base64');
-      const parseResult = await excelParser.parseFile(buffer, { mode: 'import' });
+      const parseResult = await excelParser.parseFile(buffer, {
+        mode: 'import',
+        deferEntities: true,
+        ...(await importParseSettings(input.strict)),
+        profileId: input.profileId,
+        fileName: input.fileName,
+        sheets: input.sheets,
+        developerMatches: input.developerMatches,
+        weekEnding: input.weekEnding ? localDateFromIso(input.weekEnding) : undefined,
+      });
 
       if (parseResult.errors.length > 0) {
         throw new Error(`Parse errors: ${parseResult.errors.join(', ')}`);
       }
 
-      const entries = await timesheetService.bulkCreateEntries(parseResult.entries);
+      const plan = await timesheetService.planImport(parseResult.entries, {
+        excludeBatchId: input.replaceBatchId,
+      });
+      const resolved = applyImportConflictResolutions(plan.classification, input.resolutions);
+
+      if (resolved.unresolved.length > 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: `${resolved.unresolved.length} conflicting row(s) need review before import. Parse the file again and choose an action for each conflict.`,
+        });
+      }
+
+      const entries = await timesheetService.bulkCreateEntries(
+        resolved.insertIndexes.map((i) => parseResult.entries[i]!),
+        {
+          replacements: resolved.replacements.map((r) => ({
+            id: r.existingId,
+            input: parseResult.entries[r.index]!,
+          })),
+          importBatch: {
+            fileName: input.fileName,
+            checksum: importFileChecksum(buffer),
+            replacesBatchId: input.replaceBatchId,
+          },
+          prepareInputs: (tx, rows) => excelParser.createPendingEntities(tx, rows).entries,
+        }
+      );
 
       return {
         imported: entries.length,
+        importBatchId: entries[0]?.importBatchId ?? null,
+        replacedBatchId: input.replaceBatchId ?? null,
+        sheets: (parseResult.sheets ?? [])
+          .filter((sheet) => sheet.included)
+          .map((sheet) => ({ name: sheet.name, entryCount: sheet.entryCount })),
+        skippedDuplicates: plan.classification.duplicateIndexes.length,
+        keptExisting: resolved.keptExistingIndexes.length,
+        replaced: resolved.replacements.length,
         detectedDeveloper: parseResult.detectedDeveloper,
         developers: parseResult.developers,
         errors: parseResult.errors,
@@ -87,6 +299,13 @@ export const timesheetRouter = createTRPCRouter({
       };
     }),
 
+  // Story 7.3: create the developers/projects/tasks a manager approved from the preview summary
+  createImportEntities: publicProcedure
+    .input(approveImportEntitiesSchema)
+    .mutation(async ({ input }) => {
+      return excelParser.createApprovedEntities(input);
+    }),
+
   // List time entries with filters
   list: publicProcedure
     .input(
@@ -96,6 +315,8 @@ export const timesheetRouter = createTRPCRouter({
         taskId: z.number().optional(),
         startDate: z.date().optional(),
         endDate: z.date().optional(),
+        /** Story 9.7 — only billable (true) or non-billable (false) time */
+        billable: z.boolean().optional(),
         limit: z.number().min(1).max(1000).default(100),
         offset: z.number().min(0).default(0),
       })
@@ -108,6 +329,7 @@ export const timesheetRouter = createTRPCRouter({
           taskId: input.taskId,
           startDate: input.startDate,
           endDate: input.endDate,
+          billable: input.billable,
         },
         input.limit,
         input.offset
@@ -119,6 +341,7 @@ export const timesheetRouter = createTRPCRouter({
         taskId: input.taskId,
         startDate: input.startDate,
         endDate: input.endDate,
+        billable: input.billable,
       });
 
       return {
@@ -132,7 +355,9 @@ export const timesheetRouter = createTRPCRouter({
   get: publicProcedure
     .input(z.object({ id: z.number() }))
     .query(async ({ input }) => {
-      return timesheetService.getEntryById(input.id);
+      const entry = await timesheetService.getEntryById(input.id);
+      // Story 7.12 — provenance shown in the edit modal
+      return entry ? { ...entry, source: timeEntrySourceOf(entry) } : entry;
     }),
 
   // Update entry
@@ -144,7 +369,14 @@ export const timesheetRouter = createTRPCRouter({
       })
     )
     .mutation(async ({ input }) => {
-      return timesheetService.updateEntry(input.id, input.data);
+      if (input.data.durationMinutes === undefined) {
+        return timesheetService.updateEntry(input.id, input.data);
+      }
+      const { durationRoundingPolicy } = await settingsService.getSettings();
+      return timesheetService.updateEntry(input.id, {
+        ...input.data,
+        ...roundEntryDuration(input.data.durationMinutes, durationRoundingPolicy),
+      });
     }),
 
   // Delete entry
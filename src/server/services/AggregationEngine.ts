@@ -1,7 +1,10 @@
 import { db } from '../db';
 import { timeEntries, tasks, actualsCache, projects, developers } from '../db/schema';
 import { eq, and, gte, lte, sql } from 'drizzle-orm';
-import { startOfDay, endOfDay } from '@/lib/date-utils';
+import { startOfDay, endOfDay, startOfWeek, endOfWeek, toLocalIsoDate } from '@/lib/date-utils';
+import { NO_TASK_GROUP, type ActualsGroupBy } from '@/lib/actuals-grouping';
+import { rollUpTaskHours } from '@/lib/task-tree';
+import { costVariance, sumCosts, timeCost } from '@/lib/cost';
 
 /**
  * AggregationEngine
@@ -9,12 +12,80 @@ import { startOfDay, endOfDay } from '@/lib/date-utils';
  * Implements caching strategy to avoid redundant calculations
  */
 
+/**
+ * Story 9.5 — hourly rate in force at a time entry's start (rules in `rate-history.ts`); null = TBD.
+ * Correlated on `time_entries` by its table name (Drizzle leaves columns unqualified in
+ * single-table selects), so only use it in queries over that table without an alias.
+ */
+export const entryHourlyRateSql = sql<number | null>`COALESCE(
+  (SELECT r.hourly_rate FROM developer_rates r
+    WHERE r.developer_id = "time_entries"."developer_id"
+      AND r.project_id = "time_entries"."project_id"
+      AND r.effective_from <= "time_entries"."start_time"
+    ORDER BY r.effective_from DESC, r.id DESC LIMIT 1),
+  (SELECT r.hourly_rate FROM developer_rates r
+    WHERE r.developer_id = "time_entries"."developer_id"
+      AND r.project_id IS NULL
+      AND r.effective_from <= "time_entries"."start_time"
+    ORDER BY r.effective_from DESC, r.id DESC LIMIT 1),
+  (SELECT d.hourly_rate FROM developers d WHERE d.id = "time_entries"."developer_id"),
+  (SELECT c.hourly_rate FROM projects p JOIN clients c ON c.id = p.client_id
+    WHERE p.id = "time_entries"."project_id")
+)`;
+
+/** Story 9.7 — minutes of billable time in a `time_entries` aggregate (0 when there is none). */
+export const billableMinutesSql = sql<number>`CAST(COALESCE(SUM(CASE WHEN ${timeEntries.billable} THEN ${timeEntries.durationMinutes} ELSE 0 END), 0) AS INTEGER)`;
+
 export interface ActualsData {
   taskId: number | null;
   taskName: string | null;
   totalMinutes: number;
   totalHours: number;
   entryCount: number;
+  /** Story 9.7 */
+  billableHours: number;
+}
+
+export interface TaskHoursRollup {
+  /** null = TBD on the task or a subtask */
+  estimatedHours: number | null;
+  actualHours: number;
+  variance: number;
+  variancePercentage: number;
+  /** Story 9.4 */
+  actualCost: number | null;
+  subtaskCount: number;
+}
+
+/** Story 9.4 — labour cost of the report period against the project's budget amount. */
+export interface ActualsCost {
+  budgetAmount: number | null;
+  /** null = TBD: someone in `developersWithoutRate` logged time */
+  actualCost: number | null;
+  /** Actual cost minus budget amount; null when either is unset */
+  variance: number | null;
+  variancePercentage: number | null;
+  /** Story 9.5 — developers with time in the period that no rate covers */
+  developersWithoutRate: Array<{ developerId: number; developerName: string }>;
+}
+
+/** Story 9.2 — one row of the report under its `groupBy`. */
+export interface ActualsGroup {
+  /** Task / developer id, `none` for time without a task, or the bucket's `YYYY-MM-DD` start. */
+  key: string;
+  label: string;
+  /** First day of a day / week bucket; null for task and developer groups. */
+  periodStart: Date | null;
+  /** Task estimate (task grouping only); null = TBD or not applicable. */
+  estimatedHours: number | null;
+  actualHours: number;
+  /** Story 9.7 — the billable part of `actualHours` */
+  billableHours: number;
+  entryCount: number;
+  variance: number;
+  variancePercentage: number;
+  /** Story 9.4 — null = TBD (time by a developer without a rate) */
+  actualCost: number | null;
 }
 
 export interface ActualsVsEstimates {
@@ -22,16 +93,42 @@ export interface ActualsVsEstimates {
   projectName: string;
   totalEstimatedHours: number | null;
   totalActualHours: number;
+  /** Story 9.7 — `totalActualHours` split by the entries' billable flag */
+  totalBillableHours: number;
+  totalNonBillableHours: number;
   variance: number;
   variancePercentage: number;
   tasks: Array<{
     taskId: number;
     taskName: string;
+    /** Story 9.3 — null for top-level tasks */
+    parentTaskId: number | null;
     estimatedHours: number | null;
     actualHours: number;
     variance: number;
     variancePercentage: number;
+    /** Story 9.4 — own time at the rate in force for each entry (Story 9.5); null = TBD */
+    actualCost: number | null;
+    /** Story 9.3 — this task plus every subtask below it (rules in `task-tree.ts`) */
+    rollup: TaskHoursRollup;
   }>;
+  /** Story 9.2 — the grouping of `groups`; `tasks` is always the per-task breakdown. */
+  groupBy: ActualsGroupBy;
+  groups: ActualsGroup[];
+  /** Story 9.4 */
+  cost: ActualsCost;
+}
+
+export interface PeriodActuals {
+  periodStart: Date;
+  periodEnd: Date;
+  totalMinutes: number;
+  totalHours: number;
+  entryCount: number;
+  /** Story 9.7 */
+  billableHours: number;
+  /** Story 9.4 — null = TBD */
+  totalCost: number | null;
 }
 
 export interface DeveloperSummary {
@@ -40,6 +137,10 @@ export interface DeveloperSummary {
   totalMinutes: number;
   totalHours: number;
   entryCount: number;
+  /** Story 9.7 */
+  billableHours: number;
+  /** Story 9.4 — each entry at the rate in force when it started (Story 9.5); null when one has none */
+  totalCost: number | null;
 }
 
 export class AggregationEngine {
@@ -49,7 +150,8 @@ export class AggregationEngine {
   async getActualsVsEstimates(
     projectId: number,
     startDate?: Date,
-    endDate?: Date
+    endDate?: Date,
+    groupBy: ActualsGroupBy = 'task'
   ): Promise<ActualsVsEstimates> {
     // Project row: variance + task list + fallback bounds when only one of start/end is set.
     const project = await db.query.projects.findFirst({
@@ -60,17 +162,13 @@ export class AggregationEngine {
       throw new Error(`Project ${projectId} not found`);
     }
 
-    // BUG-REPORT-001 / Story 6.7: implicit "All Time" (no dates from UI) must include all
-    // time_entries for the project — do not clip to planning startDate/endDate (matches
-    // projectsSummary). Explicit date filters keep planning-date fallbacks for partial bounds.
-    const implicitAllTime = startDate === undefined && endDate === undefined;
-    const start = implicitAllTime
-      ? new Date(0)
-      : startDate ?? project.startDate ?? new Date(0);
-    const end = implicitAllTime ? new Date() : endDate ?? project.endDate ?? new Date();
+    const { start, end } = this.resolveReportRange(project, startDate, endDate);
 
     // Get actuals from time entries
     const actuals = await this.getActualsByTask(projectId, start, end);
+    // Story 9.4: cost at each developer's hourly rate
+    const byDeveloper = await this.getActualsByDeveloper(projectId, start, end);
+    const taskCosts = await this.getActualCostsByTask(projectId, start, end);
 
     // Get estimates from tasks
     const taskEstimates = await db.query.tasks.findMany({
@@ -79,23 +177,37 @@ export class AggregationEngine {
 
     // Calculate total actual hours
     const totalActualHours = actuals.reduce((sum, a) => sum + a.totalHours, 0);
+    const totalBillableHours = actuals.reduce((sum, a) => sum + a.billableHours, 0);
 
     // Build task-level variance report
-    const taskVariances = taskEstimates.map((task) => {
-      const actual = actuals.find((a) => a.taskId === task.id);
-      const actualHours = actual?.totalHours || 0;
-      const estimatedHours = task.estimatedHours ?? null;
-      const variance = estimatedHours === null ? 0 : actualHours - estimatedHours;
-      const variancePercentage =
-        estimatedHours !== null && estimatedHours > 0 ? (variance / estimatedHours) * 100 : 0;
+    const ownHours = taskEstimates.map((task) => ({
+      id: task.id,
+      parentTaskId: task.parentTaskId,
+      estimatedHours: task.estimatedHours ?? null,
+      actualHours: actuals.find((a) => a.taskId === task.id)?.totalHours || 0,
+      actualCost: taskCosts.has(task.id) ? taskCosts.get(task.id)! : 0,
+    }));
+    // Story 9.3: subtask estimates and actuals rolled up into their parents
+    const rollups = rollUpTaskHours(ownHours);
+    const taskVariances = taskEstimates.map((task, i) => {
+      const { estimatedHours, actualHours, actualCost } = ownHours[i]!;
+      const rollup = rollups.get(task.id)!;
 
       return {
         taskId: task.id,
         taskName: task.name,
+        parentTaskId: task.parentTaskId,
         estimatedHours,
         actualHours,
-        variance,
-        variancePercentage,
+        ...this.taskVariance(estimatedHours, actualHours),
+        actualCost,
+        rollup: {
+          estimatedHours: rollup.estimatedHours,
+          actualHours: rollup.actualHours,
+          ...this.taskVariance(rollup.estimatedHours, rollup.actualHours),
+          actualCost: rollup.actualCost,
+          subtaskCount: rollup.subtaskCount,
+        },
       };
     });
 
@@ -108,17 +220,121 @@ export class AggregationEngine {
       ? (projectVariance / totalEstimatedHours) * 100
       : 0;
 
+    const totalActualCost = sumCosts(byDeveloper.map((d) => d.totalCost));
+    const cost: ActualsCost = {
+      budgetAmount: project.budgetAmount,
+      actualCost: totalActualCost,
+      ...costVariance(totalActualCost, project.budgetAmount),
+      developersWithoutRate: byDeveloper
+        .filter((d) => d.totalCost === null)
+        .map((d) => ({ developerId: d.developerId, developerName: d.developerName })),
+    };
+
+    // Story 9.2: rows under the requested grouping (task rows reuse the breakdown above)
+    let groups: ActualsGroup[];
+    if (groupBy === 'task') {
+      const unassigned = actuals.find((a) => a.taskId === null);
+      groups = [
+        ...taskVariances.map((task) => ({
+          key: String(task.taskId),
+          label: task.taskName,
+          periodStart: null,
+          estimatedHours: task.estimatedHours,
+          actualHours: task.actualHours,
+          billableHours: actuals.find((a) => a.taskId === task.taskId)?.billableHours ?? 0,
+          entryCount: actuals.find((a) => a.taskId === task.taskId)?.entryCount ?? 0,
+          variance: task.variance,
+          variancePercentage: task.variancePercentage,
+          actualCost: task.actualCost,
+        })),
+        ...(unassigned
+          ? [
+              this.actualsGroup(NO_TASK_GROUP.key, NO_TASK_GROUP.label, null, {
+                ...unassigned,
+                totalCost: taskCosts.get(null) ?? 0,
+              }),
+            ]
+          : []),
+      ];
+    } else if (groupBy === 'developer') {
+      groups = [...byDeveloper]
+        .sort((a, b) => b.totalMinutes - a.totalMinutes || a.developerName.localeCompare(b.developerName))
+        .map((d) => this.actualsGroup(String(d.developerId), d.developerName, null, d));
+    } else {
+      const byPeriod = await this.getActualsByPeriod(projectId, start, end, groupBy);
+      groups = byPeriod.map((p) => {
+        const key = toLocalIsoDate(p.periodStart);
+        return this.actualsGroup(key, groupBy === 'week' ? `Week of ${key}` : key, p.periodStart, p);
+      });
+    }
+
     return {
       projectId: project.id,
       projectName: project.name,
       totalEstimatedHours,
       totalActualHours,
+      totalBillableHours,
+      totalNonBillableHours: totalActualHours - totalBillableHours,
       variance: projectVariance,
       variancePercentage: projectVariancePercentage,
       tasks: taskVariances,
+      groupBy,
+      groups,
+      cost,
+    };
+  }
+
+  /** Variance against a task estimate; 0 while the estimate is TBD. */
+  private taskVariance(
+    estimatedHours: number | null,
+    actualHours: number
+  ): { variance: number; variancePercentage: number } {
+    const variance = estimatedHours === null ? 0 : actualHours - estimatedHours;
+    const variancePercentage =
+      estimatedHours !== null && estimatedHours > 0 ? (variance / estimatedHours) * 100 : 0;
+    return { variance, variancePercentage };
+  }
+
+  /** A group without an estimate (developer, day, week, or time without a task). */
+  private actualsGroup(
+    key: string,
+    label: string,
+    periodStart: Date | null,
+    totals: { totalHours: number; billableHours: number; entryCount: number; totalCost: number | null }
+  ): ActualsGroup {
+    return {
+      key,
+      label,
+      periodStart,
+      estimatedHours: null,
+      actualHours: totals.totalHours,
+      billableHours: totals.billableHours,
+      entryCount: totals.entryCount,
+      variance: 0,
+      variancePercentage: 0,
+      actualCost: totals.totalCost,
     };
   }
 
+  /**
+   * Period the report covers for the given filters.
+   */
+  resolveReportRange(
+    project: { startDate: Date | null; endDate: Date | null },
+    startDate?: Date,
+    endDate?: Date
+  ): { start: Date; end: Date } {
+    // BUG-REPORT-001 / Story 6.7: implicit "All Time" (no dates from UI) must include all
+    // time_entries for the project — do not clip to planning startDate/endDate (matches
+    // projectsSummary). Explicit date filters keep planning-date fallbacks for partial bounds.
+    const implicitAllTime = startDate === undefined && endDate === undefined;
+    const start = implicitAllTime
+      ? new Date(0)
+      : startDate ?? project.startDate ?? new Date(0);
+    const end = implicitAllTime ? new Date() : endDate ?? project.endDate ?? new Date();
+    return { start, end };
+  }
+
   /**
    * Get actuals grouped by task
    */
@@ -131,6 +347,7 @@ export class AggregationEngine {
       .select({
         taskId: timeEntries.taskId,
         totalMinutes: sql<number>`CAST(SUM(${timeEntries.durationMinutes}) AS INTEGER)`,
+        billableMinutes: billableMinutesSql,
         entryCount: sql<number>`COUNT(*)`,
       })
       .from(timeEntries)
@@ -160,6 +377,7 @@ export class AggregationEngine {
         totalMinutes: row.totalMinutes,
         totalHours: row.totalMinutes / 60,
         entryCount: row.entryCount,
+        billableHours: row.billableMinutes / 60,
       });
     }
 
@@ -178,7 +396,10 @@ export class AggregationEngine {
       .select({
         developerId: timeEntries.developerId,
         totalMinutes: sql<number>`CAST(SUM(${timeEntries.durationMinutes}) AS INTEGER)`,
+        billableMinutes: billableMinutesSql,
         entryCount: sql<number>`COUNT(*)`,
+        ratedCost: sql<number>`COALESCE(SUM(${timeEntries.durationMinutes} * ${entryHourlyRateSql}) / 60.0, 0)`,
+        unratedEntryCount: sql<number>`CAST(SUM(CASE WHEN ${entryHourlyRateSql} IS NULL THEN 1 ELSE 0 END) AS INTEGER)`,
       })
       .from(timeEntries)
       .where(
@@ -203,12 +424,91 @@ export class AggregationEngine {
         totalMinutes: row.totalMinutes,
         totalHours: row.totalMinutes / 60,
         entryCount: row.entryCount,
+        billableHours: row.billableMinutes / 60,
+        totalCost: row.unratedEntryCount > 0 ? null : row.ratedCost,
       });
     }
 
     return enriched;
   }
 
+  /**
+   * Story 9.4 — actual cost per task (`null` key = time without a task), each entry at the rate in
+   * force when it started (Story 9.5); a task's cost is null (TBD) when an entry on it has no rate
+   */
+  async getActualCostsByTask(
+    projectId: number,
+    startDate: Date,
+    endDate: Date
+  ): Promise<Map<number | null, number | null>> {
+    const rows = await db
+      .select({
+        taskId: timeEntries.taskId,
+        ratedCost: sql<number>`COALESCE(SUM(${timeEntries.durationMinutes} * ${entryHourlyRateSql}) / 60.0, 0)`,
+        unratedEntryCount: sql<number>`CAST(SUM(CASE WHEN ${entryHourlyRateSql} IS NULL THEN 1 ELSE 0 END) AS INTEGER)`,
+      })
+      .from(timeEntries)
+      .where(
+        and(
+          eq(timeEntries.projectId, projectId),
+          gte(timeEntries.startTime, startOfDay(startDate)),
+          lte(timeEntries.startTime, endOfDay(endDate))
+        )
+      )
+      .groupBy(timeEntries.taskId);
+
+    return new Map(rows.map((row) => [row.taskId, row.unratedEntryCount > 0 ? null : row.ratedCost]));
+  }
+
+  /**
+   * Story 9.2 — actuals bucketed by local day or Monday-first week of the entries' start times
+   * (oldest first; only buckets with time)
+   */
+  async getActualsByPeriod(
+    projectId: number,
+    startDate: Date,
+    endDate: Date,
+    period: 'day' | 'week'
+  ): Promise<PeriodActuals[]> {
+    const entries = await db
+      .select({
+        startTime: timeEntries.startTime,
+        durationMinutes: timeEntries.durationMinutes,
+        billable: timeEntries.billable,
+        hourlyRate: entryHourlyRateSql,
+      })
+      .from(timeEntries)
+      .where(
+        and(
+          eq(timeEntries.projectId, projectId),
+          gte(timeEntries.startTime, startOfDay(startDate)),
+          lte(timeEntries.startTime, endOfDay(endDate))
+        )
+      );
+
+    const buckets = new Map<number, PeriodActuals>();
+    for (const entry of entries) {
+      const periodStart = period === 'week' ? startOfWeek(entry.startTime) : startOfDay(entry.startTime);
+      const bucket = buckets.get(periodStart.getTime()) ?? {
+        periodStart,
+        periodEnd: period === 'week' ? endOfWeek(periodStart) : endOfDay(periodStart),
+        totalMinutes: 0,
+        totalHours: 0,
+        entryCount: 0,
+        billableHours: 0,
+        totalCost: 0,
+      };
+      bucket.totalMinutes += entry.durationMinutes;
+      bucket.totalHours = bucket.totalMinutes / 60;
+      if (entry.billable) bucket.billableHours += entry.durationMinutes / 60;
+      bucket.entryCount += 1;
+      bucket.totalCost = sumCosts([bucket.totalCost, timeCost(entry.durationMinutes, entry.hourlyRate)]);
+      buckets.set(periodStart.getTime(), bucket);
+    }
+
+    return Array.from(buckets.values()).sort((a, b) => a.periodStart.getTime() - b.periodStart.getTime());
+  }
+
   /**
    * Check if cached actuals exist and are fresh
    */
@@ -240,6 +540,7 @@ export class AggregationEngine {
       totalMinutes: c.totalMinutes,
       totalHours: c.totalMinutes / 60,
       entryCount: c.entryCount,
+      billableHours: c.billableMinutes / 60,
     }));
   }
 
@@ -271,6 +572,7 @@ export class AggregationEngine {
       periodStart: startDate,
       periodEnd: endDate,
       totalMinutes: a.totalMinutes,
+      billableMinutes: Math.round(a.billableHours * 60),
       entryCount: a.entryCount,
     }));
 
@@ -0,0 +1,149 @@
+import { db } from '../db';
+import { columnMappingProfiles, type ColumnMappingProfileRow } from '../db/schema';
+import { eq, asc } from 'drizzle-orm';
+import {
+  DATE_FORMATS,
+  MAPPABLE_FIELDS,
+  TIME_FORMATS,
+  validateColumnMapping,
+  type ColumnMapping,
+  type ColumnMappingProfileConfig,
+  type DateFormat,
+  type TimeFormat,
+} from '@/lib/column-mapping';
+
+/**
+ * ColumnMappingProfileService
+ * Story 7.4 — CRUD for saved column-mapping profiles (columns stored as JSON)
+ */
+
+export interface ColumnMappingProfile extends ColumnMappingProfileConfig {
+  id: number;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ColumnMappingProfileInput = ColumnMappingProfileConfig & { name: string };
+
+function parseColumns(json: string): ColumnMapping {
+  try {
+    const value: unknown = JSON.parse(json);
+    if (!Array.isArray(value)) return [];
+    return value.filter(
+      (c): c is ColumnMapping[number] =>
+        !!c &&
+        typeof c.header === 'string' &&
+        (MAPPABLE_FIELDS as readonly string[]).includes(c.field)
+    );
+  } catch {
+    return [];
+  }
+}
+
+function toProfile(row: ColumnMappingProfileRow): ColumnMappingProfile {
+  return {
+    id: row.id,
+    name: row.name,
+    columns: parseColumns(row.columns),
+    dateFormat: (DATE_FORMATS as readonly string[]).includes(row.dateFormat)
+      ? (row.dateFormat as DateFormat)
+      : 'auto',
+    timeFormat: (TIME_FORMATS as readonly string[]).includes(row.timeFormat)
+      ? (row.timeFormat as TimeFormat)
+      : 'auto',
+    durationUnit: row.durationUnit,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+export class ColumnMappingProfileService {
+  /**
+   * List profiles by name
+   */
+  async listProfiles(): Promise<ColumnMappingProfile[]> {
+    const rows = await db.select().from(columnMappingProfiles).orderBy(asc(columnMappingProfiles.name));
+    return rows.map(toProfile);
+  }
+
+  /**
+   * Get a single profile by ID
+   */
+  async getProfile(id: number): Promise<ColumnMappingProfile | undefined> {
+    const row = await db.query.columnMappingProfiles.findFirst({
+      where: eq(columnMappingProfiles.id, id),
+    });
+    return row ? toProfile(row) : undefined;
+  }
+
+  /**
+   * Create a profile (name must be unique; mapping must be usable)
+   */
+  async createProfile(input: ColumnMappingProfileInput): Promise<ColumnMappingProfile> {
+    await this.assertValid(input);
+    const [row] = await db
+      .insert(columnMappingProfiles)
+      .values({
+        name: input.name.trim(),
+        columns: JSON.stringify(input.columns),
+        dateFormat: input.dateFormat,
+        timeFormat: input.timeFormat,
+        durationUnit: input.durationUnit,
+      })
+      .returning();
+    return toProfile(row);
+  }
+
+  /**
+   * Replace a profile's mapping and formats
+   */
+  async updateProfile(id: number, input: ColumnMappingProfileInput): Promise<ColumnMappingProfile> {
+    await this.assertValid(input, id);
+    const [row] = await db
+      .update(columnMappingProfiles)
+      .set({
+        name: input.name.trim(),
+        columns: JSON.stringify(input.columns),
+        dateFormat: input.dateFormat,
+        timeFormat: input.timeFormat,
+        durationUnit: input.durationUnit,
+        updatedAt: new Date(),
+      })
+      .where(eq(columnMappingProfiles.id, id))
+      .returning();
+    if (!row) {
+      throw new Error('Mapping profile not found');
+    }
+    return toProfile(row);
+  }
+
+  /**
+   * Delete a profile
+   */
+  async deleteProfile(id: number): Promise<boolean> {
+    const result = await db
+      .delete(columnMappingProfiles)
+      .where(eq(columnMappingProfiles.id, id))
+      .returning();
+    return result.length > 0;
+  }
+
+  private async assertValid(input: ColumnMappingProfileInput, id?: number): Promise<void> {
+    const problems = validateColumnMapping(input.columns);
+    if (problems.length > 0) {
+      throw new Error(problems.join('; '));
+    }
+
+    const sameName = await db.query.columnMappingProfiles.findFirst({
+      where: eq(columnMappingProfiles.name, input.name.trim()),
+      columns: { id: true },
+    });
+    if (sameName && sameName.id !== id) {
+      throw new Error('Another mapping profile already uses that name');
+    }
+  }
+}
+
+// Export singleton instance
+export const columnMappingProfileService = new ColumnMappingProfileService();
@@ -0,0 +1,73 @@
+import { db } from '../db';
+import { developers } from '../db/schema';
+
+/**
+ * DeveloperMatchService
+ * Story 7.9 — resolves developer names from consolidated team sheets to existing developers:
+ * a match chosen on the import preview first, then exact name, then name ignoring case and
+ * spacing, then email — so "jane@acme.com" or "jane  doe" do not create a second developer.
+ */
+
+export interface ResolvedDeveloper {
+  developerId: number;
+  developerName: string;
+  via: 'manual' | 'name' | 'email';
+}
+
+/** A sheet developer name matched to an existing developer on the import preview. */
+export interface DeveloperMatch {
+  name: string;
+  developerId: number;
+}
+
+export function normalizeDeveloperToken(raw: string): string {
+  return raw.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+export class DeveloperMatchService {
+  /**
+   * Resolve raw tokens; tokens that match no developer are absent from the map.
+   * Manual matches pointing at a developer that no longer exists are ignored.
+   */
+  async resolveDeveloperTokens(
+    tokens: string[],
+    matches: DeveloperMatch[] = []
+  ): Promise<Map<string, ResolvedDeveloper>> {
+    const resolved = new Map<string, ResolvedDeveloper>();
+    const unique = Array.from(new Set(tokens.filter((t) => t.trim())));
+    if (unique.length === 0) return resolved;
+
+    const all = await db
+      .select({ id: developers.id, name: developers.name, email: developers.email })
+      .from(developers)
+      .orderBy(developers.id);
+    const byId = new Map(all.map((d) => [d.id, d]));
+    const manual = new Map(matches.map((m) => [m.name.trim(), m.developerId]));
+
+    for (const token of unique) {
+      const chosen = byId.get(manual.get(token.trim()) ?? 0);
+      if (chosen) {
+        resolved.set(token, { developerId: chosen.id, developerName: chosen.name, via: 'manual' });
+        continue;
+      }
+
+      const key = normalizeDeveloperToken(token);
+      const byName = all.find((d) => d.name === token) ?? all.find((d) => normalizeDeveloperToken(d.name) === key);
+      if (byName) {
+        resolved.set(token, { developerId: byName.id, developerName: byName.name, via: 'name' });
+        continue;
+      }
+
+      const byEmail = all.find((d) => d.email && normalizeDeveloperToken(d.email) === key);
+      if (byEmail) resolved.set(token, { developerId: byEmail.id, developerName: byEmail.name, via: 'email' });
+    }
+
+    return resolved;
+  }
+
+  async resolveDeveloperToken(token: string, matches?: DeveloperMatch[]): Promise<ResolvedDeveloper | undefined> {
+    return (await this.resolveDeveloperTokens([token], matches)).get(token);
+  }
+}
+
+export const developerMatchService = new DeveloperMatchService();
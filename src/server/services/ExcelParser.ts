@@ -1,13 +1,69 @@
 import * as XLSX from 'xlsx';
-import { calculateDuration } from '@/lib/date-utils';
-import { db } from '../db';
-import { developers, projects, tasks } from '../db/schema';
+import {
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  calculateDuration,
+  dateInWeekEnding,
+  weekdayOf,
+  type Weekday,
+} from '@/lib/date-utils';
+import { db, type DbTransaction } from '../db';
+import { clients, developers, projects, tasks, timeEntries } from '../db/schema';
 import { eq, inArray } from 'drizzle-orm';
+import type { SQLiteColumn } from 'drizzle-orm/sqlite-core';
 import type { TimeEntryInput } from './TimesheetService';
+import { projectAliasService, type ResolvedProject } from './ProjectAliasService';
+import {
+  developerMatchService,
+  normalizeDeveloperToken,
+  type DeveloperMatch,
+  type ResolvedDeveloper,
+} from './DeveloperMatchService';
+import { columnMappingProfileService } from './ColumnMappingProfileService';
+import {
+  applyColumnMapping,
+  countMappedHeaders,
+  durationToMinutes,
+  normalizeHeader,
+  parseDateWithFormat,
+  parseTimeWithFormat,
+  type ColumnMappingProfileConfig,
+  type MappedRow,
+} from '@/lib/column-mapping';
+import {
+  decodeText,
+  isSpreadsheetBinary,
+  splitDelimitedText,
+  type CsvDelimiter,
+  type TextEncoding,
+} from '@/lib/delimited-text';
+import { normalizeClientName } from '@/lib/clients';
+import {
+  convertTrackerRecord,
+  detectTrackerExport,
+  trackerRecordsFromJson,
+  type TrackerRecord,
+  type TrackerTool,
+} from '@/lib/tracker-exports';
+import {
+  applyDurationPolicy,
+  describeRounding,
+  formatClockDuration,
+  type DurationPolicy,
+  type RoundingPolicy,
+} from '@/lib/duration-rounding';
+import {
+  parseIssue,
+  withIssueMessages,
+  type ParseIssue,
+  type ParseIssueCode,
+  type ParseIssueColumn,
+} from '@/lib/parse-issues';
+import { parseBillableCell } from '@/lib/billable';
 
 /**
  * ExcelParser
- * Parses Excel files (.xlsx, .xls) into time entry data
+ * Parses Excel files (.xlsx, .xls) and CSV / TSV exports into time entry data
  * Handles validation and data normalization
  */
 
@@ -20,37 +76,331 @@ export interface ExcelRow {
   endTime?: string | Date;
   durationMinutes?: number;
   notes?: string;
+  /** Story 9.7 — yes / no; blank = the task's or project's default */
+  billable?: string | boolean;
+  /** Story 9.8 — an existing client; must match the project's */
+  client?: string;
+}
+
+/** Story 7.3 — master data an import would create (or, in strict mode, rejects). */
+export interface WouldCreateSummary {
+  developers: string[];
+  projects: string[];
+  tasks: Array<{ project: string; task: string }>;
+  /** Story 9.8 — the client named on a new project's rows */
+  projectClients?: Array<{ project: string; client: string }>;
+}
+
+/**
+ * Story 7.1 — a parsed row that still needs master data (import mode with `deferEntities`). Its
+ * ids are zero, so it plans as a new entry; `createPendingEntities` creates what is missing when
+ * the rows are inserted.
+ */
+export interface PendingEntities {
+  developer: string;
+  developerId?: number;
+  project: string;
+  projectId?: number;
+  /** Story 9.8 — client of a new project */
+  clientId?: number;
+  task?: string;
+  taskId?: number;
+}
+
+export type ParsedEntry = TimeEntryInput & { pending?: PendingEntities };
+
+/** Story 7.1 — master data `createPendingEntities` inserted, for cleanup when an import fails. */
+export interface CreatedEntities {
+  developerIds: number[];
+  projectIds: number[];
+  taskIds: number[];
+}
+
+export interface ParseOptions {
+  mode?: 'preview' | 'import';
+  /**
+   * Story 7.1 — import mode without writes: rows that need a new developer / project / task carry
+   * `pending` instead, and the entities are created in the insert transaction.
+   */
+  deferEntities?: boolean;
+  /** Story 7.3 — unknown developer/project/task is a row error instead of being created. */
+  strict?: boolean;
+  /** Story 7.4 — saved column mapping to use instead of header synonyms / weekly-grid detection. */
+  profileId?: number;
+  /** Story 7.5 — names the sheet of a CSV / TSV upload (format itself is sniffed from the bytes). */
+  fileName?: string;
+  /** Story 7.6 — how Toggl / Clockify / Harvest durations are fitted to the 15-minute grid (default nearest). */
+  trackerRounding?: RoundingPolicy;
+  /** Story 7.7 — system duration policy for every other layout (default strict). */
+  rounding?: DurationPolicy;
+  /** Story 7.8 — sheets to import from a multi-sheet workbook (default: every eligible sheet). */
+  sheets?: string[];
+  /** Story 7.9 — sheet developer names matched to existing developers on the preview. */
+  developerMatches?: DeveloperMatch[];
+  /** Story 7.10 — week-ending date for weekly grids; wins over the sheet's own label. */
+  weekEnding?: Date;
+  /** Story 7.10 — first day of a weekly grid whose day columns E–K are unlabeled (default Saturday). */
+  weekStart?: Weekday;
+  /** Story 7.11 — row counts for a background import job, and its cancellation signal. */
+  progress?: ParseProgress;
+}
+
+/** Rows between progress reports (and event-loop yields) while a background job parses. */
+const PROGRESS_ROWS = 250;
+
+/**
+ * Story 7.11 — `report` receives deltas: `found` once per parsed sheet, then `parsed` / `errors`
+ * every `PROGRESS_ROWS` rows. An aborted `signal` stops parsing with its reason.
+ */
+export interface ParseProgress {
+  report(delta: { found?: number; parsed?: number; errors?: number }): void;
+  signal?: AbortSignal;
+}
+
+/** Story 7.5 — how the uploaded file was read. */
+export interface ImportSource {
+  format: 'excel' | 'csv' | 'json';
+  delimiter?: CsvDelimiter;
+  encoding?: TextEncoding;
 }
 
 export interface ParseResult {
-  entries: TimeEntryInput[];
+  entries: ParsedEntry[];
   sheetName?: string;
   /**
-   * Detected developer for this file (single-developer assumption).
-   * If we cannot confidently detect a developer, this will be null.
+   * The developer when the file has exactly one (sheet-level label or a single name in the
+   * developer column); null when there are several or none.
    */
   detectedDeveloper: string | null;
-  /**
-   * Back-compat / debugging: list of developer candidates observed.
-   * For the MVP assumption (one developer per file), this is either [] or [detectedDeveloper].
-   */
+  /** Story 7.9 — every developer name observed (sorted). */
   developers: string[];
+  /** Story 7.9 — per-developer totals and error counts; `match` is resolved in preview mode. */
+  developerBreakdown?: DeveloperBreakdown[];
   projects: {
     all: string[];
     invalid: string[];
+    /** Story 3.4 — preview only: sheet tokens that resolved through a project alias. */
+    aliased?: Array<{ code: string; projectId: number; projectName: string }>;
   };
+  /** Story 7.3 — entities referenced by parsed rows that do not exist yet. */
+  wouldCreate?: WouldCreateSummary;
+  /** Story 7.4 — header cells of the selected sheet (source for a new mapping profile). */
+  headers?: string[];
+  /** Story 7.5 — set by `parseFile`. */
+  source?: ImportSource;
+  /** Story 7.6 — set when the sheet is a recognised time-tracker export. */
+  trackerExport?: { tool: TrackerTool; rounding: RoundingPolicy };
+  /** Story 7.8 — every eligible sheet, whether or not it is part of this parse. */
+  sheets?: SheetParseSummary[];
+  /** Story 7.10 — set when a weekly-grid sheet is parsed (only for a single included sheet). */
+  weeklyGrid?: WeeklyGridInfo;
   preview: Array<{
+    /** Story 7.14 — set on multi-sheet results; otherwise the row is on `sheetName`. */
+    sheet?: string;
+    /** Story 7.14 — 1-based sheet row, to match `issues`. */
+    row: number;
     developer: string;
     project: string;
     task?: string;
     startTime: Date;
     durationMinutes: number;
     notes?: string;
+    /** Story 9.7 — set when the row has a Billable value */
+    billable?: boolean;
+    /** Story 9.8 — set when the row has a Client value */
+    client?: string;
   }>;
+  /** Story 7.14 — every problem found, structured; `errors` / `warnings` are their text forms. */
+  issues: ParseIssue[];
   errors: string[];
   warnings: string[];
 }
 
+/** Story 7.14 — thrown by `parseRow`; `parseRows` turns it into a row issue. */
+class ParseIssueError extends Error {
+  constructor(
+    readonly code: ParseIssueCode,
+    message: string,
+    readonly column: ParseIssueColumn | null = null,
+    readonly value: unknown = null
+  ) {
+    super(message);
+  }
+}
+
+/** Raw cell value as issue text. */
+function issueValue(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+/** The preview's invalid-projects error (tokens that do not look like project names). */
+function invalidProjectsIssue(invalid: string[], total: number): ParseIssue {
+  return parseIssue(
+    'invalid_project',
+    'error',
+    `Invalid projects (${invalid.length}/${total}): ${invalid.join(', ')}`,
+    {
+      column: 'project',
+      value: invalid.join(', '),
+    }
+  );
+}
+
+/** Story 7.14 — attribute issues parsed from one sheet to it. */
+function onSheet(issues: ParseIssue[], sheet: string): ParseIssue[] {
+  return issues.map((issue) => (issue.sheet === null ? { ...issue, sheet } : issue));
+}
+
+/** Story 7.10 — how the day columns of a weekly-grid sheet were dated. */
+export interface WeeklyGridInfo {
+  /** null when the day columns carry their own dates (or no date was found). */
+  weekEnding: Date | null;
+  source: 'columns' | 'upload' | 'sheet';
+  days: Array<{ day: Weekday; column: string; date: Date | null }>;
+}
+
+/** Story 7.9 — one developer name of a (multi-developer) sheet. */
+export interface DeveloperBreakdown {
+  name: string;
+  entryCount: number;
+  totalMinutes: number;
+  errorCount: number;
+  /** Existing developer the name resolves to; null when import would create one (or strict rejects it). */
+  match: ResolvedDeveloper | null;
+}
+
+/** Story 7.8 — per-sheet outcome of a multi-sheet workbook (errors and warnings without the sheet prefix). */
+export interface SheetParseSummary {
+  name: string;
+  included: boolean;
+  detectedDeveloper: string | null;
+  entryCount: number;
+  weeklyGrid: WeeklyGridInfo | null;
+  preview: ParseResult['preview'];
+  issues: ParseIssue[];
+  errors: string[];
+  warnings: string[];
+}
+
+interface SheetPart {
+  name: string;
+  included: boolean;
+  /** null for an excluded sheet in import mode (not parsed). */
+  result: ParseResult | null;
+}
+
+function summarizeSheet({ name, included, result }: SheetPart): SheetParseSummary {
+  return {
+    name,
+    included,
+    detectedDeveloper: result?.detectedDeveloper ?? null,
+    entryCount: result?.entries.length ?? 0,
+    weeklyGrid: result?.weeklyGrid ?? null,
+    preview: result?.preview ?? [],
+    ...withIssueMessages(result?.issues ?? []),
+  };
+}
+
+/**
+ * Story 7.9 — existing developers, projects and tasks for one batch of rows. Tokens are resolved
+ * together up front rather than per row (each developer lookup reads the whole table); what an
+ * import creates is added as it goes, so later rows reuse it.
+ */
+class EntityLookups {
+  /** Developers created by this import, by normalized name — "jane doe" reuses "Jane Doe". */
+  private readonly createdDevelopers = new Map<string, number>();
+  /** `projectId:name` → task id, or null when the project has no such task */
+  private readonly tasks = new Map<string, number | null>();
+  /** Story 9.8 — clients by normalized name, read once on first use */
+  private clients?: Map<string, { id: number; name: string }>;
+  /** Story 9.8 — the client of each resolved project (null: none), read together on first use */
+  private projectClients?: Map<number, { id: number; name: string } | null>;
+
+  private constructor(
+    private readonly developers: Map<string, ResolvedDeveloper>,
+    private readonly projects: Map<string, ResolvedProject>
+  ) {}
+
+  static async load(
+    developerTokens: Iterable<string>,
+    projectTokens: Iterable<string>,
+    matches?: DeveloperMatch[]
+  ): Promise<EntityLookups> {
+    const [developers, projects] = await Promise.all([
+      developerMatchService.resolveDeveloperTokens(Array.from(developerTokens), matches),
+      projectAliasService.resolveProjectTokens(Array.from(projectTokens)),
+    ]);
+    return new EntityLookups(developers, projects);
+  }
+
+  developerId(token: string): number | undefined {
+    return this.developers.get(token)?.developerId ?? this.createdDevelopers.get(normalizeDeveloperToken(token));
+  }
+
+  addDeveloper(token: string, id: number): void {
+    this.createdDevelopers.set(normalizeDeveloperToken(token), id);
+  }
+
+  project(token: string): ResolvedProject | undefined {
+    return this.projects.get(token);
+  }
+
+  addProject(token: string, id: number): void {
+    this.projects.set(token, { projectId: id, projectName: token, via: 'name' });
+  }
+
+  async taskId(projectId: number, name: string): Promise<number | undefined> {
+    const key = `${projectId}:${name}`;
+    if (!this.tasks.has(key)) {
+      const task = await db.query.tasks.findFirst({
+        where: (tasks, { eq, and }) => and(eq(tasks.projectId, projectId), eq(tasks.name, name)),
+        columns: { id: true },
+      });
+      this.tasks.set(key, task?.id ?? null);
+    }
+    return this.tasks.get(key) ?? undefined;
+  }
+
+  addTask(projectId: number, name: string, id: number): void {
+    this.tasks.set(`${projectId}:${name}`, id);
+  }
+
+  async projectClient(projectId: number): Promise<{ id: number; name: string } | null> {
+    const loaded = (this.projectClients ??= new Map());
+    if (!loaded.has(projectId)) {
+      // Every resolved project not read yet (all of them on first use, later ones this import created)
+      const projectIds = Array.from(
+        new Set([projectId, ...Array.from(this.projects.values(), (p) => p.projectId)].filter((id) => !loaded.has(id)))
+      );
+      const rows = await db
+        .select({ projectId: projects.id, clientId: clients.id, clientName: clients.name })
+        .from(projects)
+        .leftJoin(clients, eq(clients.id, projects.clientId))
+        .where(inArray(projects.id, projectIds));
+      for (const id of projectIds) loaded.set(id, null);
+      for (const row of rows) {
+        if (row.clientId !== null && row.clientName !== null) {
+          loaded.set(row.projectId, { id: row.clientId, name: row.clientName });
+        }
+      }
+    }
+    return loaded.get(projectId) ?? null;
+  }
+
+  async client(name: string): Promise<{ id: number; name: string } | undefined> {
+    if (!this.clients) {
+      const all = await db.select({ id: clients.id, name: clients.name }).from(clients).orderBy(clients.id);
+      this.clients = new Map();
+      for (const client of all) {
+        const key = normalizeClientName(client.name);
+        if (!this.clients.has(key)) this.clients.set(key, client);
+      }
+    }
+    return this.clients.get(normalizeClientName(name));
+  }
+}
+
 export class ExcelParser {
   private shouldIgnoreProjectToken(value: string): boolean {
     const v = value.trim();
@@ -76,10 +426,7 @@ export class ExcelParser {
     return false;
   }
 
-  private extractProjectCodesFromMatrix(
-    matrix: any[][],
-    normalizeCell: (v: unknown) => string
-  ): string[] {
+  private extractProjectCodesFromMatrix(matrix: any[][], normalizeCell: (v: unknown) => string): string[] {
     // Anchor on a "Project Code" header and collect the values beneath it.
     // This is used for preview-only reporting and should work even if entry parsing yields 0 entries.
     let headerRow = -1;
@@ -106,12 +453,7 @@ export class ExcelParser {
       const row = matrix[r];
       if (!Array.isArray(row)) continue;
       const raw = row[projectCol];
-      const code =
-        typeof raw === 'string'
-          ? raw.trim()
-          : raw !== null && raw !== undefined
-            ? String(raw).trim()
-            : '';
+      const code = typeof raw === 'string' ? raw.trim() : raw !== null && raw !== undefined ? String(raw).trim() : '';
       if (!code) continue;
       const lower = code.toLowerCase();
       if (this.shouldIgnoreProjectToken(code)) continue;
@@ -122,16 +464,99 @@ export class ExcelParser {
   }
 
   /**
-   * Parse Excel file from buffer
+   * Parse an uploaded timesheet file from buffer (.xlsx / .xls, or CSV / TSV text — Story 7.5)
    */
-  async parseFile(
-    buffer: Buffer,
-    opts?: {
-      mode?: 'preview' | 'import';
+  async parseFile(buffer: Buffer, opts?: ParseOptions): Promise<ParseResult> {
+    const { workbook, source, error } = this.readWorkbook(buffer, opts?.fileName);
+    if (error) {
+      return {
+        entries: [],
+        source,
+        detectedDeveloper: null,
+        developers: [],
+        projects: { all: [], invalid: [] },
+        preview: [],
+        ...withIssueMessages([parseIssue('unreadable_file', 'error', error)]),
+      };
     }
-  ): Promise<ParseResult> {
-    const workbook = XLSX.read(buffer, { type: 'buffer' });
+    const parsed = await this.parseWorkbook(workbook, opts);
+    // Story 7.12: stamp each entry with the file it came from. CSV / JSON have no real sheet, and
+    // a JSON export's "row" is the position of the entry in the export (row 1 is the header).
+    const entries = parsed.entries.map((entry) => {
+      const row = entry.source?.row ?? null;
+      return {
+        ...entry,
+        source: {
+          ...entry.source,
+          type: source.format,
+          fileName: opts?.fileName ?? null,
+          sheet: source.format === 'excel' ? (entry.source?.sheet ?? parsed.sheetName ?? null) : null,
+          row: source.format === 'json' && row !== null ? row - 1 : row,
+        },
+      };
+    });
+    return { ...parsed, entries, source };
+  }
+
+  /**
+   * Story 7.5: spreadsheets are recognised by their file signature; anything else is decoded as
+   * delimited text and loaded as a single-sheet workbook named after the file.
+   * Story 7.6: JSON text must be a Toggl / Clockify / Harvest export; its entries become a sheet
+   * with that tool's CSV headers.
+   */
+  readWorkbook(buffer: Buffer, fileName?: string): { workbook: XLSX.WorkBook; source: ImportSource; error?: string } {
+    if (isSpreadsheetBinary(buffer)) {
+      return { workbook: XLSX.read(buffer, { type: 'buffer' }), source: { format: 'excel' } };
+    }
+
+    const baseName = fileName
+      ?.replace(/^.*[\\/]/, '')
+      .replace(/\.[^.]*$/, '')
+      .trim();
+    const workbook = XLSX.utils.book_new();
+    // Excel caps sheet names at 31 characters and rejects a few punctuation marks
+    const sheetName = (baseName || 'CSV').replace(/[\\/?*[\]:]/g, '_').slice(0, 31);
+
+    const { text, encoding } = decodeText(buffer);
+    if (/^\s*[[{]/.test(text)) {
+      let json: unknown;
+      try {
+        json = JSON.parse(text);
+      } catch {
+        json = undefined;
+      }
+      if (json !== undefined) {
+        const source: ImportSource = { format: 'json', encoding };
+        const recognised = trackerRecordsFromJson(json);
+        if (!recognised) {
+          return {
+            workbook,
+            source,
+            error: 'JSON file is not a recognised Toggl Track, Clockify or Harvest export.',
+          };
+        }
+        XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(recognised.records), sheetName);
+        return { workbook, source };
+      }
+    }
+
+    const { rows, delimiter } = splitDelimitedText(text);
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), sheetName);
+    return { workbook, source: { format: 'csv', delimiter, encoding } };
+  }
+
+  private async parseWorkbook(workbook: XLSX.WorkBook, opts?: ParseOptions): Promise<ParseResult> {
     const mode = opts?.mode ?? 'import';
+    const strict = opts?.strict ?? false;
+    const deferEntities = opts?.deferEntities;
+    const rounding = opts?.rounding ?? 'strict';
+    const developerMatches = opts?.developerMatches;
+    const progress = opts?.progress;
+
+    const profile = opts?.profileId ? await columnMappingProfileService.getProfile(opts.profileId) : undefined;
+    if (opts?.profileId && !profile) {
+      throw new Error('Mapping profile not found');
+    }
 
     const headerTokens = [
       // Developer
@@ -171,11 +596,21 @@ export class ExcelParser {
       'desc',
       'description',
       'comment',
+      // Story 9.7
+      'billable',
+      // Story 9.8
+      'client',
+      'client name',
+      'customer',
     ];
 
     const normalizeCell = (v: unknown) =>
       typeof v === 'string'
-        ? v.toLowerCase().trim().replace(/\s+/g, ' ').replace(/[:\s]+$/g, '')
+        ? v
+            .toLowerCase()
+            .trim()
+            .replace(/\s+/g, ' ')
+            .replace(/[:\s]+$/g, '')
         : '';
 
     const weekdayTokens = [
@@ -228,6 +663,8 @@ export class ExcelParser {
         for (let r = 0; r < maxScan && !defaultDeveloper; r++) {
           const row = matrix[r];
           if (!Array.isArray(row)) continue;
+          // A "Developer | Project | …" column header row is not a "Developer: <name>" label
+          if (r === bestHeaderRow && bestMatchCount >= 2) continue;
           for (let c = 0; c < row.length; c++) {
             const label = normalizeCell(row[c]);
             const isDevLabel =
@@ -313,12 +750,130 @@ export class ExcelParser {
         bestMatchCount,
         defaultDeveloper,
         looksLikeWeeklyGrid,
+        isMetadataName,
         score,
       };
     };
 
     const sheetNames = (workbook.SheetNames ?? []).filter(Boolean);
     const analyses = sheetNames.map(analyzeSheet);
+
+    const headerCellsOf = (row: unknown): string[] =>
+      Array.isArray(row) ? row.map((c) => (c === null || c === undefined ? '' : String(c).trim())).filter(Boolean) : [];
+
+    // Story 7.4: a mapping profile picks the sheet + header row by its own headers and skips
+    // synonym matching and weekly-grid conversion.
+    if (profile) {
+      let best = { analysis: analyses[0], headerRow: -1, count: 0 };
+      for (const analysis of analyses) {
+        const m = Array.isArray(analysis.matrix) ? analysis.matrix : [];
+        for (let r = 0; r < Math.min(30, m.length); r++) {
+          const count = Array.isArray(m[r]) ? countMappedHeaders(m[r], profile.columns) : 0;
+          if (count > best.count) best = { analysis, headerRow: r, count };
+        }
+      }
+
+      if (!best.analysis || best.count === 0) {
+        return {
+          entries: [],
+          sheetName: best.analysis?.name,
+          detectedDeveloper: null,
+          developers: [],
+          projects: { all: [], invalid: [] },
+          preview: [],
+          ...withIssueMessages([
+            parseIssue(
+              'sheet_layout',
+              'error',
+              `None of the columns in mapping profile "${profile.name}" were found in this workbook.`
+            ),
+          ]),
+          headers: headerCellsOf(best.analysis?.matrix?.[best.analysis.bestHeaderRow] ?? best.analysis?.matrix?.[0]),
+        };
+      }
+
+      const profileRows = XLSX.utils.sheet_to_json<any>(best.analysis.sheet, {
+        raw: false,
+        defval: null,
+        range: best.headerRow,
+      });
+      // A real date cell renders as "4/1/26" whatever the workbook's locale, so a pinned date format
+      // reads its serial instead; text dates still go through the format
+      if (profile.dateFormat !== 'auto') {
+        const dateHeaders = new Set(
+          profile.columns.filter((c) => c.field === 'date').map((c) => normalizeHeader(c.header))
+        );
+        const rawRows = XLSX.utils.sheet_to_json<any>(best.analysis.sheet, {
+          raw: true,
+          defval: null,
+          range: best.headerRow,
+        });
+        profileRows.forEach((row, i) => {
+          for (const key of Object.keys(row)) {
+            const raw = rawRows[i]?.[key];
+            if (typeof raw === 'number' && dateHeaders.has(normalizeHeader(key))) row[key] = raw;
+          }
+        });
+      }
+      const parsed = await this.parseRows(profileRows, {
+        defaultDeveloper: best.analysis.defaultDeveloper,
+        firstDataRowNumber: best.headerRow + 2,
+        mode,
+        strict,
+        deferEntities,
+        rounding,
+        developerMatches,
+        progress,
+        profile,
+      });
+      const missingHeaders = profile.columns.filter(
+        (c) => countMappedHeaders(best.analysis.matrix[best.headerRow], [c]) === 0
+      );
+      return {
+        ...parsed,
+        sheetName: best.analysis.name,
+        headers: headerCellsOf(best.analysis.matrix[best.headerRow]),
+        ...withIssueMessages(
+          onSheet(
+            [
+              ...missingHeaders.map((c) =>
+                parseIssue(
+                  'mapped_column_missing',
+                  'warning',
+                  `Mapped column "${c.header}" not found on sheet "${best.analysis.name}".`,
+                  { value: c.header }
+                )
+              ),
+              ...parsed.issues,
+            ],
+            best.analysis.name
+          )
+        ),
+      };
+    }
+
+    // Story 7.6: a time-tracker export is converted by its adapter (no synonym matching).
+    for (const analysis of analyses) {
+      const m = Array.isArray(analysis.matrix) ? analysis.matrix : [];
+      const headerRow = m.slice(0, 10).findIndex((r) => Array.isArray(r) && detectTrackerExport(r) !== null);
+      if (headerRow >= 0) {
+        const parsed = await this.parseTrackerExport(analysis.sheet, headerRow, detectTrackerExport(m[headerRow])!, {
+          mode,
+          strict,
+          deferEntities,
+          rounding: opts?.trackerRounding ?? 'nearest',
+          developerMatches,
+          progress,
+        });
+        return {
+          ...parsed,
+          sheetName: analysis.name,
+          headers: headerCellsOf(m[headerRow]),
+          ...withIssueMessages(onSheet(parsed.issues, analysis.name)),
+        };
+      }
+    }
+
     const selected =
       analyses.reduce<(typeof analyses)[number] | null>((best, cur) => {
         if (!best) return cur;
@@ -328,93 +883,98 @@ export class ExcelParser {
         return best;
       }, null) ?? analyzeSheet(sheetNames[0]);
 
-    const sheetName = selected.name;
-    const sheet = selected.sheet;
-    const matrix = selected.matrix;
-    const bestHeaderRow = selected.bestHeaderRow;
-    const bestMatchCount = selected.bestMatchCount;
-    const defaultDeveloper: string | undefined = selected.defaultDeveloper;
-    const projectCodesFromMatrix = Array.isArray(matrix)
-      ? this.extractProjectCodesFromMatrix(matrix, normalizeCell)
-      : [];
-
-    const finalize = async (parsed: ParseResult): Promise<ParseResult> => {
-      // If we failed to detect projects from parsed rows (common for weekly grids),
-      // fall back to extracting "Project Code" values directly from the sheet matrix.
-      let mergedAllProjects = parsed.projects?.all ?? [];
-      if (mergedAllProjects.length === 0 && projectCodesFromMatrix.length > 0) {
-        mergedAllProjects = projectCodesFromMatrix;
-      } else if (projectCodesFromMatrix.length > 0) {
-        mergedAllProjects = Array.from(new Set([...mergedAllProjects, ...projectCodesFromMatrix])).sort((a, b) =>
-          a.localeCompare(b)
-        );
-      }
+    // Story 7.8: every eligible sheet is parsed the same way; the best-scoring one is always eligible.
+    const parseSheet = async (selected: (typeof analyses)[number]): Promise<ParseResult> => {
+      const sheetName = selected.name;
+      const sheet = selected.sheet;
+      const matrix = selected.matrix;
+      const bestHeaderRow = selected.bestHeaderRow;
+      const bestMatchCount = selected.bestMatchCount;
+      const defaultDeveloper: string | undefined = selected.defaultDeveloper;
+      const projectCodesFromMatrix = Array.isArray(matrix)
+        ? this.extractProjectCodesFromMatrix(matrix, normalizeCell)
+        : [];
+
+      const finalize = async (parsed: ParseResult): Promise<ParseResult> => {
+        // If we failed to detect projects from parsed rows (common for weekly grids),
+        // fall back to extracting "Project Code" values directly from the sheet matrix.
+        let mergedAllProjects = parsed.projects?.all ?? [];
+        if (mergedAllProjects.length === 0 && projectCodesFromMatrix.length > 0) {
+          mergedAllProjects = projectCodesFromMatrix;
+        } else if (projectCodesFromMatrix.length > 0) {
+          mergedAllProjects = Array.from(new Set([...mergedAllProjects, ...projectCodesFromMatrix])).sort((a, b) =>
+            a.localeCompare(b)
+          );
+        }
 
-      // In preview mode, validate the merged project list against DB (even if entry parsing yielded 0).
-      let invalid = parsed.projects?.invalid ?? [];
-      if (mode === 'preview' && mergedAllProjects.length > 0) {
-        const existing = await db.query.projects.findMany({
-          where: inArray(projects.name, mergedAllProjects),
-          columns: { name: true },
-        });
-        const existingSet = new Set(existing.map((p) => p.name));
-        invalid = mergedAllProjects.filter((p) => !existingSet.has(p));
-      }
+        // In preview mode, validate the merged project list against DB (even if entry parsing yielded 0).
+        let invalid = parsed.projects?.invalid ?? [];
+        let aliased = parsed.projects?.aliased;
+        if (mode === 'preview' && mergedAllProjects.length > 0) {
+          ({ invalid, aliased } = await this.validateProjectTokens(mergedAllProjects));
+        }
 
-      const filteredErrors = parsed.errors.filter((e) => !e.startsWith('Invalid projects ('));
-      const errors =
-        mode === 'preview' && invalid.length > 0
-          ? [`Invalid projects (${invalid.length}/${mergedAllProjects.length}): ${invalid.join(', ')}`, ...filteredErrors]
-          : filteredErrors;
+        const rowIssues = parsed.issues.filter((i) => i.code !== 'invalid_project');
+        const issues =
+          mode === 'preview' && invalid.length > 0
+            ? [invalidProjectsIssue(invalid, mergedAllProjects.length), ...rowIssues]
+            : rowIssues;
 
-      return {
-        ...parsed,
-        sheetName,
-        projects: { all: mergedAllProjects, invalid },
-        errors,
+        return {
+          ...parsed,
+          sheetName,
+          projects: { all: mergedAllProjects, invalid, ...(aliased ? { aliased } : {}) },
+          ...withIssueMessages(onSheet(issues, sheetName)),
+          headers,
+        };
       };
-    };
-
-    // Convert to JSON using detected header row when confidence is reasonable.
-    // If we can't detect a header row, we still try default sheet_to_json but will validate headers before parsing.
-    const usedHeaderRow = bestMatchCount >= 2 ? bestHeaderRow : -1;
-    const firstDataRowNumber = usedHeaderRow >= 0 ? usedHeaderRow + 2 : 2; // Excel rows are 1-indexed
 
-    const rows = XLSX.utils.sheet_to_json<any>(sheet, {
-      raw: false,
-      defval: null,
-      ...(usedHeaderRow >= 0 ? { range: usedHeaderRow } : {}),
-    });
+      // Convert to JSON using detected header row when confidence is reasonable.
+      // If we can't detect a header row, we still try default sheet_to_json but will validate headers before parsing.
+      const usedHeaderRow = bestMatchCount >= 2 ? bestHeaderRow : -1;
+      const firstDataRowNumber = usedHeaderRow >= 0 ? usedHeaderRow + 2 : 2; // Excel rows are 1-indexed
+      // Story 7.4: expose the header cells so an unrecognised layout can become a mapping profile.
+      const headers = Array.isArray(matrix)
+        ? headerCellsOf(
+            usedHeaderRow >= 0 ? matrix[usedHeaderRow] : matrix.slice(0, 15).find((r) => headerCellsOf(r).length >= 2)
+          )
+        : [];
+
+      const rows = XLSX.utils.sheet_to_json<any>(sheet, {
+        raw: false,
+        defval: null,
+        ...(usedHeaderRow >= 0 ? { range: usedHeaderRow } : {}),
+      });
 
-    // Header sanity-check: if keys look like __EMPTY only, this is not the expected row-based format.
-    const keysFromFirstRows = new Set<string>();
-    for (const r of (rows ?? []).slice(0, 5)) {
-      if (r && typeof r === 'object') {
-        for (const k of Object.keys(r)) keysFromFirstRows.add(k);
+      // Header sanity-check: if keys look like __EMPTY only, this is not the expected row-based format.
+      const keysFromFirstRows = new Set<string>();
+      for (const r of (rows ?? []).slice(0, 5)) {
+        if (r && typeof r === 'object') {
+          for (const k of Object.keys(r)) keysFromFirstRows.add(k);
+        }
       }
-    }
-    const hasRecognizableHeaders = Array.from(keysFromFirstRows).some((k) => {
-      const kk = normalizeCell(k);
-      return headerTokens.some((t) => kk.includes(t));
-    });
+      const hasRecognizableHeaders = Array.from(keysFromFirstRows).some((k) => {
+        const kk = normalizeCell(k);
+        return headerTokens.some((t) => kk.includes(t));
+      });
 
-    // Weekly grids often include "Project/Task" headers (so they can look "recognizable"),
-    // but they lack a Date/Duration column and instead use weekday columns (Mon..Fri).
-    // Detect and convert these before attempting row-based parsing.
-    const normalizedKeyList = Array.from(keysFromFirstRows).map(normalizeCell);
-    const hasWeekdayColumns = normalizedKeyList.some((k) => weekdayTokens.includes(k.split(' ')[0] ?? k));
-    const hasDateColumn = normalizedKeyList.some((k) => k === 'date' || k.includes('work date'));
-    // IMPORTANT: do NOT treat generic "Hours/Hrs" columns as a row-based duration column.
-    // Weekly grids often include an "Hours" / "Total Hours" column, but they still need
-    // weekday->date inference (and they do not provide per-row dates).
-    const hasDurationColumn = normalizedKeyList.some(
-      (k) => k.includes('duration') || k.includes('minutes') || k === 'mins' || k === 'min'
-    );
-    const hasStartColumn = normalizedKeyList.some((k) => k === 'start' || k === 'start time' || k === 'begin');
-    const hasEndColumn = normalizedKeyList.some((k) => k === 'end' || k === 'end time' || k === 'finish');
+      // Weekly grids often include "Project/Task" headers (so they can look "recognizable"),
+      // but they lack a Date/Duration column and instead use weekday columns (Mon..Fri).
+      // Detect and convert these before attempting row-based parsing.
+      const normalizedKeyList = Array.from(keysFromFirstRows).map(normalizeCell);
+      const hasWeekdayColumns = normalizedKeyList.some((k) => weekdayTokens.includes(k.split(' ')[0] ?? k));
+      const hasDateColumn = normalizedKeyList.some((k) => k === 'date' || k.includes('work date'));
+      // IMPORTANT: do NOT treat generic "Hours/Hrs" columns as a row-based duration column.
+      // Weekly grids often include an "Hours" / "Total Hours" column, but they still need
+      // weekday->date inference (and they do not provide per-row dates).
+      const hasDurationColumn = normalizedKeyList.some(
+        (k) => k.includes('duration') || k.includes('minutes') || k === 'mins' || k === 'min'
+      );
+      const hasStartColumn = normalizedKeyList.some((k) => k === 'start' || k === 'start time' || k === 'begin');
+      const hasEndColumn = normalizedKeyList.some((k) => k === 'end' || k === 'end time' || k === 'finish');
 
-    const looksLikeWeeklyGridByKeys =
-      hasWeekdayColumns && !hasDateColumn && !hasDurationColumn && !(hasStartColumn && hasEndColumn);
+      const looksLikeWeeklyGridByKeys =
+        hasWeekdayColumns && !hasDateColumn && !hasDurationColumn && !(hasStartColumn && hasEndColumn);
 
       // Some real-world weekly grids have weekday headers that become `__EMPTY*` keys after `sheet_to_json`,
       // or have non-standard day headers. Fall back to matrix-based detection when (a) the sheet has a
@@ -432,86 +992,258 @@ export class ExcelParser {
         !(hasStartColumn && hasEndColumn);
 
       if ((looksLikeWeeklyGridByKeys || looksLikeWeeklyGridByMatrix) && Array.isArray(matrix)) {
-      const converted = this.convertWeeklyGridToRowObjects(matrix, {
-        defaultDeveloper,
-        normalizeCell,
-      });
+        const converted = this.convertWeeklyGridToRowObjects(matrix, {
+          defaultDeveloper,
+          normalizeCell,
+          sheet,
+          weekEnding: opts?.weekEnding,
+          weekStart: opts?.weekStart,
+        });
 
-      if (converted.errors.length > 0) {
+        if (converted.issues.some((i) => i.severity === 'error')) {
           return {
             entries: [],
             sheetName,
             detectedDeveloper: converted.defaultDeveloper ?? defaultDeveloper ?? null,
-            developers: (converted.defaultDeveloper ?? defaultDeveloper) ? [String(converted.defaultDeveloper ?? defaultDeveloper)] : [],
+            developers:
+              (converted.defaultDeveloper ?? defaultDeveloper)
+                ? [String(converted.defaultDeveloper ?? defaultDeveloper)]
+                : [],
             projects: { all: projectCodesFromMatrix, invalid: projectCodesFromMatrix },
             preview: [],
-            errors: converted.errors,
-            warnings: converted.warnings,
+            ...withIssueMessages(onSheet(converted.issues, sheetName)),
+            headers,
+            weeklyGrid: converted.weeklyGrid,
           };
-      }
+        }
 
-      return finalize(
-        await this.parseRows(converted.rows, {
+        const parsed = await this.parseRows(converted.rows, {
           defaultDeveloper: converted.defaultDeveloper ?? defaultDeveloper,
           firstDataRowNumber: converted.firstDataRowNumber,
+          rowLabels: converted.rowLabels,
+          rowCells: converted.rowCells,
           mode,
-        })
-      );
-    }
-
-    if (!hasRecognizableHeaders) {
-      const looksLikeWeeklyGrid =
-        Array.isArray(matrix) &&
-        matrix
-          .slice(0, 20)
-          .some((row) => Array.isArray(row) && row.map(normalizeCell).some((c) => weekdayTokens.includes(c)));
-
-      if (looksLikeWeeklyGrid && Array.isArray(matrix)) {
-        const converted = this.convertWeeklyGridToRowObjects(matrix, {
-          defaultDeveloper,
-          normalizeCell,
+          strict,
+          deferEntities,
+          rounding,
+          developerMatches,
+          progress,
         });
+        return finalize({
+          ...parsed,
+          ...withIssueMessages([...converted.issues, ...parsed.issues]),
+          weeklyGrid: converted.weeklyGrid,
+        });
+      }
 
-        if (converted.errors.length > 0) {
-          return {
-            entries: [],
-            sheetName,
-            detectedDeveloper: converted.defaultDeveloper ?? defaultDeveloper ?? null,
-            developers: (converted.defaultDeveloper ?? defaultDeveloper) ? [String(converted.defaultDeveloper ?? defaultDeveloper)] : [],
-            projects: { all: projectCodesFromMatrix, invalid: projectCodesFromMatrix },
-            preview: [],
-            errors: converted.errors,
-            warnings: converted.warnings,
-          };
-        }
+      if (!hasRecognizableHeaders) {
+        const looksLikeWeeklyGrid =
+          Array.isArray(matrix) &&
+          matrix
+            .slice(0, 20)
+            .some((row) => Array.isArray(row) && row.map(normalizeCell).some((c) => weekdayTokens.includes(c)));
+
+        if (looksLikeWeeklyGrid && Array.isArray(matrix)) {
+          const converted = this.convertWeeklyGridToRowObjects(matrix, {
+            defaultDeveloper,
+            normalizeCell,
+            sheet,
+            weekEnding: opts?.weekEnding,
+            weekStart: opts?.weekStart,
+          });
+
+          if (converted.issues.some((i) => i.severity === 'error')) {
+            return {
+              entries: [],
+              sheetName,
+              detectedDeveloper: converted.defaultDeveloper ?? defaultDeveloper ?? null,
+              developers:
+                (converted.defaultDeveloper ?? defaultDeveloper)
+                  ? [String(converted.defaultDeveloper ?? defaultDeveloper)]
+                  : [],
+              projects: { all: projectCodesFromMatrix, invalid: projectCodesFromMatrix },
+              preview: [],
+              ...withIssueMessages(onSheet(converted.issues, sheetName)),
+              headers,
+              weeklyGrid: converted.weeklyGrid,
+            };
+          }
 
-        return finalize(
-          await this.parseRows(converted.rows, {
+          const parsed = await this.parseRows(converted.rows, {
             defaultDeveloper: converted.defaultDeveloper ?? defaultDeveloper,
             firstDataRowNumber: converted.firstDataRowNumber,
+            rowLabels: converted.rowLabels,
+            rowCells: converted.rowCells,
             mode,
-          })
-        );
+            strict,
+            deferEntities,
+            rounding,
+            developerMatches,
+            progress,
+          });
+          return finalize({
+            ...parsed,
+            ...withIssueMessages([...converted.issues, ...parsed.issues]),
+            weeklyGrid: converted.weeklyGrid,
+          });
+        }
+
+        return {
+          entries: [],
+          sheetName,
+          detectedDeveloper: defaultDeveloper ?? null,
+          developers: defaultDeveloper ? [defaultDeveloper] : [],
+          projects: { all: projectCodesFromMatrix, invalid: projectCodesFromMatrix },
+          preview: [],
+          ...withIssueMessages(
+            onSheet(
+              [
+                parseIssue(
+                  'sheet_layout',
+                  'error',
+                  'Could not detect a header row with the expected columns. Expected columns like Developer, Project, Task, Date, Duration (or Start/End), Notes.'
+                ),
+                parseIssue(
+                  'sheet_layout',
+                  'error',
+                  looksLikeWeeklyGrid
+                    ? 'It looks like this file is a weekly grid (Mon/Tue/Wed columns). If import fails, ensure the sheet includes a “Week Ending” date (or actual dates in/near the weekday headers).'
+                    : 'If your timesheet is a weekly grid (e.g. Mon/Tue/Wed columns), ensure it includes a “Week Ending” date (or actual dates in/near the weekday headers).'
+                ),
+              ],
+              sheetName
+            )
+          ),
+          headers,
+        };
       }
 
+      return finalize(
+        await this.parseRows(rows, {
+          defaultDeveloper,
+          firstDataRowNumber,
+          mode,
+          strict,
+          deferEntities,
+          rounding,
+          developerMatches,
+          progress,
+        })
+      );
+    };
+
+    const eligible = analyses.filter(
+      (a) => a === selected || (!a.isMetadataName && (a.bestMatchCount >= 3 || a.looksLikeWeeklyGrid))
+    );
+    const wanted = opts?.sheets;
+    const unknownSheets = (wanted ?? []).filter((name) => !eligible.some((a) => a.name === name));
+    if (wanted && unknownSheets.length === wanted.length) {
       return {
         entries: [],
-        sheetName,
-        detectedDeveloper: defaultDeveloper ?? null,
-        developers: defaultDeveloper ? [defaultDeveloper] : [],
-        projects: { all: projectCodesFromMatrix, invalid: projectCodesFromMatrix },
+        detectedDeveloper: null,
+        developers: [],
+        projects: { all: [], invalid: [] },
         preview: [],
-        errors: [
-          'Could not detect a header row with the expected columns. Expected columns like Developer, Project, Task, Date, Duration (or Start/End), Notes.',
-          looksLikeWeeklyGrid
-            ? 'It looks like this file is a weekly grid (Mon/Tue/Wed columns). If import fails, ensure the sheet includes a “Week Ending” date (or actual dates in/near the weekday headers).'
-            : 'If your timesheet is a weekly grid (e.g. Mon/Tue/Wed columns), ensure it includes a “Week Ending” date (or actual dates in/near the weekday headers).',
-        ],
-        warnings: [],
+        ...withIssueMessages([
+          parseIssue(
+            'unknown_sheet',
+            'error',
+            `None of the selected sheets (${wanted.join(', ')}) can be imported from this workbook.`
+          ),
+        ]),
       };
     }
 
-    return finalize(await this.parseRows(rows, { defaultDeveloper, firstDataRowNumber, mode }));
+    const parts: SheetPart[] = [];
+    for (const analysis of eligible) {
+      const included = !wanted || wanted.includes(analysis.name);
+      // Excluded sheets are still previewed, but never parsed in import mode (that would create entities)
+      const result = included || mode === 'preview' ? await parseSheet(analysis) : null;
+      parts.push({ name: analysis.name, included, result });
+    }
+
+    const combined = parts.length === 1 ? parts[0]!.result! : await this.combineSheets(parts, mode);
+    return {
+      ...combined,
+      ...withIssueMessages(
+        [
+          ...unknownSheets.map((name) =>
+            parseIssue('unknown_sheet', 'error', `Sheet "${name}" is not in this workbook.`, { value: name })
+          ),
+          ...combined.issues,
+        ],
+        parts.length > 1
+      ),
+      sheets: parts.map(summarizeSheet),
+    };
+  }
+
+  /**
+   * Story 7.8: merge the included sheets of a multi-sheet workbook into one result. Row errors and
+   * warnings are prefixed with the sheet name; the invalid-project error is rebuilt over all sheets.
+   * Story 7.14: the prefix comes from each issue's `sheet` (set per sheet by `onSheet`).
+   */
+  private async combineSheets(parts: SheetPart[], mode: 'preview' | 'import'): Promise<ParseResult> {
+    const included = parts.filter((p) => p.included && p.result).map((p) => ({ name: p.name, result: p.result! }));
+    const union = (lists: string[][]) => Array.from(new Set(lists.flat())).sort((a, b) => a.localeCompare(b));
+
+    const developers = union(included.map((p) => p.result.developers));
+    const detected = new Set(included.map((p) => p.result.detectedDeveloper));
+    const allProjects = union(included.map((p) => p.result.projects.all));
+    const invalid = union(included.map((p) => p.result.projects.invalid));
+    const aliased = new Map(included.flatMap((p) => p.result.projects.aliased ?? []).map((a) => [a.code, a] as const));
+    const wouldCreate: WouldCreateSummary = { developers: [], projects: [], tasks: [] };
+    for (const { result } of included) {
+      for (const developer of result.wouldCreate?.developers ?? [])
+        this.recordWouldCreate(wouldCreate, { developer }, '');
+      for (const project of result.wouldCreate?.projects ?? []) {
+        const client = result.wouldCreate?.projectClients?.find((pc) => pc.project === project)?.client;
+        this.recordWouldCreate(wouldCreate, { project }, project, client);
+      }
+      for (const t of result.wouldCreate?.tasks ?? []) this.recordWouldCreate(wouldCreate, { task: t.task }, t.project);
+    }
+
+    const breakdown = new Map<string, DeveloperBreakdown>();
+    for (const row of included.flatMap((p) => p.result.developerBreakdown ?? [])) {
+      const merged = breakdown.get(row.name);
+      breakdown.set(
+        row.name,
+        merged
+          ? {
+              ...merged,
+              entryCount: merged.entryCount + row.entryCount,
+              totalMinutes: merged.totalMinutes + row.totalMinutes,
+              errorCount: merged.errorCount + row.errorCount,
+            }
+          : row
+      );
+    }
+
+    const sheetIssues = included.flatMap((p) => p.result.issues.filter((i) => i.code !== 'invalid_project'));
+
+    return {
+      entries: included.flatMap((p) =>
+        p.result.entries.map((entry) => ({
+          ...entry,
+          source: { type: 'excel' as const, ...entry.source, sheet: p.name },
+        }))
+      ),
+      sheetName: included[0]?.name,
+      detectedDeveloper: detected.size === 1 ? (Array.from(detected)[0] ?? null) : null,
+      developers,
+      developerBreakdown: Array.from(breakdown.values()).sort((a, b) => a.name.localeCompare(b.name)),
+      projects: { all: allProjects, invalid, ...(aliased.size ? { aliased: Array.from(aliased.values()) } : {}) },
+      wouldCreate,
+      headers: included[0]?.result.headers,
+      weeklyGrid: included.length === 1 ? included[0]!.result.weeklyGrid : undefined,
+      preview: included.flatMap((p) => p.result.preview.map((row) => ({ ...row, sheet: p.name }))).slice(0, 10),
+      ...withIssueMessages(
+        mode === 'preview' && invalid.length > 0
+          ? [invalidProjectsIssue(invalid, allProjects.length), ...sheetIssues]
+          : sheetIssues,
+        true
+      ),
+    };
   }
 
   private convertWeeklyGridToRowObjects(
@@ -519,16 +1251,26 @@ export class ExcelParser {
     opts: {
       defaultDeveloper?: string;
       normalizeCell: (v: unknown) => string;
+      /** Story 7.10 — source of cell addresses and cell comments. */
+      sheet?: XLSX.WorkSheet;
+      /** Story 7.10 — supplied on upload; wins over the sheet's "Week Ending" label. */
+      weekEnding?: Date;
+      /** Story 7.10 — first day of the seven unlabeled columns E–K (default Saturday). */
+      weekStart?: Weekday;
     }
   ): {
     rows: any[];
-    errors: string[];
-    warnings: string[];
+    /** Story 7.14 — sheet-level errors stop the conversion; warnings go with the rows. */
+    issues: ParseIssue[];
     defaultDeveloper?: string;
     firstDataRowNumber: number;
+    /** Story 7.10 — `Cell G14 (1.5 h)` per output row, used instead of row numbers. */
+    rowLabels?: string[];
+    rowCells?: string[];
+    weeklyGrid?: WeeklyGridInfo;
   } {
-    const errors: string[] = [];
-    const warnings: string[] = [];
+    const issues: ParseIssue[] = [];
+    const layoutError = (message: string) => parseIssue('sheet_layout', 'error', message);
 
     const weekdayAliases: Record<string, number> = {
       mon: 0,
@@ -589,10 +1331,16 @@ export class ExcelParser {
       }
     }
 
+    // Story 7.10: cell addresses are relative to the sheet's used range, which may not start at A1
+    const origin = opts.sheet?.['!ref'] ? XLSX.utils.decode_range(opts.sheet['!ref']).s : { r: 0, c: 0 };
+    const cellAddress = (r: number, c: number) => XLSX.utils.encode_cell({ r: origin.r + r, c: origin.c + c });
+
+    let assumedDayColumns = false;
     if (headerRow < 0 || dayCols.length === 0) {
       // Fallback: JZER-style sheets sometimes label the grid by "Project Code" and may not have
       // clean weekday strings in the header row. Anchor on "Project Code" and assume columns E–K
-      // represent Sat–Fri (7 days) like the characterization test.
+      // hold the seven days from the configured first day of the week (Saturday by default, like
+      // the characterization test).
       const scanRows2 = Math.min(40, matrix.length);
       for (let r = 0; r < scanRows2; r++) {
         const row = matrix[r];
@@ -602,23 +1350,21 @@ export class ExcelParser {
         if (projectCodeCol < 0) continue;
         headerRow = r;
         // Column indices: C=2 project code, D=3 task label, E–K=4..10 day columns
-        dayCols = [
-          { dayIndex: 5, col: 4 }, // Sat
-          { dayIndex: 6, col: 5 }, // Sun
-          { dayIndex: 0, col: 6 }, // Mon
-          { dayIndex: 1, col: 7 }, // Tue
-          { dayIndex: 2, col: 8 }, // Wed
-          { dayIndex: 3, col: 9 }, // Thu
-          { dayIndex: 4, col: 10 }, // Fri
-        ];
+        const firstDay = WEEKDAYS.indexOf(opts.weekStart ?? 'saturday');
+        dayCols = Array.from({ length: 7 }, (_, k) => ({ dayIndex: (firstDay + k) % 7, col: 4 + k }));
+        assumedDayColumns = true;
         break;
       }
 
       if (headerRow < 0 || dayCols.length === 0) {
         return {
           rows: [],
-          errors: ['Weekly grid detected, but could not find a header row with weekday columns (Mon..Fri) or a Project Code header.'],
-          warnings,
+          issues: [
+            ...issues,
+            layoutError(
+              'Weekly grid detected, but could not find a header row with weekday columns (Mon..Fri) or a Project Code header.'
+            ),
+          ],
           defaultDeveloper: opts.defaultDeveloper,
           firstDataRowNumber: 2,
         };
@@ -640,7 +1386,8 @@ export class ExcelParser {
           if (parsed) weekEnding = parsed;
         }
         // Common pattern: "Week Ending: 2024-04-05" in one cell
-        const m = typeof cellRaw === 'string' ? cellRaw.match(/(\d{4}-\d{1,2}-\d{1,2})|(\d{1,2}\/\d{1,2}\/\d{4})/) : null;
+        const m =
+          typeof cellRaw === 'string' ? cellRaw.match(/(\d{4}-\d{1,2}-\d{1,2})|(\d{1,2}\/\d{1,2}\/\d{4})/) : null;
         if (m?.[0]) {
           const parsed = this.parseDate(m[0]);
           if (parsed && (cell.includes('week') || cell.includes('ending'))) weekEnding = parsed;
@@ -656,9 +1403,7 @@ export class ExcelParser {
     for (const { dayIndex, col } of dayCols) {
       const headerCell = matrix[headerRow]?.[col];
       const headerStr = typeof headerCell === 'string' ? headerCell : '';
-      const m =
-        headerStr.match(/(\d{4}-\d{1,2}-\d{1,2})|(\d{1,2}\/\d{1,2}\/\d{4})/) ??
-        null;
+      const m = headerStr.match(/(\d{4}-\d{1,2}-\d{1,2})|(\d{1,2}\/\d{1,2}\/\d{4})/) ?? null;
       const direct = m?.[0] ? this.parseDate(m[0]) : null;
       const below = this.parseDate(matrix[headerRow + 1]?.[col]);
       const parsed = direct || below;
@@ -667,38 +1412,100 @@ export class ExcelParser {
 
     const hasAnyExplicitDates = Object.keys(dayDates).length > 0;
 
+    // Story 7.10: a week-ending date supplied on upload wins over the sheet's label, but not over
+    // dates written in the day columns themselves.
+    const isoDay = (d: Date) =>
+      `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+    if (opts.weekEnding && hasAnyExplicitDates) {
+      issues.push(
+        parseIssue(
+          'week_ending',
+          'warning',
+          'The day columns carry their own dates; the week-ending date from the upload was ignored.'
+        )
+      );
+    } else if (opts.weekEnding) {
+      if (weekEnding && isoDay(weekEnding) !== isoDay(opts.weekEnding)) {
+        issues.push(
+          parseIssue(
+            'week_ending',
+            'warning',
+            `Week ending ${isoDay(opts.weekEnding)} from the upload overrides ${isoDay(weekEnding)} on the sheet.`,
+            { value: isoDay(weekEnding) }
+          )
+        );
+      }
+      weekEnding = opts.weekEnding;
+    }
+
     if (!hasAnyExplicitDates) {
       if (!weekEnding) {
         return {
           rows: [],
-          errors: [
-            'Weekly grid detected, but could not determine the calendar dates for each weekday column.',
-            'Please include a “Week Ending” date on the sheet (or put actual dates in/near the weekday headers).',
+          issues: [
+            ...issues,
+            parseIssue(
+              'week_ending',
+              'error',
+              'Weekly grid detected, but could not determine the calendar dates for each weekday column.'
+            ),
+            parseIssue(
+              'week_ending',
+              'error',
+              'Please include a “Week Ending” date on the sheet, enter one on the upload, or put actual dates in/near the weekday headers.'
+            ),
           ],
-          warnings,
           defaultDeveloper: opts.defaultDeveloper,
           firstDataRowNumber: headerRow + 2,
+          weeklyGrid: {
+            weekEnding: null,
+            source: 'sheet',
+            days: dayCols.map(({ dayIndex, col }) => ({
+              day: WEEKDAYS[dayIndex]!,
+              column: XLSX.utils.encode_col(origin.c + col),
+              date: null,
+            })),
+          },
         };
       }
 
-      // Use column-position deltas relative to the rightmost day column (assumed to be the "week ending" day).
-      // This works for both Mon–Fri and Sat–Fri grids without relying on weekday index wraparound.
-      const ordered = [...dayCols].sort((a, b) => a.col - b.col);
-      const endingCol = ordered[ordered.length - 1]!.col;
-      for (const { dayIndex, col } of ordered) {
-        const deltaDays = col - endingCol;
-        const d = new Date(weekEnding);
-        d.setDate(d.getDate() + deltaDays);
-        dayDates[dayIndex] = d;
+      // Story 7.10: each weekday column takes its date within the seven days ending on the week-ending
+      // date, so Mon–Fri, Sat–Fri and Sun–Sat grids all work whichever weekday the week ends on.
+      for (const { dayIndex } of dayCols) {
+        dayDates[dayIndex] = dateInWeekEnding(weekEnding, WEEKDAYS[dayIndex]!);
+      }
+
+      const lastDay = WEEKDAYS[dayCols[dayCols.length - 1]!.dayIndex]!;
+      if (assumedDayColumns && weekdayOf(weekEnding) !== lastDay) {
+        issues.push(
+          parseIssue(
+            'week_ending',
+            'warning',
+            `Week ending ${isoDay(weekEnding)} is a ${WEEKDAY_LABELS[weekdayOf(weekEnding)]}, but columns E–K are read as ${WEEKDAY_LABELS[WEEKDAYS[dayCols[0]!.dayIndex]!]}–${WEEKDAY_LABELS[lastDay]}. Check the first day of the week in Settings.`,
+            { value: isoDay(weekEnding) }
+          )
+        );
       }
     }
 
+    const weeklyGrid: WeeklyGridInfo = {
+      weekEnding: hasAnyExplicitDates ? null : weekEnding,
+      source: hasAnyExplicitDates ? 'columns' : opts.weekEnding ? 'upload' : 'sheet',
+      days: dayCols.map(({ dayIndex, col }) => ({
+        day: WEEKDAYS[dayIndex]!,
+        column: XLSX.utils.encode_col(origin.c + col),
+        date: dayDates[dayIndex] ?? null,
+      })),
+    };
+
     // 4) Identify project/task columns by scanning header row.
     const header = matrix[headerRow].map(opts.normalizeCell);
     const findCol = (pred: (s: string) => boolean) => header.findIndex((s) => pred(s));
+    // Story 9.8: a Project column wins over a Client one when the grid has both
     const projectCol =
-      findCol((s) => s.includes('project') || s.includes('client') || s.includes('job')) ??
-      -1;
+      findCol((s) => s.includes('project')) !== -1
+        ? findCol((s) => s.includes('project'))
+        : findCol((s) => s.includes('client') || s.includes('job'));
     let taskCol =
       findCol(
         (s) =>
@@ -719,23 +1526,27 @@ export class ExcelParser {
     }
 
     if (projectCol < 0) {
-      errors.push('Weekly grid detected, but could not detect the Project column in the header row.');
+      issues.push(layoutError('Weekly grid detected, but could not detect the Project column in the header row.'));
     }
     if (taskCol < 0) {
-      errors.push('Weekly grid detected, but could not detect the Task/Activity column in the header row.');
+      issues.push(
+        layoutError('Weekly grid detected, but could not detect the Task/Activity column in the header row.')
+      );
     }
-    if (errors.length > 0) {
+    if (issues.some((i) => i.severity === 'error')) {
       return {
         rows: [],
-        errors,
-        warnings,
+        issues,
         defaultDeveloper: opts.defaultDeveloper,
         firstDataRowNumber: headerRow + 2,
+        weeklyGrid,
       };
     }
 
     // 5) Convert each grid row into 0..N row-based entries (one per day with hours > 0).
     const outRows: any[] = [];
+    const rowLabels: string[] = [];
+    const rowCells: string[] = [];
     const firstDataRow = headerRow + 1; // data begins after weekday header (and optional date row below may be present)
 
     // If headerRow+1 looked like explicit dates, skip it as a "dates row" (not actual data).
@@ -770,14 +1581,21 @@ export class ExcelParser {
     }
 
     if (!gridDeveloper) {
-      warnings.push('Developer name not found on the sheet; rows may fail if the grid has no per-row developer column.');
+      issues.push(
+        parseIssue(
+          'missing_developer',
+          'warning',
+          'Developer name not found on the sheet; rows may fail if the grid has no per-row developer column.'
+        )
+      );
     }
 
     for (let r = dataStartRow; r < matrix.length; r++) {
       const row = matrix[r];
       if (!Array.isArray(row)) continue;
 
-      const project = typeof row[projectCol] === 'string' ? row[projectCol].trim() : String(row[projectCol] ?? '').trim();
+      const project =
+        typeof row[projectCol] === 'string' ? row[projectCol].trim() : String(row[projectCol] ?? '').trim();
       const task = typeof row[taskCol] === 'string' ? row[taskCol].trim() : String(row[taskCol] ?? '').trim();
 
       const isRowBlank = !project && !task && dayCols.every(({ col }) => !isNumberLike(row[col]));
@@ -785,7 +1603,12 @@ export class ExcelParser {
 
       const lowerProject = project.toLowerCase();
       const lowerTask = task.toLowerCase();
-      if (lowerProject.includes('total') || lowerTask.includes('total') || lowerProject.includes('subtotal') || lowerTask.includes('subtotal')) {
+      if (
+        lowerProject.includes('total') ||
+        lowerTask.includes('total') ||
+        lowerProject.includes('subtotal') ||
+        lowerTask.includes('subtotal')
+      ) {
         continue;
       }
 
@@ -802,41 +1625,64 @@ export class ExcelParser {
 
         const date = dayDates[dayIndex];
         if (!date) {
-          warnings.push(`Could not determine date for day index ${dayIndex}; skipping some cells.`);
+          issues.push(
+            parseIssue(
+              'week_ending',
+              'warning',
+              `Could not determine date for day index ${dayIndex}; skipping some cells.`
+            )
+          );
           continue;
         }
 
-        const durationMinutes = Math.round(hours * 60);
+        // Story 7.10: exact minutes (off-grid hours are rejected or rounded per cell by parseRow),
+        // and a comment on the day cell becomes the entry's notes
+        const address = cellAddress(r, col);
+        const comments: Array<{ a?: string; t?: string }> = opts.sheet?.[address]?.c ?? [];
+        const notes = comments
+          .map((comment) => {
+            const text = (comment.t ?? '').trim();
+            // Excel notes start with "Author:" on its own line
+            return comment.a && text.startsWith(`${comment.a}:`) ? text.slice(comment.a.length + 1).trim() : text;
+          })
+          .filter(Boolean)
+          .join('; ');
 
         outRows.push({
           Developer: gridDeveloper ?? '',
           Project: project,
           Task: task,
           Date: new Date(date),
-          Duration: durationMinutes,
+          Duration: Math.round(hours * 60 * 1e6) / 1e6,
+          Notes: notes || null,
         });
+        rowLabels.push(`Cell ${address} (${hours} h)`);
+        rowCells.push(address);
       }
     }
 
     if (outRows.length === 0) {
       return {
         rows: [],
-        errors: [
-          'Weekly grid detected but no day cells with positive hours were found to import.',
-          'Make sure weekday cells contain numeric hours (e.g. 0.25, 1.5, 2).',
+        issues: [
+          ...issues,
+          layoutError('Weekly grid detected but no day cells with positive hours were found to import.'),
+          layoutError('Make sure weekday cells contain numeric hours (e.g. 0.25, 1.5, 2).'),
         ],
-        warnings,
         defaultDeveloper: gridDeveloper ?? opts.defaultDeveloper,
         firstDataRowNumber: dataStartRow + 1,
+        weeklyGrid,
       };
     }
 
     return {
       rows: outRows,
-      errors,
-      warnings,
+      issues,
       defaultDeveloper: gridDeveloper ?? opts.defaultDeveloper,
       firstDataRowNumber: dataStartRow + 1,
+      rowLabels,
+      rowCells,
+      weeklyGrid,
     };
   }
 
@@ -845,25 +1691,77 @@ export class ExcelParser {
    */
   async parseRows(
     rows: any[],
-    opts?: { defaultDeveloper?: string; firstDataRowNumber?: number; mode?: 'preview' | 'import' }
+    opts?: ParseOptions & {
+      defaultDeveloper?: string;
+      firstDataRowNumber?: number;
+      /** Story 7.10 — per-row labels (weekly-grid cell addresses) instead of `Row N`. */
+      rowLabels?: string[];
+      /** Story 7.12 — weekly-grid day cell of each row, recorded as the entry's source cell. */
+      rowCells?: string[];
+      profile?: ColumnMappingProfileConfig;
+    }
   ): Promise<ParseResult> {
-    const entries: TimeEntryInput[] = [];
+    const entries: ParsedEntry[] = [];
     const developerCandidates = new Set<string>();
     const projectCandidates = new Set<string>();
     const preview: ParseResult['preview'] = [];
-    const errors: string[] = [];
-    const warnings: string[] = [];
+    const issues: ParseIssue[] = [];
+    let errorCount = 0;
     const firstDataRowNumber = opts?.firstDataRowNumber ?? 2;
     const mode = opts?.mode ?? 'import';
+    const wouldCreate: WouldCreateSummary = { developers: [], projects: [], tasks: [] };
+    const byDeveloper = new Map<string, Omit<DeveloperBreakdown, 'name' | 'match'>>();
+    const tally = (name: string) => {
+      if (!byDeveloper.has(name)) byDeveloper.set(name, { entryCount: 0, totalMinutes: 0, errorCount: 0 });
+      return byDeveloper.get(name)!;
+    };
+
+    // Story 7.11: report progress in steps and yield so status polls are served while a job parses
+    const progress = opts?.progress;
+    let reportedRows = 0;
+    let reportedErrors = 0;
+    const reportProgress = (rowsDone: number) => {
+      progress?.report({ parsed: rowsDone - reportedRows, errors: errorCount - reportedErrors });
+      reportedRows = rowsDone;
+      reportedErrors = errorCount;
+    };
+    progress?.signal?.throwIfAborted();
+    progress?.report({ found: rows.length });
+
+    // One lookup of every developer / project the rows name, instead of queries per row
+    const developerTokens = new Set<string>();
+    const projectTokens = new Set<string>();
+    for (const row of rows) {
+      const normalized = this.normalizeRow(row, opts?.profile);
+      const developer = normalized.developer || opts?.defaultDeveloper;
+      if (developer) developerTokens.add(String(developer));
+      if (normalized.project) projectTokens.add(String(normalized.project));
+    }
+    const lookups = await EntityLookups.load(developerTokens, projectTokens, opts?.developerMatches);
 
     for (let i = 0; i < rows.length; i++) {
-      const rowNum = firstDataRowNumber + i;
+      if (progress && i > 0 && i % PROGRESS_ROWS === 0) {
+        reportProgress(i);
+        await new Promise((resolve) => setImmediate(resolve));
+        progress.signal?.throwIfAborted();
+      }
+      // Story 7.12: sheet row of the entry (`sheet_to_json` skips blank rows, so prefer `__rowNum__`);
+      // Story 7.13: row messages use it too, so an issue report can annotate the right row
+      const cell = opts?.rowCells?.[i];
+      const rowNum: unknown = rows[i]?.__rowNum__;
+      const sourceRow = cell
+        ? XLSX.utils.decode_cell(cell).r + 1
+        : typeof rowNum === 'number'
+          ? rowNum + 1
+          : firstDataRowNumber + i;
+      const rowLabel = opts?.rowLabels?.[i] ?? `Row ${sourceRow}`;
+      let devCandidate = '';
       try {
         // Developer detection should not depend on whether a row parses successfully.
-        // Prefer sheet-level defaultDeveloper; otherwise, capture per-row dev candidates.
-        const normalizedForDev = this.normalizeColumnNames(rows[i]);
-        const devCandidateRaw = opts?.defaultDeveloper ?? normalizedForDev.developer;
-        const devCandidate =
+        // Same precedence as parseRow: the row's developer column, then the sheet-level label.
+        const normalizedForDev = this.normalizeRow(rows[i], opts?.profile);
+        const devCandidateRaw = normalizedForDev.developer || opts?.defaultDeveloper;
+        devCandidate =
           typeof devCandidateRaw === 'string'
             ? devCandidateRaw.trim()
             : devCandidateRaw !== null && devCandidateRaw !== undefined
@@ -880,55 +1778,154 @@ export class ExcelParser {
               : '';
         if (proj && !this.shouldIgnoreProjectToken(proj)) projectCandidates.add(proj);
 
-        const parsed = await this.parseRow(rows[i], rowNum, {
+        const parsed = await this.parseRow(rows[i], rowLabel, lookups, {
           defaultDeveloper: opts?.defaultDeveloper,
           mode,
+          strict: opts?.strict,
+          deferEntities: opts?.deferEntities,
+          wouldCreate,
+          issues,
+          at: { row: sourceRow, cell: cell ?? null },
+          rounding: opts?.rounding,
+          developerMatches: opts?.developerMatches,
+          profile: opts?.profile,
         });
         if (parsed) {
-          entries.push(parsed.entry);
+          entries.push({ ...parsed.entry, source: { type: 'excel', row: sourceRow, ...(cell ? { cell } : {}) } });
+          const totals = tally(devCandidate);
+          totals.entryCount++;
+          totals.totalMinutes += parsed.entry.durationMinutes;
           if (preview.length < 10) {
-            preview.push(parsed.preview);
+            preview.push({ ...parsed.preview, row: sourceRow });
           }
         }
       } catch (error) {
-        errors.push(`Row ${rowNum}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        // Story 7.14: the row, field and value the error is about
+        const known = error instanceof ParseIssueError ? error : null;
+        issues.push({
+          code: known?.code ?? 'row_error',
+          severity: 'error',
+          sheet: null,
+          row: sourceRow,
+          column: known?.column ?? null,
+          cell: cell ?? null,
+          value: issueValue(known?.value),
+          message: error instanceof Error ? error.message : 'Unknown error',
+          location: rowLabel,
+        });
+        errorCount++;
+        if (devCandidate) tally(devCandidate).errorCount++;
       }
     }
+    if (progress) reportProgress(rows.length);
 
     const sheetDev =
-      typeof opts?.defaultDeveloper === 'string' && opts.defaultDeveloper.trim()
-        ? opts.defaultDeveloper.trim()
-        : null;
+      typeof opts?.defaultDeveloper === 'string' && opts.defaultDeveloper.trim() ? opts.defaultDeveloper.trim() : null;
 
+    // Story 7.9: a developer column with several names means no single detected developer
     const detectedDeveloper =
-      sheetDev ??
-      (developerCandidates.size === 1 ? Array.from(developerCandidates)[0]! : null);
+      developerCandidates.size === 1
+        ? Array.from(developerCandidates)[0]!
+        : developerCandidates.size === 0
+          ? sheetDev
+          : null;
+
+    const developerNames = Array.from(developerCandidates).sort((a, b) => a.localeCompare(b));
+    // Story 7.9: preview shows which existing developer each name resolves to
+    const developerResolution =
+      mode === 'preview'
+        ? await developerMatchService.resolveDeveloperTokens(developerNames, opts?.developerMatches)
+        : new Map<string, ResolvedDeveloper>();
+    const developerBreakdown = developerNames.map((name) => ({
+      name,
+      ...(byDeveloper.get(name) ?? { entryCount: 0, totalMinutes: 0, errorCount: 0 }),
+      match: developerResolution.get(name) ?? null,
+    }));
 
     const allProjects = Array.from(projectCandidates).sort((a, b) => a.localeCompare(b));
     let invalidProjects: string[] = [];
+    let aliasedProjects: NonNullable<ParseResult['projects']['aliased']> | undefined;
     if (mode === 'preview' && allProjects.length > 0) {
-      const existing = await db.query.projects.findMany({
-        where: inArray(projects.name, allProjects),
-        columns: { name: true },
-      });
-      const existingSet = new Set(existing.map((p) => p.name));
-      invalidProjects = allProjects.filter((p) => !existingSet.has(p));
+      ({ invalid: invalidProjects, aliased: aliasedProjects } = await this.validateProjectTokens(allProjects));
 
       if (invalidProjects.length > 0) {
-        errors.unshift(
-          `Invalid projects (${invalidProjects.length}/${allProjects.length}): ${invalidProjects.join(', ')}`
-        );
+        issues.unshift(invalidProjectsIssue(invalidProjects, allProjects.length));
       }
     }
 
     return {
       entries,
       detectedDeveloper,
-      developers: detectedDeveloper ? [detectedDeveloper] : [],
-      projects: { all: allProjects, invalid: invalidProjects },
+      developers: developerNames,
+      developerBreakdown,
+      projects: {
+        all: allProjects,
+        invalid: invalidProjects,
+        ...(aliasedProjects ? { aliased: aliasedProjects } : {}),
+      },
       preview,
-      errors,
-      warnings,
+      ...withIssueMessages(issues),
+      wouldCreate,
+    };
+  }
+
+  /**
+   * Story 7.6: convert tracker rows to Vandura's row shape (exact minutes) and parse them with the
+   * tracker rounding policy — `parseRow` warns per adjusted row and skips rows that round to 0.
+   */
+  private async parseTrackerExport(
+    sheet: XLSX.WorkSheet,
+    headerRow: number,
+    tool: TrackerTool,
+    opts: {
+      mode: 'preview' | 'import';
+      strict: boolean;
+      deferEntities?: boolean;
+      rounding: RoundingPolicy;
+      developerMatches?: DeveloperMatch[];
+      progress?: ParseProgress;
+    }
+  ): Promise<ParseResult> {
+    const records = XLSX.utils.sheet_to_json<TrackerRecord>(sheet, { raw: false, defval: null, range: headerRow });
+    const firstDataRowNumber = headerRow + 2;
+    const rows: Array<Record<string, unknown>> = [];
+    const issues: ParseIssue[] = [];
+
+    records.forEach((record, i) => {
+      try {
+        const entry = convertTrackerRecord(tool, record);
+        // Blank rows stay as empty placeholders so row numbers line up
+        rows.push(
+          entry
+            ? {
+                Developer: entry.developer,
+                Project: entry.project,
+                Client: entry.client || null,
+                Task: entry.task || null,
+                Date: entry.date,
+                'Start Time': entry.startTime || null,
+                Duration: entry.minutes,
+                Notes: entry.notes || null,
+              }
+            : {}
+        );
+      } catch (error) {
+        const row = firstDataRowNumber + i;
+        issues.push(
+          parseIssue('tracker_row', 'error', error instanceof Error ? error.message : 'Unknown error', {
+            row,
+            location: `Row ${row}`,
+          })
+        );
+        rows.push({});
+      }
+    });
+
+    const parsed = await this.parseRows(rows, { firstDataRowNumber, ...opts });
+    return {
+      ...parsed,
+      trackerExport: { tool, rounding: opts.rounding },
+      ...withIssueMessages([...parsed.issues, ...issues].sort((a, b) => (a.row ?? 0) - (b.row ?? 0))),
     };
   }
 
@@ -937,12 +1934,21 @@ export class ExcelParser {
    */
   private async parseRow(
     row: any,
-    rowNum: number
-    ,
-    opts?: { defaultDeveloper?: string; mode?: 'preview' | 'import' }
-  ): Promise<{ entry: TimeEntryInput; preview: ParseResult['preview'][number] } | null> {
-    // Normalize column names (case-insensitive, flexible naming)
-    const normalized = this.normalizeColumnNames(row);
+    rowLabel: string,
+    lookups: EntityLookups,
+    opts?: ParseOptions & {
+      defaultDeveloper?: string;
+      wouldCreate?: WouldCreateSummary;
+      /** Story 7.7 — receives one warning per rounded (or skipped) row. */
+      issues?: ParseIssue[];
+      /** Story 7.14 — sheet row and weekly-grid cell of the row, for its warnings. */
+      at?: { row: number; cell: string | null };
+      profile?: ColumnMappingProfileConfig;
+    }
+  ): Promise<{ entry: ParsedEntry; preview: Omit<ParseResult['preview'][number], 'sheet' | 'row'> } | null> {
+    // Normalize column names (case-insensitive, flexible naming) — or apply the mapping profile
+    const profile = opts?.profile;
+    const normalized = this.normalizeRow(row, profile);
 
     // Skip blank/separator rows (common in real-world spreadsheets)
     const values = Object.values(normalized);
@@ -954,92 +1960,214 @@ export class ExcelParser {
     // Validate required fields
     const developerName = normalized.developer || opts?.defaultDeveloper;
     if (!developerName) {
-      throw new Error('Missing developer name');
+      throw new ParseIssueError('missing_developer', 'Missing developer name', 'developer');
     }
 
     if (!normalized.project) {
-      throw new Error('Missing project name');
+      throw new ParseIssueError('missing_project', 'Missing project name', 'project');
     }
 
     if (!normalized.date) {
-      throw new Error('Missing date');
+      throw new ParseIssueError('missing_date', 'Missing date', 'date');
     }
 
     // Parse date
-    const date = this.parseDate(normalized.date);
+    const pinnedDate = profile ? parseDateWithFormat(normalized.date, profile.dateFormat) : undefined;
+    const date = pinnedDate === undefined ? this.parseDate(normalized.date) : pinnedDate;
     if (!date) {
-      throw new Error(`Invalid date: ${normalized.date}`);
+      throw new ParseIssueError(
+        'invalid_date',
+        profile && profile.dateFormat !== 'auto'
+          ? `Invalid date: ${normalized.date} (expected ${profile.dateFormat})`
+          : `Invalid date: ${normalized.date}`,
+        'date',
+        normalized.date
+      );
     }
 
-    // Get or create developer
-    const mode = opts?.mode ?? 'import';
-    const developerId = mode === 'import' ? await this.getOrCreateDeveloper(developerName) : 0;
+    // Story 9.7: a Billable cell overrides the task / project default
+    const billable = parseBillableCell(normalized.billable);
+    if (billable === null) {
+      throw new ParseIssueError(
+        'invalid_billable',
+        `Invalid billable value: ${normalized.billable} (use yes or no)`,
+        'billable',
+        normalized.billable
+      );
+    }
+
+    // Story 9.8: a Client cell names an existing client (imports never create clients) and must
+    // agree with the project's client; a new project is created under it
+    const client = normalized.client
+      ? await this.resolveClientCell(lookups, normalized.project, normalized.client)
+      : undefined;
 
-    // Get or create project
-    const projectId = mode === 'import' ? await this.getOrCreateProject(normalized.project) : 0;
+    // Get or create developer / project / task (optional). Preview never writes: it looks up
+    // existing ids so duplicate detection (Story 7.1) can compare against time_entries.
+    // Story 7.3: unknown entities are recorded for the preview summary; strict mode rejects the row.
+    const mode = opts?.mode ?? 'import';
+    const existing = await this.findExistingIds(lookups, developerName, normalized.project, normalized.task);
+    if (opts?.wouldCreate) {
+      this.recordWouldCreate(opts.wouldCreate, existing.missing, normalized.project, client?.name);
+    }
+    if (opts?.strict) {
+      const unknown = (['developer', 'project', 'task'] as const)
+        .filter((column) => existing.missing[column])
+        .map((column) => ({ column, name: existing.missing[column]! }));
+      if (unknown.length > 0) {
+        throw new ParseIssueError(
+          'unknown_entity',
+          `Unknown ${unknown.map((u) => `${u.column} "${u.name}"`).join(', ')} (strict import does not create them)`,
+          unknown[0]!.column,
+          unknown[0]!.name
+        );
+      }
+    }
 
-    // Get or create task (optional)
+    let developerId: number;
+    let projectId: number;
     let taskId: number | undefined;
-    if (normalized.task) {
-      taskId = mode === 'import' ? await this.getOrCreateTask(projectId, normalized.task) : undefined;
+    let pending: PendingEntities | undefined;
+    if (mode === 'import' && opts?.deferEntities) {
+      ({ developerId, projectId, taskId } = existing);
+      if (existing.missing.developer || existing.missing.project || existing.missing.task) {
+        pending = {
+          developer: developerName,
+          developerId: lookups.developerId(String(developerName)),
+          project: normalized.project,
+          projectId: lookups.project(String(normalized.project))?.projectId,
+          clientId: client?.id,
+          task: normalized.task || undefined,
+          taskId: existing.missing.task ? undefined : existing.taskId,
+        };
+      }
+    } else if (mode === 'import') {
+      developerId = await this.getOrCreateDeveloper(lookups, developerName);
+      projectId = await this.getOrCreateProject(lookups, normalized.project, client?.id);
+      if (normalized.task) {
+        taskId = await this.getOrCreateTask(lookups, projectId, normalized.task);
+      }
+    } else {
+      ({ developerId, projectId, taskId } = existing);
     }
 
     // Calculate duration
     let durationMinutes: number;
 
-    if (normalized.durationMinutes !== undefined && normalized.durationMinutes !== null && normalized.durationMinutes !== '') {
-      durationMinutes = parseInt(normalized.durationMinutes.toString(), 10);
+    if (
+      normalized.durationMinutes !== undefined &&
+      normalized.durationMinutes !== null &&
+      normalized.durationMinutes !== ''
+    ) {
+      if (profile) {
+        durationMinutes = durationToMinutes(normalized.durationMinutes, profile.durationUnit);
+        if (Number.isNaN(durationMinutes)) {
+          throw new ParseIssueError(
+            'invalid_duration',
+            `Invalid duration: ${normalized.durationMinutes}`,
+            'duration',
+            normalized.durationMinutes
+          );
+        }
+      } else if (typeof normalized.durationMinutes === 'number') {
+        // Programmatic rows (tests, tracker adapters) may carry exact fractional minutes
+        durationMinutes = normalized.durationMinutes;
+      } else {
+        durationMinutes = parseInt(normalized.durationMinutes.toString(), 10);
+      }
     } else if (normalized.startTime && normalized.endTime) {
-      const startTime = this.parseTime(date, normalized.startTime);
-      const endTime = this.parseTime(date, normalized.endTime);
-      
+      const startTime = this.parseTimeFor(date, normalized.startTime, profile);
+      const endTime = this.parseTimeFor(date, normalized.endTime, profile);
+
       if (!startTime || !endTime) {
-        throw new Error('Invalid start or end time');
+        throw new ParseIssueError(
+          'invalid_time',
+          'Invalid start or end time',
+          startTime ? 'endTime' : 'startTime',
+          startTime ? normalized.endTime : normalized.startTime
+        );
       }
 
       durationMinutes = calculateDuration(startTime, endTime);
     } else {
-      throw new Error('Must provide either duration or start/end times');
+      throw new ParseIssueError('missing_duration', 'Must provide either duration or start/end times', 'duration');
     }
 
-    // Validate duration
-    if (durationMinutes <= 0) {
-      throw new Error('Duration must be greater than 0');
+    // Validate duration; Story 7.7: off-grid values are rounded unless the policy is strict
+    const policy = opts?.rounding ?? 'strict';
+    let adjustment: ReturnType<typeof applyDurationPolicy>;
+    try {
+      adjustment = applyDurationPolicy(durationMinutes, policy);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Invalid duration';
+      const code = Number.isFinite(durationMinutes) && durationMinutes > 0 ? 'off_grid_duration' : 'invalid_duration';
+      throw new ParseIssueError(code, message, 'duration', normalized.durationMinutes ?? durationMinutes);
     }
-
-    if (durationMinutes % 15 !== 0) {
-      throw new Error('Duration must be a multiple of 15 minutes');
+    if (policy !== 'strict' && adjustment.rawDurationMinutes !== null) {
+      const warn = (code: 'duration_rounded' | 'row_skipped', message: string) =>
+        opts?.issues?.push(
+          parseIssue(code, 'warning', message, {
+            row: opts.at?.row ?? null,
+            column: 'duration',
+            cell: opts.at?.cell ?? null,
+            value: issueValue(normalized.durationMinutes ?? durationMinutes),
+            location: rowLabel,
+          })
+        );
+      if (adjustment.durationMinutes === 0) {
+        warn(
+          'row_skipped',
+          `${formatClockDuration(durationMinutes)} rounds ${policy === 'nearest' ? 'to' : policy} to 0 minutes — row skipped`
+        );
+        return null;
+      }
+      warn('duration_rounded', describeRounding(adjustment, policy));
     }
+    durationMinutes = adjustment.durationMinutes;
 
     // Parse start time (default to beginning of day if not provided)
     let startTime: Date;
     if (normalized.startTime) {
-      startTime = this.parseTime(date, normalized.startTime) || date;
+      startTime = this.parseTimeFor(date, normalized.startTime, profile) || date;
     } else {
       startTime = date;
     }
 
-    const entry: TimeEntryInput = {
+    const entry: ParsedEntry = {
       developerId,
       projectId,
       taskId,
       startTime,
       durationMinutes,
       description: normalized.notes || undefined,
+      ...(billable !== undefined ? { billable } : {}),
+      ...(adjustment.rawDurationMinutes !== null ? { rawDurationMinutes: adjustment.rawDurationMinutes } : {}),
+      ...(pending ? { pending } : {}),
     };
 
-    const preview: ParseResult['preview'][number] = {
+    const preview: Omit<ParseResult['preview'][number], 'sheet' | 'row'> = {
       developer: developerName,
       project: normalized.project,
       task: normalized.task,
       startTime,
       durationMinutes,
       notes: normalized.notes || undefined,
+      ...(billable !== undefined ? { billable } : {}),
+      ...(client ? { client: client.name } : {}),
     };
 
     return { entry, preview };
   }
 
+  private normalizeRow(row: any, profile?: ColumnMappingProfileConfig): MappedRow {
+    return profile ? applyColumnMapping(row, profile.columns) : this.normalizeColumnNames(row);
+  }
+
+  private parseTimeFor(date: Date, value: string | Date, profile?: ColumnMappingProfileConfig): Date | null {
+    const pinned = profile ? parseTimeWithFormat(date, value, profile.timeFormat) : undefined;
+    return pinned === undefined ? this.parseTime(date, value) : pinned;
+  }
+
   /**
    * Normalize column names to standard format
    */
@@ -1052,6 +2180,8 @@ export class ExcelParser {
     endTime?: string;
     durationMinutes?: unknown;
     notes?: string;
+    billable?: unknown;
+    client?: string;
   } {
     const result: any = {};
 
@@ -1107,6 +2237,16 @@ export class ExcelParser {
         result.durationMinutes = value;
       }
 
+      // Story 9.7: Billable (yes / no)
+      else if (lowerKey === 'billable' || lowerKey === 'billable?') {
+        result.billable = value;
+      }
+
+      // Story 9.8: Client
+      else if (lowerKey === 'client' || lowerKey === 'client name' || lowerKey === 'customer') {
+        result.client = value;
+      }
+
       // Notes / Description
       else if (
         lowerKey.includes('note') ||
@@ -1253,63 +2393,283 @@ export class ExcelParser {
   }
 
   /**
-   * Get or create developer by name
+   * Preview-only: split sheet project tokens into unknown ones and ones resolved through an alias.
+   */
+  private async validateProjectTokens(tokens: string[]): Promise<{
+    invalid: string[];
+    aliased: NonNullable<ParseResult['projects']['aliased']>;
+  }> {
+    const resolved = await projectAliasService.resolveProjectTokens(tokens);
+    const aliased: NonNullable<ParseResult['projects']['aliased']> = [];
+    for (const code of tokens) {
+      const hit = resolved.get(code);
+      if (hit?.via === 'alias') aliased.push({ code, projectId: hit.projectId, projectName: hit.projectName });
+    }
+    return { invalid: tokens.filter((t) => !resolved.has(t)), aliased };
+  }
+
+  /**
+   * Lookup of existing developer/project/task ids (never writes).
+   * Ids are zero when any referenced entity is missing — such a row can only be new.
+   * `missing` names the entities an import would create (Story 7.3).
+   */
+  private async findExistingIds(
+    lookups: EntityLookups,
+    developerName: string,
+    projectName: string,
+    taskName?: string
+  ): Promise<{
+    developerId: number;
+    projectId: number;
+    taskId: number | undefined;
+    missing: { developer?: string; project?: string; task?: string };
+  }> {
+    const developerId = lookups.developerId(String(developerName));
+    const resolvedProject = lookups.project(String(projectName));
+    const taskId = taskName && resolvedProject ? await lookups.taskId(resolvedProject.projectId, taskName) : undefined;
+
+    const missing = {
+      ...(developerId ? {} : { developer: developerName }),
+      ...(resolvedProject ? {} : { project: projectName }),
+      ...(taskName && !taskId ? { task: taskName } : {}),
+    };
+
+    if (!developerId || !resolvedProject || (taskName && !taskId)) {
+      return { developerId: 0, projectId: 0, taskId: undefined, missing };
+    }
+
+    return { developerId, projectId: resolvedProject.projectId, taskId, missing };
+  }
+
+  private recordWouldCreate(
+    summary: WouldCreateSummary,
+    missing: { developer?: string; project?: string; task?: string },
+    projectName: string,
+    clientName?: string
+  ): void {
+    if (missing.developer && !summary.developers.includes(missing.developer)) {
+      summary.developers.push(missing.developer);
+    }
+    if (missing.project && !summary.projects.includes(missing.project)) {
+      summary.projects.push(missing.project);
+      if (clientName) {
+        summary.projectClients = [...(summary.projectClients ?? []), { project: missing.project, client: clientName }];
+      }
+    }
+    if (missing.task && !summary.tasks.some((t) => t.project === projectName && t.task === missing.task)) {
+      summary.tasks.push({ project: projectName, task: missing.task });
+    }
+  }
+
+  /**
+   * Story 7.3 — explicitly create entities approved from the preview summary.
+   * Projects resolve through aliases first, so an alias added meanwhile is respected.
    */
-  private async getOrCreateDeveloper(name: string): Promise<number> {
-    const existing = await db.query.developers.findFirst({
-      where: eq(developers.name, name),
+  async createApprovedEntities(
+    summary: WouldCreateSummary
+  ): Promise<{ developers: number; projects: number; tasks: number }> {
+    const created = { developers: 0, projects: 0, tasks: 0 };
+    const lookups = await EntityLookups.load(summary.developers, [
+      ...summary.projects,
+      ...summary.tasks.map((t) => t.project),
+    ]);
+
+    // Same matcher as the import (case, spacing, email), so the count is what was inserted
+    for (const name of summary.developers) {
+      if (!lookups.developerId(name)) {
+        await this.getOrCreateDeveloper(lookups, name);
+        created.developers++;
+      }
+    }
+    for (const name of summary.projects) {
+      if (!lookups.project(name)) {
+        // Story 9.8: under the client its rows named, if that client still exists
+        const clientName = summary.projectClients?.find((pc) => pc.project === name)?.client;
+        const client = clientName ? await lookups.client(clientName) : undefined;
+        await this.getOrCreateProject(lookups, name, client?.id);
+        created.projects++;
+      }
+    }
+    for (const { project, task } of summary.tasks) {
+      // A task under a project that was not approved (and still does not resolve) is skipped.
+      const resolved = lookups.project(project);
+      if (!resolved) continue;
+      if (!(await lookups.taskId(resolved.projectId, task))) {
+        await this.getOrCreateTask(lookups, resolved.projectId, task);
+        created.tasks++;
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Story 7.1 — create the master data `deferEntities` rows are waiting for, inside the insert
+   * transaction, and return the rows with their ids. Names repeated across rows (and sheets) are
+   * created once: developers by normalized name, projects by name, tasks per project.
+   */
+  createPendingEntities(
+    tx: DbTransaction,
+    entries: ParsedEntry[]
+  ): { entries: TimeEntryInput[]; created: CreatedEntities } {
+    const created: CreatedEntities = { developerIds: [], projectIds: [], taskIds: [] };
+    const newDevelopers = new Map<string, number>();
+    const newProjects = new Map<string, number>();
+    const newTasks = new Map<string, number>();
+
+    const resolved = entries.map(({ pending, ...entry }) => {
+      if (!pending) return entry;
+
+      const developerKey = normalizeDeveloperToken(pending.developer);
+      let developerId = pending.developerId ?? newDevelopers.get(developerKey);
+      if (!developerId) {
+        [{ id: developerId }] = tx
+          .insert(developers)
+          .values({ name: pending.developer, isActive: true })
+          .returning({ id: developers.id })
+          .all();
+        newDevelopers.set(developerKey, developerId);
+        created.developerIds.push(developerId);
+      }
+
+      let projectId = pending.projectId ?? newProjects.get(pending.project);
+      if (!projectId) {
+        [{ id: projectId }] = tx
+          .insert(projects)
+          .values({ name: pending.project, status: 'active', clientId: pending.clientId ?? null })
+          .returning({ id: projects.id })
+          .all();
+        newProjects.set(pending.project, projectId);
+        created.projectIds.push(projectId);
+      }
+
+      let taskId = pending.taskId;
+      if (pending.task && !taskId) {
+        const taskKey = `${projectId}:${pending.task}`;
+        taskId = newTasks.get(taskKey);
+        if (!taskId) {
+          [{ id: taskId }] = tx
+            .insert(tasks)
+            .values({ projectId, name: pending.task, status: 'pending' })
+            .returning({ id: tasks.id })
+            .all();
+          newTasks.set(taskKey, taskId);
+          created.taskIds.push(taskId);
+        }
+      }
+
+      return { ...entry, developerId, projectId, taskId };
+    });
+
+    return { entries: resolved, created };
+  }
+
+  /**
+   * Story 7.11 — after a background import is discarded, remove the master data it created that
+   * no time entry uses (a project takes its tasks with it).
+   */
+  removeCreatedEntities(created: CreatedEntities): void {
+    db.transaction((tx) => {
+      const unused = (ids: number[], column: SQLiteColumn) =>
+        ids.filter((id) => !tx.select({ id: timeEntries.id }).from(timeEntries).where(eq(column, id)).limit(1).get());
+
+      const taskIds = unused(created.taskIds, timeEntries.taskId);
+      if (taskIds.length > 0) tx.delete(tasks).where(inArray(tasks.id, taskIds)).run();
+      const projectIds = unused(created.projectIds, timeEntries.projectId);
+      if (projectIds.length > 0) tx.delete(projects).where(inArray(projects.id, projectIds)).run();
+      const developerIds = unused(created.developerIds, timeEntries.developerId);
+      if (developerIds.length > 0) tx.delete(developers).where(inArray(developers.id, developerIds)).run();
     });
+  }
+
+  /**
+   * Get or create developer by name
+   */
+  private async getOrCreateDeveloper(lookups: EntityLookups, name: string): Promise<number> {
+    // Story 7.9: preview match, name (any case / spacing) or email before creating
+    const existing = lookups.developerId(String(name));
 
     if (existing) {
-      return existing.id;
+      return existing;
     }
 
-    const result = await db
-      .insert(developers)
-      .values({ name, isActive: true })
-      .returning();
+    const result = await db.insert(developers).values({ name, isActive: true }).returning();
 
+    lookups.addDeveloper(String(name), result[0].id);
     return result[0].id;
   }
 
   /**
-   * Get or create project by name
+   * Get or create project by name (Story 3.4: exact name, then alias, before creating);
+   * Story 9.8: a new project is created under `clientId`
    */
-  private async getOrCreateProject(name: string): Promise<number> {
-    const existing = await db.query.projects.findFirst({
-      where: eq(projects.name, name),
-    });
+  private async getOrCreateProject(lookups: EntityLookups, name: string, clientId?: number): Promise<number> {
+    const existing = lookups.project(String(name));
 
     if (existing) {
-      return existing.id;
+      return existing.projectId;
     }
 
     const result = await db
       .insert(projects)
-      .values({ name, status: 'active' })
+      .values({ name, status: 'active', clientId: clientId ?? null })
       .returning();
 
+    lookups.addProject(String(name), result[0].id);
     return result[0].id;
   }
 
+  /**
+   * Story 9.8 — the client a row's Client cell names. Unknown clients are rejected (they are added
+   * on the Clients page), as is a client other than the one an existing project belongs to.
+   */
+  private async resolveClientCell(
+    lookups: EntityLookups,
+    projectName: string,
+    value: unknown
+  ): Promise<{ id: number; name: string }> {
+    const clientName = String(value).trim();
+    const client = await lookups.client(clientName);
+    if (!client) {
+      throw new ParseIssueError(
+        'unknown_client',
+        `Unknown client: ${clientName} (add it on the Clients page)`,
+        'client',
+        value
+      );
+    }
+
+    const resolved = lookups.project(String(projectName));
+    if (resolved) {
+      const projectClient = await lookups.projectClient(resolved.projectId);
+      if (projectClient?.id !== client.id) {
+        throw new ParseIssueError(
+          'client_mismatch',
+          projectClient
+            ? `Project "${projectName}" belongs to client "${projectClient.name}", not "${client.name}"`
+            : `Project "${projectName}" has no client (assign it to "${client.name}" on the project page)`,
+          'client',
+          value
+        );
+      }
+    }
+
+    return client;
+  }
+
   /**
    * Get or create task by name within project
    */
-  private async getOrCreateTask(projectId: number, name: string): Promise<number> {
-    const existing = await db.query.tasks.findFirst({
-      where: (tasks, { eq, and }) => 
-        and(eq(tasks.projectId, projectId), eq(tasks.name, name)),
-    });
+  private async getOrCreateTask(lookups: EntityLookups, projectId: number, name: string): Promise<number> {
+    const existing = await lookups.taskId(projectId, name);
 
     if (existing) {
-      return existing.id;
+      return existing;
     }
 
-    const result = await db
-      .insert(tasks)
-      .values({ projectId, name, status: 'pending' })
-      .returning();
+    const result = await db.insert(tasks).values({ projectId, name, status: 'pending' }).returning();
 
+    lookups.addTask(projectId, name, result[0].id);
     return result[0].id;
   }
 }
@@ -0,0 +1,233 @@
+import { createHash } from 'node:crypto';
+import { db, type DbTransaction } from '../db';
+import {
+  importBatches,
+  importBatchReplacedEntries,
+  developers,
+  invoices,
+  timeEntries,
+  type ImportBatch,
+  type TimeEntry,
+} from '../db/schema';
+import { eq, and, desc, sql } from 'drizzle-orm';
+import { invoicedEntriesMessage } from '@/lib/invoices';
+
+/**
+ * ImportBatchService
+ * Story 7.2 — past Excel imports: list, discard (delete a batch's rows, restore the
+ * entries it overwrote), replacement lookup.
+ * Rows are inserted together with their batch in `TimesheetService.bulkCreateEntries`.
+ */
+
+export interface ImportBatchListItem {
+  id: number;
+  fileName: string;
+  checksum: string;
+  developerId: number | null;
+  developerName: string | null;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  rowCount: number;
+  /** Inserted rows still stamped with this batch (manual deletes on /timesheets lower it). */
+  currentRowCount: number;
+  /** Existing entries this batch overwrote ("take incoming"); discard restores them. */
+  replacedRowCount: number;
+  status: ImportBatch['status'];
+  replacedByBatchId: number | null;
+  createdAt: Date;
+  closedAt: Date | null;
+}
+
+/** An overwritten entry's values before the import (JSON in `import_batch_replaced_entries.previous`). */
+export interface ReplacedEntryValues {
+  projectId: number;
+  taskId: number | null;
+  developerId: number;
+  /** epoch ms */
+  startTime: number;
+  durationMinutes: number;
+  rawDurationMinutes: number | null;
+  description: string | null;
+  billable: boolean;
+  importBatchId: number | null;
+  sourceType: TimeEntry['sourceType'];
+  sourceFileName: string | null;
+  sourceSheet: string | null;
+  sourceRow: number | null;
+  sourceCell: string | null;
+}
+
+export function importFileChecksum(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+/** Snapshot of `entry` for `import_batch_replaced_entries.previous`. */
+export function replacedEntrySnapshot(entry: TimeEntry): string {
+  const values: ReplacedEntryValues = {
+    projectId: entry.projectId,
+    taskId: entry.taskId,
+    developerId: entry.developerId,
+    startTime: entry.startTime.getTime(),
+    durationMinutes: entry.durationMinutes,
+    rawDurationMinutes: entry.rawDurationMinutes,
+    description: entry.description,
+    billable: entry.billable,
+    importBatchId: entry.importBatchId,
+    sourceType: entry.sourceType,
+    sourceFileName: entry.sourceFileName,
+    sourceSheet: entry.sourceSheet,
+    sourceRow: entry.sourceRow,
+    sourceCell: entry.sourceCell,
+  };
+  return JSON.stringify(values);
+}
+
+function restoredValues(previous: string) {
+  const values = JSON.parse(previous) as ReplacedEntryValues;
+  return { ...values, startTime: new Date(values.startTime) };
+}
+
+/**
+ * Undo the rows of `batchId` inside `tx`: entries it overwrote get their previous values back,
+ * entries it inserted are deleted. Only entries still stamped with the batch are touched.
+ */
+export function revertBatchEntries(tx: DbTransaction, batchId: number): { deleted: number; restored: number } {
+  const replaced = tx
+    .select({
+      timeEntryId: importBatchReplacedEntries.timeEntryId,
+      previous: importBatchReplacedEntries.previous,
+    })
+    .from(importBatchReplacedEntries)
+    .innerJoin(timeEntries, eq(timeEntries.id, importBatchReplacedEntries.timeEntryId))
+    .where(
+      and(eq(importBatchReplacedEntries.importBatchId, batchId), eq(timeEntries.importBatchId, batchId))
+    )
+    .all();
+  for (const { timeEntryId, previous } of replaced) {
+    tx.update(timeEntries)
+      .set({ ...restoredValues(previous), updatedAt: new Date() })
+      .where(eq(timeEntries.id, timeEntryId))
+      .run();
+  }
+  tx.delete(importBatchReplacedEntries).where(eq(importBatchReplacedEntries.importBatchId, batchId)).run();
+
+  const deleted = tx
+    .delete(timeEntries)
+    .where(eq(timeEntries.importBatchId, batchId))
+    .returning({ id: timeEntries.id })
+    .all();
+  return { deleted: deleted.length, restored: replaced.length };
+}
+
+export class ImportBatchService {
+  /**
+   * List batches, newest first
+   */
+  async listBatches(limit = 100): Promise<ImportBatchListItem[]> {
+    const rows = await db
+      .select({
+        id: importBatches.id,
+        fileName: importBatches.fileName,
+        checksum: importBatches.checksum,
+        developerId: importBatches.developerId,
+        developerName: developers.name,
+        periodStart: importBatches.periodStart,
+        periodEnd: importBatches.periodEnd,
+        rowCount: importBatches.rowCount,
+        currentRowCount: sql<number>`(
+          SELECT COUNT(*) FROM ${timeEntries} WHERE ${timeEntries.importBatchId} = ${importBatches.id}
+        )`,
+        replacedRowCount: sql<number>`(
+          SELECT COUNT(*) FROM ${importBatchReplacedEntries}
+          INNER JOIN ${timeEntries} ON ${timeEntries.id} = ${importBatchReplacedEntries.timeEntryId}
+          WHERE ${importBatchReplacedEntries.importBatchId} = ${importBatches.id}
+            AND ${timeEntries.importBatchId} = ${importBatches.id}
+        )`,
+        status: importBatches.status,
+        replacedByBatchId: importBatches.replacedByBatchId,
+        createdAt: importBatches.createdAt,
+        closedAt: importBatches.closedAt,
+      })
+      .from(importBatches)
+      .leftJoin(developers, eq(importBatches.developerId, developers.id))
+      .orderBy(desc(importBatches.createdAt), desc(importBatches.id))
+      .limit(limit);
+
+    return rows.map((r) => ({
+      ...r,
+      developerName: r.developerName ?? null,
+      currentRowCount: Number(r.currentRowCount ?? 0) - Number(r.replacedRowCount ?? 0),
+      replacedRowCount: Number(r.replacedRowCount ?? 0),
+    }));
+  }
+
+  /**
+   * Get a single batch by ID
+   */
+  async getBatchById(id: number): Promise<ImportBatch | undefined> {
+    return db.query.importBatches.findFirst({
+      where: eq(importBatches.id, id),
+    });
+  }
+
+  /**
+   * Active batches created from a byte-identical file (re-upload hint in preview)
+   */
+  async findActiveByChecksum(checksum: string): Promise<ImportBatch[]> {
+    return db
+      .select()
+      .from(importBatches)
+      .where(and(eq(importBatches.checksum, checksum), eq(importBatches.status, 'active')))
+      .orderBy(desc(importBatches.id));
+  }
+
+  /**
+   * Story 7.2 — entries `batchId` overwrote, as they were before the import (`planImport` compares a
+   * replacement sheet against these, since replacing the batch restores them).
+   */
+  async entriesBeforeBatch(batchId: number): Promise<TimeEntry[]> {
+    const rows = await db
+      .select({ entry: timeEntries, previous: importBatchReplacedEntries.previous })
+      .from(importBatchReplacedEntries)
+      .innerJoin(timeEntries, eq(timeEntries.id, importBatchReplacedEntries.timeEntryId))
+      .where(
+        and(eq(importBatchReplacedEntries.importBatchId, batchId), eq(timeEntries.importBatchId, batchId))
+      );
+    return rows.map((r) => ({ ...r.entry, ...restoredValues(r.previous) }));
+  }
+
+  /**
+   * Delete the time entries an active batch inserted, restore the ones it overwrote and mark it
+   * discarded, in one transaction. Returns both counts.
+   */
+  async discardBatch(
+    id: number
+  ): Promise<{ batch: ImportBatch; deletedEntries: number; restoredEntries: number }> {
+    return db.transaction((tx) => {
+      const [batch] = tx
+        .update(importBatches)
+        .set({ status: 'discarded', closedAt: new Date() })
+        .where(and(eq(importBatches.id, id), eq(importBatches.status, 'active')))
+        .returning()
+        .all();
+      if (!batch) {
+        throw new Error('Import not found or already discarded/replaced');
+      }
+      // Story 9.6: invoiced rows are locked
+      const [locked] = tx
+        .select({ number: invoices.number })
+        .from(timeEntries)
+        .innerJoin(invoices, eq(invoices.id, timeEntries.invoiceId))
+        .where(eq(timeEntries.importBatchId, id))
+        .limit(1)
+        .all();
+      if (locked) throw new Error(invoicedEntriesMessage(locked.number));
+
+      const { deleted, restored } = revertBatchEntries(tx, id);
+      return { batch, deletedEntries: deleted, restoredEntries: restored };
+    });
+  }
+}
+
+// Export singleton instance
+export const importBatchService = new ImportBatchService();
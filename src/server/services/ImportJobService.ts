@@ -0,0 +1,269 @@
+import { db } from '../db';
+import { importJobs, type ImportJob } from '../db/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { excelParser, type CreatedEntities, type ParseProgress } from './ExcelParser';
+import { timesheetService, type TimeEntryInput } from './TimesheetService';
+import { importBatchService, importFileChecksum } from './ImportBatchService';
+import { settingsService } from './SettingsService';
+import { applyImportConflictResolutions, type ImportConflictAction } from '@/lib/time-entry-identity';
+import { IMPORT_JOB_ERROR_LIMIT, isActiveImportJob } from '@/lib/import-jobs';
+import { localDateFromIso } from '@/lib/date-utils';
+import type { DeveloperMatch } from './DeveloperMatchService';
+
+/**
+ * ImportJobService
+ * Story 7.11 — imports of large files run in the background: the workbook is parsed with progress
+ * reports, then the rows are inserted in chunks into one import batch. The job row holds the
+ * counters the upload page polls and the cancel flag the running job checks between steps;
+ * cancelling (or failing) after rows were inserted discards that batch again, and the developers,
+ * projects and tasks it created. Jobs run in the server process that took the upload; one still
+ * active under another process (the server restarted mid-import) is failed when read and its
+ * partial batch discarded.
+ */
+
+/** Rows per `bulkCreateEntries` call while a job inserts. */
+const INSERT_CHUNK_ROWS = 1000;
+
+/** This server process: pid plus start time, since a restarted container can reuse the pid. */
+const CURRENT_WORKER = `${process.pid}@${performance.timeOrigin}`;
+
+export interface ImportJobOptions {
+  strict?: boolean;
+  profileId?: number;
+  sheets?: string[];
+  developerMatches?: DeveloperMatch[];
+  /** YYYY-MM-DD week ending for weekly grids (Story 7.10). */
+  weekEnding?: string;
+  /** Applied to every row that conflicts with an existing entry. */
+  conflictAction: ImportConflictAction;
+}
+
+export type ImportJobView = Omit<ImportJob, 'errors'> & { errors: string[] };
+
+function toView(job: ImportJob): ImportJobView {
+  let errors: string[] = [];
+  try {
+    errors = JSON.parse(job.errors) as string[];
+  } catch {
+    errors = [];
+  }
+  return { ...job, errors };
+}
+
+/** Thrown through the parser / insert loop when the job's cancel flag is set. */
+class ImportJobCancelled extends Error {
+  constructor() {
+    super('Import cancelled');
+  }
+}
+
+export class ImportJobService {
+  /**
+   * Record a queued job and start it after the upload request returns.
+   */
+  async startJob(buffer: Buffer, fileName: string, options: ImportJobOptions): Promise<ImportJobView> {
+    const [job] = await db.insert(importJobs).values({ fileName, worker: CURRENT_WORKER }).returning();
+    setImmediate(() => {
+      void this.runJob(job!.id, buffer, fileName, options);
+    });
+    return toView(job!);
+  }
+
+  async getJob(id: number): Promise<ImportJobView | undefined> {
+    const job = await db.query.importJobs.findFirst({ where: eq(importJobs.id, id) });
+    if (!job) return undefined;
+    return toView(isActiveImportJob(job.status) && job.worker !== CURRENT_WORKER ? await this.failOrphaned(job) : job);
+  }
+
+  /**
+   * A job whose process is gone will never finish: fail it and discard the rows it had saved.
+   */
+  private async failOrphaned(job: ImportJob): Promise<ImportJob> {
+    let message = 'The server stopped while this import was running.';
+    // Claim the job first so concurrent reads do not both discard
+    const [claimed] = await db
+      .update(importJobs)
+      .set({ status: 'failed', message, finishedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(importJobs.id, job.id), inArray(importJobs.status, ['queued', 'parsing', 'inserting'])))
+      .returning();
+    if (!claimed) {
+      return (await db.query.importJobs.findFirst({ where: eq(importJobs.id, job.id) })) ?? job;
+    }
+
+    if (claimed.importBatchId !== null) {
+      try {
+        await importBatchService.discardBatch(claimed.importBatchId);
+        if (claimed.rowsInserted > 0) message += ` The ${claimed.rowsInserted} entries saved so far were removed.`;
+      } catch {
+        message += ` Import #${claimed.importBatchId} could not be discarded automatically — discard it on Past imports.`;
+      }
+    }
+    message += ' Upload the file again.';
+    const [updated] = await db.update(importJobs).set({ message }).where(eq(importJobs.id, job.id)).returning();
+    return updated ?? claimed;
+  }
+
+  /**
+   * Ask a running job to stop; it finishes as `cancelled` at its next progress check.
+   */
+  async cancelJob(id: number): Promise<ImportJobView> {
+    const job = await this.getJob(id);
+    if (!job) {
+      throw new Error('Import job not found');
+    }
+    if (!isActiveImportJob(job.status)) {
+      throw new Error(`Import job already ${job.status}`);
+    }
+    const [updated] = await db
+      .update(importJobs)
+      .set({ cancelRequested: true, updatedAt: new Date() })
+      .where(eq(importJobs.id, id))
+      .returning();
+    return toView(updated!);
+  }
+
+  /**
+   * Parse → plan (duplicates / conflicts) → insert in chunks. Never throws: the outcome is
+   * written to the job row.
+   */
+  async runJob(id: number, buffer: Buffer, fileName: string, options: ImportJobOptions): Promise<void> {
+    // better-sqlite3 runs these synchronously, so progress can be saved from the parser callback
+    const update = (values: Partial<typeof importJobs.$inferInsert>) =>
+      db
+        .update(importJobs)
+        .set({ ...values, updatedAt: new Date() })
+        .where(eq(importJobs.id, id))
+        .run();
+    const controller = new AbortController();
+    const checkCancelled = () => {
+      const row = db
+        .select({ cancelRequested: importJobs.cancelRequested })
+        .from(importJobs)
+        .where(eq(importJobs.id, id))
+        .get();
+      if (row?.cancelRequested && !controller.signal.aborted) controller.abort(new ImportJobCancelled());
+      controller.signal.throwIfAborted();
+    };
+
+    const counters = { rowsFound: 0, rowsParsed: 0, errorCount: 0 };
+    const progress: ParseProgress = {
+      report: (delta) => {
+        counters.rowsFound += delta.found ?? 0;
+        counters.rowsParsed += delta.parsed ?? 0;
+        counters.errorCount += delta.errors ?? 0;
+        update(counters);
+        checkCancelled();
+      },
+      signal: controller.signal,
+    };
+
+    let importBatchId: number | null = null;
+    let createdEntities: CreatedEntities | null = null;
+    let rowsInserted = 0;
+    try {
+      update({ status: 'parsing' });
+      const settings = await settingsService.getSettings();
+      const parsed = await excelParser.parseFile(buffer, {
+        mode: 'import',
+        deferEntities: true,
+        strict: options.strict ?? settings.importStrictMode,
+        trackerRounding: settings.trackerImportRounding,
+        rounding: settings.durationRoundingPolicy,
+        weekStart: settings.weeklyGridWeekStart,
+        profileId: options.profileId,
+        fileName,
+        sheets: options.sheets,
+        developerMatches: options.developerMatches,
+        weekEnding: options.weekEnding ? localDateFromIso(options.weekEnding) : undefined,
+        progress,
+      });
+
+      if (parsed.errors.length > 0) {
+        update({
+          status: 'failed',
+          errorCount: parsed.errors.length,
+          errors: JSON.stringify(parsed.errors.slice(0, IMPORT_JOB_ERROR_LIMIT)),
+          message: `${parsed.errors.length} error(s) in the file — nothing was imported. Fix the rows and upload it again.`,
+          finishedAt: new Date(),
+        });
+        return;
+      }
+      checkCancelled();
+
+      const plan = await timesheetService.planImport(parsed.entries);
+      const resolved = applyImportConflictResolutions(
+        plan.classification,
+        plan.classification.conflicts.map((c) => ({ ...c, action: options.conflictAction }))
+      );
+      let inserts: TimeEntryInput[] = resolved.insertIndexes.map((i) => parsed.entries[i]!);
+      const replacements = resolved.replacements.map((r) => ({
+        id: r.existingId,
+        input: parsed.entries[r.index]!,
+      }));
+      update({
+        status: 'inserting',
+        rowsToInsert: inserts.length,
+        skippedDuplicates: plan.classification.duplicateIndexes.length,
+      });
+      checkCancelled();
+
+      if (inserts.length > 0 || replacements.length > 0) {
+        // Story 7.1: new developers / projects / tasks only once nothing blocks the import
+        const prepared = db.transaction((tx) => excelParser.createPendingEntities(tx, inserts));
+        createdEntities = prepared.created;
+        inserts = prepared.entries;
+        const batch = await timesheetService.createImportBatch(
+          { fileName, checksum: importFileChecksum(buffer) },
+          inserts
+        );
+        importBatchId = batch.id;
+        update({ importBatchId });
+      }
+
+      // "Take incoming" updates go with the last chunk, after the final cancel check
+      const chunkCount = Math.max(1, Math.ceil(inserts.length / INSERT_CHUNK_ROWS));
+      for (let chunk = 0; chunk < chunkCount; chunk++) {
+        checkCancelled();
+        const rows: TimeEntryInput[] = inserts.slice(chunk * INSERT_CHUNK_ROWS, (chunk + 1) * INSERT_CHUNK_ROWS);
+        const last = chunk === chunkCount - 1;
+        const created = await timesheetService.bulkCreateEntries(rows, {
+          importBatchId: importBatchId ?? undefined,
+          replacements: last ? replacements : [],
+        });
+        rowsInserted += created.length;
+        update({ rowsInserted });
+        await new Promise((resolve) => setImmediate(resolve));
+      }
+
+      const parts = [`Imported ${rowsInserted} new time entries.`];
+      if (plan.classification.duplicateIndexes.length) {
+        parts.push(`${plan.classification.duplicateIndexes.length} already imported (skipped).`);
+      }
+      if (resolved.replacements.length) parts.push(`${resolved.replacements.length} replaced with incoming values.`);
+      if (resolved.keptExistingIndexes.length) parts.push(`${resolved.keptExistingIndexes.length} kept as existing.`);
+      update({ status: 'completed', message: parts.join(' '), finishedAt: new Date() });
+    } catch (error) {
+      const cancelled = controller.signal.aborted;
+      let message = cancelled ? 'Cancelled.' : error instanceof Error ? error.message : 'Import failed';
+      if (importBatchId !== null) {
+        try {
+          await importBatchService.discardBatch(importBatchId);
+          if (rowsInserted > 0) message += ` The ${rowsInserted} entries saved so far were removed.`;
+        } catch {
+          message += ` Import #${importBatchId} could not be discarded automatically — discard it on Past imports.`;
+        }
+      }
+      if (createdEntities) {
+        try {
+          excelParser.removeCreatedEntities(createdEntities);
+        } catch {
+          // Left in place: they show on the Developers / Projects pages and can be deleted there
+        }
+      }
+      update({ status: cancelled ? 'cancelled' : 'failed', message, finishedAt: new Date() });
+    }
+  }
+}
+
+// Export singleton instance
+export const importJobService = new ImportJobService();
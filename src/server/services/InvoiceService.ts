@@ -0,0 +1,381 @@
+import * as XLSX from 'xlsx';
+import { db } from '../db';
+import {
+  developers,
+  invoiceLines,
+  invoices,
+  projects,
+  tasks,
+  timeEntries,
+  type Invoice,
+  type InvoiceLine,
+} from '../db/schema';
+import { and, desc, eq, gte, inArray, isNull, lte } from 'drizzle-orm';
+import { entryHourlyRateSql } from './AggregationEngine';
+import { DATE_FORMAT, HOURS_FORMAT, freezeHeaderRows, tableSheet } from './ReportService';
+import { settingsService } from './SettingsService';
+import { PDF_PAGE_WIDTH, renderPdf, type PdfItem } from '../pdf';
+import { endOfDay, startOfDay, toLocalIsoDate } from '@/lib/date-utils';
+import { formatCost } from '@/lib/cost';
+import {
+  INVOICE_GROUP_BY_LABELS,
+  INVOICE_STATUS_LABELS,
+  buildInvoiceLines,
+  formatInvoiceNumber,
+  roundMoney,
+  type InvoiceGroupBy,
+  type InvoiceLineDraft,
+} from '@/lib/invoices';
+
+/**
+ * InvoiceService
+ * Story 9.6 — invoices from a project's uninvoiced time in a period: preview, issue (locking the
+ * entries), void (unlocking them), and PDF / XLSX exports of an issued invoice.
+ */
+
+/** Placeholder `number` between the insert and the update that numbers it (same transaction). */
+const PENDING_INVOICE_NUMBER = 'INV-PENDING';
+
+export interface InvoiceInput {
+  projectId: number;
+  startDate: Date;
+  endDate: Date;
+  groupBy: InvoiceGroupBy;
+}
+
+/** What issuing `InvoiceInput` now would bill; nothing is stored. */
+export interface InvoicePreview {
+  lines: InvoiceLineDraft[];
+  totalHours: number;
+  totalAmount: number;
+  entryCount: number;
+  currency: string;
+  /** Developers with uninvoiced time in the period that no rate covers (blocks issuing) */
+  developersWithoutRate: Array<{ developerId: number; developerName: string }>;
+}
+
+export type InvoiceListItem = Invoice & { projectName: string };
+
+export interface InvoiceDetail extends InvoiceListItem {
+  lines: InvoiceLine[];
+}
+
+const MONEY_FORMAT = '#,##0.00';
+
+export class InvoiceService {
+  /** Uninvoiced billable entries (Story 9.7) of the project in the period, with the rate in force for each. */
+  private async uninvoicedEntries(input: InvoiceInput) {
+    return db
+      .select({
+        id: timeEntries.id,
+        developerId: timeEntries.developerId,
+        developerName: developers.name,
+        taskName: tasks.name,
+        durationMinutes: timeEntries.durationMinutes,
+        hourlyRate: entryHourlyRateSql,
+      })
+      .from(timeEntries)
+      .innerJoin(developers, eq(developers.id, timeEntries.developerId))
+      .leftJoin(tasks, eq(tasks.id, timeEntries.taskId))
+      .where(
+        and(
+          eq(timeEntries.projectId, input.projectId),
+          isNull(timeEntries.invoiceId),
+          eq(timeEntries.billable, true),
+          gte(timeEntries.startTime, startOfDay(input.startDate)),
+          lte(timeEntries.startTime, endOfDay(input.endDate))
+        )
+      );
+  }
+
+  async previewInvoice(input: InvoiceInput): Promise<InvoicePreview> {
+    const [entries, { currency }] = await Promise.all([this.uninvoicedEntries(input), settingsService.getSettings()]);
+    return this.draftInvoice(entries, input.groupBy, currency);
+  }
+
+  private draftInvoice(
+    entries: Awaited<ReturnType<InvoiceService['uninvoicedEntries']>>,
+    groupBy: InvoiceGroupBy,
+    currency: string
+  ): InvoicePreview {
+    const withoutRate = new Map<number, string>();
+    for (const entry of entries) {
+      if (entry.hourlyRate === null) withoutRate.set(entry.developerId, entry.developerName);
+    }
+
+    const lines = buildInvoiceLines(
+      entries.flatMap((entry) => (entry.hourlyRate === null ? [] : [{ ...entry, hourlyRate: entry.hourlyRate }])),
+      groupBy
+    );
+    return {
+      lines,
+      totalHours: entries.reduce((sum, entry) => sum + entry.durationMinutes, 0) / 60,
+      totalAmount: roundMoney(lines.reduce((sum, line) => sum + line.amount, 0)),
+      entryCount: entries.length,
+      currency,
+      developersWithoutRate: Array.from(withoutRate, ([developerId, developerName]) => ({ developerId, developerName })),
+    };
+  }
+
+  /**
+   * Issue an invoice for the period's uninvoiced time and lock those entries, in one transaction.
+   * Throws when there is nothing to bill or some of the time has no rate.
+   */
+  async createInvoice(input: InvoiceInput): Promise<InvoiceDetail> {
+    const project = await db.query.projects.findFirst({ where: eq(projects.id, input.projectId) });
+    if (!project) throw new Error('Project not found');
+    if (startOfDay(input.startDate) > endOfDay(input.endDate)) {
+      throw new Error('The invoice period must end on or after its start date');
+    }
+
+    const [entries, { currency }] = await Promise.all([this.uninvoicedEntries(input), settingsService.getSettings()]);
+    if (entries.length === 0) throw new Error('There is no uninvoiced billable time for this project in the period');
+    const preview = this.draftInvoice(entries, input.groupBy, currency);
+    if (preview.developersWithoutRate.length > 0) {
+      const names = preview.developersWithoutRate.map((d) => d.developerName).join(', ');
+      throw new Error(`Set an hourly rate for ${names} before invoicing this period`);
+    }
+
+    const entryIds = entries.map((entry) => entry.id);
+    const invoiceId = db.transaction((tx) => {
+      // Numbered from the AUTOINCREMENT id once inserted: ids are never reused, even after a delete
+      const [invoice] = tx
+        .insert(invoices)
+        .values({
+          number: PENDING_INVOICE_NUMBER,
+          projectId: input.projectId,
+          periodStart: startOfDay(input.startDate),
+          periodEnd: startOfDay(input.endDate),
+          groupBy: input.groupBy,
+          currency: preview.currency,
+          totalHours: preview.totalHours,
+          totalAmount: preview.totalAmount,
+          entryCount: entryIds.length,
+        })
+        .returning()
+        .all();
+      tx.update(invoices)
+        .set({ number: formatInvoiceNumber(invoice!.id) })
+        .where(eq(invoices.id, invoice!.id))
+        .run();
+      tx.insert(invoiceLines)
+        .values(preview.lines.map((line, position) => ({ ...line, invoiceId: invoice!.id, position })))
+        .run();
+
+      // 1000 ids per statement keeps SQLite parameter counts reasonable
+      let locked = 0;
+      for (let i = 0; i < entryIds.length; i += 1000) {
+        locked += tx
+          .update(timeEntries)
+          .set({ invoiceId: invoice!.id })
+          .where(and(inArray(timeEntries.id, entryIds.slice(i, i + 1000)), isNull(timeEntries.invoiceId)))
+          .returning({ id: timeEntries.id })
+          .all().length;
+      }
+      if (locked !== entryIds.length) {
+        throw new Error('Some of the time was invoiced or changed meanwhile. Try again.');
+      }
+      return invoice!.id;
+    });
+
+    return (await this.getInvoice(invoiceId))!;
+  }
+
+  /** An invoice of the project (issued or void), if any — such a project cannot be deleted. */
+  async projectInvoiceNumber(projectId: number): Promise<string | null> {
+    const [invoice] = await db
+      .select({ number: invoices.number })
+      .from(invoices)
+      .where(eq(invoices.projectId, projectId))
+      .limit(1);
+    return invoice?.number ?? null;
+  }
+
+  /** An issued invoice locking some of the developer's time, if any — they cannot be deleted. */
+  async developerInvoiceNumber(developerId: number): Promise<string | null> {
+    const [locked] = await db
+      .select({ number: invoices.number })
+      .from(timeEntries)
+      .innerJoin(invoices, eq(invoices.id, timeEntries.invoiceId))
+      .where(eq(timeEntries.developerId, developerId))
+      .limit(1);
+    return locked?.number ?? null;
+  }
+
+  /**
+   * An issued invoice locking some of the task's time, if any — deleting the task would clear
+   * `task_id` on those entries, so it cannot be deleted.
+   */
+  async taskInvoiceNumber(taskId: number): Promise<string | null> {
+    const [locked] = await db
+      .select({ number: invoices.number })
+      .from(timeEntries)
+      .innerJoin(invoices, eq(invoices.id, timeEntries.invoiceId))
+      .where(eq(timeEntries.taskId, taskId))
+      .limit(1);
+    return locked?.number ?? null;
+  }
+
+  /** Invoices, newest first (optionally one project's). */
+  async listInvoices(projectId?: number): Promise<InvoiceListItem[]> {
+    const rows = await db
+      .select({ invoice: invoices, projectName: projects.name })
+      .from(invoices)
+      .innerJoin(projects, eq(projects.id, invoices.projectId))
+      .where(projectId ? eq(invoices.projectId, projectId) : undefined)
+      .orderBy(desc(invoices.id));
+    return rows.map((row) => ({ ...row.invoice, projectName: row.projectName }));
+  }
+
+  async getInvoice(id: number): Promise<InvoiceDetail | undefined> {
+    const [row] = await db
+      .select({ invoice: invoices, projectName: projects.name })
+      .from(invoices)
+      .innerJoin(projects, eq(projects.id, invoices.projectId))
+      .where(eq(invoices.id, id));
+    if (!row) return undefined;
+
+    const lines = await db
+      .select()
+      .from(invoiceLines)
+      .where(eq(invoiceLines.invoiceId, id))
+      .orderBy(invoiceLines.position);
+    return { ...row.invoice, projectName: row.projectName, lines };
+  }
+
+  /** Mark an issued invoice void and unlock its entries, in one transaction. */
+  async voidInvoice(id: number): Promise<{ invoice: Invoice; unlockedEntries: number }> {
+    return db.transaction((tx) => {
+      const [invoice] = tx
+        .update(invoices)
+        .set({ status: 'void', voidedAt: new Date() })
+        .where(and(eq(invoices.id, id), eq(invoices.status, 'issued')))
+        .returning()
+        .all();
+      if (!invoice) {
+        throw new Error('Invoice not found or already void');
+      }
+
+      const unlocked = tx
+        .update(timeEntries)
+        .set({ invoiceId: null })
+        .where(eq(timeEntries.invoiceId, id))
+        .returning({ id: timeEntries.id })
+        .all();
+
+      return { invoice, unlockedEntries: unlocked.length };
+    });
+  }
+
+  /** The invoice as a workbook: an Invoice sheet (number, project, period, total) and a Lines sheet. */
+  exportToXLSX(invoice: InvoiceDetail): Buffer {
+    const summary = tableSheet(
+      ['Invoice', invoice.number],
+      [
+        ['Project', invoice.projectName],
+        ['Status', INVOICE_STATUS_LABELS[invoice.status]],
+        ['Issued', startOfDay(invoice.createdAt)],
+        ['Period from', invoice.periodStart],
+        ['Period to', invoice.periodEnd],
+        ['Currency', invoice.currency],
+        ['Total hours', invoice.totalHours],
+        [`Total (${invoice.currency})`, invoice.totalAmount],
+      ],
+      {},
+      [20, 40]
+    );
+    for (const [address, format] of [
+      ['B4', DATE_FORMAT],
+      ['B5', DATE_FORMAT],
+      ['B6', DATE_FORMAT],
+      ['B8', HOURS_FORMAT],
+      ['B9', MONEY_FORMAT],
+    ] as const) {
+      const cell = summary[address] as XLSX.CellObject;
+      if (cell.t === 'n') cell.z = format;
+    }
+
+    const lineSheet = tableSheet(
+      [
+        INVOICE_GROUP_BY_LABELS[invoice.groupBy],
+        'Hours',
+        `Rate (${invoice.currency}/h)`,
+        `Amount (${invoice.currency})`,
+      ],
+      [
+        ...invoice.lines.map((line) => [line.label, line.hours, line.hourlyRate, line.amount]),
+        ['Total', invoice.totalHours, null, invoice.totalAmount],
+      ],
+      { 1: HOURS_FORMAT, 2: MONEY_FORMAT, 3: MONEY_FORMAT },
+      [40, 10, 16, 16]
+    );
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, summary, 'Invoice');
+    XLSX.utils.book_append_sheet(workbook, lineSheet, 'Lines');
+    return freezeHeaderRows(XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer);
+  }
+
+  /** The invoice as an A4 PDF: header block, one row per line (continued over pages), total. */
+  exportToPDF(invoice: InvoiceDetail): Buffer {
+    const money = (amount: number) => formatCost(amount, invoice.currency);
+    const left = 50;
+    const right = PDF_PAGE_WIDTH - 50;
+    const columns = { hours: right - 190, rate: right - 95, amount: right };
+    const rowsPerPage = 36;
+
+    const header = (): PdfItem[] => [
+      { kind: 'text', text: `Invoice ${invoice.number}`, x: left, y: 70, size: 20, bold: true },
+      ...(invoice.status === 'void'
+        ? [{ kind: 'text' as const, text: 'VOID', x: right, y: 70, size: 20, bold: true, align: 'right' as const }]
+        : []),
+      { kind: 'text', text: `Project: ${invoice.projectName}`, x: left, y: 100 },
+      {
+        kind: 'text',
+        text: `Period: ${toLocalIsoDate(invoice.periodStart)} to ${toLocalIsoDate(invoice.periodEnd)}`,
+        x: left,
+        y: 115,
+      },
+      { kind: 'text', text: `Issued: ${toLocalIsoDate(invoice.createdAt)}`, x: left, y: 130 },
+      { kind: 'text', text: INVOICE_GROUP_BY_LABELS[invoice.groupBy], x: left, y: 165, bold: true },
+      { kind: 'text', text: 'Hours', x: columns.hours, y: 165, bold: true, align: 'right' },
+      { kind: 'text', text: 'Rate', x: columns.rate, y: 165, bold: true, align: 'right' },
+      { kind: 'text', text: 'Amount', x: columns.amount, y: 165, bold: true, align: 'right' },
+      { kind: 'rule', x1: left, x2: right, y: 172 },
+    ];
+
+    const pages: PdfItem[][] = [];
+    for (let i = 0; i === 0 || i < invoice.lines.length; i += rowsPerPage) {
+      const items = header();
+      invoice.lines.slice(i, i + rowsPerPage).forEach((line, row) => {
+        const y = 188 + row * 16;
+        const label = line.label.length > 60 ? `${line.label.slice(0, 59)}…` : line.label;
+        items.push(
+          { kind: 'text', text: label, x: left, y },
+          { kind: 'text', text: line.hours.toFixed(2), x: columns.hours, y, align: 'right' },
+          { kind: 'text', text: `${money(line.hourlyRate)}/h`, x: columns.rate, y, align: 'right' },
+          { kind: 'text', text: money(line.amount), x: columns.amount, y, align: 'right' }
+        );
+      });
+      pages.push(items);
+    }
+
+    const last = pages[pages.length - 1]!;
+    const rows = invoice.lines.length - (pages.length - 1) * rowsPerPage;
+    const totalY = 188 + rows * 16 + 6;
+    last.push(
+      { kind: 'rule', x1: left, x2: right, y: totalY - 10 },
+      { kind: 'text', text: 'Total', x: left, y: totalY + 4, bold: true },
+      { kind: 'text', text: invoice.totalHours.toFixed(2), x: columns.hours, y: totalY + 4, bold: true, align: 'right' },
+      { kind: 'text', text: money(invoice.totalAmount), x: columns.amount, y: totalY + 4, size: 12, bold: true, align: 'right' }
+    );
+    pages.forEach((items, i) => {
+      if (pages.length > 1) items.push({ kind: 'text', text: `Page ${i + 1} of ${pages.length}`, x: right, y: 810, size: 8, align: 'right' });
+    });
+
+    return renderPdf(pages, `Invoice ${invoice.number}`);
+  }
+}
+
+// Export singleton instance
+export const invoiceService = new InvoiceService();
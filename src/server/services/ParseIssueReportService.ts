@@ -0,0 +1,124 @@
+import * as XLSX from 'xlsx';
+import { excelParser, type ParseOptions } from './ExcelParser';
+import {
+  parseIssueLocationLabel,
+  parseIssueMarkdown,
+  parseIssueReportFileName,
+  type ParseIssueReportFormat,
+} from '@/lib/parse-issue-report';
+import type { ParseIssue } from '@/lib/parse-issues';
+
+/**
+ * ParseIssueReportService
+ * Story 7.13 — the preview's errors and warnings as a file a manager can send back to the
+ * developer: an annotated copy of the upload (issues column, cell notes, summary sheet) or a
+ * Markdown summary.
+ */
+
+export interface ParseIssueReport {
+  fileName: string;
+  mimeType: string;
+  /** Base64 for `xlsx`, plain text for `markdown`. */
+  content: string;
+}
+
+const SUMMARY_SHEET = 'Import issues';
+const NOTE_AUTHOR = 'Vandura';
+
+function issueText(issue: ParseIssue): string {
+  return `${issue.severity === 'error' ? 'Error' : 'Warning'}: ${issue.message}`;
+}
+
+export class ParseIssueReportService {
+  /**
+   * Parse the upload in preview mode (no side effects) and build the report in `format`.
+   */
+  async buildReport(
+    buffer: Buffer,
+    fileName: string,
+    format: ParseIssueReportFormat,
+    opts: Omit<ParseOptions, 'mode' | 'fileName' | 'progress'>
+  ): Promise<ParseIssueReport> {
+    const parsed = await excelParser.parseFile(buffer, { ...opts, mode: 'preview', fileName });
+    const multiSheet = (parsed.sheets ?? []).filter((sheet) => sheet.included).length > 1;
+    // Errors first, then warnings
+    const issues = [
+      ...parsed.issues.filter((issue) => issue.severity === 'error'),
+      ...parsed.issues.filter((issue) => issue.severity === 'warning'),
+    ];
+
+    if (format === 'markdown') {
+      return {
+        fileName: parseIssueReportFileName(fileName, 'markdown'),
+        mimeType: 'text/markdown',
+        content: parseIssueMarkdown(fileName, issues, multiSheet),
+      };
+    }
+
+    const { workbook } = excelParser.readWorkbook(buffer, fileName);
+    return {
+      fileName: parseIssueReportFileName(fileName, 'xlsx'),
+      mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      content: this.annotateWorkbook(workbook, issues).toString('base64'),
+    };
+  }
+
+  /**
+   * Copy of `workbook` with an "Import issues" column after the used range of every sheet with
+   * row issues, a note on each weekly-grid cell with an issue, and a first sheet listing them all.
+   */
+  annotateWorkbook(workbook: XLSX.WorkBook, issues: ParseIssue[]): Buffer {
+    const bySheet = new Map<string, ParseIssue[]>();
+    for (const issue of issues) {
+      if (issue.sheet === null || issue.row === null || !workbook.Sheets[issue.sheet]) continue;
+      bySheet.set(issue.sheet, [...(bySheet.get(issue.sheet) ?? []), issue]);
+    }
+
+    for (const [name, sheetIssues] of bySheet) {
+      const sheet = workbook.Sheets[name]!;
+      const range = XLSX.utils.decode_range(sheet['!ref'] ?? 'A1');
+      const column = range.e.c + 1;
+
+      const byRow = new Map<number, string[]>();
+      for (const issue of sheetIssues) {
+        byRow.set(issue.row!, [...(byRow.get(issue.row!) ?? []), issueText(issue)]);
+        if (issue.cell) {
+          const cell = (sheet[issue.cell] ??= { t: 's', v: '' }) as XLSX.CellObject;
+          cell.c = [...(cell.c ?? []), { a: NOTE_AUTHOR, t: issueText(issue) }];
+        }
+      }
+      if (!byRow.has(range.s.r + 1)) byRow.set(range.s.r + 1, [SUMMARY_SHEET]);
+      for (const [row, texts] of byRow) {
+        sheet[XLSX.utils.encode_cell({ r: row - 1, c: column })] = { t: 's', v: texts.join('\n') };
+        range.e.r = Math.max(range.e.r, row - 1);
+      }
+
+      range.e.c = column;
+      sheet['!ref'] = XLSX.utils.encode_range(range);
+      const cols = sheet['!cols'] ?? [];
+      cols[column] = { wch: 60 };
+      sheet['!cols'] = cols;
+    }
+
+    const summary = XLSX.utils.aoa_to_sheet([
+      ['Severity', 'Sheet', 'Location', 'Problem'],
+      ...issues.map((issue) => [
+        issue.severity === 'error' ? 'Error' : 'Warning',
+        issue.sheet ?? '',
+        parseIssueLocationLabel(issue),
+        issue.message,
+      ]),
+    ]);
+    summary['!cols'] = [{ wch: 10 }, { wch: 20 }, { wch: 12 }, { wch: 80 }];
+    let summaryName = SUMMARY_SHEET;
+    for (let n = 2; workbook.SheetNames.includes(summaryName); n++) summaryName = `${SUMMARY_SHEET} (${n})`;
+    XLSX.utils.book_append_sheet(workbook, summary, summaryName);
+    // Open on the summary
+    workbook.SheetNames = [summaryName, ...workbook.SheetNames.filter((n) => n !== summaryName)];
+
+    return XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+  }
+}
+
+// Export singleton instance
+export const parseIssueReportService = new ParseIssueReportService();
@@ -0,0 +1,118 @@
+import { db } from '../db';
+import { projectAliases, projects, type ProjectAlias } from '../db/schema';
+import { eq, inArray, asc } from 'drizzle-orm';
+import { normalizeProjectAlias } from '@/lib/project-alias';
+
+/**
+ * ProjectAliasService
+ * Story 3.4 — resolves sheet project tokens to existing projects (exact name first, then alias)
+ * so Excel imports stop creating a project per misspelled code.
+ */
+
+export interface ResolvedProject {
+  projectId: number;
+  projectName: string;
+  via: 'name' | 'alias';
+}
+
+export interface ProjectAliasListItem {
+  id: number;
+  alias: string;
+  projectId: number;
+  projectName: string;
+  createdAt: Date;
+}
+
+export class ProjectAliasService {
+  /**
+   * Resolve raw tokens; tokens that match neither a project name nor an alias are absent from the map
+   */
+  async resolveProjectTokens(tokens: string[]): Promise<Map<string, ResolvedProject>> {
+    const resolved = new Map<string, ResolvedProject>();
+    const unique = Array.from(new Set(tokens.filter((t) => t.trim())));
+    if (unique.length === 0) return resolved;
+
+    const byName = await db
+      .select({ id: projects.id, name: projects.name })
+      .from(projects)
+      .where(inArray(projects.name, unique));
+    for (const p of byName) {
+      resolved.set(p.name, { projectId: p.id, projectName: p.name, via: 'name' });
+    }
+
+    const remaining = unique.filter((t) => !resolved.has(t));
+    if (remaining.length === 0) return resolved;
+
+    const aliasRows = await db
+      .select({ alias: projectAliases.alias, projectId: projects.id, projectName: projects.name })
+      .from(projectAliases)
+      .innerJoin(projects, eq(projectAliases.projectId, projects.id))
+      .where(inArray(projectAliases.alias, Array.from(new Set(remaining.map(normalizeProjectAlias)))));
+    const byAlias = new Map(aliasRows.map((r) => [r.alias, r]));
+
+    for (const token of remaining) {
+      const hit = byAlias.get(normalizeProjectAlias(token));
+      if (hit) resolved.set(token, { projectId: hit.projectId, projectName: hit.projectName, via: 'alias' });
+    }
+
+    return resolved;
+  }
+
+  /**
+   * Resolve a single token (exact project name, then alias)
+   */
+  async resolveProjectToken(token: string): Promise<ResolvedProject | undefined> {
+    return (await this.resolveProjectTokens([token])).get(token);
+  }
+
+  /**
+   * List aliases, optionally for one project
+   */
+  async listAliases(projectId?: number): Promise<ProjectAliasListItem[]> {
+    return db
+      .select({
+        id: projectAliases.id,
+        alias: projectAliases.alias,
+        projectId: projectAliases.projectId,
+        projectName: projects.name,
+        createdAt: projectAliases.createdAt,
+      })
+      .from(projectAliases)
+      .innerJoin(projects, eq(projectAliases.projectId, projects.id))
+      .where(projectId ? eq(projectAliases.projectId, projectId) : undefined)
+      .orderBy(asc(projectAliases.alias));
+  }
+
+  /**
+   * Map an alias to a project; re-mapping an existing alias moves it to the new project
+   */
+  async setAlias(rawAlias: string, projectId: number): Promise<ProjectAlias> {
+    const alias = normalizeProjectAlias(rawAlias);
+    if (!alias) {
+      throw new Error('Alias is required');
+    }
+
+    const project = await db.query.projects.findFirst({ where: eq(projects.id, projectId) });
+    if (!project) {
+      throw new Error('Project not found');
+    }
+
+    const [row] = await db
+      .insert(projectAliases)
+      .values({ alias, projectId })
+      .onConflictDoUpdate({ target: projectAliases.alias, set: { projectId } })
+      .returning();
+    return row;
+  }
+
+  /**
+   * Delete an alias
+   */
+  async deleteAlias(id: number): Promise<boolean> {
+    const result = await db.delete(projectAliases).where(eq(projectAliases.id, id)).returning();
+    return result.length > 0;
+  }
+}
+
+// Export singleton instance
+export const projectAliasService = new ProjectAliasService();
@@ -1,9 +1,26 @@
-import { aggregationEngine, type ActualsVsEstimates } from './AggregationEngine';
+import * as XLSX from 'xlsx';
+import {
+  aggregationEngine,
+  billableMinutesSql,
+  entryHourlyRateSql,
+  type ActualsVsEstimates,
+  type DeveloperSummary,
+} from './AggregationEngine';
 import { db } from '../db';
-import { projects, tasks, developers, timeEntries } from '../db/schema';
-import { eq, and, gte, lte, desc, sql } from 'drizzle-orm';
+import { clients, projects, tasks, developers, timeEntries } from '../db/schema';
+import { eq, and, gte, lte, desc, isNull, sql } from 'drizzle-orm';
 import { startOfDay, endOfDay, startOfWeek, endOfWeek } from '@/lib/date-utils';
-import { taskEstimatesTotalFromRollup } from '@/lib/budget-display';
+import { taskEstimatesTotal, taskEstimatesTotalFromRollup } from '@/lib/budget-display';
+import { ACTUALS_GROUP_BY_LABELS, type ActualsGroupBy } from '@/lib/actuals-grouping';
+import { costVariance, sumCosts, timeCost } from '@/lib/cost';
+import { describeTimeEntrySource, timeEntrySourceOf, type TimeEntrySource } from '@/lib/time-entry-source';
+import {
+  DEFAULT_FORECAST_METHOD,
+  forecastProject,
+  trailingBurnStart,
+  type ForecastMethod,
+  type ProjectForecast,
+} from '@/lib/forecast';
 
 /**
  * ReportService
@@ -14,6 +31,9 @@ import { taskEstimatesTotalFromRollup } from '@/lib/budget-display';
 export interface ProjectSummary {
   projectId: number;
   projectName: string;
+  /** Story 9.8 — null when the project has no client */
+  clientId: number | null;
+  clientName: string | null;
   status: string;
   /** Planning bounds (`projects.start_date` / `end_date`) — Story 6.5 past-end cue on clients. */
   startDate: Date | null;
@@ -26,20 +46,37 @@ export interface ProjectSummary {
    */
   taskEstimatesTotal: number | null;
   actualHours: number;
+  /** Story 9.7 — `actualHours` split by the entries' billable flag */
+  billableHours: number;
+  nonBillableHours: number;
   variance: number;
   variancePercentage: number;
   developerCount: number;
   taskCount: number;
+  /** Story 9.4 — `projects.budgetAmount` (system currency) */
+  budgetAmount: number | null;
+  /** Story 9.4 — all-time cost at the rates in force (Story 9.5); null = TBD (time without a rate) */
+  actualCost: number | null;
+  /** Story 9.4 — actual cost minus budget amount; null when either is unset */
+  costVariance: number | null;
+  /** Story 9.10 — estimate at completion by the requested method */
+  forecast: ProjectForecast;
 }
 
 export interface DeveloperProductivity {
   developerId: number;
   developerName: string;
   totalHours: number;
+  /** Story 9.7 */
+  billableHours: number;
   projectCount: number;
   taskCount: number;
   entriesCount: number;
   averageHoursPerDay: number;
+  /** Story 9.4 — each entry at the rate in force when it started (Story 9.5); null when one has none */
+  totalCost: number | null;
+  /** Story 9.5 — `totalCost` per hour (rates can change within the range); null when TBD or no time */
+  averageHourlyRate: number | null;
 }
 
 export interface TimelineData {
@@ -48,6 +85,63 @@ export interface TimelineData {
   entryCount: number;
 }
 
+/** Story 9.1 — what the actuals workbook shows for one project and period. */
+export interface ActualsWorkbookData {
+  report: ActualsVsEstimates;
+  /** Filtered period; null for the implicit "All Time" report. */
+  period: { start: Date; end: Date } | null;
+  developers: DeveloperSummary[];
+  entries: Array<{
+    startTime: Date;
+    developerName: string;
+    taskName: string | null;
+    durationMinutes: number;
+    description: string | null;
+    source: TimeEntrySource | null;
+  }>;
+}
+
+export const HOURS_FORMAT = '0.00';
+const PERCENT_FORMAT = '0.0%';
+export const DATE_FORMAT = 'yyyy-mm-dd';
+const DATE_TIME_FORMAT = 'yyyy-mm-dd hh:mm';
+
+/** Header row plus data rows; `formats` sets the number format of each column's numeric cells. */
+export function tableSheet(
+  header: string[],
+  rows: Array<Array<string | number | Date | null>>,
+  formats: Record<number, string>,
+  widths: number[]
+): XLSX.WorkSheet {
+  const sheet = XLSX.utils.aoa_to_sheet([header, ...rows]);
+  for (let r = 1; r <= rows.length; r++) {
+    for (const [c, format] of Object.entries(formats)) {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c: Number(c) })] as XLSX.CellObject | undefined;
+      if (cell?.t === 'n') cell.z = format;
+    }
+  }
+  sheet['!cols'] = widths.map((wch) => ({ wch }));
+  return sheet;
+}
+
+const FROZEN_HEADER_VIEW =
+  '<sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView>';
+
+/**
+ * Freeze the header row of every sheet. SheetJS (community edition) does not write panes, so the
+ * sheet XML in the written zip is patched.
+ */
+export function freezeHeaderRows(buffer: Buffer): Buffer {
+  const zip = XLSX.CFB.read(buffer, { type: 'buffer' });
+  zip.FullPaths.forEach((path: string, i: number) => {
+    if (!/xl\/worksheets\/sheet\d+\.xml$/.test(path)) return;
+    const entry = zip.FileIndex[i];
+    const xml = Buffer.from(entry.content).toString('utf8');
+    entry.content = Buffer.from(xml.replace('<sheetView workbookViewId="0"/>', FROZEN_HEADER_VIEW), 'utf8');
+  });
+  return Buffer.from(XLSX.CFB.write(zip, { type: 'buffer', fileType: 'zip', compression: true }));
+}
+
 export class ReportService {
   /**
    * Get Actuals vs Estimates report (wrapper around AggregationEngine)
@@ -55,28 +149,56 @@ export class ReportService {
   async getActualsVsEstimates(
     projectId: number,
     startDate?: Date,
-    endDate?: Date
+    endDate?: Date,
+    groupBy: ActualsGroupBy = 'task'
   ): Promise<ActualsVsEstimates> {
-    return aggregationEngine.getActualsVsEstimates(projectId, startDate, endDate);
+    return aggregationEngine.getActualsVsEstimates(projectId, startDate, endDate, groupBy);
   }
 
   /**
-   * Get summary for all projects
+   * Get summary for all projects; Story 9.8: `clientId` keeps one client's projects (null = projects
+   * without a client). Story 9.10: `projectId` keeps one project; each row carries a forecast by
+   * `forecastMethod` as of `now`.
    */
-  async getAllProjectsSummary(): Promise<ProjectSummary[]> {
+  async getAllProjectsSummary(
+    filter: { clientId?: number | null; projectId?: number } = {},
+    forecastMethod: ForecastMethod = DEFAULT_FORECAST_METHOD,
+    now: Date = new Date()
+  ): Promise<ProjectSummary[]> {
     // PERF: avoid N+1 queries (and repeated AggregationEngine calls) by aggregating in SQL.
     // The dashboard/projects/reports pages call this on initial load, so it must be fast.
 
+    // Story 9.10: hours logged on each task, for its remaining estimate
+    const taskMinutesSql = sql`(SELECT COALESCE(SUM(te.duration_minutes), 0) FROM time_entries te WHERE te.task_id = "tasks"."id")`;
+    // Only leaf tasks are units of work: a parent and its subtasks would otherwise both count
+    const isLeafTaskSql = sql`NOT EXISTS (SELECT 1 FROM tasks sub WHERE sub.parent_task_id = "tasks"."id")`;
+    const isOpenTaskSql = sql`${isLeafTaskSql} AND ${tasks.status} IN ('pending', 'in-progress')`;
+
     const timeAgg = db
       .select({
         projectId: timeEntries.projectId,
         totalMinutes: sql<number>`CAST(SUM(${timeEntries.durationMinutes}) AS INTEGER)`.as(
           'totalMinutes'
         ),
+        billableMinutes: billableMinutesSql.as('billableMinutes'),
         developerCount:
           sql<number>`CAST(COUNT(DISTINCT ${timeEntries.developerId}) AS INTEGER)`.as(
             'developerCount'
           ),
+        // Story 9.4: cost at the rate in force for each entry (Story 9.5), TBD if any entry has none
+        ratedCost: sql<number>`COALESCE(SUM(${timeEntries.durationMinutes} * ${entryHourlyRateSql}) / 60.0, 0)`.as(
+          'ratedCost'
+        ),
+        unratedEntryCount:
+          sql<number>`CAST(SUM(CASE WHEN ${entryHourlyRateSql} IS NULL THEN 1 ELSE 0 END) AS INTEGER)`.as(
+            'unratedEntryCount'
+          ),
+        // Story 9.10: the trailing burn window, up to the end of today (the `getTimeline` days it covers)
+        trailingMinutes:
+          sql<number>`CAST(COALESCE(SUM(CASE WHEN ${and(
+            gte(timeEntries.startTime, trailingBurnStart(now)),
+            lte(timeEntries.startTime, endOfDay(now))
+          )} THEN ${timeEntries.durationMinutes} ELSE 0 END), 0) AS INTEGER)`.as('trailingMinutes'),
       })
       .from(timeEntries)
       .groupBy(timeEntries.projectId)
@@ -92,6 +214,17 @@ export class ReportService {
           ),
         sumTaskEstimatedHours:
           sql<number>`COALESCE(SUM(${tasks.estimatedHours}), 0)`.as('sumTaskEstimatedHours'),
+        openTaskCount: sql<number>`CAST(COALESCE(SUM(CASE WHEN ${isOpenTaskSql} THEN 1 ELSE 0 END), 0) AS INTEGER)`.as(
+          'openTaskCount'
+        ),
+        openTasksWithoutEstimate:
+          sql<number>`CAST(COALESCE(SUM(CASE WHEN ${isOpenTaskSql} AND ${tasks.estimatedHours} IS NULL THEN 1 ELSE 0 END), 0) AS INTEGER)`.as(
+            'openTasksWithoutEstimate'
+          ),
+        remainingEstimateHours:
+          sql<number>`COALESCE(SUM(CASE WHEN ${isOpenTaskSql} AND ${tasks.estimatedHours} IS NOT NULL THEN MAX(${tasks.estimatedHours} - ${taskMinutesSql} / 60.0, 0) ELSE 0 END), 0)`.as(
+            'remainingEstimateHours'
+          ),
       })
       .from(tasks)
       .groupBy(tasks.projectId)
@@ -102,22 +235,44 @@ export class ReportService {
         .select({
           projectId: projects.id,
           projectName: projects.name,
+          clientId: projects.clientId,
+          clientName: clients.name,
           status: projects.status,
           startDate: projects.startDate,
           endDate: projects.endDate,
           estimatedHours: projects.estimatedHours,
+          budgetAmount: projects.budgetAmount,
           totalMinutes: timeAgg.totalMinutes,
+          billableMinutes: timeAgg.billableMinutes,
+          ratedCost: timeAgg.ratedCost,
+          unratedEntryCount: timeAgg.unratedEntryCount,
           developerCount: timeAgg.developerCount,
+          trailingMinutes: timeAgg.trailingMinutes,
           taskCount: taskAgg.taskCount,
           nullEstimateCount: taskAgg.nullEstimateCount,
           sumTaskEstimatedHours: taskAgg.sumTaskEstimatedHours,
+          openTaskCount: taskAgg.openTaskCount,
+          openTasksWithoutEstimate: taskAgg.openTasksWithoutEstimate,
+          remainingEstimateHours: taskAgg.remainingEstimateHours,
         })
         .from(projects)
+        .leftJoin(clients, eq(clients.id, projects.clientId))
         .leftJoin(timeAgg, eq(timeAgg.projectId, projects.id))
-        .leftJoin(taskAgg, eq(taskAgg.projectId, projects.id));
+        .leftJoin(taskAgg, eq(taskAgg.projectId, projects.id))
+        .where(
+          and(
+            filter.clientId === undefined
+              ? undefined
+              : filter.clientId === null
+                ? isNull(projects.clientId)
+                : eq(projects.clientId, filter.clientId),
+            filter.projectId === undefined ? undefined : eq(projects.id, filter.projectId)
+          )
+        );
 
       return rows.map((r) => {
         const actualHours = (r.totalMinutes ?? 0) / 60;
+        const billableHours = (r.billableMinutes ?? 0) / 60;
         const estimatedHours = r.estimatedHours;
         const taskCount = r.taskCount ?? 0;
         const nullEst = r.nullEstimateCount ?? 0;
@@ -127,20 +282,41 @@ export class ReportService {
         // Keep behavior consistent with AggregationEngine: when estimated hours is null/0, variance is 0.
         const variance = estimatedHours ? actualHours - estimatedHours : 0;
         const variancePercentage = estimatedHours ? (variance / estimatedHours) * 100 : 0;
+        const actualCost = (r.unratedEntryCount ?? 0) > 0 ? null : (r.ratedCost ?? 0);
 
         return {
           projectId: r.projectId,
           projectName: r.projectName,
+          clientId: r.clientId,
+          clientName: r.clientName,
           status: r.status,
           startDate: r.startDate ?? null,
           endDate: r.endDate ?? null,
           estimatedHours,
           taskEstimatesTotal,
           actualHours,
+          billableHours,
+          nonBillableHours: actualHours - billableHours,
           variance,
           variancePercentage,
           developerCount: r.developerCount ?? 0,
           taskCount,
+          budgetAmount: r.budgetAmount,
+          actualCost,
+          costVariance: costVariance(actualCost, r.budgetAmount).variance,
+          forecast: forecastProject(
+            {
+              method: forecastMethod,
+              actualHours,
+              budgetHours: estimatedHours,
+              endDate: r.endDate ?? null,
+              trailingMinutes: r.trailingMinutes ?? 0,
+              openTaskCount: r.openTaskCount ?? 0,
+              openTasksWithoutEstimate: r.openTasksWithoutEstimate ?? 0,
+              remainingEstimateHours: r.remainingEstimateHours ?? 0,
+            },
+            now
+          ),
         };
       });
     } catch (error) {
@@ -174,13 +350,21 @@ export class ReportService {
       if (rangeEnd) conditions.push(lte(timeEntries.startTime, rangeEnd));
 
       const entries = await db
-        .select()
+        .select({
+          projectId: timeEntries.projectId,
+          taskId: timeEntries.taskId,
+          startTime: timeEntries.startTime,
+          durationMinutes: timeEntries.durationMinutes,
+          billable: timeEntries.billable,
+          hourlyRate: entryHourlyRateSql,
+        })
         .from(timeEntries)
         .where(and(...conditions));
 
       // Calculate metrics
       const totalMinutes = entries.reduce((sum, e) => sum + e.durationMinutes, 0);
       const totalHours = totalMinutes / 60;
+      const billableMinutes = entries.reduce((sum, e) => sum + (e.billable ? e.durationMinutes : 0), 0);
 
       const uniqueProjects = new Set(entries.map((e) => e.projectId));
       const uniqueTasks = new Set(entries.map((e) => e.taskId).filter(Boolean));
@@ -190,15 +374,19 @@ export class ReportService {
         entries.map((e) => startOfDay(e.startTime).toISOString())
       );
       const averageHoursPerDay = days.size > 0 ? totalHours / days.size : 0;
+      const totalCost = sumCosts(entries.map((e) => timeCost(e.durationMinutes, e.hourlyRate)));
 
       productivity.push({
         developerId: dev.id,
         developerName: dev.name,
         totalHours,
+        billableHours: billableMinutes / 60,
         projectCount: uniqueProjects.size,
         taskCount: uniqueTasks.size,
         entriesCount: entries.length,
         averageHoursPerDay,
+        totalCost,
+        averageHourlyRate: totalCost !== null && totalHours > 0 ? totalCost / totalHours : null,
       });
     }
 
@@ -206,12 +394,13 @@ export class ReportService {
   }
 
   /**
-   * Get timeline data for charts (grouped by day)
+   * Get timeline data for charts (grouped by day); Story 9.9: without dates, all of the project's
+   * time (the burn-up chart)
    */
   async getTimeline(
     projectId: number,
-    startDate: Date,
-    endDate: Date
+    startDate?: Date,
+    endDate?: Date
   ): Promise<TimelineData[]> {
     const entries = await db
       .select()
@@ -219,8 +408,8 @@ export class ReportService {
       .where(
         and(
           eq(timeEntries.projectId, projectId),
-          gte(timeEntries.startTime, startOfDay(startDate)),
-          lte(timeEntries.startTime, endOfDay(endDate))
+          startDate ? gte(timeEntries.startTime, startOfDay(startDate)) : undefined,
+          endDate ? lte(timeEntries.startTime, endOfDay(endDate)) : undefined
         )
       )
       .orderBy(timeEntries.startTime);
@@ -249,6 +438,153 @@ export class ReportService {
     return timeline.sort((a, b) => a.date.getTime() - b.date.getTime());
   }
 
+  /**
+   * Story 9.1 — the actuals report plus its developer totals and raw entries, for the same
+   * filters (and the same period resolution) as `getActualsVsEstimates`.
+   */
+  async getActualsWorkbookData(projectId: number, startDate?: Date, endDate?: Date): Promise<ActualsWorkbookData> {
+    const report = await this.getActualsVsEstimates(projectId, startDate, endDate);
+    const project = await db.query.projects.findFirst({ where: eq(projects.id, projectId) });
+    if (!project) {
+      throw new Error(`Project ${projectId} not found`);
+    }
+    const { start, end } = aggregationEngine.resolveReportRange(project, startDate, endDate);
+
+    const developerTotals = await aggregationEngine.getActualsByDeveloper(projectId, start, end);
+    const rows = await db
+      .select({
+        startTime: timeEntries.startTime,
+        developerName: developers.name,
+        taskName: tasks.name,
+        durationMinutes: timeEntries.durationMinutes,
+        description: timeEntries.description,
+        sourceType: timeEntries.sourceType,
+        sourceFileName: timeEntries.sourceFileName,
+        sourceSheet: timeEntries.sourceSheet,
+        sourceRow: timeEntries.sourceRow,
+        sourceCell: timeEntries.sourceCell,
+      })
+      .from(timeEntries)
+      .innerJoin(developers, eq(developers.id, timeEntries.developerId))
+      .leftJoin(tasks, eq(tasks.id, timeEntries.taskId))
+      .where(
+        and(
+          eq(timeEntries.projectId, projectId),
+          gte(timeEntries.startTime, startOfDay(start)),
+          lte(timeEntries.startTime, endOfDay(end))
+        )
+      )
+      .orderBy(timeEntries.startTime, timeEntries.id);
+
+    return {
+      report,
+      period: startDate === undefined && endDate === undefined ? null : { start, end },
+      developers: developerTotals.sort((a, b) => b.totalMinutes - a.totalMinutes || a.developerName.localeCompare(b.developerName)),
+      entries: rows.map((row) => ({
+        startTime: row.startTime,
+        developerName: row.developerName,
+        taskName: row.taskName,
+        durationMinutes: row.durationMinutes,
+        description: row.description,
+        source: timeEntrySourceOf(row),
+      })),
+    };
+  }
+
+  /**
+   * Story 9.1 — the actuals report as a workbook for finance: Summary, Tasks, Developers and
+   * Entries sheets with hour / percent / date formats and frozen header rows. Unset budgets and
+   * estimates are written as `TBD`, as in the CSV.
+   */
+  exportToXLSX(data: ActualsWorkbookData): Buffer {
+    const { report } = data;
+    const hasBudget = report.totalEstimatedHours !== null;
+    const tbd = (hours: number | null) => hours ?? 'TBD';
+    const estimatesTotal = taskEstimatesTotal(report.tasks);
+
+    const summary = tableSheet(
+      ['Measure', 'Value'],
+      [
+        ['Project', report.projectName],
+        ['Period from', data.period ? startOfDay(data.period.start) : 'All time'],
+        ['Period to', data.period ? startOfDay(data.period.end) : 'All time'],
+        ['Budget (project hours)', tbd(report.totalEstimatedHours)],
+        ['Task estimates total (hours)', estimatesTotal.kind === 'tbd' ? 'TBD' : estimatesTotal.value],
+        ['Actual hours', report.totalActualHours],
+        ['Variance vs budget (hours)', hasBudget ? report.variance : 'TBD'],
+        ['Variance vs budget (%)', hasBudget ? report.variancePercentage / 100 : 'TBD'],
+        ['Tasks without an estimate', report.tasks.filter((t) => t.estimatedHours === null).length],
+        ['Billable hours', report.totalBillableHours],
+        ['Non-billable hours', report.totalNonBillableHours],
+        ['Note', 'Budget is the project hour cap; task estimates are per task. TBD = not set.'],
+      ],
+      { 1: HOURS_FORMAT },
+      [30, 60]
+    );
+    // Row-specific formats (the Value column mixes dates, hours, a percentage and a count)
+    for (const [address, format] of [
+      ['B3', DATE_FORMAT],
+      ['B4', DATE_FORMAT],
+      ['B9', PERCENT_FORMAT],
+      ['B10', '0'],
+    ] as const) {
+      const cell = summary[address] as XLSX.CellObject;
+      if (cell.t === 'n') cell.z = format;
+    }
+
+    const unassignedMinutes = data.entries
+      .filter((e) => e.taskName === null)
+      .reduce((sum, e) => sum + e.durationMinutes, 0);
+    const taskSheet = tableSheet(
+      ['Task', 'Estimated hours (task)', 'Actual hours', 'Variance (hours)', 'Variance (%)'],
+      [
+        ...report.tasks.map((t) => [
+          t.taskName,
+          tbd(t.estimatedHours),
+          t.actualHours,
+          t.estimatedHours === null ? 'TBD' : t.variance,
+          t.estimatedHours === null ? 'TBD' : t.variancePercentage / 100,
+        ]),
+        ...(unassignedMinutes > 0 ? [['(no task)', null, unassignedMinutes / 60, null, null]] : []),
+      ],
+      { 1: HOURS_FORMAT, 2: HOURS_FORMAT, 3: HOURS_FORMAT, 4: PERCENT_FORMAT },
+      [40, 22, 14, 16, 14]
+    );
+
+    const developerSheet = tableSheet(
+      ['Developer', 'Actual hours', 'Entries', 'Share of actual hours'],
+      data.developers.map((d) => [
+        d.developerName,
+        d.totalHours,
+        d.entryCount,
+        report.totalActualHours > 0 ? d.totalHours / report.totalActualHours : 0,
+      ]),
+      { 1: HOURS_FORMAT, 2: '0', 3: PERCENT_FORMAT },
+      [30, 14, 10, 22]
+    );
+
+    const entrySheet = tableSheet(
+      ['Start', 'Developer', 'Task', 'Hours', 'Description', 'Source'],
+      data.entries.map((e) => [
+        e.startTime,
+        e.developerName,
+        e.taskName ?? '',
+        e.durationMinutes / 60,
+        e.description ?? '',
+        describeTimeEntrySource(e.source),
+      ]),
+      { 0: DATE_TIME_FORMAT, 3: HOURS_FORMAT },
+      [18, 24, 32, 8, 50, 50]
+    );
+
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, summary, 'Summary');
+    XLSX.utils.book_append_sheet(workbook, taskSheet, 'Tasks');
+    XLSX.utils.book_append_sheet(workbook, developerSheet, 'Developers');
+    XLSX.utils.book_append_sheet(workbook, entrySheet, 'Entries');
+    return freezeHeaderRows(XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer);
+  }
+
   /**
    * Export report data to CSV format
    */
@@ -267,10 +603,22 @@ export class ReportService {
     lines.push(`Project,${csvString(report.projectName)}`);
     lines.push(`Total Estimated Hours,${cell(report.totalEstimatedHours)}`);
     lines.push(`Total Actual Hours,${report.totalActualHours.toFixed(2)}`);
+    lines.push(`Billable Hours,${report.totalBillableHours.toFixed(2)}`);
+    lines.push(`Non-billable Hours,${report.totalNonBillableHours.toFixed(2)}`);
     lines.push(`Variance,${report.variance.toFixed(2)}`);
     lines.push(`Variance %,${report.variancePercentage.toFixed(1)}%`);
     lines.push('');
 
+    // Story 9.2: developer / day / week groupings replace the task breakdown (no estimates there)
+    if (report.groupBy !== 'task') {
+      lines.push(`${ACTUALS_GROUP_BY_LABELS[report.groupBy]},Actual Hours,Entries,Share of Actual %`);
+      for (const group of report.groups) {
+        const share = report.totalActualHours > 0 ? (group.actualHours / report.totalActualHours) * 100 : 0;
+        lines.push(`${csvString(group.label)},${group.actualHours.toFixed(2)},${group.entryCount},${share.toFixed(1)}%`);
+      }
+      return lines.join('\n');
+    }
+
     // Task breakdown
     lines.push('Task,Estimated Hours,Actual Hours,Variance,Variance %');
     for (const task of report.tasks) {
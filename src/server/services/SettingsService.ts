@@ -0,0 +1,67 @@
+import { db } from '../db';
+import { appSettings } from '../db/schema';
+import { sql } from 'drizzle-orm';
+import {
+  APP_SETTING_CHOICES,
+  APP_SETTING_KEYS,
+  DEFAULT_APP_SETTINGS,
+  type AppSettings,
+} from '@/lib/app-settings';
+
+/**
+ * SettingsService
+ * Reads/writes system-wide defaults (`app_settings`), merged over `DEFAULT_APP_SETTINGS`
+ */
+export class SettingsService {
+  /**
+   * Get all settings (defaults for keys never written)
+   */
+  async getSettings(): Promise<AppSettings> {
+    const rows = await db.select().from(appSettings);
+    const settings: AppSettings = { ...DEFAULT_APP_SETTINGS };
+    const target = settings as unknown as Record<string, unknown>;
+
+    for (const row of rows) {
+      if (!(APP_SETTING_KEYS as string[]).includes(row.key)) continue;
+      try {
+        const value: unknown = JSON.parse(row.value);
+        const key = row.key as keyof AppSettings;
+        const choices = APP_SETTING_CHOICES[key];
+        if (
+          typeof value === typeof DEFAULT_APP_SETTINGS[key] &&
+          (!choices || choices.includes(value as string))
+        ) {
+          target[row.key] = value;
+        }
+      } catch {
+        // Keep the default for malformed values
+      }
+    }
+
+    return settings;
+  }
+
+  /**
+   * Update a subset of settings; returns the full merged settings
+   */
+  async updateSettings(patch: Partial<AppSettings>): Promise<AppSettings> {
+    const entries = Object.entries(patch).filter(([, v]) => v !== undefined);
+    if (entries.length > 0) {
+      db.transaction((tx) => {
+        for (const [key, value] of entries) {
+          tx.insert(appSettings)
+            .values({ key, value: JSON.stringify(value) })
+            .onConflictDoUpdate({
+              target: appSettings.key,
+              set: { value: JSON.stringify(value), updatedAt: sql`(unixepoch())` },
+            })
+            .run();
+        }
+      });
+    }
+    return this.getSettings();
+  }
+}
+
+// Export singleton instance
+export const settingsService = new SettingsService();
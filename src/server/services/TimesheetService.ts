@@ -1,14 +1,24 @@
-import { db } from '../db';
+import { db, type DbTransaction } from '../db';
 import {
   timeEntries,
   projects,
   tasks,
   developers,
+  importBatches,
+  importBatchReplacedEntries,
+  invoices,
+  type ImportBatch,
+  type NewImportBatch,
   type NewTimeEntry,
   type TimeEntry,
 } from '../db/schema';
-import { eq, and, gte, lte, desc } from 'drizzle-orm';
+import { eq, and, or, ne, gte, lte, desc, inArray, isNull, type SQL } from 'drizzle-orm';
 import { isValidDuration } from '@/lib/date-utils';
+import { classifyImportEntries, type ImportClassification } from '@/lib/time-entry-identity';
+import type { TimeEntrySource } from '@/lib/time-entry-source';
+import { invoicedEntriesMessage, invoicedEntryMessage } from '@/lib/invoices';
+import { resolveBillable } from '@/lib/billable';
+import { importBatchService, replacedEntrySnapshot, revertBatchEntries } from './ImportBatchService';
 
 /**
  * TimesheetService
@@ -22,7 +32,13 @@ export interface TimeEntryInput {
   developerId: number;
   startTime: Date;
   durationMinutes: number;
+  /** Story 7.7 — pre-rounding minutes (see `applyDurationPolicy`); null/omitted when on-grid. */
+  rawDurationMinutes?: number | null;
   description?: string;
+  /** Story 9.7 — omitted: the task's default, else the project's (`resolveBillable`). */
+  billable?: boolean;
+  /** Story 7.12 — where the entry came from (file / sheet / row for imports). */
+  source?: TimeEntrySource;
 }
 
 export interface TimeEntryFilter {
@@ -31,6 +47,8 @@ export interface TimeEntryFilter {
   taskId?: number;
   startDate?: Date;
   endDate?: Date;
+  /** Story 9.7 — only billable (true) or non-billable (false) time */
+  billable?: boolean;
 }
 
 export interface TimeEntryListItem {
@@ -43,10 +61,115 @@ export interface TimeEntryListItem {
   developerName: string;
   startTime: Date;
   durationMinutes: number;
+  /** Story 7.7 — pre-rounding minutes, when the rounding policy adjusted the entry. */
+  rawDurationMinutes: number | null;
   description: string | null;
+  /** Story 9.7 */
+  billable: boolean;
+  /** Story 9.6 — the issued invoice that locks the entry; null = editable */
+  invoiceId: number | null;
+  invoiceNumber: string | null;
+}
+
+/** Story 7.1 — an incoming row that targets an occupied slot with different values. */
+export interface ImportConflict {
+  index: number;
+  existing: TimeEntryListItem;
+  incoming: {
+    startTime: Date;
+    durationMinutes: number;
+    description: string | null;
+  };
+}
+
+/** Story 7.2 — batch record written alongside the rows of one `importExcel` call. */
+export interface ImportBatchInput {
+  fileName: string;
+  checksum: string;
+  /** Active batch whose rows this import replaces (reverted in the same transaction). */
+  replacesBatchId?: number;
+}
+
+export interface ImportPlan {
+  classification: ImportClassification;
+  conflicts: ImportConflict[];
+}
+
+/**
+ * Earliest and latest `startTime` of `inputs` (null when empty). A loop rather than
+ * `Math.min(...times)`: spreading 100k+ arguments overflows the call stack.
+ */
+function startTimeSpan(inputs: TimeEntryInput[]): { from: Date; to: Date } | null {
+  if (inputs.length === 0) return null;
+  let min = Infinity;
+  let max = -Infinity;
+  for (const input of inputs) {
+    const t = input.startTime.getTime();
+    if (t < min) min = t;
+    if (t > max) max = t;
+  }
+  return { from: new Date(min), to: new Date(max) };
+}
+
+/** Batch row for `inputs`: single developer (or null), time span and row count. */
+function importBatchValues(importBatch: ImportBatchInput, inputs: TimeEntryInput[]): NewImportBatch {
+  const developerIds = Array.from(new Set(inputs.map((i) => i.developerId)));
+  const span = startTimeSpan(inputs);
+  return {
+    fileName: importBatch.fileName,
+    checksum: importBatch.checksum,
+    developerId: developerIds.length === 1 ? developerIds[0] : null,
+    periodStart: span?.from ?? null,
+    periodEnd: span?.to ?? null,
+    rowCount: inputs.length,
+  };
+}
+
+/** Story 7.12 — `time_entries` provenance columns for `source` (all null when unknown). */
+function sourceValues(source: TimeEntrySource | undefined) {
+  return {
+    sourceType: source?.type ?? null,
+    sourceFileName: source?.fileName ?? null,
+    sourceSheet: source?.sheet ?? null,
+    sourceRow: source?.row ?? null,
+    sourceCell: source?.cell ?? null,
+  };
 }
 
 export class TimesheetService {
+  /**
+   * Story 9.7 — the billable flag each input is stored with: its own, else its task's default,
+   * else its project's. Read through `q` so an import sees the projects / tasks it just created.
+   */
+  private billableFlags(inputs: TimeEntryInput[], q: typeof db | DbTransaction = db): boolean[] {
+    const open = inputs.filter((input) => input.billable === undefined);
+    const projectIds = Array.from(new Set(open.map((input) => input.projectId)));
+    const taskIds = Array.from(new Set(open.flatMap((input) => (input.taskId ? [input.taskId] : []))));
+
+    const projectRows =
+      projectIds.length > 0
+        ? q
+            .select({ id: projects.id, billable: projects.billable })
+            .from(projects)
+            .where(inArray(projects.id, projectIds))
+            .all()
+        : [];
+    const taskRows =
+      taskIds.length > 0
+        ? q.select({ id: tasks.id, billable: tasks.billable }).from(tasks).where(inArray(tasks.id, taskIds)).all()
+        : [];
+    const projectDefaults = new Map(projectRows.map((p) => [p.id, p.billable]));
+    const taskDefaults = new Map(taskRows.map((t) => [t.id, t.billable]));
+
+    return inputs.map((input) =>
+      resolveBillable(
+        input.billable,
+        input.taskId ? taskDefaults.get(input.taskId) : null,
+        projectDefaults.get(input.projectId) ?? true
+      )
+    );
+  }
+
   /**
    * Create a single time entry
    */
@@ -56,13 +179,17 @@ export class TimesheetService {
       throw new Error('Duration must be a multiple of 15 minutes');
     }
 
+    const [billable] = this.billableFlags([input]);
     const entry: NewTimeEntry = {
       projectId: input.projectId,
       taskId: input.taskId || null,
       developerId: input.developerId,
       startTime: input.startTime,
       durationMinutes: input.durationMinutes,
+      rawDurationMinutes: input.rawDurationMinutes ?? null,
       description: input.description || null,
+      billable,
+      ...sourceValues(input.source),
     };
 
     const result = await db.insert(timeEntries).values(entry).returning();
@@ -73,24 +200,39 @@ export class TimesheetService {
    * Bulk create time entries (for Excel imports)
    * Uses transaction for atomicity
    */
-  async bulkCreateEntries(inputs: TimeEntryInput[]): Promise<TimeEntry[]> {
+  async bulkCreateEntries(
+    inputs: TimeEntryInput[],
+    opts?: {
+      /**
+       * Story 7.1 — "take incoming" conflict resolutions, applied in the same transaction. With a
+       * batch, the entries are stamped with it and their old values kept so discard restores them.
+       */
+      replacements?: Array<{ id: number; input: TimeEntryInput }>;
+      /** Story 7.2 — record an import batch and stamp inserted rows with its id. */
+      importBatch?: ImportBatchInput;
+      /** Story 7.11 — stamp inserted rows with a batch created earlier (`createImportBatch`). */
+      importBatchId?: number;
+      /**
+       * Story 7.1 — runs first in the transaction and returns the inputs to insert: an import
+       * creates the developers / projects / tasks its rows need here (`createPendingEntities`),
+       * so a rejected import leaves none behind.
+       */
+      prepareInputs?: (tx: DbTransaction, inputs: TimeEntryInput[]) => TimeEntryInput[];
+    }
+  ): Promise<TimeEntry[]> {
+    const replacements = opts?.replacements ?? [];
+    const importBatch = opts?.importBatch;
+
     // Validate all durations
-    for (const input of inputs) {
+    for (const input of [...inputs, ...replacements.map((r) => r.input)]) {
       if (!isValidDuration(input.durationMinutes)) {
         throw new Error(`Invalid duration ${input.durationMinutes} minutes (must be multiple of 15)`);
       }
     }
 
-    const entries: NewTimeEntry[] = inputs.map((input) => ({
-      projectId: input.projectId,
-      taskId: input.taskId || null,
-      developerId: input.developerId,
-      startTime: input.startTime,
-      durationMinutes: input.durationMinutes,
-      description: input.description || null,
-    }));
-
-    if (entries.length === 0) return [];
+    if (inputs.length === 0 && replacements.length === 0 && !importBatch?.replacesBatchId) {
+      return [];
+    }
 
     // Batch insert inside a single transaction (atomic import)
     // 1000 rows/batch keeps SQLite parameter counts reasonable.
@@ -98,8 +240,99 @@ export class TimesheetService {
       const batchSize = 1000;
       const results: TimeEntry[] = [];
 
+      const rows = opts?.prepareInputs ? opts.prepareInputs(tx, inputs) : inputs;
+      const billable = this.billableFlags([...rows, ...replacements.map((r) => r.input)], tx);
+      const entries: NewTimeEntry[] = rows.map((input, i) => ({
+        projectId: input.projectId,
+        taskId: input.taskId || null,
+        developerId: input.developerId,
+        startTime: input.startTime,
+        durationMinutes: input.durationMinutes,
+        rawDurationMinutes: input.rawDurationMinutes ?? null,
+        description: input.description || null,
+        billable: billable[i],
+        ...sourceValues(input.source),
+      }));
+
+      // Story 9.6: replaced rows (conflict resolutions or a replaced batch) must not be invoiced
+      const replacedIds = replacements.map((r) => r.id);
+      if (replacedIds.length > 0 || importBatch?.replacesBatchId) {
+        const [locked] = tx
+          .select({ number: invoices.number })
+          .from(timeEntries)
+          .innerJoin(invoices, eq(invoices.id, timeEntries.invoiceId))
+          .where(
+            or(
+              replacedIds.length > 0 ? inArray(timeEntries.id, replacedIds) : undefined,
+              importBatch?.replacesBatchId ? eq(timeEntries.importBatchId, importBatch.replacesBatchId) : undefined
+            )
+          )
+          .limit(1)
+          .all();
+        if (locked) throw new Error(invoicedEntriesMessage(locked.number));
+      }
+
+      let importBatchId: number | null = opts?.importBatchId ?? null;
+      if (importBatch && (entries.length > 0 || replacements.length > 0 || importBatch.replacesBatchId)) {
+        const [batchRow] = tx.insert(importBatches).values(importBatchValues(importBatch, rows)).returning().all();
+        importBatchId = batchRow.id;
+
+        if (importBatch.replacesBatchId) {
+          const [replaced] = tx
+            .update(importBatches)
+            .set({ status: 'replaced', replacedByBatchId: importBatchId, closedAt: new Date() })
+            .where(
+              and(
+                eq(importBatches.id, importBatch.replacesBatchId),
+                eq(importBatches.status, 'active')
+              )
+            )
+            .returning()
+            .all();
+          if (!replaced) {
+            throw new Error(`Import batch ${importBatch.replacesBatchId} not found or no longer active`);
+          }
+          revertBatchEntries(tx, importBatch.replacesBatchId);
+        }
+      }
+
+      const snapshotBatchId = importBatchId;
+      if (snapshotBatchId !== null && replacedIds.length > 0) {
+        const current = tx.select().from(timeEntries).where(inArray(timeEntries.id, replacedIds)).all();
+        for (let i = 0; i < current.length; i += batchSize) {
+          tx.insert(importBatchReplacedEntries)
+            .values(
+              current.slice(i, i + batchSize).map((entry) => ({
+                importBatchId: snapshotBatchId,
+                timeEntryId: entry.id,
+                previous: replacedEntrySnapshot(entry),
+              }))
+            )
+            .run();
+        }
+      }
+
+      for (const [i, { id, input }] of replacements.entries()) {
+        tx.update(timeEntries)
+          .set({
+            projectId: input.projectId,
+            taskId: input.taskId || null,
+            developerId: input.developerId,
+            startTime: input.startTime,
+            durationMinutes: input.durationMinutes,
+            rawDurationMinutes: input.rawDurationMinutes ?? null,
+            description: input.description || null,
+            billable: billable[rows.length + i],
+            ...sourceValues(input.source),
+            ...(importBatchId !== null ? { importBatchId } : {}),
+            updatedAt: new Date(),
+          })
+          .where(eq(timeEntries.id, id))
+          .run();
+      }
+
       for (let i = 0; i < entries.length; i += batchSize) {
-        const batch = entries.slice(i, i + batchSize);
+        const batch = entries.slice(i, i + batchSize).map((e) => ({ ...e, importBatchId }));
         // In better-sqlite3 transactions, the callback must be synchronous.
         // Drizzle queries are "thenable", so use .all() to execute synchronously.
         const batchResults = tx.insert(timeEntries).values(batch).returning().all();
@@ -110,6 +343,18 @@ export class TimesheetService {
     });
   }
 
+  /**
+   * Story 7.11 — record the batch of a background import up front (for all of its rows), so the
+   * rows can be inserted in chunks with `bulkCreateEntries(chunk, { importBatchId })`.
+   */
+  async createImportBatch(importBatch: ImportBatchInput, inputs: TimeEntryInput[]): Promise<ImportBatch> {
+    if (importBatch.replacesBatchId) {
+      throw new Error('Background imports cannot replace an earlier import');
+    }
+    const [batch] = await db.insert(importBatches).values(importBatchValues(importBatch, inputs)).returning();
+    return batch!;
+  }
+
   /**
    * Get time entries with optional filters
    */
@@ -140,8 +385,95 @@ export class TimesheetService {
       conditions.push(lte(timeEntries.startTime, filter.endDate));
     }
 
+    if (filter.billable !== undefined) {
+      conditions.push(eq(timeEntries.billable, filter.billable));
+    }
+
     const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
 
+    return this.selectListItems(whereClause, limit, offset);
+  }
+
+  /**
+   * Get list rows (with names) for specific entry ids
+   */
+  async getEntriesByIds(ids: number[]): Promise<TimeEntryListItem[]> {
+    if (ids.length === 0) return [];
+    return this.selectListItems(inArray(timeEntries.id, ids), ids.length, 0);
+  }
+
+  /**
+   * Story 7.1 — classify parsed rows against existing entries (new / identical / conflict).
+   * Only entries for the same developers inside the incoming time span are loaded.
+   * Story 7.2: rows of `excludeBatchId` are ignored, since a replacement import reverts them;
+   * entries that batch overwrote are compared as they were before it.
+   */
+  async planImport(
+    inputs: TimeEntryInput[],
+    opts?: { excludeBatchId?: number }
+  ): Promise<ImportPlan> {
+    const known = inputs.filter((i) => i.developerId > 0);
+    let existing: TimeEntry[] = [];
+    const excludeBatchId = opts?.excludeBatchId;
+
+    const span = startTimeSpan(known);
+    if (span) {
+      const developerIds = Array.from(new Set(known.map((i) => i.developerId)));
+      existing = await db
+        .select()
+        .from(timeEntries)
+        .where(
+          and(
+            inArray(timeEntries.developerId, developerIds),
+            gte(timeEntries.startTime, span.from),
+            lte(timeEntries.startTime, span.to),
+            excludeBatchId
+              ? or(isNull(timeEntries.importBatchId), ne(timeEntries.importBatchId, excludeBatchId))
+              : undefined
+          )
+        );
+    }
+    const restored = excludeBatchId ? await importBatchService.entriesBeforeBatch(excludeBatchId) : [];
+    existing.push(...restored);
+
+    const classification = classifyImportEntries(inputs, existing);
+    const existingRows = await this.getEntriesByIds(
+      Array.from(new Set(classification.conflicts.map((c) => c.existingId)))
+    );
+    const restoredById = new Map(restored.map((e) => [e.id, e]));
+    const existingById = new Map(
+      existingRows.map((r) => {
+        const before = restoredById.get(r.id);
+        if (!before) return [r.id, r];
+        const { startTime, durationMinutes, rawDurationMinutes, description, billable } = before;
+        return [r.id, { ...r, startTime, durationMinutes, rawDurationMinutes, description, billable }];
+      })
+    );
+
+    const conflicts: ImportConflict[] = [];
+    for (const c of classification.conflicts) {
+      const existingRow = existingById.get(c.existingId);
+      if (!existingRow) continue;
+      const input = inputs[c.index]!;
+      conflicts.push({
+        index: c.index,
+        existing: existingRow,
+        incoming: {
+          startTime: input.startTime,
+          durationMinutes: input.durationMinutes,
+          description: input.description ?? null,
+        },
+      });
+    }
+
+    return { classification, conflicts };
+  }
+
+  private async selectListItems(
+    whereClause: SQL | undefined,
+    limit: number,
+    offset: number
+  ): Promise<TimeEntryListItem[]> {
     const rows = await db
       .select({
         id: timeEntries.id,
@@ -153,12 +485,17 @@ export class TimesheetService {
         developerName: developers.name,
         startTime: timeEntries.startTime,
         durationMinutes: timeEntries.durationMinutes,
+        rawDurationMinutes: timeEntries.rawDurationMinutes,
         description: timeEntries.description,
+        billable: timeEntries.billable,
+        invoiceId: timeEntries.invoiceId,
+        invoiceNumber: invoices.number,
       })
       .from(timeEntries)
       .leftJoin(projects, eq(timeEntries.projectId, projects.id))
       .leftJoin(tasks, eq(timeEntries.taskId, tasks.id))
       .leftJoin(developers, eq(timeEntries.developerId, developers.id))
+      .leftJoin(invoices, eq(timeEntries.invoiceId, invoices.id))
       .where(whereClause)
       .orderBy(desc(timeEntries.startTime))
       .limit(limit)
@@ -175,7 +512,11 @@ export class TimesheetService {
       developerName: r.developerName ?? `Developer #${r.developerId}`,
       startTime: r.startTime,
       durationMinutes: r.durationMinutes,
+      rawDurationMinutes: r.rawDurationMinutes ?? null,
       description: r.description ?? null,
+      billable: r.billable,
+      invoiceId: r.invoiceId ?? null,
+      invoiceNumber: r.invoiceNumber ?? null,
     }));
   }
 
@@ -188,16 +529,27 @@ export class TimesheetService {
     });
   }
 
+  /** Story 9.6 — throw if the entry is on an issued invoice (voiding unlocks it). */
+  private async assertNotInvoiced(id: number): Promise<void> {
+    const [locked] = await db
+      .select({ number: invoices.number })
+      .from(timeEntries)
+      .innerJoin(invoices, eq(invoices.id, timeEntries.invoiceId))
+      .where(eq(timeEntries.id, id));
+    if (locked) throw new Error(invoicedEntryMessage(locked.number));
+  }
+
   /**
    * Update a time entry
    */
   async updateEntry(
     id: number,
-    updates: Partial<TimeEntryInput>
+    updates: Partial<Omit<TimeEntryInput, 'source'>>
   ): Promise<TimeEntry | undefined> {
     if (updates.durationMinutes && !isValidDuration(updates.durationMinutes)) {
       throw new Error('Duration must be a multiple of 15 minutes');
     }
+    await this.assertNotInvoiced(id);
 
     const result = await db
       .update(timeEntries)
@@ -215,6 +567,7 @@ export class TimesheetService {
    * Delete a time entry
    */
   async deleteEntry(id: number): Promise<boolean> {
+    await this.assertNotInvoiced(id);
     const result = await db.delete(timeEntries).where(eq(timeEntries.id, id)).returning();
     return result.length > 0;
   }
@@ -245,6 +598,10 @@ export class TimesheetService {
       conditions.push(lte(timeEntries.startTime, filter.endDate));
     }
 
+    if (filter.billable !== undefined) {
+      conditions.push(eq(timeEntries.billable, filter.billable));
+    }
+
     const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
 
     const result = await db
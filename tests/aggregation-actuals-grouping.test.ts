@@ -0,0 +1,87 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import { aggregationEngine } from '../src/server/services/AggregationEngine';
+import { db } from '../src/server/db';
+import { developers, projects, tasks, timeEntries } from '../src/server/db/schema';
+
+test('Story 9.2: actualsVsEstimates groups by task, developer, day and week', async () => {
+  const tag = `group-${Date.now()}`;
+  let projectId = 0;
+  const developerIds: number[] = [];
+
+  try {
+    const [devA, devB] = await db
+      .insert(developers)
+      .values([
+        { name: `${tag}-a`, isActive: true },
+        { name: `${tag}-b`, isActive: true },
+      ])
+      .returning();
+    developerIds.push(devA!.id, devB!.id);
+    const [project] = await db.insert(projects).values({ name: `${tag}-proj`, status: 'active' }).returning();
+    projectId = project!.id;
+    const [task] = await db
+      .insert(tasks)
+      .values({ projectId, name: `${tag}-task`, status: 'pending', estimatedHours: 2 })
+      .returning();
+
+    // Wed 7 Jan, Thu 8 Jan (same week) and Mon 12 Jan 2026 (next week)
+    await db.insert(timeEntries).values([
+      { projectId, taskId: task!.id, developerId: devA!.id, startTime: new Date(2026, 0, 7, 9), durationMinutes: 60 },
+      { projectId, taskId: task!.id, developerId: devB!.id, startTime: new Date(2026, 0, 7, 14), durationMinutes: 30 },
+      { projectId, developerId: devB!.id, startTime: new Date(2026, 0, 8, 9), durationMinutes: 90 },
+      { projectId, taskId: task!.id, developerId: devA!.id, startTime: new Date(2026, 0, 12, 9), durationMinutes: 15 },
+    ]);
+
+    const byTask = await aggregationEngine.getActualsVsEstimates(projectId, undefined, undefined, 'task');
+    assert.equal(byTask.groupBy, 'task');
+    assert.deepEqual(
+      byTask.groups.map((g) => [g.label, g.estimatedHours, g.actualHours, g.entryCount, g.variance]),
+      [
+        [`${tag}-task`, 2, 1.75, 3, -0.25],
+        ['(no task)', null, 1.5, 1, 0],
+      ]
+    );
+
+    const byDeveloper = await aggregationEngine.getActualsVsEstimates(projectId, undefined, undefined, 'developer');
+    assert.deepEqual(
+      byDeveloper.groups.map((g) => [g.key, g.label, g.actualHours, g.entryCount]),
+      [
+        [String(devB!.id), `${tag}-b`, 2, 2],
+        [String(devA!.id), `${tag}-a`, 1.25, 2],
+      ]
+    );
+    // the task breakdown stays available under every grouping
+    assert.equal(byDeveloper.tasks.length, 1);
+
+    const byDay = await aggregationEngine.getActualsVsEstimates(projectId, undefined, undefined, 'day');
+    assert.deepEqual(
+      byDay.groups.map((g) => [g.label, g.actualHours, g.entryCount]),
+      [
+        ['2026-01-07', 1.5, 2],
+        ['2026-01-08', 1.5, 1],
+        ['2026-01-12', 0.25, 1],
+      ]
+    );
+    assert.equal(byDay.groups[0]!.periodStart?.getTime(), new Date(2026, 0, 7).getTime());
+
+    const byWeek = await aggregationEngine.getActualsVsEstimates(
+      projectId,
+      new Date(2026, 0, 1),
+      new Date(2026, 0, 10),
+      'week'
+    );
+    assert.deepEqual(
+      byWeek.groups.map((g) => [g.key, g.label, g.actualHours, g.entryCount]),
+      [['2026-01-05', 'Week of 2026-01-05', 3, 3]]
+    );
+  } finally {
+    if (projectId) {
+      await db.delete(timeEntries).where(eq(timeEntries.projectId, projectId));
+      await db.delete(tasks).where(eq(tasks.projectId, projectId));
+      await db.delete(projects).where(eq(projects.id, projectId));
+    }
+    for (const id of developerIds) await db.delete(developers).where(eq(developers.id, id));
+  }
+});
@@ -0,0 +1,79 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import { aggregationEngine } from '../src/server/services/AggregationEngine';
+import { db } from '../src/server/db';
+import { developers, projects, tasks, timeEntries } from '../src/server/db/schema';
+
+test('Story 9.3: actualsVsEstimates rolls subtask estimates and actuals up into their parents', async () => {
+  const tag = `rollup-${Date.now()}`;
+  let projectId = 0;
+  let developerId = 0;
+
+  try {
+    const [developer] = await db.insert(developers).values({ name: `${tag}-dev`, isActive: true }).returning();
+    developerId = developer!.id;
+    const [project] = await db.insert(projects).values({ name: `${tag}-proj`, status: 'active' }).returning();
+    projectId = project!.id;
+    const [epic] = await db
+      .insert(tasks)
+      .values({ projectId, name: `${tag}-epic`, status: 'pending', estimatedHours: 1 })
+      .returning();
+    const [build, review] = await db
+      .insert(tasks)
+      .values([
+        { projectId, name: `${tag}-build`, status: 'pending', estimatedHours: 4, parentTaskId: epic!.id },
+        { projectId, name: `${tag}-review`, status: 'pending', estimatedHours: 2, parentTaskId: epic!.id },
+      ])
+      .returning();
+
+    const at = new Date(2026, 2, 2, 9);
+    await db.insert(timeEntries).values([
+      { projectId, taskId: epic!.id, developerId, startTime: at, durationMinutes: 30 },
+      { projectId, taskId: build!.id, developerId, startTime: at, durationMinutes: 300 },
+      { projectId, taskId: review!.id, developerId, startTime: at, durationMinutes: 60 },
+    ]);
+
+    const report = await aggregationEngine.getActualsVsEstimates(projectId);
+    const byName = new Map(report.tasks.map((t) => [t.taskName, t]));
+
+    const epicRow = byName.get(`${tag}-epic`)!;
+    assert.equal(epicRow.parentTaskId, null);
+    assert.equal(epicRow.estimatedHours, 1);
+    assert.equal(epicRow.actualHours, 0.5);
+    assert.deepEqual(epicRow.rollup, {
+      estimatedHours: 7,
+      actualHours: 6.5,
+      variance: -0.5,
+      variancePercentage: (-0.5 / 7) * 100,
+      actualCost: null,
+      subtaskCount: 2,
+    });
+
+    const buildRow = byName.get(`${tag}-build`)!;
+    assert.equal(buildRow.parentTaskId, epic!.id);
+    assert.deepEqual(buildRow.rollup, {
+      estimatedHours: 4,
+      actualHours: 5,
+      variance: 1,
+      variancePercentage: 25,
+      actualCost: null,
+      subtaskCount: 0,
+    });
+
+    // An unestimated subtask makes the parent's rollup TBD
+    await db.update(tasks).set({ estimatedHours: null }).where(eq(tasks.id, review!.id));
+    const tbd = await aggregationEngine.getActualsVsEstimates(projectId);
+    const tbdEpic = tbd.tasks.find((t) => t.taskId === epic!.id)!;
+    assert.equal(tbdEpic.rollup.estimatedHours, null);
+    assert.equal(tbdEpic.rollup.variance, 0);
+    assert.equal(tbdEpic.rollup.actualHours, 6.5);
+  } finally {
+    if (projectId) {
+      await db.delete(timeEntries).where(eq(timeEntries.projectId, projectId));
+      await db.delete(tasks).where(eq(tasks.projectId, projectId));
+      await db.delete(projects).where(eq(projects.id, projectId));
+    }
+    if (developerId) await db.delete(developers).where(eq(developers.id, developerId));
+  }
+});
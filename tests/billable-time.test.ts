@@ -0,0 +1,88 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import { timesheetService } from '../src/server/services/TimesheetService';
+import { reportService } from '../src/server/services/ReportService';
+import { invoiceService } from '../src/server/services/InvoiceService';
+import { excelParser } from '../src/server/services/ExcelParser';
+import { db } from '../src/server/db';
+import { developers, invoices, projects, tasks, timeEntries } from '../src/server/db/schema';
+
+test('Story 9.7: entries take the task or project default unless they say otherwise; reports and invoices split on it', async () => {
+  const tag = `billable-${Date.now()}`;
+  let projectId = 0;
+  let developerId = 0;
+
+  try {
+    const [developer] = await db.insert(developers).values({ name: `${tag}-dev`, isActive: true, hourlyRate: 100 }).returning();
+    developerId = developer!.id;
+    const [project] = await db.insert(projects).values({ name: `${tag}-proj`, status: 'active' }).returning();
+    projectId = project!.id;
+    assert.equal(project!.billable, true);
+    const [build, support] = await db
+      .insert(tasks)
+      .values([
+        { projectId, name: `${tag}-build`, status: 'pending' },
+        { projectId, name: `${tag}-support`, status: 'pending', billable: false },
+      ])
+      .returning();
+    const at = (day: number) => new Date(2026, 4, day, 9);
+
+    const fromProject = await timesheetService.createEntry({ projectId, taskId: build!.id, developerId, startTime: at(4), durationMinutes: 120 });
+    const fromTask = await timesheetService.createEntry({ projectId, taskId: support!.id, developerId, startTime: at(5), durationMinutes: 60 });
+    const [overridden] = await timesheetService.bulkCreateEntries([
+      { projectId, taskId: support!.id, developerId, startTime: at(6), durationMinutes: 30, billable: true },
+    ]);
+    assert.deepEqual([fromProject.billable, fromTask.billable, overridden!.billable], [true, false, true]);
+
+    // an import row's Billable column overrides the defaults; blank keeps them
+    const parsed = await excelParser.parseRows([
+      { Developer: `${tag}-dev`, Project: `${tag}-proj`, Task: `${tag}-build`, Date: '2026-05-07', Duration: 15, Billable: 'no' },
+      { Developer: `${tag}-dev`, Project: `${tag}-proj`, Task: `${tag}-build`, Date: '2026-05-08', Duration: 15, Billable: '' },
+      { Developer: `${tag}-dev`, Project: `${tag}-proj`, Task: `${tag}-build`, Date: '2026-05-09', Duration: 15, Billable: 'maybe' },
+    ]);
+    assert.deepEqual(
+      parsed.issues.map((i) => [i.code, i.column, i.value]),
+      [['invalid_billable', 'billable', 'maybe']]
+    );
+    assert.deepEqual(parsed.entries.map((e) => e.billable), [false, undefined]);
+    await timesheetService.bulkCreateEntries(parsed.entries);
+
+    const nonBillable = await timesheetService.getEntries({ projectId, billable: false });
+    assert.deepEqual(nonBillable.map((e) => e.durationMinutes).sort((a, b) => a - b), [15, 60]);
+    assert.equal(await timesheetService.getEntriesCount({ projectId, billable: true }), 3);
+
+    const report = await reportService.getActualsVsEstimates(projectId);
+    assert.equal(report.totalActualHours, 4);
+    assert.equal(report.totalBillableHours, 2.75);
+    assert.equal(report.totalNonBillableHours, 1.25);
+    const byDeveloper = await reportService.getActualsVsEstimates(projectId, undefined, undefined, 'developer');
+    assert.equal(byDeveloper.groups[0]?.billableHours, 2.75);
+
+    const summary = (await reportService.getAllProjectsSummary()).find((p) => p.projectId === projectId);
+    assert.equal(summary?.billableHours, 2.75);
+    assert.equal(summary?.nonBillableHours, 1.25);
+    const [productivity] = await reportService.getDeveloperProductivity(developerId);
+    assert.equal(productivity?.billableHours, 2.75);
+
+    // only billable time is invoiced; changing a default later leaves logged time alone
+    const invoice = await invoiceService.createInvoice({
+      projectId,
+      startDate: new Date(2026, 4, 1),
+      endDate: new Date(2026, 4, 31),
+      groupBy: 'task',
+    });
+    assert.equal(invoice.totalHours, 2.75);
+    assert.equal(invoice.entryCount, 3);
+    await db.update(projects).set({ billable: false }).where(eq(projects.id, projectId));
+    assert.equal(await timesheetService.getEntriesCount({ projectId, billable: true }), 3);
+  } finally {
+    if (projectId) {
+      await db.delete(timeEntries).where(eq(timeEntries.projectId, projectId));
+      await db.delete(invoices).where(eq(invoices.projectId, projectId));
+      await db.delete(tasks).where(eq(tasks.projectId, projectId));
+      await db.delete(projects).where(eq(projects.id, projectId));
+    }
+    if (developerId) await db.delete(developers).where(eq(developers.id, developerId));
+  }
+});
@@ -0,0 +1,25 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { billablePercentage, parseBillableCell, resolveBillable } from '../src/lib/billable';
+
+test('Story 9.7: the entry overrides the task, which overrides the project', () => {
+  assert.equal(resolveBillable(undefined, null, true), true);
+  assert.equal(resolveBillable(undefined, false, true), false);
+  assert.equal(resolveBillable(null, undefined, false), false);
+  assert.equal(resolveBillable(true, false, false), true);
+  assert.equal(resolveBillable(false, true, true), false);
+});
+
+test('Story 9.7: parseBillableCell reads yes/no cells, blank as the default and rejects anything else', () => {
+  for (const yes of ['Yes', ' y ', 'TRUE', '1', 'x', 'Billable', 1, true]) assert.equal(parseBillableCell(yes), true, String(yes));
+  for (const no of ['no', 'N', 'false', '0', 'Non-billable', 'not billable', 0, false]) {
+    assert.equal(parseBillableCell(no), false, String(no));
+  }
+  for (const blank of [undefined, null, '', '   ']) assert.equal(parseBillableCell(blank), undefined);
+  for (const bad of ['maybe', 2, '-']) assert.equal(parseBillableCell(bad), null, String(bad));
+});
+
+test('Story 9.7: billablePercentage', () => {
+  assert.equal(billablePercentage(3, 4), 75);
+  assert.equal(billablePercentage(0, 0), 0);
+});
@@ -0,0 +1,93 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildBurnUpSeries } from '../src/lib/burn-up';
+
+const day = (d: number) => new Date(2026, 4, d);
+
+test('Story 9.9: cumulative actuals, an ideal line across the planning dates and the budget crossing', () => {
+  const series = buildBurnUpSeries({
+    timeline: [
+      { date: day(2), totalMinutes: 120 },
+      { date: day(4), totalMinutes: 300 },
+      { date: day(5), totalMinutes: 60 },
+    ],
+    startDate: day(1),
+    endDate: day(5),
+    budgetHours: 8,
+    taskEstimatesTotal: 6,
+    today: new Date(2026, 4, 20, 15),
+  });
+
+  assert.deepEqual(
+    series.points.map((p) => [p.date, p.actualHours, p.idealHours]),
+    [
+      ['2026-05-01', 0, 0],
+      ['2026-05-02', 2, 2],
+      ['2026-05-03', 2, 4],
+      ['2026-05-04', 7, 6],
+      ['2026-05-05', 8, 8],
+    ]
+  );
+  assert.equal(series.idealTargetHours, 8);
+  assert.equal(series.budgetCrossedOn, null);
+
+  const over = buildBurnUpSeries({
+    timeline: [
+      { date: day(2), totalMinutes: 300 },
+      { date: day(3), totalMinutes: 240 },
+    ],
+    startDate: day(1),
+    endDate: day(5),
+    budgetHours: 8,
+    taskEstimatesTotal: null,
+    today: day(20),
+  });
+  assert.equal(over.budgetCrossedOn, '2026-05-03');
+});
+
+test('Story 9.9: actuals stop at today, time outside the plan widens the range, task estimates stand in for the budget', () => {
+  const series = buildBurnUpSeries({
+    timeline: [{ date: day(3), totalMinutes: 90 }],
+    startDate: day(4),
+    endDate: day(6),
+    budgetHours: null,
+    taskEstimatesTotal: 4,
+    today: new Date(2026, 4, 4, 18),
+  });
+
+  assert.deepEqual(
+    series.points.map((p) => [p.date, p.actualHours, p.idealHours]),
+    [
+      ['2026-05-03', 1.5, null],
+      ['2026-05-04', 1.5, 0],
+      ['2026-05-05', null, 2],
+      ['2026-05-06', null, 4],
+    ]
+  );
+  assert.equal(series.idealTargetHours, 4);
+  assert.equal(series.budgetCrossedOn, null);
+});
+
+test('Story 9.9: no planning dates and no time means nothing to plot; no dates means no ideal line', () => {
+  const empty = buildBurnUpSeries({ timeline: [], startDate: null, endDate: null, budgetHours: 10, taskEstimatesTotal: null });
+  assert.deepEqual(empty.points, []);
+
+  const unplanned = buildBurnUpSeries({
+    timeline: [
+      { date: day(1), totalMinutes: 60 },
+      { date: day(2), totalMinutes: 60 },
+    ],
+    startDate: null,
+    endDate: null,
+    budgetHours: 10,
+    taskEstimatesTotal: null,
+    today: day(10),
+  });
+  assert.deepEqual(
+    unplanned.points.map((p) => [p.date, p.actualHours, p.idealHours]),
+    [
+      ['2026-05-01', 1, null],
+      ['2026-05-02', 2, null],
+    ]
+  );
+});
@@ -0,0 +1,110 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { eq, inArray } from 'drizzle-orm';
+import { customerRouter } from '../src/server/routers/customer';
+import { projectRouter } from '../src/server/routers/project';
+import { reportService } from '../src/server/services/ReportService';
+import { invoiceService } from '../src/server/services/InvoiceService';
+import { excelParser } from '../src/server/services/ExcelParser';
+import { db } from '../src/server/db';
+import { clients, developers, invoices, projects, timeEntries } from '../src/server/db/schema';
+
+test('Story 9.8: clients own projects, price unrated time, filter the summary and gate import rows', async () => {
+  const tag = `client-${Date.now()}`;
+  const clientIds: number[] = [];
+  const projectIds: number[] = [];
+  let developerId = 0;
+  const customers = customerRouter.createCaller({ headers: new Headers() });
+  const projectCaller = projectRouter.createCaller({ headers: new Headers() });
+
+  try {
+    const acme = await customers.create({ name: `${tag}-Acme`, contactEmail: 'billing@acme.test', hourlyRate: 80 });
+    const other = await customers.create({ name: `${tag}-Other  Co` });
+    clientIds.push(acme!.id, other!.id);
+    await assert.rejects(customers.create({ name: `${tag}-ACME` }), /already exists/);
+    await assert.rejects(customers.update({ id: other!.id, data: { name: `${tag}-acme` } }), /already exists/);
+    await assert.rejects(customers.create({ name: ` ${tag}-other co` }), /already exists/);
+
+    const project = await projectCaller.create({ name: `${tag}-site`, status: 'active', clientId: acme!.id });
+    projectIds.push(project!.id);
+    const [loose] = await db.insert(projects).values({ name: `${tag}-loose`, status: 'active' }).returning();
+    projectIds.push(loose!.id);
+    await assert.rejects(
+      projectCaller.update({ id: loose!.id, data: { clientId: 999_999_999 } }),
+      /client does not exist/
+    );
+
+    const listed = (await customers.list()).find((c) => c.id === acme!.id);
+    assert.equal(listed?.projectCount, 1);
+
+    // a developer without a rate is priced at the client's default rate
+    const [developer] = await db.insert(developers).values({ name: `${tag}-dev`, isActive: true }).returning();
+    developerId = developer!.id;
+    await db.insert(timeEntries).values({
+      projectId: project!.id,
+      developerId,
+      startTime: new Date(2026, 4, 4, 9),
+      durationMinutes: 90,
+    });
+
+    const summary = await reportService.getAllProjectsSummary({ clientId: acme!.id });
+    assert.deepEqual(
+      summary.map((p) => [p.projectName, p.clientName, p.actualCost]),
+      [[`${tag}-site`, `${tag}-Acme`, 120]]
+    );
+    const unassigned = await reportService.getAllProjectsSummary({ clientId: null });
+    assert.ok(unassigned.some((p) => p.projectId === loose!.id));
+    assert.ok(!unassigned.some((p) => p.projectId === project!.id));
+
+    const invoice = await invoiceService.createInvoice({
+      projectId: project!.id,
+      startDate: new Date(2026, 4, 1),
+      endDate: new Date(2026, 4, 31),
+      groupBy: 'task',
+    });
+    assert.equal(invoice.totalAmount, 120);
+
+    // import rows: the Client column must name an existing client that matches the project's
+    const parsed = await excelParser.parseRows(
+      [
+        { Developer: `${tag}-dev`, Project: `${tag}-site`, Client: ` ${tag}-acme `, Date: '2026-05-07', Duration: 15 },
+        { Developer: `${tag}-dev`, Project: `${tag}-site`, Client: `${tag}-Other  Co`, Date: '2026-05-07', Duration: 15 },
+        { Developer: `${tag}-dev`, Project: `${tag}-loose`, Customer: `${tag}-Acme`, Date: '2026-05-07', Duration: 15 },
+        { Developer: `${tag}-dev`, Project: `${tag}-site`, Client: `${tag}-Nobody`, Date: '2026-05-07', Duration: 15 },
+        { Developer: `${tag}-dev`, Project: `${tag}-new`, Client: `${tag}-other  co`, Date: '2026-05-07', Duration: 15 },
+      ],
+      { mode: 'preview' }
+    );
+    assert.deepEqual(
+      parsed.issues.filter((i) => i.column === 'client').map((i) => [i.row, i.code, i.column]),
+      [
+        [3, 'client_mismatch', 'client'],
+        [4, 'client_mismatch', 'client'],
+        [5, 'unknown_client', 'client'],
+      ]
+    );
+    assert.equal(parsed.preview[0]?.client, `${tag}-Acme`);
+    // "Other  Co" (two spaces) is stored as typed; the cells still match it
+    assert.deepEqual(parsed.wouldCreate?.projectClients, [{ project: `${tag}-new`, client: `${tag}-Other  Co` }]);
+
+    // approving the new project creates it under the named client
+    await excelParser.createApprovedEntities({ developers: [], projects: [`${tag}-new`], tasks: [], projectClients: parsed.wouldCreate?.projectClients });
+    const created = await db.query.projects.findFirst({ where: eq(projects.name, `${tag}-new`) });
+    projectIds.push(created!.id);
+    assert.equal(created?.clientId, other!.id);
+
+    // deleting a client keeps its projects, unassigned
+    assert.equal(await customers.delete({ id: other!.id }), true);
+    clientIds.splice(clientIds.indexOf(other!.id), 1);
+    const kept = await db.query.projects.findFirst({ where: eq(projects.id, created!.id) });
+    assert.equal(kept?.clientId, null);
+  } finally {
+    if (projectIds.length) {
+      await db.delete(timeEntries).where(inArray(timeEntries.projectId, projectIds));
+      await db.delete(invoices).where(inArray(invoices.projectId, projectIds));
+      await db.delete(projects).where(inArray(projects.id, projectIds));
+    }
+    if (developerId) await db.delete(developers).where(eq(developers.id, developerId));
+    if (clientIds.length) await db.delete(clients).where(inArray(clients.id, clientIds));
+  }
+});
@@ -0,0 +1,39 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { clientFilterInput, groupProjectsByClient, NO_CLIENT_FILTER, NO_CLIENT_LABEL } from '../src/lib/clients';
+
+const row = (projectId: number, clientId: number | null, clientName: string | null, actualHours: number, actualCost: number | null) => ({
+  projectId,
+  clientId,
+  clientName,
+  actualHours,
+  billableHours: actualHours / 2,
+  actualCost,
+});
+
+test('Story 9.8: projects are grouped under their client with totals, "No client" last', () => {
+  const groups = groupProjectsByClient([
+    row(1, null, null, 2, 100),
+    row(2, 7, 'Zenith', 3, 300),
+    row(3, 4, 'Acme', 1, 50),
+    row(4, 7, 'Zenith', 5, null),
+    row(5, 4, 'Acme', 4, 200),
+  ]);
+
+  assert.deepEqual(
+    groups.map((g) => [g.clientName, g.projects.map((p) => p.projectId), g.actualHours, g.billableHours, g.actualCost]),
+    [
+      ['Acme', [3, 5], 5, 2.5, 250],
+      ['Zenith', [2, 4], 8, 4, null],
+      [NO_CLIENT_LABEL, [1], 2, 1, 100],
+    ]
+  );
+  assert.deepEqual(groupProjectsByClient([]), []);
+});
+
+test('Story 9.8: clientFilterInput maps the select value to the projectsSummary input', () => {
+  assert.equal(clientFilterInput(''), undefined);
+  assert.deepEqual(clientFilterInput(NO_CLIENT_FILTER), { clientId: null });
+  assert.deepEqual(clientFilterInput('12'), { clientId: 12 });
+  assert.equal(clientFilterInput('abc'), undefined);
+});
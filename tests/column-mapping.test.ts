@@ -0,0 +1,151 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
+import {
+  applyColumnMapping,
+  durationToMinutes,
+  parseDateWithFormat,
+  parseTimeWithFormat,
+  validateColumnMapping,
+} from '../src/lib/column-mapping';
+import { columnMappingProfileService } from '../src/server/services/ColumnMappingProfileService';
+import { excelParser } from '../src/server/services/ExcelParser';
+import { cleanupParserImportSideEffects } from './parser-db-cleanup';
+
+test('Story 7.4: validateColumnMapping requires project, date and a duration source', () => {
+  assert.deepEqual(
+    validateColumnMapping([
+      { header: 'Client', field: 'project' },
+      { header: 'Day', field: 'date' },
+      { header: 'Hrs', field: 'duration' },
+    ]),
+    []
+  );
+  assert.deepEqual(
+    validateColumnMapping([
+      { header: 'Client', field: 'project' },
+      { header: 'Day', field: 'date' },
+      { header: 'From', field: 'startTime' },
+    ]),
+    ['Map Duration, or both Start Time and End Time']
+  );
+  const problems = validateColumnMapping([
+    { header: 'Client', field: 'project' },
+    { header: 'client ', field: 'task' },
+    { header: 'Day', field: 'date' },
+    { header: 'Other day', field: 'date' },
+    { header: 'Hrs', field: 'duration' },
+  ]);
+  assert.ok(problems.includes('Date is mapped more than once'));
+  assert.ok(problems.includes('A source header is mapped more than once'));
+});
+
+test('Story 7.4: applyColumnMapping matches headers case-insensitively and drops unmapped columns', () => {
+  const row = applyColumnMapping({ ' CLIENT  code': 'ACME', Hrs: 1.5, Extra: 'x' }, [
+    { header: 'Client Code', field: 'project' },
+    { header: 'hrs', field: 'duration' },
+  ]);
+  assert.deepEqual(row, { project: 'ACME', durationMinutes: 1.5 });
+});
+
+test('Story 7.4: pinned date/time formats parse strictly; auto defers to the parser', () => {
+  assert.equal(parseDateWithFormat('03.04.2026', 'auto'), undefined);
+  assert.deepEqual(parseDateWithFormat('03.04.2026', 'DD.MM.YYYY'), new Date(2026, 3, 3));
+  assert.deepEqual(parseDateWithFormat('04/03/2026', 'MM/DD/YYYY'), new Date(2026, 3, 3));
+  assert.equal(parseDateWithFormat('31.02.2026', 'DD.MM.YYYY'), null);
+  assert.equal(parseDateWithFormat('2026-04-03', 'DD/MM/YYYY'), null);
+  // a date cell's serial is a date in any pinned format
+  assert.deepEqual(parseDateWithFormat(46113, 'DD/MM/YYYY'), new Date(2026, 3, 1));
+
+  const day = new Date(2026, 3, 3);
+  assert.deepEqual(parseTimeWithFormat(day, '1:30 PM', 'h:mm a'), new Date(2026, 3, 3, 13, 30));
+  assert.deepEqual(parseTimeWithFormat(day, '12:15 am', 'h:mm a'), new Date(2026, 3, 3, 0, 15));
+  assert.equal(parseTimeWithFormat(day, '13:30', 'h:mm a'), null);
+  assert.equal(parseTimeWithFormat(day, '24:00', 'HH:mm'), null);
+});
+
+test('Story 7.4: durationToMinutes converts hours (decimal comma accepted)', () => {
+  assert.equal(durationToMinutes(1.25, 'hours'), 75);
+  assert.equal(durationToMinutes('0,5', 'hours'), 30);
+  assert.equal(durationToMinutes('45', 'minutes'), 45);
+  // exact: 0.26 h is 15.6 minutes — off the grid for the duration policy, not 15
+  assert.ok(Math.abs(durationToMinutes('0.26', 'hours') - 15.6) < 1e-9);
+  assert.equal(durationToMinutes('7.5', 'minutes'), 7.5);
+  assert.ok(Number.isNaN(durationToMinutes('n/a', 'hours')));
+});
+
+test('Story 7.4: parseFile with a profile reads custom headers, pinned date format and hours', async () => {
+  const unique = Date.now();
+  const developerName = `QA Mapping Dev ${unique}`;
+  const projectName = `QA Mapping Project ${unique}`;
+
+  const sheet = XLSX.utils.aoa_to_sheet([
+    ['Exported from OtherTool'],
+    ['Consultant', 'Client Code', 'Activity', 'Day', 'Hrs', 'Comment'],
+    [developerName, projectName, 'Mapped task', '03.04.2026', 1.5, 'first'],
+    [developerName, projectName, 'Mapped task', '31.02.2026', 1, 'bad date'],
+    [developerName, projectName, 'Mapped task', new Date(2026, 3, 6), 2, 'date cell'],
+  ]);
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, sheet, 'Export');
+  const buf = XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+
+  const profile = await columnMappingProfileService.createProfile({
+    name: `QA mapping ${unique}`,
+    columns: [
+      { header: 'Consultant', field: 'developer' },
+      { header: 'Client Code', field: 'project' },
+      { header: 'Activity', field: 'task' },
+      { header: 'Day', field: 'date' },
+      { header: 'Hrs', field: 'duration' },
+      { header: 'Comment', field: 'notes' },
+    ],
+    dateFormat: 'DD.MM.YYYY',
+    timeFormat: 'auto',
+    durationUnit: 'hours',
+  });
+
+  try {
+    const result = await excelParser.parseFile(buf, { profileId: profile.id });
+
+    assert.equal(result.sheetName, 'Export');
+    assert.equal(result.entries.length, 2);
+    assert.equal(result.entries[0]!.durationMinutes, 90);
+    assert.deepEqual(result.entries[0]!.startTime, new Date(2026, 3, 3));
+    assert.equal(result.entries[0]!.description, 'first');
+    // a real date cell (shown as "4/6/26") is read by value, not by the pinned text format
+    assert.deepEqual(result.entries[1]!.startTime, new Date(2026, 3, 6));
+    assert.equal(result.errors.length, 1);
+    assert.match(result.errors[0]!, /Invalid date: 31\.02\.2026 \(expected DD\.MM\.YYYY\)/);
+
+    await assert.rejects(() => excelParser.parseFile(buf, { profileId: profile.id + 100000 }), /Mapping profile not found/);
+  } finally {
+    await columnMappingProfileService.deleteProfile(profile.id);
+    await cleanupParserImportSideEffects(developerName, projectName);
+  }
+});
+
+test('Story 7.4: profile names are unique and mappings are validated on save', async () => {
+  const name = `QA unique mapping ${Date.now()}`;
+  const input = {
+    name,
+    columns: [
+      { header: 'Client', field: 'project' as const },
+      { header: 'Day', field: 'date' as const },
+      { header: 'Minutes', field: 'duration' as const },
+    ],
+    dateFormat: 'auto' as const,
+    timeFormat: 'auto' as const,
+    durationUnit: 'minutes' as const,
+  };
+  const profile = await columnMappingProfileService.createProfile(input);
+  try {
+    await assert.rejects(() => columnMappingProfileService.createProfile(input), /already uses that name/);
+    await assert.rejects(
+      () => columnMappingProfileService.updateProfile(profile.id, { ...input, columns: input.columns.slice(1) }),
+      /Project must be mapped/
+    );
+  } finally {
+    await columnMappingProfileService.deleteProfile(profile.id);
+  }
+});
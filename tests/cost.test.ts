@@ -0,0 +1,28 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { costVariance, formatCost, formatCostVariance, sumCosts, timeCost } from '../src/lib/cost';
+
+test('Story 9.4: timeCost is TBD without a rate; sumCosts is TBD if any cost is', () => {
+  assert.equal(timeCost(90, 40), 60);
+  assert.equal(timeCost(90, 0), 0);
+  assert.equal(timeCost(90, null), null);
+  assert.equal(sumCosts([10, 20.5]), 30.5);
+  assert.equal(sumCosts([10, null]), null);
+  assert.equal(sumCosts([]), 0);
+});
+
+test('Story 9.4: costVariance needs both the actual cost and the budget amount', () => {
+  assert.deepEqual(costVariance(1200, 1000), { variance: 200, variancePercentage: 20 });
+  assert.deepEqual(costVariance(50, 0), { variance: 50, variancePercentage: null });
+  assert.deepEqual(costVariance(null, 1000), { variance: null, variancePercentage: null });
+  assert.deepEqual(costVariance(1200, null), { variance: null, variancePercentage: null });
+});
+
+test('Story 9.4: formatCost uses the currency and TBD for unknown amounts', () => {
+  assert.equal(formatCost(1234.5, 'USD'), '$1,234.50');
+  assert.equal(formatCost(1234.5, 'EUR'), '€1,234.50');
+  assert.equal(formatCost(null, 'USD'), 'TBD');
+  assert.equal(formatCostVariance(200, 'USD'), '+$200.00');
+  assert.equal(formatCostVariance(-200, 'USD'), '-$200.00');
+  assert.equal(formatCostVariance(undefined, 'USD'), 'TBD');
+});
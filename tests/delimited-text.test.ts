@@ -0,0 +1,47 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  decodeText,
+  detectDelimiter,
+  isSpreadsheetBinary,
+  parseDelimited,
+  readDelimitedText,
+} from '../src/lib/delimited-text';
+
+test('Story 7.5: parseDelimited handles quoted delimiters, doubled quotes, line breaks and CRLF', () => {
+  const rows = parseDelimited('a,b,c\r\n1,"x, ""y""",\r\n2,"multi\nline",z\r\n\r\n', ',');
+  assert.deepEqual(rows, [
+    ['a', 'b', 'c'],
+    ['1', 'x, "y"', null],
+    ['2', 'multi\nline', 'z'],
+  ]);
+});
+
+test('Story 7.5: blank lines stay as empty records so later rows keep their line numbers', () => {
+  const rows = parseDelimited('a,b\n\n1,2\n  ,\n3,4\n\n', ',');
+  assert.deepEqual(rows, [['a', 'b'], [], ['1', '2'], [], ['3', '4']]);
+});
+
+test('Story 7.5: detectDelimiter prefers the delimiter with a consistent column count', () => {
+  assert.equal(detectDelimiter('Developer;Project;Notes\nAda;P1;"a, b"\nAda;P2;c,d'), ';');
+  assert.equal(detectDelimiter('Developer\tProject\tDate\nAda\tP1\t2026-02-05'), '\t');
+  assert.equal(detectDelimiter('Developer,Project,Date\nAda,P1,2026-02-05'), ',');
+  assert.equal(detectDelimiter('just one column\nsecond line'), ',');
+});
+
+test('Story 7.5: decodeText strips a UTF-8 BOM and falls back to Windows-1252', () => {
+  const bom = decodeText(Uint8Array.from([0xef, 0xbb, 0xbf, 0x41, 0xc3, 0xa9]));
+  assert.deepEqual(bom, { text: 'Aé', encoding: 'utf-8' });
+
+  const cp1252 = decodeText(Uint8Array.from([0x52, 0xe9, 0x73, 0x75, 0x6d, 0xe9, 0x20, 0x80]));
+  assert.deepEqual(cp1252, { text: 'Résumé €', encoding: 'windows-1252' });
+});
+
+test('Story 7.5: single-quoted CSV is detected; spreadsheet signatures are not text', () => {
+  const result = readDelimitedText(Buffer.from("Developer,Notes\n'Ada','a, b'\n"));
+  assert.equal(result.quote, "'");
+  assert.deepEqual(result.rows[1], ['Ada', 'a, b']);
+
+  assert.equal(isSpreadsheetBinary(Buffer.from('PK\x03\x04rest', 'latin1')), true);
+  assert.equal(isSpreadsheetBinary(Buffer.from('Developer,Project')), false);
+});
@@ -0,0 +1,140 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '../src/server/db';
+import { developers } from '../src/server/db/schema';
+import { eq, inArray } from 'drizzle-orm';
+import { developerMatchService } from '../src/server/services/DeveloperMatchService';
+import { excelParser } from '../src/server/services/ExcelParser';
+import { projectAliasService } from '../src/server/services/ProjectAliasService';
+import { cleanupParserImportSideEffects } from './parser-db-cleanup';
+
+test('Story 7.9: developer tokens resolve by preview match, name (any case/spacing) or email', async () => {
+  const unique = Date.now();
+  const created = await db
+    .insert(developers)
+    .values([
+      { name: `QA Match Jane ${unique}`, email: `jane.${unique}@example.com`, isActive: true },
+      { name: `QA Match Omar ${unique}`, isActive: true },
+    ])
+    .returning();
+  const [jane, omar] = created;
+
+  try {
+    const resolved = await developerMatchService.resolveDeveloperTokens(
+      [
+        jane!.name,
+        `  qa match   JANE ${unique} `,
+        `JANE.${unique}@example.com`,
+        `J. Omar ${unique}`,
+        `Nobody ${unique}`,
+        `Stale ${unique}`,
+      ],
+      [
+        { name: `J. Omar ${unique}`, developerId: omar!.id },
+        { name: `Stale ${unique}`, developerId: 999999999 },
+      ]
+    );
+
+    assert.deepEqual(resolved.get(jane!.name), { developerId: jane!.id, developerName: jane!.name, via: 'name' });
+    assert.equal(resolved.get(`  qa match   JANE ${unique} `)?.developerId, jane!.id);
+    assert.deepEqual(resolved.get(`JANE.${unique}@example.com`), {
+      developerId: jane!.id,
+      developerName: jane!.name,
+      via: 'email',
+    });
+    assert.equal(resolved.get(`J. Omar ${unique}`)?.via, 'manual');
+    assert.equal(resolved.has(`Nobody ${unique}`), false);
+    assert.equal(resolved.has(`Stale ${unique}`), false);
+  } finally {
+    await db.delete(developers).where(inArray(developers.id, created.map((d) => d.id)));
+  }
+});
+
+test('Story 7.9: a consolidated sheet reports per-developer totals and imports under matched developers', async () => {
+  const unique = Date.now();
+  const projectName = `QA Team Project ${unique}`;
+  const [jane] = await db
+    .insert(developers)
+    .values({ name: `QA Team Jane ${unique}`, email: `team.jane.${unique}@example.com`, isActive: true })
+    .returning();
+  const omar = `QA Team Omar ${unique}`;
+  const rows = [
+    { Developer: `team.jane.${unique}@example.com`, Project: projectName, Date: '2026-02-02', Duration: 60 },
+    { Developer: `team.jane.${unique}@example.com`, Project: projectName, Date: '2026-02-03', Duration: 30 },
+    { Developer: omar, Project: projectName, Date: '2026-02-02', Duration: 45 },
+    { Developer: omar, Project: projectName, Date: 'not a date', Duration: 15 },
+  ];
+
+  try {
+    const preview = await excelParser.parseRows(rows, { mode: 'preview' });
+    assert.equal(preview.detectedDeveloper, null);
+    assert.deepEqual(preview.developers, [omar, `team.jane.${unique}@example.com`].sort((a, b) => a.localeCompare(b)));
+    const byName = new Map(preview.developerBreakdown?.map((d) => [d.name, d]));
+    assert.deepEqual(byName.get(`team.jane.${unique}@example.com`), {
+      name: `team.jane.${unique}@example.com`,
+      entryCount: 2,
+      totalMinutes: 90,
+      errorCount: 0,
+      match: { developerId: jane!.id, developerName: jane!.name, via: 'email' },
+    });
+    assert.deepEqual(byName.get(omar), { name: omar, entryCount: 1, totalMinutes: 45, errorCount: 1, match: null });
+    assert.deepEqual(preview.wouldCreate?.developers, [omar]);
+
+    // Omar is matched to Jane on the preview: nothing is created and every entry lands on Jane
+    const imported = await excelParser.parseRows(rows.slice(0, 3), {
+      developerMatches: [{ name: omar, developerId: jane!.id }],
+    });
+    assert.deepEqual(
+      imported.entries.map((e) => e.developerId),
+      [jane!.id, jane!.id, jane!.id]
+    );
+    assert.equal(await db.query.developers.findFirst({ where: eq(developers.name, omar) }), undefined);
+  } finally {
+    await cleanupParserImportSideEffects(jane!.name, projectName);
+    await db.delete(developers).where(eq(developers.name, omar));
+  }
+});
+
+test('Story 7.9: an import resolves developers and projects once per sheet and reuses what it creates', async () => {
+  const unique = Date.now();
+  const developerName = `QA Bulk Dev ${unique}`;
+  const projectName = `QA Bulk Project ${unique}`;
+  const rows = Array.from({ length: 300 }, (_, i) => ({
+    Developer: i % 2 ? developerName : `  qa bulk   DEV ${unique}`,
+    Project: projectName,
+    Task: 'Build',
+    Date: '2026-03-02',
+    'Start Time': `${8 + Math.floor(i / 60)}:${String((i % 4) * 15).padStart(2, '0')}`,
+    Duration: 15,
+  }));
+  const originalDevelopers = developerMatchService.resolveDeveloperTokens;
+  const originalProjects = projectAliasService.resolveProjectTokens;
+  const calls = { developers: 0, projects: 0 };
+
+  try {
+    developerMatchService.resolveDeveloperTokens = async (...args) => {
+      calls.developers++;
+      return originalDevelopers.apply(developerMatchService, args);
+    };
+    projectAliasService.resolveProjectTokens = async (...args) => {
+      calls.projects++;
+      return originalProjects.apply(projectAliasService, args);
+    };
+
+    const imported = await excelParser.parseRows(rows);
+    assert.equal(imported.entries.length, 300);
+    assert.deepEqual(calls, { developers: 1, projects: 1 });
+    assert.equal(new Set(imported.entries.map((e) => e.developerId)).size, 1);
+    assert.equal(new Set(imported.entries.map((e) => e.taskId)).size, 1);
+    const created = await db
+      .select()
+      .from(developers)
+      .where(inArray(developers.name, [developerName, rows[0]!.Developer]));
+    assert.equal(created.length, 1);
+  } finally {
+    developerMatchService.resolveDeveloperTokens = originalDevelopers;
+    projectAliasService.resolveProjectTokens = originalProjects;
+    await cleanupParserImportSideEffects(developerName, projectName);
+    await db.delete(developers).where(eq(developers.name, rows[0]!.Developer));
+  }
+});
@@ -0,0 +1,54 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { applyDurationPolicy, describeRounding } from '../src/lib/duration-rounding';
+import { excelParser } from '../src/server/services/ExcelParser';
+import { cleanupParserImportSideEffects } from './parser-db-cleanup';
+
+test('Story 7.7: applyDurationPolicy rejects or rounds off-grid durations and reports the raw value', () => {
+  assert.deepEqual(applyDurationPolicy(45, 'strict'), { durationMinutes: 45, rawDurationMinutes: null });
+  assert.throws(() => applyDurationPolicy(50, 'strict'), /multiple of 15 minutes/);
+  assert.throws(() => applyDurationPolicy(0, 'nearest'), /greater than 0/);
+
+  assert.deepEqual(applyDurationPolicy(50, 'nearest'), { durationMinutes: 45, rawDurationMinutes: 50 });
+  assert.deepEqual(applyDurationPolicy(50, 'up'), { durationMinutes: 60, rawDurationMinutes: 50 });
+  assert.deepEqual(applyDurationPolicy(50, 'down'), { durationMinutes: 45, rawDurationMinutes: 50 });
+  assert.deepEqual(applyDurationPolicy(60, 'up'), { durationMinutes: 60, rawDurationMinutes: null });
+  // callers decide what a zero result means
+  assert.deepEqual(applyDurationPolicy(7, 'nearest'), { durationMinutes: 0, rawDurationMinutes: 7 });
+
+  assert.equal(describeRounding(applyDurationPolicy(52.5, 'up'), 'up'), '0:52:30 rounded up to 1:00');
+  assert.equal(describeRounding(applyDurationPolicy(50, 'nearest'), 'nearest'), '0:50 rounded to 0:45');
+});
+
+test('Story 7.7: parseRows rounds off-grid sheet durations with a warning instead of an error', async () => {
+  const unique = Date.now();
+  const developerName = `QA Rounding Dev ${unique}`;
+  const projectName = `QA Rounding Project ${unique}`;
+  const rows = [
+    { Developer: developerName, Project: projectName, Date: '2026-02-05', Duration: 50 },
+    { Developer: developerName, Project: projectName, Date: '2026-02-06', Duration: 30 },
+    { Developer: developerName, Project: projectName, Date: '2026-02-07', Duration: 5 },
+  ];
+
+  try {
+    const strict = await excelParser.parseRows(rows);
+    assert.deepEqual(strict.errors, [
+      'Row 2: Duration must be a multiple of 15 minutes',
+      'Row 4: Duration must be a multiple of 15 minutes',
+    ]);
+
+    const rounded = await excelParser.parseRows(rows, { rounding: 'nearest' });
+    assert.deepEqual(rounded.errors, []);
+    assert.deepEqual(
+      rounded.entries.map((e) => [e.durationMinutes, e.rawDurationMinutes ?? null]),
+      [
+        [45, 50],
+        [30, null],
+      ]
+    );
+    assert.ok(rounded.warnings.includes('Row 2: 0:50 rounded to 0:45'));
+    assert.ok(rounded.warnings.some((w) => w.startsWith('Row 4:') && w.includes('row skipped')));
+  } finally {
+    await cleanupParserImportSideEffects(developerName, projectName);
+  }
+});
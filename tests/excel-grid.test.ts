@@ -178,3 +178,174 @@ test('ExcelParser detects projects on Project Code grid even when weekday header
   assert.equal(preview.projects.invalid.length, 2);
 });
 
+
+function weeklyGridWorkbook(aoa: any[][], comments: Record<string, string> = {}): Buffer {
+  const ws = XLSX.utils.aoa_to_sheet(aoa);
+  for (const [address, text] of Object.entries(comments)) {
+    ws[address].c = [{ a: 'Reviewer', t: `Reviewer:\n${text}` }];
+  }
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(wb, ws, 'Week');
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+}
+
+test('Story 7.10: weekly grid turns a day-cell comment into the entry notes and flags off-grid cells by address', async () => {
+  const unique = Date.now();
+  const developerName = `QA Dev ${unique}`;
+  const projectName = `QA Project Grid Notes ${unique}`;
+
+  const aoa = [
+    ['Name:', developerName],
+    ['Week Ending:', '2024-04-05'],
+    [],
+    ['Project', 'Task', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri'],
+    [projectName, 'Build parser', 1.5, '', '', '', 0.3],
+  ];
+  const buf = weeklyGridWorkbook(aoa, { C5: 'Pairing on the importer' });
+
+  try {
+    const strict = await excelParser.parseFile(buf);
+    assert.deepEqual(strict.errors, [
+      'Cell G5 (0.3 h): Duration must be a multiple of 15 minutes',
+    ]);
+    assert.equal(strict.entries.length, 1);
+    assert.equal(strict.entries[0]!.description, 'Pairing on the importer');
+    assert.equal(strict.entries[0]!.startTime.getDate(), 1); // Monday 2024-04-01
+
+    const rounded = await excelParser.parseFile(buf, { rounding: 'nearest' });
+    assert.deepEqual(rounded.errors, []);
+    assert.deepEqual(rounded.warnings, ['Cell G5 (0.3 h): 0:18 rounded to 0:15']);
+    assert.equal(rounded.weeklyGrid?.source, 'sheet');
+    assert.deepEqual(
+      rounded.weeklyGrid?.days.map((d) => `${d.column} ${d.day} ${d.date?.getDate()}`),
+      ['C monday 1', 'D tuesday 2', 'E wednesday 3', 'F thursday 4', 'G friday 5']
+    );
+  } finally {
+    await cleanupParserImportSideEffects(developerName, projectName);
+  }
+});
+
+test('Story 7.10: a week ending supplied on upload dates the grid and wins over the sheet label', async () => {
+  const unique = Date.now();
+  const developerName = `QA Dev ${unique}`;
+  const projectName = `QA Project Grid Week ${unique}`;
+
+  const rows = [
+    ['Project', 'Task', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri'],
+    [projectName, 'Build parser', 1, '', '', '', 2],
+  ];
+
+  try {
+    const undated = await excelParser.parseFile(weeklyGridWorkbook([['Name:', developerName], [], ...rows]));
+    assert.equal(undated.entries.length, 0);
+    assert.match(undated.errors[0]!, /could not determine the calendar dates/);
+    assert.equal(undated.weeklyGrid?.weekEnding, null);
+
+    const supplied = await excelParser.parseFile(weeklyGridWorkbook([['Name:', developerName], [], ...rows]), {
+      weekEnding: new Date(2024, 3, 12),
+    });
+    assert.deepEqual(supplied.errors, []);
+    assert.deepEqual(
+      supplied.entries.map((e) => e.startTime.getDate()),
+      [8, 12]
+    );
+    assert.equal(supplied.weeklyGrid?.source, 'upload');
+
+    const overridden = await excelParser.parseFile(
+      weeklyGridWorkbook([['Name:', developerName], ['Week Ending:', '2024-04-05'], ...rows]),
+      { weekEnding: new Date(2024, 3, 12) }
+    );
+    assert.deepEqual(
+      overridden.entries.map((e) => e.startTime.getDate()),
+      [8, 12]
+    );
+    assert.deepEqual(overridden.warnings, ['Week ending 2024-04-12 from the upload overrides 2024-04-05 on the sheet.']);
+  } finally {
+    await cleanupParserImportSideEffects(developerName, projectName);
+  }
+});
+
+test('Story 7.10: unlabeled day columns E–K follow the configured first day of the week', async () => {
+  const unique = Date.now();
+  const developerName = `QA Dev ${unique}`;
+  const projectName = `PROJ-WS-${unique}`;
+
+  const aoa: any[][] = [];
+  aoa[0] = ['', 'Name:', developerName];
+  aoa[1] = ['', 'Week Ending:', '2024-04-06']; // a Saturday
+  aoa[3] = ['', '', 'Project Code', 'ROLE AND STORY CARD NUMBER'];
+  aoa[4] = ['', '', projectName, 'DEV - Feature A', 1, '', '', '', '', '', 2]; // E and K
+  const buf = weeklyGridWorkbook(aoa);
+
+  try {
+    const sundayFirst = await excelParser.parseFile(buf, { weekStart: 'sunday' });
+    assert.deepEqual(sundayFirst.errors, []);
+    assert.deepEqual(sundayFirst.warnings, []);
+    assert.deepEqual(
+      sundayFirst.entries.map((e) => e.startTime.getDate()),
+      [31, 6] // Sunday 2024-03-31 … Saturday 2024-04-06
+    );
+
+    // Default Saturday-first reads K as Friday, which does not match a Saturday week ending
+    const saturdayFirst = await excelParser.parseFile(buf);
+    assert.deepEqual(
+      saturdayFirst.entries.map((e) => e.startTime.getDate()),
+      [6, 5]
+    );
+    assert.match(saturdayFirst.warnings[0]!, /^Week ending 2024-04-06 is a Saturday, but columns E–K are read as Saturday–Friday/);
+  } finally {
+    await cleanupParserImportSideEffects(developerName, projectName);
+  }
+});
+
+test('Story 7.12: weekly-grid entries record the day cell they were read from', async () => {
+  const unique = Date.now();
+  const developerName = `QA Dev ${unique}`;
+  const projectName = `QA Project Grid Source ${unique}`;
+
+  const buf = weeklyGridWorkbook([
+    ['Name:', developerName],
+    ['Week Ending:', '2024-04-05'],
+    [],
+    ['Project', 'Task', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri'],
+    [projectName, 'Build parser', 1.5, '', '', '', 2],
+  ]);
+
+  try {
+    const result = await excelParser.parseFile(buf, { fileName: 'week-14.xlsx' });
+    assert.deepEqual(result.errors, []);
+    assert.deepEqual(
+      result.entries.map((e) => e.source),
+      [
+        { type: 'excel', fileName: 'week-14.xlsx', sheet: 'Week', row: 5, cell: 'C5' },
+        { type: 'excel', fileName: 'week-14.xlsx', sheet: 'Week', row: 5, cell: 'G5' },
+      ]
+    );
+  } finally {
+    await cleanupParserImportSideEffects(developerName, projectName);
+  }
+});
+
+test('Story 7.14: weekly-grid issues point at the day cell they were read from', async () => {
+  const unique = Date.now();
+  const developerName = `QA Dev ${unique}`;
+  const projectName = `QA Project Grid Issues ${unique}`;
+
+  const buf = weeklyGridWorkbook([
+    ['Name:', developerName],
+    ['Week Ending:', '2024-04-05'],
+    [],
+    ['Project', 'Task', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri'],
+    [projectName, 'Build parser', 1.5, '', '', '', 0.3],
+  ]);
+
+  try {
+    const result = await excelParser.parseFile(buf);
+    assert.deepEqual(
+      result.issues.map((i) => [i.code, i.sheet, i.row, i.column, i.cell, i.value, i.location]),
+      [['off_grid_duration', 'Week', 5, 'duration', 'G5', '18', 'Cell G5 (0.3 h)']]
+    );
+  } finally {
+    await cleanupParserImportSideEffects(developerName, projectName);
+  }
+});
@@ -4,7 +4,7 @@ import * as XLSX from 'xlsx';
 import { excelParser } from '../src/server/services/ExcelParser';
 import { db } from '../src/server/db';
 import { developers, projects, tasks } from '../src/server/db/schema';
-import { eq, and } from 'drizzle-orm';
+import { eq, and, inArray } from 'drizzle-orm';
 import {
   cleanupParserImportSideEffects,
   deleteProjectCascadeByName,
@@ -386,3 +386,317 @@ test('ExcelParser.parseFile selects the correct sheet when the first sheet is me
     await cleanupParserImportSideEffects(developerName, projectName);
   }
 });
+
+test('Story 7.3: strict mode rejects unknown developer/project/task with row numbers and creates nothing', async () => {
+  const unique = Date.now();
+  const developerName = `QA Strict Dev ${unique}`;
+  const projectName = `QA Strict Project ${unique}`;
+  const rows = [
+    { Developer: developerName, Project: projectName, Task: 'Build', Date: '2026-02-05', Duration: 15 },
+  ];
+
+  try {
+    const preview = await excelParser.parseRows(rows, { mode: 'preview', strict: true });
+    assert.equal(preview.entries.length, 0);
+    assert.ok(
+      preview.errors.some(
+        (e) =>
+          e.startsWith('Row 2: Unknown') &&
+          e.includes(`developer "${developerName}"`) &&
+          e.includes(`project "${projectName}"`) &&
+          e.includes('task "Build"')
+      )
+    );
+    assert.deepEqual(preview.wouldCreate, {
+      developers: [developerName],
+      projects: [projectName],
+      tasks: [{ project: projectName, task: 'Build' }],
+    });
+
+    const imported = await excelParser.parseRows(rows, { mode: 'import', strict: true });
+    assert.equal(imported.entries.length, 0);
+    assert.equal(imported.errors.length, 1);
+    assert.equal(await db.query.projects.findFirst({ where: eq(projects.name, projectName) }), undefined);
+    assert.equal(await db.query.developers.findFirst({ where: eq(developers.name, developerName) }), undefined);
+
+    const created = await excelParser.createApprovedEntities(preview.wouldCreate!);
+    assert.deepEqual(created, { developers: 1, projects: 1, tasks: 1 });
+
+    const after = await excelParser.parseRows(rows, { mode: 'import', strict: true });
+    assert.equal(after.errors.length, 0);
+    assert.equal(after.entries.length, 1);
+    assert.deepEqual(after.wouldCreate, { developers: [], projects: [], tasks: [] });
+  } finally {
+    await cleanupParserImportSideEffects(developerName, projectName);
+  }
+});
+
+test('Story 7.3: approved developers that match an existing one by case, spacing or email are not counted as created', async () => {
+  const unique = Date.now();
+  const [jane] = await db
+    .insert(developers)
+    .values({ name: `QA Approve Jane ${unique}`, email: `approve.jane.${unique}@example.com`, isActive: true })
+    .returning();
+  const newName = `QA Approve Omar ${unique}`;
+
+  try {
+    const created = await excelParser.createApprovedEntities({
+      developers: [`  qa approve   JANE ${unique} `, `approve.jane.${unique}@example.com`, newName, newName.toUpperCase()],
+      projects: [],
+      tasks: [],
+    });
+    assert.deepEqual(created, { developers: 1, projects: 0, tasks: 0 });
+    const omars = await db
+      .select()
+      .from(developers)
+      .where(inArray(developers.name, [newName, newName.toUpperCase()]));
+    assert.equal(omars.length, 1);
+  } finally {
+    await db.delete(developers).where(inArray(developers.name, [jane!.name, newName, newName.toUpperCase()]));
+  }
+});
+
+test('Story 7.3: non-strict preview summarizes would-be-created entities without errors for them', async () => {
+  const unique = Date.now();
+  const developerName = `QA Lenient Dev ${unique}`;
+  const projectName = `QA Lenient Project ${unique}`;
+
+  const result = await excelParser.parseRows(
+    [
+      { Developer: developerName, Project: projectName, Date: '2026-02-05', Duration: 15 },
+      { Developer: developerName, Project: projectName, Date: '2026-02-06', Duration: 30 },
+    ],
+    { mode: 'preview' }
+  );
+
+  assert.equal(result.entries.length, 2);
+  assert.ok(!result.errors.some((e) => e.includes('Unknown')));
+  assert.deepEqual(result.wouldCreate, { developers: [developerName], projects: [projectName], tasks: [] });
+});
+
+test('Story 7.5: parseFile reads a Windows-1252 semicolon CSV like the equivalent workbook', async () => {
+  const unique = Date.now();
+  const developerName = `QA CSV Dév ${unique}`;
+  const projectName = `QA CSV Project ${unique}`;
+  const csv = [
+    'Developer;Project;Task;Date;Duration;Notes',
+    `${developerName};${projectName};Café review;2026-02-05;30;"Notes; with ""quotes"""`,
+    `${developerName};${projectName};Café review;2026-02-06;20;`,
+  ].join('\r\n');
+  // é is 0xE9 in both Latin-1 and Windows-1252
+  const buf = Buffer.from(csv, 'latin1');
+
+  try {
+    const result = await excelParser.parseFile(buf, { fileName: 'hours-export.csv' });
+
+    assert.deepEqual(result.source, { format: 'csv', delimiter: ';', encoding: 'windows-1252' });
+    assert.equal(result.sheetName, 'hours-export');
+    assert.equal(result.entries.length, 1);
+    assert.equal(result.entries[0]!.durationMinutes, 30);
+    assert.equal(result.entries[0]!.description, 'Notes; with "quotes"');
+    assert.equal(result.preview[0]!.developer, developerName);
+    assert.equal(result.preview[0]!.task, 'Café review');
+    assert.deepEqual(result.errors, ['Row 3: Duration must be a multiple of 15 minutes']);
+  } finally {
+    await cleanupParserImportSideEffects(developerName, projectName);
+  }
+});
+
+test('Story 7.5: parseFile reads a UTF-8 TSV with BOM', async () => {
+  const unique = Date.now();
+  const developerName = `QA TSV Dev ${unique}`;
+  const projectName = `QA TSV Project ${unique}`;
+  const tsv = `﻿Developer\tProject\tDate\tStart Time\tEnd Time\n${developerName}\t${projectName}\t2026-02-05\t09:00\t10:15\n`;
+
+  try {
+    const result = await excelParser.parseFile(Buffer.from(tsv, 'utf-8'));
+
+    assert.deepEqual(result.source, { format: 'csv', delimiter: '\t', encoding: 'utf-8' });
+    assert.equal(result.sheetName, 'CSV');
+    assert.equal(result.errors.length, 0);
+    assert.equal(result.entries.length, 1);
+    assert.equal(result.entries[0]!.durationMinutes, 75);
+  } finally {
+    await cleanupParserImportSideEffects(developerName, projectName);
+  }
+});
+
+test('Story 7.8: parseFile parses every eligible sheet and imports only the included ones', async () => {
+  const unique = Date.now();
+  const alice = `QA Sheet Alice ${unique}`;
+  const bob = `QA Sheet Bob ${unique}`;
+  const projectName = `QA Multi-sheet Project ${unique}`;
+  const header = ['Developer', 'Project', 'Task', 'Date', 'Duration', 'Notes'];
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.aoa_to_sheet([
+      header,
+      [alice, projectName, 'Build', '2026-02-02', 60, null],
+      [alice, projectName, 'Build', '2026-02-03', 30, null],
+    ]),
+    'Alice'
+  );
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.aoa_to_sheet([
+      header,
+      [bob, projectName, 'Review', '2026-02-02', 45, null],
+      [bob, projectName, 'Review', '2026-02-03', 20, null],
+    ]),
+    'Bob'
+  );
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet([['Project', 'Developer', 'Task'], ['A', 'B', 'C']]), 'Lists');
+  const buf = XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+
+  try {
+    const all = await excelParser.parseFile(buf, { mode: 'preview' });
+    assert.deepEqual(
+      all.sheets?.map((s) => [s.name, s.included, s.detectedDeveloper, s.entryCount]),
+      [
+        ['Alice', true, alice, 2],
+        ['Bob', true, bob, 1],
+      ]
+    );
+    assert.equal(all.entries.length, 3);
+    assert.equal(all.detectedDeveloper, null);
+    assert.deepEqual(all.developers, [alice, bob].sort((a, b) => a.localeCompare(b)));
+    assert.ok(all.errors.includes('[Bob] Row 3: Duration must be a multiple of 15 minutes'));
+    assert.deepEqual(all.sheets?.[1]?.errors.filter((e) => e.startsWith('Row')), [
+      'Row 3: Duration must be a multiple of 15 minutes',
+    ]);
+
+    const aliceOnly = await excelParser.parseFile(buf, { sheets: ['Alice'] });
+    assert.equal(aliceOnly.sheetName, 'Alice');
+    assert.equal(aliceOnly.entries.length, 2);
+    assert.equal(aliceOnly.detectedDeveloper, alice);
+    assert.equal(aliceOnly.entries[0]!.source?.sheet, 'Alice');
+    assert.deepEqual(aliceOnly.errors, []);
+    assert.deepEqual(
+      aliceOnly.sheets?.map((s) => [s.name, s.included, s.entryCount]),
+      [
+        ['Alice', true, 2],
+        ['Bob', false, 0],
+      ]
+    );
+    // the excluded sheet is not parsed in import mode, so its developer is never created
+    assert.equal(await db.query.developers.findFirst({ where: eq(developers.name, bob) }), undefined);
+
+    const stale = await excelParser.parseFile(buf, { mode: 'preview', sheets: ['Carol'] });
+    assert.equal(stale.entries.length, 0);
+    assert.match(stale.errors[0]!, /None of the selected sheets/);
+  } finally {
+    await cleanupParserImportSideEffects(alice, projectName);
+    await cleanupParserImportSideEffects(bob, projectName);
+  }
+});
+
+test('Story 7.12: entries record the file, sheet and sheet row they were read from', async () => {
+  const unique = Date.now();
+  const developerName = `QA Dev ${unique}`;
+  const projectName = `QA Project Source ${unique}`;
+  const header = ['Developer', 'Project', 'Task', 'Date', 'Duration'];
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.aoa_to_sheet([
+      ['Timesheet for February'],
+      header,
+      [developerName, projectName, 'Build', '2026-02-02', 60],
+      [],
+      [developerName, projectName, 'Build', '2026-02-03', 30],
+    ]),
+    'Feb'
+  );
+  const buf = XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+  const csv = Buffer.from(
+    [
+      header.join(','),
+      `${developerName},${projectName},Build,2026-02-04,45`,
+      '',
+      `${developerName},${projectName},Build,someday,45`,
+    ].join('\n')
+  );
+
+  try {
+    const workbook = await excelParser.parseFile(buf, { fileName: 'february.xlsx' });
+    assert.deepEqual(workbook.errors, []);
+    // the blank row is skipped, but the second entry still points at sheet row 5
+    assert.deepEqual(
+      workbook.entries.map((e) => e.source),
+      [
+        { type: 'excel', fileName: 'february.xlsx', sheet: 'Feb', row: 3 },
+        { type: 'excel', fileName: 'february.xlsx', sheet: 'Feb', row: 5 },
+      ]
+    );
+
+    const delimited = await excelParser.parseFile(csv, { fileName: 'february.csv' });
+    assert.deepEqual(delimited.entries[0]!.source, { type: 'csv', fileName: 'february.csv', sheet: null, row: 2 });
+    // the blank line keeps its place, so the bad row after it is reported as line 4
+    assert.equal(delimited.issues.filter((i) => i.severity === 'error').map((i) => i.row).join(), '4');
+  } finally {
+    await cleanupParserImportSideEffects(developerName, projectName);
+  }
+});
+
+test('Story 7.14: parse problems come back as issues with a code, sheet, row, column and value', async () => {
+  const unique = Date.now();
+  const developerName = `QA Dev ${unique}`;
+  const projectName = `QA Project Issues ${unique}`;
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.aoa_to_sheet([
+      ['Developer', 'Project', 'Task', 'Date', 'Duration'],
+      [developerName, projectName, 'Build', '2026-02-02', 60],
+      [developerName, projectName, 'Build', 'someday', 60],
+      [developerName, '', 'Build', '2026-02-03', 60],
+      [developerName, projectName, 'Build', '2026-02-04', 50],
+    ]),
+    'Feb'
+  );
+  const buf = XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+
+  try {
+    const result = await excelParser.parseFile(buf, { mode: 'preview' });
+    assert.deepEqual(
+      result.issues.map((i) => [i.code, i.severity, i.sheet, i.row, i.column, i.value]),
+      [
+        ['invalid_project', 'error', 'Feb', null, 'project', projectName],
+        ['invalid_date', 'error', 'Feb', 3, 'date', 'someday'],
+        ['missing_project', 'error', 'Feb', 4, 'project', null],
+        ['off_grid_duration', 'error', 'Feb', 5, 'duration', '50'],
+      ]
+    );
+    // the text forms are unchanged
+    assert.deepEqual(result.errors.slice(1), [
+      'Row 3: Invalid date: someday',
+      'Row 4: Missing project name',
+      'Row 5: Duration must be a multiple of 15 minutes',
+    ]);
+    assert.deepEqual(result.preview.map((p) => p.row), [2]);
+
+    const rounded = await excelParser.parseFile(buf, { mode: 'preview', rounding: 'up' });
+    assert.deepEqual(
+      rounded.issues.filter((i) => i.severity === 'warning'),
+      [
+        {
+          code: 'duration_rounded',
+          severity: 'warning',
+          sheet: 'Feb',
+          row: 5,
+          column: 'duration',
+          cell: null,
+          value: '50',
+          message: '0:50 rounded up to 1:00',
+          location: 'Row 5',
+        },
+      ]
+    );
+  } finally {
+    await cleanupParserImportSideEffects(developerName, projectName);
+  }
+});
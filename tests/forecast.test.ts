@@ -0,0 +1,62 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { forecastProject, trailingBurnStart, TRAILING_BURN_DAYS, type ForecastInput } from '../src/lib/forecast';
+
+const today = new Date(2026, 5, 10, 15, 30);
+const base: ForecastInput = {
+  method: 'remaining-estimates',
+  actualHours: 40,
+  budgetHours: 50,
+  endDate: new Date(2026, 5, 20),
+  trailingMinutes: 56 * 60, // 2h a day
+  openTaskCount: 3,
+  openTasksWithoutEstimate: 1,
+  remainingEstimateHours: 15,
+};
+
+test('Story 9.10: remaining estimates — EAC, finish at the trailing burn and overruns against budget and end date', () => {
+  const f = forecastProject(base, today);
+  assert.equal(f.burnRateHoursPerDay, 2);
+  assert.equal(f.remainingHours, 15);
+  assert.equal(f.estimateAtCompletion, 55);
+  assert.deepEqual(f.projectedFinishDate, new Date(2026, 5, 18)); // ceil(15 / 2) = 8 days
+  assert.equal(f.projectedOverrunHours, 5);
+  assert.equal(f.projectedOverrunDays, -2);
+  assert.equal(f.openTasksWithoutEstimate, 1);
+});
+
+test('Story 9.10: trailing-average burn — the trailing burn rate kept up until the end date', () => {
+  const f = forecastProject({ ...base, method: 'trailing-burn' }, today);
+  assert.equal(f.remainingHours, 20); // 10 days to June 20 × 2h
+  assert.equal(f.estimateAtCompletion, 60);
+  assert.deepEqual(f.projectedFinishDate, new Date(2026, 5, 18)); // still when the estimates run out
+  assert.equal(f.projectedOverrunHours, 10);
+  assert.equal(f.projectedOverrunDays, -2);
+
+  const noEndDate = forecastProject({ ...base, method: 'trailing-burn', endDate: null }, today);
+  assert.equal(noEndDate.remainingHours, null);
+  assert.equal(noEndDate.estimateAtCompletion, null);
+  assert.equal(noEndDate.projectedOverrunHours, null);
+  assert.deepEqual(noEndDate.projectedFinishDate, new Date(2026, 5, 18));
+
+  const pastEnd = forecastProject({ ...base, method: 'trailing-burn', endDate: new Date(2026, 5, 1) }, today);
+  assert.equal(pastEnd.remainingHours, 0);
+  assert.equal(pastEnd.estimateAtCompletion, 40);
+  assert.equal(pastEnd.projectedOverrunDays, 17);
+});
+
+test('Story 9.10: nothing open finishes today; no recent burn or no budget / end date leaves those parts unknown', () => {
+  const done = forecastProject({ ...base, openTaskCount: 0, openTasksWithoutEstimate: 0, remainingEstimateHours: 0 }, today);
+  assert.equal(done.estimateAtCompletion, 40);
+  assert.deepEqual(done.projectedFinishDate, new Date(2026, 5, 10));
+
+  const stalled = forecastProject({ ...base, trailingMinutes: 0, budgetHours: null, endDate: null }, today);
+  assert.equal(stalled.estimateAtCompletion, 55);
+  assert.equal(stalled.projectedFinishDate, null);
+  assert.equal(stalled.projectedOverrunHours, null);
+  assert.equal(stalled.projectedOverrunDays, null);
+});
+
+test('Story 9.10: the trailing window covers TRAILING_BURN_DAYS days ending today', () => {
+  assert.deepEqual(trailingBurnStart(today), new Date(2026, 5, 10 - (TRAILING_BURN_DAYS - 1)));
+});
@@ -0,0 +1,208 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '../src/server/db';
+import { developers, importBatches, projects, timeEntries } from '../src/server/db/schema';
+import { eq, inArray } from 'drizzle-orm';
+import { timesheetService } from '../src/server/services/TimesheetService';
+import { importBatchService, importFileChecksum } from '../src/server/services/ImportBatchService';
+
+test('importFileChecksum is a stable sha256 hex digest', () => {
+  const a = importFileChecksum(Buffer.from('timesheet'));
+  assert.match(a, /^[0-9a-f]{64}$/);
+  assert.equal(a, importFileChecksum(Buffer.from('timesheet')));
+  assert.notEqual(a, importFileChecksum(Buffer.from('timesheet2')));
+});
+
+test('Story 7.2: batch import, replacement and discard each run as one unit', async () => {
+  const unique = Date.now();
+  let developerId: number | null = null;
+  let projectId: number | null = null;
+  const batchIds: number[] = [];
+
+  try {
+    const [dev] = await db
+      .insert(developers)
+      .values({ name: `QA Batch Dev ${unique}`, isActive: true })
+      .returning();
+    developerId = dev.id;
+    const [proj] = await db
+      .insert(projects)
+      .values({ name: `QA Batch Project ${unique}`, status: 'active' })
+      .returning();
+    projectId = proj.id;
+
+    const row = (day: number, durationMinutes: number) => ({
+      projectId: projectId!,
+      developerId: developerId!,
+      startTime: new Date(`2026-04-0${day}T00:00:00`),
+      durationMinutes,
+    });
+
+    const first = await timesheetService.bulkCreateEntries([row(6, 60), row(7, 120)], {
+      importBatch: { fileName: 'week.xlsx', checksum: 'abc' },
+    });
+    assert.equal(first.length, 2);
+    const firstBatchId = first[0]!.importBatchId!;
+    batchIds.push(firstBatchId);
+    assert.ok(first.every((e) => e.importBatchId === firstBatchId));
+
+    const [firstBatch] = (await importBatchService.listBatches()).filter((b) => b.id === firstBatchId);
+    assert.equal(firstBatch!.developerId, developerId);
+    assert.equal(firstBatch!.rowCount, 2);
+    assert.equal(firstBatch!.currentRowCount, 2);
+    assert.deepEqual(firstBatch!.periodStart, new Date('2026-04-06T00:00:00'));
+    assert.deepEqual(firstBatch!.periodEnd, new Date('2026-04-07T00:00:00'));
+    assert.equal((await importBatchService.findActiveByChecksum('abc')).some((b) => b.id === firstBatchId), true);
+
+    // The corrected sheet's rows would conflict with the old batch, unless that batch is excluded.
+    const corrected = [row(6, 90), row(8, 30)];
+    const plan = await timesheetService.planImport(corrected, { excludeBatchId: firstBatchId });
+    assert.deepEqual(plan.classification.newIndexes, [0, 1]);
+
+    const second = await timesheetService.bulkCreateEntries(corrected, {
+      importBatch: { fileName: 'week-fixed.xlsx', checksum: 'def', replacesBatchId: firstBatchId },
+    });
+    const secondBatchId = second[0]!.importBatchId!;
+    batchIds.push(secondBatchId);
+
+    const remaining = await db.select().from(timeEntries).where(eq(timeEntries.developerId, developerId));
+    assert.deepEqual(
+      remaining.map((e) => e.durationMinutes).sort((a, b) => a - b),
+      [30, 90]
+    );
+    const replaced = await importBatchService.getBatchById(firstBatchId);
+    assert.equal(replaced!.status, 'replaced');
+    assert.equal(replaced!.replacedByBatchId, secondBatchId);
+
+    // A replaced batch cannot be replaced again (whole transaction rolls back).
+    await assert.rejects(() =>
+      timesheetService.bulkCreateEntries([row(9, 15)], {
+        importBatch: { fileName: 'again.xlsx', checksum: 'ghi', replacesBatchId: firstBatchId },
+      })
+    );
+    assert.equal(
+      (await db.select().from(timeEntries).where(eq(timeEntries.developerId, developerId))).length,
+      2
+    );
+
+    const discarded = await importBatchService.discardBatch(secondBatchId);
+    assert.equal(discarded.deletedEntries, 2);
+    assert.equal(discarded.batch.status, 'discarded');
+    assert.equal(
+      (await db.select().from(timeEntries).where(eq(timeEntries.developerId, developerId))).length,
+      0
+    );
+    await assert.rejects(() => importBatchService.discardBatch(secondBatchId));
+  } finally {
+    if (developerId) {
+      await db.delete(timeEntries).where(eq(timeEntries.developerId, developerId));
+    }
+    if (batchIds.length > 0) {
+      await db.delete(importBatches).where(inArray(importBatches.id, batchIds));
+    }
+    if (projectId) {
+      await db.delete(projects).where(eq(projects.id, projectId));
+    }
+    if (developerId) {
+      await db.delete(developers).where(eq(developers.id, developerId));
+    }
+  }
+});
+
+test('Story 7.2: discarding or replacing an import restores the entries it overwrote', async () => {
+  const unique = Date.now();
+  let developerId: number | null = null;
+  let projectId: number | null = null;
+  const batchIds: number[] = [];
+
+  try {
+    const [dev] = await db
+      .insert(developers)
+      .values({ name: `QA Overwrite Dev ${unique}`, isActive: true })
+      .returning();
+    developerId = dev.id;
+    const [proj] = await db
+      .insert(projects)
+      .values({ name: `QA Overwrite Project ${unique}`, status: 'active' })
+      .returning();
+    projectId = proj.id;
+
+    const row = (day: number, durationMinutes: number, description?: string) => ({
+      projectId: projectId!,
+      developerId: developerId!,
+      startTime: new Date(`2026-04-0${day}T00:00:00`),
+      durationMinutes,
+      description,
+    });
+
+    const [manual] = await timesheetService.bulkCreateEntries([row(6, 60, 'typed by hand')]);
+
+    // "take incoming" on the manual entry, plus one new row
+    const first = await timesheetService.bulkCreateEntries([row(7, 30)], {
+      replacements: [{ id: manual!.id, input: row(6, 120, 'from the sheet') }],
+      importBatch: { fileName: 'week.xlsx', checksum: 'overwrite-1' },
+    });
+    const firstBatchId = first[0]!.importBatchId!;
+    batchIds.push(firstBatchId);
+    const [overwritten] = await db.select().from(timeEntries).where(eq(timeEntries.id, manual!.id));
+    assert.equal(overwritten!.durationMinutes, 120);
+    assert.equal(overwritten!.importBatchId, firstBatchId);
+
+    const [listed] = (await importBatchService.listBatches()).filter((b) => b.id === firstBatchId);
+    assert.equal(listed!.currentRowCount, 1);
+    assert.equal(listed!.replacedRowCount, 1);
+
+    // A replacement sheet is compared against the entry as it was before the first import
+    const corrected = [row(6, 60, 'typed by hand'), row(8, 45)];
+    const plan = await timesheetService.planImport(corrected, { excludeBatchId: firstBatchId });
+    assert.deepEqual(plan.classification.duplicateIndexes, [0]);
+    assert.deepEqual(plan.classification.newIndexes, [1]);
+
+    const second = await timesheetService.bulkCreateEntries([corrected[1]!], {
+      importBatch: { fileName: 'week-fixed.xlsx', checksum: 'overwrite-2', replacesBatchId: firstBatchId },
+    });
+    const secondBatchId = second[0]!.importBatchId!;
+    batchIds.push(secondBatchId);
+    const [restored] = await db.select().from(timeEntries).where(eq(timeEntries.id, manual!.id));
+    assert.deepEqual(
+      { minutes: restored!.durationMinutes, notes: restored!.description, batch: restored!.importBatchId },
+      { minutes: 60, notes: 'typed by hand', batch: null }
+    );
+
+    // An import that only overwrote entries still gets a batch, and discarding it restores them
+    const third = await timesheetService.bulkCreateEntries([], {
+      replacements: [{ id: manual!.id, input: row(6, 90, 'second sheet') }],
+      importBatch: { fileName: 'week-late.xlsx', checksum: 'overwrite-3' },
+    });
+    assert.equal(third.length, 0);
+    const [stamped] = await db.select().from(timeEntries).where(eq(timeEntries.id, manual!.id));
+    assert.ok(stamped!.importBatchId);
+    batchIds.push(stamped!.importBatchId!);
+
+    const discarded = await importBatchService.discardBatch(stamped!.importBatchId!);
+    assert.equal(discarded.deletedEntries, 0);
+    assert.equal(discarded.restoredEntries, 1);
+    const [back] = await db.select().from(timeEntries).where(eq(timeEntries.id, manual!.id));
+    assert.deepEqual(
+      { minutes: back!.durationMinutes, notes: back!.description, batch: back!.importBatchId },
+      { minutes: 60, notes: 'typed by hand', batch: null }
+    );
+    assert.equal(
+      (await db.select().from(timeEntries).where(eq(timeEntries.developerId, developerId))).length,
+      2
+    );
+  } finally {
+    if (developerId) {
+      await db.delete(timeEntries).where(eq(timeEntries.developerId, developerId));
+    }
+    if (batchIds.length > 0) {
+      await db.delete(importBatches).where(inArray(importBatches.id, batchIds));
+    }
+    if (projectId) {
+      await db.delete(projects).where(eq(projects.id, projectId));
+    }
+    if (developerId) {
+      await db.delete(developers).where(eq(developers.id, developerId));
+    }
+  }
+});
@@ -0,0 +1,244 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { eq, inArray } from 'drizzle-orm';
+import { db } from '../src/server/db';
+import { developers, importBatches, importJobs, projects, timeEntries } from '../src/server/db/schema';
+import { importJobService, type ImportJobView } from '../src/server/services/ImportJobService';
+import { timesheetService } from '../src/server/services/TimesheetService';
+import { IMPORT_JOB_MAX_BYTES, isActiveImportJob } from '../src/lib/import-jobs';
+import { POST } from '../src/app/api/import-jobs/route';
+import { cleanupParserImportSideEffects } from './parser-db-cleanup';
+
+/** CSV with `rows` hourly entries from 2031-01-01 on (eight per day) for one developer / project. */
+function timesheetCsv(developer: string, project: string, rows: number, badRow?: number): Buffer {
+  const lines = ['Developer,Project,Task,Date,Start Time,Duration'];
+  for (let i = 0; i < rows; i++) {
+    const day = new Date(2031, 0, 1 + Math.floor(i / 8));
+    const date = `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`;
+    lines.push(`${developer},${project},Build,${date},${8 + (i % 8)}:00,${i === badRow ? 50 : 60}`);
+  }
+  return Buffer.from(lines.join('\n'));
+}
+
+async function waitForJob(id: number): Promise<ImportJobView> {
+  for (let attempt = 0; attempt < 600; attempt++) {
+    const job = await importJobService.getJob(id);
+    if (job && !isActiveImportJob(job.status)) return job;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  throw new Error(`Import job ${id} did not finish`);
+}
+
+async function cleanupJob(job: ImportJobView, developer: string, project: string) {
+  await db.delete(importJobs).where(eq(importJobs.id, job.id));
+  if (job.importBatchId) {
+    await db.delete(timeEntries).where(eq(timeEntries.importBatchId, job.importBatchId));
+    await db.delete(importBatches).where(inArray(importBatches.id, [job.importBatchId]));
+  }
+  await cleanupParserImportSideEffects(developer, project);
+}
+
+test('Story 7.11: a background import reports progress and inserts every row into one batch', async () => {
+  const unique = Date.now();
+  const developer = `QA Job Dev ${unique}`;
+  const project = `QA Job Project ${unique}`;
+
+  const started = await importJobService.startJob(timesheetCsv(developer, project, 1200), 'year-end.csv', {
+    conflictAction: 'keep-existing',
+  });
+  assert.equal(started.status, 'queued');
+  const job = await waitForJob(started.id);
+
+  try {
+    assert.equal(job.status, 'completed', job.message ?? undefined);
+    assert.equal(job.rowsFound, 1200);
+    assert.equal(job.rowsParsed, 1200);
+    assert.equal(job.errorCount, 0);
+    assert.equal(job.rowsToInsert, 1200);
+    assert.equal(job.rowsInserted, 1200);
+    assert.equal(job.message, 'Imported 1200 new time entries.');
+
+    const batch = await db.query.importBatches.findFirst({ where: eq(importBatches.id, job.importBatchId!) });
+    assert.equal(batch?.status, 'active');
+    assert.equal(batch?.rowCount, 1200);
+    assert.equal(batch?.periodStart?.getTime(), new Date(2031, 0, 1, 8).getTime());
+    const rows = await db.select().from(timeEntries).where(eq(timeEntries.importBatchId, job.importBatchId!));
+    assert.equal(rows.length, 1200);
+  } finally {
+    await cleanupJob(job, developer, project);
+  }
+});
+
+test('Story 7.11: row errors fail the job before anything is inserted', async () => {
+  const unique = Date.now();
+  const developer = `QA Job Dev ${unique}`;
+  const project = `QA Job Project ${unique}`;
+
+  const started = await importJobService.startJob(timesheetCsv(developer, project, 20, 4), 'bad.csv', {
+    conflictAction: 'keep-existing',
+  });
+  const job = await waitForJob(started.id);
+
+  try {
+    assert.equal(job.status, 'failed');
+    assert.equal(job.errorCount, 1);
+    assert.deepEqual(job.errors, ['Row 6: Duration must be a multiple of 15 minutes']);
+    assert.equal(job.rowsInserted, 0);
+    assert.equal(job.importBatchId, null);
+    assert.equal(await db.query.developers.findFirst({ where: eq(developers.name, developer) }), undefined);
+    assert.equal(await db.query.projects.findFirst({ where: eq(projects.name, project) }), undefined);
+  } finally {
+    await cleanupJob(job, developer, project);
+  }
+});
+
+test('Story 7.11: cancelling while inserting removes the entries saved so far', async () => {
+  const unique = Date.now();
+  const developer = `QA Job Dev ${unique}`;
+  const project = `QA Job Project ${unique}`;
+  const originalBulk = timesheetService.bulkCreateEntries;
+  let job: ImportJobView | undefined;
+
+  try {
+    let jobId = 0;
+    timesheetService.bulkCreateEntries = async (inputs, opts) => {
+      const created = await originalBulk.call(timesheetService, inputs, opts);
+      await importJobService.cancelJob(jobId);
+      return created;
+    };
+    const started = await importJobService.startJob(timesheetCsv(developer, project, 1500), 'cancel.csv', {
+      conflictAction: 'keep-existing',
+    });
+    jobId = started.id;
+    job = await waitForJob(started.id);
+
+    assert.equal(job.status, 'cancelled');
+    assert.equal(job.rowsInserted, 1000);
+    assert.equal(job.message, 'Cancelled. The 1000 entries saved so far were removed.');
+    const batch = await db.query.importBatches.findFirst({ where: eq(importBatches.id, job.importBatchId!) });
+    assert.equal(batch?.status, 'discarded');
+    const rows = await db.select().from(timeEntries).where(eq(timeEntries.importBatchId, job.importBatchId!));
+    assert.equal(rows.length, 0);
+    assert.equal(await db.query.developers.findFirst({ where: eq(developers.name, developer) }), undefined);
+    assert.equal(await db.query.projects.findFirst({ where: eq(projects.name, project) }), undefined);
+
+    await assert.rejects(() => importJobService.cancelJob(started.id), /already cancelled/);
+  } finally {
+    timesheetService.bulkCreateEntries = originalBulk;
+    if (job) await cleanupJob(job, developer, project);
+  }
+});
+
+test('Story 7.11: planning and batching 150k+ rows does not overflow the call stack', async () => {
+  const [dev] = await db.insert(developers).values({ name: `QA Job Dev ${Date.now()}`, isActive: true }).returning();
+  const [proj] = await db.insert(projects).values({ name: `QA Job Project ${Date.now()}`, status: 'active' }).returning();
+  let batchId = 0;
+
+  try {
+    const base = new Date(2032, 0, 1).getTime();
+    const inputs = Array.from({ length: 150_001 }, (_, i) => ({
+      projectId: proj!.id,
+      developerId: dev!.id,
+      startTime: new Date(base + i * 15 * 60 * 1000),
+      durationMinutes: 15,
+    }));
+
+    const plan = await timesheetService.planImport(inputs);
+    assert.equal(plan.classification.newIndexes.length, 150_001);
+
+    const batch = await timesheetService.createImportBatch({ fileName: 'huge.csv', checksum: 'x' }, inputs);
+    batchId = batch.id;
+    assert.equal(batch.periodStart?.getTime(), base);
+    assert.equal(batch.periodEnd?.getTime(), base + 150_000 * 15 * 60 * 1000);
+  } finally {
+    if (batchId) await db.delete(importBatches).where(eq(importBatches.id, batchId));
+    await db.delete(projects).where(eq(projects.id, proj!.id));
+    await db.delete(developers).where(eq(developers.id, dev!.id));
+  }
+});
+
+test('Story 7.11: a job left active by a stopped server fails on read and its saved rows are discarded', async () => {
+  const [dev] = await db.insert(developers).values({ name: `QA Job Dev ${Date.now()}`, isActive: true }).returning();
+  const [proj] = await db.insert(projects).values({ name: `QA Job Project ${Date.now()}`, status: 'active' }).returning();
+  const inputs = [{ projectId: proj!.id, developerId: dev!.id, startTime: new Date(2033, 0, 3, 9), durationMinutes: 60 }];
+  const batch = await timesheetService.createImportBatch({ fileName: 'orphan.csv', checksum: 'x' }, inputs);
+  await timesheetService.bulkCreateEntries(inputs, { importBatchId: batch.id });
+  const [orphan] = await db
+    .insert(importJobs)
+    .values({ fileName: 'orphan.csv', status: 'inserting', worker: '1@0', importBatchId: batch.id, rowsInserted: 1 })
+    .returning();
+
+  try {
+    const job = await importJobService.getJob(orphan!.id);
+    assert.equal(job?.status, 'failed');
+    assert.equal(
+      job?.message,
+      'The server stopped while this import was running. The 1 entries saved so far were removed. Upload the file again.'
+    );
+    const after = await db.query.importBatches.findFirst({ where: eq(importBatches.id, batch.id) });
+    assert.equal(after?.status, 'discarded');
+    assert.equal((await db.select().from(timeEntries).where(eq(timeEntries.importBatchId, batch.id))).length, 0);
+    await assert.rejects(() => importJobService.cancelJob(orphan!.id), /already failed/);
+  } finally {
+    await db.delete(importJobs).where(eq(importJobs.id, orphan!.id));
+    await db.delete(timeEntries).where(eq(timeEntries.importBatchId, batch.id));
+    await db.delete(importBatches).where(eq(importBatches.id, batch.id));
+    await db.delete(projects).where(eq(projects.id, proj!.id));
+    await db.delete(developers).where(eq(developers.id, dev!.id));
+  }
+});
+
+test('Story 7.11: POST /api/import-jobs takes a multipart upload and rejects bad options', async () => {
+  const originalStart = importJobService.startJob;
+
+  try {
+    const started: Array<{ fileName: string; size: number; conflictAction: string }> = [];
+    importJobService.startJob = async (buffer, fileName, options) => {
+      started.push({ fileName, size: buffer.length, conflictAction: options.conflictAction });
+      return { id: 42 } as ImportJobView;
+    };
+
+    const form = new FormData();
+    form.append('file', new File(['Developer,Project\n'], 'team.csv'));
+    form.append('options', JSON.stringify({ conflictAction: 'keep-both' }));
+    const ok = await POST(new Request('http://localhost/api/import-jobs', { method: 'POST', body: form }));
+    assert.equal(ok.status, 202);
+    assert.deepEqual(await ok.json(), { jobId: 42 });
+
+    const raw = await POST(
+      new Request('http://localhost/api/import-jobs?fileName=raw.csv', { method: 'POST', body: 'Developer\n' })
+    );
+    assert.equal(raw.status, 202);
+    assert.deepEqual(started, [
+      { fileName: 'team.csv', size: 18, conflictAction: 'keep-both' },
+      { fileName: 'raw.csv', size: 10, conflictAction: 'keep-existing' },
+    ]);
+
+    const bad = await POST(
+      new Request(`http://localhost/api/import-jobs?options=${encodeURIComponent('{"weekEnding":"2024-13-01"}')}`, {
+        method: 'POST',
+        body: 'x',
+      })
+    );
+    assert.equal(bad.status, 400);
+    assert.match(((await bad.json()) as { error: string }).error, /Week ending/);
+
+    const empty = await POST(new Request('http://localhost/api/import-jobs', { method: 'POST', body: '' }));
+    assert.equal(empty.status, 400);
+
+    // no Content-Length: the body is cut off at the cap
+    const huge = new ReadableStream<Uint8Array>({
+      start(controller) {
+        for (let i = 0; i <= IMPORT_JOB_MAX_BYTES / (1024 * 1024); i++) controller.enqueue(new Uint8Array(1024 * 1024));
+        controller.close();
+      },
+    });
+    const tooLarge = await POST(
+      new Request('http://localhost/api/import-jobs?fileName=huge.csv', { method: 'POST', body: huge, duplex: 'half' } as RequestInit)
+    );
+    assert.equal(tooLarge.status, 413);
+    assert.equal(started.length, 2);
+  } finally {
+    importJobService.startJob = originalStart;
+  }
+});
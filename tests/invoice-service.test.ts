@@ -0,0 +1,128 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
+import { eq, inArray } from 'drizzle-orm';
+import { invoiceService } from '../src/server/services/InvoiceService';
+import { timesheetService } from '../src/server/services/TimesheetService';
+import { importBatchService } from '../src/server/services/ImportBatchService';
+import { db } from '../src/server/db';
+import { developers, importBatches, invoices, projects, tasks, timeEntries } from '../src/server/db/schema';
+import { projectRouter } from '../src/server/routers/project';
+import { developerRouter } from '../src/server/routers/developer';
+import { taskRouter } from '../src/server/routers/task';
+import { formatInvoiceNumber } from '../src/lib/invoices';
+
+test('Story 9.6: issuing an invoice bills uninvoiced time, locks it, and voiding unlocks it', async () => {
+  const tag = `invoice-${Date.now()}`;
+  let projectId = 0;
+  const developerIds: number[] = [];
+  let batchId = 0;
+
+  try {
+    const [rated, unrated] = await db
+      .insert(developers)
+      .values([
+        { name: `${tag}-rated`, isActive: true, hourlyRate: 90 },
+        { name: `${tag}-unrated`, isActive: true },
+      ])
+      .returning();
+    developerIds.push(rated!.id, unrated!.id);
+    const [project] = await db.insert(projects).values({ name: `${tag}-proj`, status: 'active' }).returning();
+    projectId = project!.id;
+    const [task] = await db.insert(tasks).values({ projectId, name: `${tag}-build`, status: 'pending' }).returning();
+    const [batch] = await db
+      .insert(importBatches)
+      .values({ fileName: `${tag}.xlsx`, checksum: tag, rowCount: 1 })
+      .returning();
+    batchId = batch!.id;
+
+    const [first, second, , late] = await db
+      .insert(timeEntries)
+      .values([
+        { projectId, taskId: task!.id, developerId: rated!.id, startTime: new Date(2026, 4, 4, 9), durationMinutes: 120, importBatchId: batchId },
+        { projectId, developerId: rated!.id, startTime: new Date(2026, 4, 5, 9), durationMinutes: 30 },
+        { projectId, developerId: unrated!.id, startTime: new Date(2026, 4, 6, 9), durationMinutes: 60 },
+        { projectId, developerId: rated!.id, startTime: new Date(2026, 5, 1, 9), durationMinutes: 60 },
+      ])
+      .returning();
+    const may = { projectId, startDate: new Date(2026, 4, 1), endDate: new Date(2026, 4, 31), groupBy: 'task' as const };
+
+    const blocked = await invoiceService.previewInvoice(may);
+    assert.deepEqual(blocked.developersWithoutRate, [{ developerId: unrated!.id, developerName: `${tag}-unrated` }]);
+    await assert.rejects(invoiceService.createInvoice(may), /Set an hourly rate for .*-unrated/);
+
+    await db.update(developers).set({ hourlyRate: 60 }).where(eq(developers.id, unrated!.id));
+    const invoice = await invoiceService.createInvoice(may);
+    assert.equal(invoice.number, formatInvoiceNumber(invoice.id));
+    assert.equal(invoice.status, 'issued');
+    assert.equal(invoice.entryCount, 3);
+    assert.equal(invoice.totalHours, 3.5);
+    assert.equal(invoice.totalAmount, 180 + 45 + 60);
+    assert.deepEqual(
+      invoice.lines.map((line) => [line.label, line.hours, line.hourlyRate, line.amount]),
+      [
+        ['(no task)', 1, 60, 60],
+        ['(no task)', 0.5, 90, 45],
+        [`${tag}-build`, 2, 90, 180],
+      ]
+    );
+
+    // locked: edits, deletes, import replacement and discard are refused; June is untouched
+    await assert.rejects(timesheetService.updateEntry(first!.id, { description: 'x' }), /on invoice INV-.* is locked/);
+    await assert.rejects(timesheetService.deleteEntry(second!.id), /is locked/);
+    await assert.rejects(
+      timesheetService.bulkCreateEntries([], {
+        replacements: [{ id: first!.id, input: { projectId, developerId: rated!.id, startTime: first!.startTime, durationMinutes: 60 } }],
+      }),
+      /Void the invoice first/
+    );
+    await assert.rejects(importBatchService.discardBatch(batchId), /Void the invoice first/);
+    assert.equal((await importBatchService.getBatchById(batchId))?.status, 'active');
+    await assert.rejects(
+      developerRouter.createCaller({ headers: new Headers() }).delete({ id: rated!.id }),
+      /developer's time is on invoice .* is locked/
+    );
+    await assert.rejects(
+      taskRouter.createCaller({ headers: new Headers() }).delete({ id: task!.id }),
+      /task's time is on invoice .* is locked/
+    );
+    assert.equal((await db.query.timeEntries.findFirst({ where: eq(timeEntries.id, first!.id) }))?.taskId, task!.id);
+    assert.ok(await timesheetService.updateEntry(late!.id, { description: 'June' }));
+    await assert.rejects(invoiceService.createInvoice(may), /no uninvoiced billable time/);
+    const listed = await timesheetService.getEntriesByIds([first!.id, late!.id]);
+    assert.deepEqual(
+      listed.map((entry) => entry.invoiceNumber),
+      [null, invoice.number]
+    );
+
+    assert.equal((await invoiceService.listInvoices(projectId))[0]?.id, invoice.id);
+    assert.equal(invoiceService.exportToPDF(invoice).subarray(0, 8).toString('latin1'), '%PDF-1.4');
+    const workbook = XLSX.read(invoiceService.exportToXLSX(invoice), { type: 'buffer' });
+    assert.deepEqual(workbook.SheetNames, ['Invoice', 'Lines']);
+    assert.equal(workbook.Sheets.Lines!['A5']?.v, 'Total');
+    assert.equal(workbook.Sheets.Lines!['D5']?.v, 285);
+
+    const voided = await invoiceService.voidInvoice(invoice.id);
+    assert.equal(voided.invoice.status, 'void');
+    assert.equal(voided.unlockedEntries, 3);
+    await assert.rejects(invoiceService.voidInvoice(invoice.id), /already void/);
+    assert.ok(await timesheetService.updateEntry(first!.id, { description: 'after void' }));
+    assert.equal((await invoiceService.previewInvoice(may)).entryCount, 3);
+
+    // a void invoice keeps its number: the project still cannot be deleted
+    await assert.rejects(
+      projectRouter.createCaller({ headers: new Headers() }).delete({ id: projectId }),
+      /Projects with invoices cannot be deleted/
+    );
+    assert.ok(await db.query.projects.findFirst({ where: eq(projects.id, projectId) }));
+  } finally {
+    if (projectId) {
+      await db.delete(timeEntries).where(eq(timeEntries.projectId, projectId));
+      await db.delete(invoices).where(eq(invoices.projectId, projectId));
+      await db.delete(tasks).where(eq(tasks.projectId, projectId));
+      await db.delete(projects).where(eq(projects.id, projectId));
+    }
+    if (batchId) await db.delete(importBatches).where(eq(importBatches.id, batchId));
+    if (developerIds.length) await db.delete(developers).where(inArray(developers.id, developerIds));
+  }
+});
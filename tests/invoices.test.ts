@@ -0,0 +1,36 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { buildInvoiceLines, formatInvoiceNumber, roundMoney } from '../src/lib/invoices';
+
+const entries = [
+  { taskName: 'Build', developerName: 'Ana', durationMinutes: 90, hourlyRate: 100 },
+  { taskName: 'Build', developerName: 'Ben', durationMinutes: 60, hourlyRate: 80 },
+  { taskName: 'Build', developerName: 'Ana', durationMinutes: 30, hourlyRate: 100 },
+  { taskName: null, developerName: 'Ben', durationMinutes: 20, hourlyRate: 80 },
+];
+
+test('Story 9.6: buildInvoiceLines makes one line per task and rate', () => {
+  assert.deepEqual(buildInvoiceLines(entries, 'task'), [
+    { label: '(no task)', hours: 20 / 60, hourlyRate: 80, amount: 26.67 },
+    { label: 'Build', hours: 1, hourlyRate: 80, amount: 80 },
+    { label: 'Build', hours: 2, hourlyRate: 100, amount: 200 },
+  ]);
+});
+
+test('Story 9.6: buildInvoiceLines by developer', () => {
+  assert.deepEqual(
+    buildInvoiceLines(entries, 'developer').map((line) => [line.label, line.hours, line.amount]),
+    [
+      ['Ana', 2, 200],
+      ['Ben', 80 / 60, 106.67],
+    ]
+  );
+  assert.deepEqual(buildInvoiceLines([], 'developer'), []);
+});
+
+test('Story 9.6: invoice numbers and money rounding', () => {
+  assert.equal(formatInvoiceNumber(7), 'INV-0007');
+  assert.equal(formatInvoiceNumber(12345), 'INV-12345');
+  assert.equal(roundMoney(1.005), 1.01);
+  assert.equal(roundMoney(26.666), 26.67);
+});
@@ -0,0 +1,94 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
+import { parseIssueMarkdown } from '../src/lib/parse-issue-report';
+import { parseIssue } from '../src/lib/parse-issues';
+import { parseIssueReportService } from '../src/server/services/ParseIssueReportService';
+import { cleanupParserImportSideEffects } from './parser-db-cleanup';
+
+test('Story 7.13: parseIssueMarkdown lists errors then warnings, with a sheet column only when needed', () => {
+  const single = parseIssueMarkdown(
+    'feb.xlsx',
+    [
+      parseIssue('unknown_entity', 'error', 'Unknown project "A|B"', { sheet: 'Feb', row: 3, location: 'Row 3' }),
+      parseIssue('duration_rounded', 'warning', '0:50 rounded to 0:45', { sheet: 'Feb', row: 5, location: 'Row 5' }),
+    ]
+  );
+  assert.equal(
+    single,
+    [
+      '# Import issues — feb.xlsx',
+      '',
+      '1 error, 1 warning. Errors block the import: fix those rows and send the file back.',
+      '',
+      '## Errors',
+      '',
+      '| Location | Problem |',
+      '| --- | --- |',
+      '| Row 3 | Unknown project "A\\|B" |',
+      '',
+      '## Warnings',
+      '',
+      '| Location | Problem |',
+      '| --- | --- |',
+      '| Row 5 | 0:50 rounded to 0:45 |',
+      '',
+    ].join('\n')
+  );
+
+  const multi = parseIssueMarkdown(
+    'team.xlsx',
+    [parseIssue('row_error', 'error', 'x', { sheet: 'Bob', row: 3, location: 'Row 3' })],
+    true
+  );
+  assert.match(multi, /\| Sheet \| Location \| Problem \|\n\| --- \| --- \| --- \|\n\| Bob \| Row 3 \| x \|/);
+  assert.match(parseIssueMarkdown('ok.csv', []), /No problems found/);
+});
+
+test('Story 7.13: the annotated workbook adds an issues column, cell notes and a summary sheet', async () => {
+  const unique = Date.now();
+  const developerName = `QA Dev ${unique}`;
+  const projectName = `QA Project Issues ${unique}`;
+
+  const wb = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    wb,
+    XLSX.utils.aoa_to_sheet([
+      ['Developer', 'Project', 'Task', 'Date', 'Duration'],
+      [developerName, projectName, 'Build', '2026-02-02', 60],
+      [developerName, projectName, 'Build', '2026-02-03', 50],
+    ]),
+    'Feb'
+  );
+  const buf = XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+
+  try {
+    const report = await parseIssueReportService.buildReport(buf, 'feb.xlsx', 'xlsx', { rounding: 'strict' });
+    assert.equal(report.fileName, 'feb-issues.xlsx');
+
+    const annotated = XLSX.read(Buffer.from(report.content, 'base64'), { type: 'buffer' });
+    assert.deepEqual(annotated.SheetNames, ['Import issues', 'Feb']);
+    const feb = annotated.Sheets['Feb']!;
+    assert.equal(feb['F1']?.v, 'Import issues');
+    assert.equal(feb['F2'], undefined);
+    assert.equal(feb['F3']?.v, 'Error: Duration must be a multiple of 15 minutes');
+    assert.deepEqual(XLSX.utils.sheet_to_json(annotated.Sheets['Import issues']!, { header: 1 }), [
+      ['Severity', 'Sheet', 'Location', 'Problem'],
+      ['Error', 'Feb', '—', `Invalid projects (1/1): ${projectName}`],
+      ['Error', 'Feb', 'Row 3', 'Duration must be a multiple of 15 minutes'],
+    ]);
+
+    const notes = parseIssueReportService.annotateWorkbook(
+      XLSX.read(buf, { type: 'buffer' }),
+      [parseIssue('duration_rounded', 'warning', '0:50 rounded to 0:45', { sheet: 'Feb', row: 3, cell: 'E3' })]
+    );
+    const cell = XLSX.read(notes, { type: 'buffer' }).Sheets['Feb']!['E3'] as XLSX.CellObject;
+    assert.match(cell.c?.[0]?.t ?? '', /Warning: 0:50 rounded to 0:45/);
+
+    const markdown = await parseIssueReportService.buildReport(buf, 'feb.xlsx', 'markdown', { rounding: 'nearest' });
+    assert.equal(markdown.fileName, 'feb-issues.md');
+    assert.match(markdown.content, /\| Row 3 \| 0:50 rounded to 0:45 \|/);
+  } finally {
+    await cleanupParserImportSideEffects(developerName, projectName);
+  }
+});
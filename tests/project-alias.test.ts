@@ -0,0 +1,59 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '../src/server/db';
+import { projects } from '../src/server/db/schema';
+import { eq } from 'drizzle-orm';
+import { excelParser } from '../src/server/services/ExcelParser';
+import { projectAliasService } from '../src/server/services/ProjectAliasService';
+import { normalizeProjectAlias } from '../src/lib/project-alias';
+import { cleanupParserImportSideEffects, deleteProjectCascadeByName } from './parser-db-cleanup';
+
+test('normalizeProjectAlias trims, collapses whitespace and lowercases', () => {
+  assert.equal(normalizeProjectAlias('  VAN-01 '), 'van-01');
+  assert.equal(normalizeProjectAlias('Vandura   Web'), 'vandura web');
+});
+
+test('Story 3.4: aliases resolve in preview (not invalid) and import uses the mapped project', async () => {
+  const unique = Date.now();
+  const projectName = `QA Alias Project ${unique}`;
+  const developerName = `QA Alias Dev ${unique}`;
+  const code = `VAN-${unique}`;
+  const unknown = `Typo ${unique}`;
+
+  try {
+    const [project] = await db.insert(projects).values({ name: projectName, status: 'active' }).returning();
+
+    const rows = [
+      { Developer: developerName, Project: code.toLowerCase(), Task: 'T1', Date: '2026-02-05', Duration: 15 },
+      { Developer: developerName, Project: unknown, Task: 'T2', Date: '2026-02-05', Duration: 15 },
+    ];
+
+    const before = await excelParser.parseRows(rows, { mode: 'preview' });
+    assert.deepEqual(before.projects.invalid.sort(), [code.toLowerCase(), unknown].sort());
+
+    await projectAliasService.setAlias(` ${code} `, project.id);
+    const aliases = await projectAliasService.listAliases(project.id);
+    assert.deepEqual(
+      aliases.map((a) => a.alias),
+      [code.toLowerCase()]
+    );
+
+    const after = await excelParser.parseRows(rows, { mode: 'preview' });
+    assert.deepEqual(after.projects.invalid, [unknown]);
+    assert.deepEqual(after.projects.aliased, [
+      { code: code.toLowerCase(), projectId: project.id, projectName },
+    ]);
+
+    const imported = await excelParser.parseRows(rows.slice(0, 1));
+    assert.equal(imported.errors.length, 0);
+    assert.equal(imported.entries[0]!.projectId, project.id);
+    const created = await db.query.projects.findFirst({ where: eq(projects.name, code.toLowerCase()) });
+    assert.equal(created, undefined);
+
+    await assert.rejects(() => projectAliasService.setAlias('   ', project.id));
+  } finally {
+    // project_aliases rows cascade with the project
+    await cleanupParserImportSideEffects(developerName, projectName);
+    await deleteProjectCascadeByName(unknown);
+  }
+});
@@ -0,0 +1,41 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { rateHistoryStatuses, rateInForce } from '../src/lib/rate-history';
+
+const rates = [
+  { projectId: null, hourlyRate: 100, effectiveFrom: new Date(2026, 0, 1) },
+  { projectId: null, hourlyRate: 110, effectiveFrom: new Date(2026, 6, 1) },
+  { projectId: 7, hourlyRate: 150, effectiveFrom: new Date(2026, 3, 1) },
+];
+
+test('Story 9.5: rateInForce picks the latest rate on or before the time, project overrides first', () => {
+  assert.equal(rateInForce(rates, new Date(2025, 11, 31, 17), null, 80), 80);
+  assert.equal(rateInForce(rates, new Date(2026, 0, 1), null, 80), 100);
+  assert.equal(rateInForce(rates, new Date(2026, 6, 1, 9), null, 80), 110);
+  assert.equal(rateInForce(rates, new Date(2026, 2, 31, 9), 7, 80), 100);
+  assert.equal(rateInForce(rates, new Date(2026, 7, 3, 9), 7, 80), 150);
+  assert.equal(rateInForce(rates, new Date(2026, 7, 3, 9), 8, 80), 110);
+  assert.equal(rateInForce([], new Date(2026, 7, 3, 9), 7, null), null);
+});
+
+test('Story 9.8: the client default rate applies only when the developer has no rate', () => {
+  assert.equal(rateInForce([], new Date(2026, 7, 3, 9), 7, null, 95), 95);
+  assert.equal(rateInForce([], new Date(2026, 7, 3, 9), 7, 80, 95), 80);
+  assert.equal(rateInForce(rates, new Date(2026, 7, 3, 9), 8, null, 95), 110);
+});
+
+test('Story 9.5: rateHistoryStatuses marks past, current and scheduled rates per project, newest first', () => {
+  const statuses = rateHistoryStatuses(rates, new Date(2026, 4, 15));
+  assert.deepEqual(
+    statuses.map((rate) => [rate.hourlyRate, rate.status]),
+    [
+      [110, 'scheduled'],
+      [150, 'current'],
+      [100, 'current'],
+    ]
+  );
+  assert.deepEqual(
+    rateHistoryStatuses(rates, new Date(2026, 7, 1)).map((rate) => rate.status),
+    ['current', 'current', 'past']
+  );
+});
@@ -0,0 +1,108 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { eq, inArray } from 'drizzle-orm';
+import { aggregationEngine } from '../src/server/services/AggregationEngine';
+import { reportService } from '../src/server/services/ReportService';
+import { db } from '../src/server/db';
+import { developers, projects, tasks, timeEntries } from '../src/server/db/schema';
+
+test('Story 9.4: actuals, projects summary and productivity price time at developer rates', async () => {
+  const tag = `cost-${Date.now()}`;
+  let projectId = 0;
+  const developerIds: number[] = [];
+
+  try {
+    const [rated, unrated] = await db
+      .insert(developers)
+      .values([
+        { name: `${tag}-rated`, isActive: true, hourlyRate: 80 },
+        { name: `${tag}-unrated`, isActive: true },
+      ])
+      .returning();
+    developerIds.push(rated!.id, unrated!.id);
+    const [project] = await db
+      .insert(projects)
+      .values({ name: `${tag}-proj`, status: 'active', budgetAmount: 500 })
+      .returning();
+    projectId = project!.id;
+    const [build, review] = await db
+      .insert(tasks)
+      .values([
+        { projectId, name: `${tag}-build`, status: 'pending' },
+        { projectId, name: `${tag}-review`, status: 'pending' },
+      ])
+      .returning();
+
+    const at = new Date(2026, 3, 6, 9);
+    await db.insert(timeEntries).values([
+      { projectId, taskId: build!.id, developerId: rated!.id, startTime: at, durationMinutes: 240 },
+      { projectId, developerId: rated!.id, startTime: at, durationMinutes: 30 },
+      { projectId, taskId: review!.id, developerId: unrated!.id, startTime: at, durationMinutes: 60 },
+    ]);
+
+    const tbd = await aggregationEngine.getActualsVsEstimates(projectId, undefined, undefined, 'developer');
+    assert.deepEqual(tbd.cost, {
+      budgetAmount: 500,
+      actualCost: null,
+      variance: null,
+      variancePercentage: null,
+      developersWithoutRate: [{ developerId: unrated!.id, developerName: `${tag}-unrated` }],
+    });
+    assert.deepEqual(
+      tbd.tasks.map((t) => [t.taskName, t.actualCost]),
+      [
+        [`${tag}-build`, 320],
+        [`${tag}-review`, null],
+      ]
+    );
+    assert.deepEqual(
+      tbd.groups.map((g) => [g.label, g.actualCost]),
+      [
+        [`${tag}-rated`, 360],
+        [`${tag}-unrated`, null],
+      ]
+    );
+
+    const summaryTbd = (await reportService.getAllProjectsSummary()).find((p) => p.projectId === projectId)!;
+    assert.equal(summaryTbd.budgetAmount, 500);
+    assert.equal(summaryTbd.actualCost, null);
+    assert.equal(summaryTbd.costVariance, null);
+
+    await db.update(developers).set({ hourlyRate: 50 }).where(eq(developers.id, unrated!.id));
+
+    const priced = await aggregationEngine.getActualsVsEstimates(projectId, undefined, undefined, 'task');
+    assert.equal(priced.cost.actualCost, 410);
+    assert.equal(priced.cost.variance, -90);
+    assert.equal(priced.cost.variancePercentage, -18);
+    assert.deepEqual(priced.cost.developersWithoutRate, []);
+    assert.deepEqual(
+      priced.groups.map((g) => [g.label, g.actualCost]),
+      [
+        [`${tag}-build`, 320],
+        [`${tag}-review`, 50],
+        ['(no task)', 40],
+      ]
+    );
+
+    const byDay = await aggregationEngine.getActualsVsEstimates(projectId, undefined, undefined, 'day');
+    assert.deepEqual(
+      byDay.groups.map((g) => g.actualCost),
+      [410]
+    );
+
+    const summary = (await reportService.getAllProjectsSummary()).find((p) => p.projectId === projectId)!;
+    assert.equal(summary.actualCost, 410);
+    assert.equal(summary.costVariance, -90);
+
+    const [productivity] = await reportService.getDeveloperProductivity(rated!.id);
+    assert.equal(productivity?.averageHourlyRate, 80);
+    assert.equal(productivity?.totalCost, 360);
+  } finally {
+    if (projectId) {
+      await db.delete(timeEntries).where(eq(timeEntries.projectId, projectId));
+      await db.delete(tasks).where(eq(tasks.projectId, projectId));
+      await db.delete(projects).where(eq(projects.id, projectId));
+    }
+    if (developerIds.length) await db.delete(developers).where(inArray(developers.id, developerIds));
+  }
+});
@@ -0,0 +1,131 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { eq } from 'drizzle-orm';
+import { reportService } from '../src/server/services/ReportService';
+import { trailingBurnStart, TRAILING_BURN_DAYS } from '../src/lib/forecast';
+import { db } from '../src/server/db';
+import { developers, projects, tasks, timeEntries } from '../src/server/db/schema';
+
+test('Story 9.10: projectsSummary forecasts from task estimates and the trailing burn', async () => {
+  const tag = `forecast-${Date.now()}`;
+  let projectId = 0;
+  let developerId = 0;
+  const now = new Date(2026, 5, 10, 12);
+
+  try {
+    const [developer] = await db.insert(developers).values({ name: `${tag}-dev`, isActive: true }).returning();
+    developerId = developer!.id;
+    const [project] = await db
+      .insert(projects)
+      .values({ name: `${tag}-proj`, status: 'active', estimatedHours: 20, endDate: new Date(2026, 5, 30) })
+      .returning();
+    projectId = project!.id;
+    const [done, building] = await db
+      .insert(tasks)
+      .values([
+        { projectId, name: `${tag}-done`, status: 'completed', estimatedHours: 4 },
+        { projectId, name: `${tag}-building`, status: 'in-progress', estimatedHours: 10 },
+        { projectId, name: `${tag}-fresh`, status: 'pending' },
+        // blocked work is not open: left out of the counts and the remaining estimates
+        { projectId, name: `${tag}-stuck`, status: 'blocked', estimatedHours: 8 },
+      ])
+      .returning();
+
+    await db.insert(timeEntries).values([
+      // before the 28-day window: counts toward actuals, not the burn rate
+      { projectId, taskId: done!.id, developerId, startTime: new Date(2026, 3, 1, 9), durationMinutes: 360 },
+      // inside the window: 14h → 0.5h a day
+      { projectId, taskId: building!.id, developerId, startTime: new Date(2026, 5, 1, 9), durationMinutes: 240 },
+      { projectId, developerId, startTime: new Date(2026, 5, 9, 9), durationMinutes: 600 },
+    ]);
+
+    const [byEstimates] = await reportService.getAllProjectsSummary({ projectId }, 'remaining-estimates', now);
+    assert.equal(byEstimates?.actualHours, 20);
+    assert.deepEqual(
+      {
+        burn: byEstimates?.forecast.burnRateHoursPerDay,
+        remaining: byEstimates?.forecast.remainingHours,
+        eac: byEstimates?.forecast.estimateAtCompletion,
+        finish: byEstimates?.forecast.projectedFinishDate,
+        overHours: byEstimates?.forecast.projectedOverrunHours,
+        overDays: byEstimates?.forecast.projectedOverrunDays,
+        open: byEstimates?.forecast.openTaskCount,
+        unestimated: byEstimates?.forecast.openTasksWithoutEstimate,
+      },
+      {
+        burn: 0.5,
+        remaining: 6, // building: 10h estimate − 4h logged; fresh has no estimate
+        eac: 26,
+        finish: new Date(2026, 5, 22),
+        overHours: 6,
+        overDays: -8,
+        open: 2,
+        unestimated: 1,
+      }
+    );
+
+    // the burn rate is the getTimeline days of the trailing window
+    const timeline = await reportService.getTimeline(projectId, trailingBurnStart(now), now);
+    const timelineMinutes = timeline.reduce((sum, day) => sum + day.totalMinutes, 0);
+    assert.equal(byEstimates?.forecast.burnRateHoursPerDay, timelineMinutes / 60 / TRAILING_BURN_DAYS);
+
+    const [byBurn] = await reportService.getAllProjectsSummary({ projectId }, 'trailing-burn', now);
+    assert.equal(byBurn?.forecast.remainingHours, 10); // 0.5h a day for the 20 days to June 30
+    assert.equal(byBurn?.forecast.estimateAtCompletion, 30);
+    assert.equal(byBurn?.forecast.projectedOverrunHours, 10);
+    assert.deepEqual(byBurn?.forecast.projectedFinishDate, new Date(2026, 5, 22));
+  } finally {
+    if (projectId) {
+      await db.delete(timeEntries).where(eq(timeEntries.projectId, projectId));
+      await db.delete(tasks).where(eq(tasks.projectId, projectId));
+      await db.delete(projects).where(eq(projects.id, projectId));
+    }
+    if (developerId) await db.delete(developers).where(eq(developers.id, developerId));
+  }
+});
+
+test('Story 9.10: only leaf tasks count as open work, so parents and subtasks are not counted twice', async () => {
+  const tag = `forecast-tree-${Date.now()}`;
+  let projectId = 0;
+  let developerId = 0;
+  const now = new Date(2026, 5, 10, 12);
+
+  try {
+    const [developer] = await db.insert(developers).values({ name: `${tag}-dev`, isActive: true }).returning();
+    developerId = developer!.id;
+    const [project] = await db.insert(projects).values({ name: `${tag}-proj`, status: 'active' }).returning();
+    projectId = project!.id;
+    const [parent] = await db
+      .insert(tasks)
+      .values({ projectId, name: `${tag}-parent`, status: 'in-progress', estimatedHours: 8 })
+      .returning();
+    const [open] = await db
+      .insert(tasks)
+      .values([
+        { projectId, parentTaskId: parent!.id, name: `${tag}-open`, status: 'in-progress', estimatedHours: 5 },
+        { projectId, parentTaskId: parent!.id, name: `${tag}-done`, status: 'completed', estimatedHours: 3 },
+        { projectId, parentTaskId: parent!.id, name: `${tag}-unestimated`, status: 'pending' },
+      ])
+      .returning();
+    await db
+      .insert(timeEntries)
+      .values({ projectId, taskId: open!.id, developerId, startTime: new Date(2026, 5, 1, 9), durationMinutes: 60 });
+
+    const [summary] = await reportService.getAllProjectsSummary({ projectId }, 'remaining-estimates', now);
+    assert.deepEqual(
+      {
+        open: summary?.forecast.openTaskCount,
+        unestimated: summary?.forecast.openTasksWithoutEstimate,
+        remaining: summary?.forecast.remainingHours,
+      },
+      { open: 2, unestimated: 1, remaining: 4 } // the parent's 8h is not added on top of its subtasks
+    );
+  } finally {
+    if (projectId) {
+      await db.delete(timeEntries).where(eq(timeEntries.projectId, projectId));
+      await db.delete(tasks).where(eq(tasks.projectId, projectId));
+      await db.delete(projects).where(eq(projects.id, projectId));
+    }
+    if (developerId) await db.delete(developers).where(eq(developers.id, developerId));
+  }
+});
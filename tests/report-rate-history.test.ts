@@ -0,0 +1,93 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { eq, inArray } from 'drizzle-orm';
+import { aggregationEngine } from '../src/server/services/AggregationEngine';
+import { reportService } from '../src/server/services/ReportService';
+import { developerRouter } from '../src/server/routers/developer';
+import { db } from '../src/server/db';
+import { developerRates, developers, projects, timeEntries } from '../src/server/db/schema';
+
+test('Story 9.5: cost uses the rate in force at each entry, with per-project overrides', async () => {
+  const tag = `rates-${Date.now()}`;
+  const caller = developerRouter.createCaller({ headers: new Headers() });
+  const projectIds: number[] = [];
+  let developerId = 0;
+
+  try {
+    const [developer] = await db
+      .insert(developers)
+      .values({ name: `${tag}-dev`, isActive: true, hourlyRate: 80 })
+      .returning();
+    developerId = developer!.id;
+    const [main, other] = await db
+      .insert(projects)
+      .values([
+        { name: `${tag}-main`, status: 'active', budgetAmount: 1000 },
+        { name: `${tag}-other`, status: 'active' },
+      ])
+      .returning();
+    projectIds.push(main!.id, other!.id);
+
+    await caller.addRate({ developerId, hourlyRate: 100, effectiveFrom: new Date(2026, 1, 1, 15) });
+    await caller.addRate({ developerId, projectId: main!.id, hourlyRate: 150, effectiveFrom: new Date(2026, 2, 1) });
+    await assert.rejects(
+      caller.addRate({ developerId, hourlyRate: 120, effectiveFrom: new Date(2026, 1, 1) }),
+      /already starts on that date/
+    );
+
+    await db.insert(timeEntries).values([
+      // base rate (before the first dated rate)
+      { projectId: main!.id, developerId, startTime: new Date(2026, 0, 20, 9), durationMinutes: 60 },
+      // general rate from the start of Feb 1, not the time it was entered
+      { projectId: main!.id, developerId, startTime: new Date(2026, 1, 1, 9), durationMinutes: 60 },
+      // project override
+      { projectId: main!.id, developerId, startTime: new Date(2026, 2, 2, 9), durationMinutes: 120 },
+      // general rate on a project without an override
+      { projectId: other!.id, developerId, startTime: new Date(2026, 2, 2, 13), durationMinutes: 60 },
+    ]);
+
+    const report = await aggregationEngine.getActualsVsEstimates(main!.id, undefined, undefined, 'week');
+    assert.equal(report.cost.actualCost, 80 + 100 + 300);
+    assert.deepEqual(
+      report.groups.map((g) => g.actualCost),
+      [80, 100, 300]
+    );
+
+    const summary = (await reportService.getAllProjectsSummary()).filter((p) => projectIds.includes(p.projectId));
+    assert.deepEqual(
+      summary.map((p) => p.actualCost),
+      [480, 100]
+    );
+
+    const [productivity] = await reportService.getDeveloperProductivity(developerId);
+    assert.equal(productivity?.totalCost, 580);
+    assert.equal(productivity?.averageHourlyRate, 580 / 5);
+
+    // a future rate leaves logged time alone
+    const future = await caller.addRate({ developerId, hourlyRate: 200, effectiveFrom: new Date(2099, 0, 1) });
+    assert.equal((await aggregationEngine.getActualsVsEstimates(main!.id)).cost.actualCost, 480);
+    assert.deepEqual(
+      (await caller.rates({ developerId })).map((r) => [r.hourlyRate, r.projectName]),
+      [
+        [100, null],
+        [150, `${tag}-main`],
+        [200, null],
+      ]
+    );
+    const listed = (await caller.list()).find((d) => d.id === developerId);
+    assert.equal(listed?.currentHourlyRate, 100);
+
+    // removing the override falls back to the general rate
+    const override = (await caller.rates({ developerId })).find((r) => r.projectId === main!.id)!;
+    assert.equal(await caller.deleteRate({ id: override.id }), true);
+    assert.equal((await aggregationEngine.getActualsVsEstimates(main!.id)).cost.actualCost, 80 + 100 + 200);
+    assert.equal(await caller.deleteRate({ id: future!.id }), true);
+  } finally {
+    if (developerId) await db.delete(developerRates).where(eq(developerRates.developerId, developerId));
+    if (projectIds.length) {
+      await db.delete(timeEntries).where(inArray(timeEntries.projectId, projectIds));
+      await db.delete(projects).where(inArray(projects.id, projectIds));
+    }
+    if (developerId) await db.delete(developers).where(eq(developers.id, developerId));
+  }
+});
@@ -1,5 +1,6 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
 import { reportRouter } from '../src/server/routers/report';
 import { reportService } from '../src/server/services/ReportService';
 
@@ -14,8 +15,13 @@ test('exportCSV filename uses project name', async () => {
       projectName: 'QA Project',
       totalEstimatedHours: 0,
       totalActualHours: 1,
+      totalBillableHours: 1,
+      totalNonBillableHours: 0,
       variance: 1,
       variancePercentage: 0,
+      groupBy: 'task',
+      groups: [],
+      cost: { budgetAmount: null, actualCost: null, variance: null, variancePercentage: null, developersWithoutRate: [] },
       tasks: [],
     });
     Date.now = () => now;
@@ -29,3 +35,49 @@ test('exportCSV filename uses project name', async () => {
     Date.now = originalNow;
   }
 });
+
+test('Story 9.1: exportXLSX passes the report filters through and returns the workbook as base64', async () => {
+  const originalData = reportService.getActualsWorkbookData;
+  const originalNow = Date.now;
+  const now = 1760000000000;
+
+  try {
+    const seen: unknown[][] = [];
+    reportService.getActualsWorkbookData = async (...args) => {
+      seen.push(args);
+      return {
+        report: {
+          projectId: 123,
+          projectName: 'QA/Project',
+          totalEstimatedHours: 4,
+          totalActualHours: 1,
+          totalBillableHours: 1,
+          totalNonBillableHours: 0,
+          variance: -3,
+          variancePercentage: -75,
+          groupBy: 'task',
+          groups: [],
+          cost: { budgetAmount: null, actualCost: null, variance: null, variancePercentage: null, developersWithoutRate: [] },
+          tasks: [],
+        },
+        period: null,
+        developers: [],
+        entries: [],
+      };
+    };
+    Date.now = () => now;
+
+    const caller = reportRouter.createCaller({ headers: new Headers() });
+    const start = new Date(2026, 0, 1);
+    const end = new Date(2026, 0, 31, 23, 59, 59, 999);
+    const result = await caller.exportXLSX({ projectId: 123, startDate: start, endDate: end });
+
+    assert.deepEqual(seen, [[123, start, end]]);
+    assert.equal(result.filename, `actuals-report-QA-Project-${now}.xlsx`);
+    const wb = XLSX.read(Buffer.from(result.content, 'base64'), { type: 'buffer' });
+    assert.deepEqual(wb.SheetNames, ['Summary', 'Tasks', 'Developers', 'Entries']);
+  } finally {
+    reportService.getActualsWorkbookData = originalData;
+    Date.now = originalNow;
+  }
+});
@@ -1,6 +1,32 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
+import { eq } from 'drizzle-orm';
 import { reportService } from '../src/server/services/ReportService';
+import { db } from '../src/server/db';
+import { developers, projects, tasks, timeEntries } from '../src/server/db/schema';
+import type { ActualsVsEstimates } from '../src/server/services/AggregationEngine';
+
+/** A top-level task row without subtasks (its rollup is its own hours); cost TBD unless given. */
+function flatTask(
+  task: Omit<ActualsVsEstimates['tasks'][number], 'parentTaskId' | 'rollup' | 'actualCost'> & { actualCost?: number | null }
+): ActualsVsEstimates['tasks'][number] {
+  const { estimatedHours, actualHours, variance, variancePercentage, actualCost = null } = task;
+  return {
+    ...task,
+    parentTaskId: null,
+    actualCost,
+    rollup: { estimatedHours, actualHours, variance, variancePercentage, actualCost, subtaskCount: 0 },
+  };
+}
+
+const noCost: ActualsVsEstimates['cost'] = {
+  budgetAmount: null,
+  actualCost: null,
+  variance: null,
+  variancePercentage: null,
+  developersWithoutRate: [],
+};
 
 test('exportToCSV preserves zero estimated hours (project + task)', () => {
   const csv = reportService.exportToCSV({
@@ -8,17 +34,22 @@ test('exportToCSV preserves zero estimated hours (project + task)', () => {
     projectName: 'QA Project',
     totalEstimatedHours: 0,
     totalActualHours: 1.25,
+    totalBillableHours: 1.25,
+    totalNonBillableHours: 0,
     variance: 1.25,
     variancePercentage: 0,
+    groupBy: 'task',
+    groups: [],
+    cost: noCost,
     tasks: [
-      {
+      flatTask({
         taskId: 1,
         taskName: 'QA Task',
         estimatedHours: 0,
         actualHours: 1.25,
         variance: 1.25,
         variancePercentage: 0,
-      },
+      }),
     ],
   });
 
@@ -33,17 +64,22 @@ test('exportToCSV uses TBD for null project budget and null task estimate', () =
     projectName: 'P',
     totalEstimatedHours: null,
     totalActualHours: 2,
+    totalBillableHours: 2,
+    totalNonBillableHours: 0,
     variance: 0,
     variancePercentage: 0,
+    groupBy: 'task',
+    groups: [],
+    cost: noCost,
     tasks: [
-      {
+      flatTask({
         taskId: 1,
         taskName: 'T',
         estimatedHours: null,
         actualHours: 1,
         variance: 0,
         variancePercentage: 0,
-      },
+      }),
     ],
   });
   assert.match(csv, /Total Estimated Hours,TBD/);
@@ -56,8 +92,13 @@ test('exportToCSV escapes project name containing commas', () => {
     projectName: 'QA, Project',
     totalEstimatedHours: 1,
     totalActualHours: 1,
+    totalBillableHours: 1,
+    totalNonBillableHours: 0,
     variance: 0,
     variancePercentage: 0,
+    groupBy: 'task',
+    groups: [],
+    cost: noCost,
     tasks: [],
   });
 
@@ -70,17 +111,22 @@ test('exportToCSV escapes quotes in task names', () => {
     projectName: 'QA Project',
     totalEstimatedHours: 1,
     totalActualHours: 1,
+    totalBillableHours: 1,
+    totalNonBillableHours: 0,
     variance: 0,
     variancePercentage: 0,
+    groupBy: 'task',
+    groups: [],
+    cost: noCost,
     tasks: [
-      {
+      flatTask({
         taskId: 1,
         taskName: 'QA "Task"',
         estimatedHours: 1,
         actualHours: 1,
         variance: 0,
         variancePercentage: 0,
-      },
+      }),
     ],
   });
 
@@ -93,10 +139,182 @@ test('exportToCSV escapes quotes in project name', () => {
     projectName: 'QA "Project"',
     totalEstimatedHours: 1,
     totalActualHours: 1,
+    totalBillableHours: 1,
+    totalNonBillableHours: 0,
     variance: 0,
     variancePercentage: 0,
+    groupBy: 'task',
+    groups: [],
+    cost: noCost,
     tasks: [],
   });
 
   assert.match(csv, /Project,"QA ""Project"""/);
-});
\ No newline at end of file
+});
+test('Story 9.2: exportToCSV lists the report groups when not grouped by task', () => {
+  const csv = reportService.exportToCSV({
+    projectId: 4,
+    projectName: 'QA Project',
+    totalEstimatedHours: 10,
+    totalActualHours: 4,
+    totalBillableHours: 4,
+    totalNonBillableHours: 0,
+    variance: -6,
+    variancePercentage: -60,
+    groupBy: 'week',
+    groups: [
+      {
+        key: '2026-01-05',
+        label: 'Week of 2026-01-05',
+        periodStart: new Date(2026, 0, 5),
+        estimatedHours: null,
+        actualHours: 3,
+        billableHours: 3,
+        entryCount: 3,
+        variance: 0,
+        variancePercentage: 0,
+        actualCost: null,
+      },
+      {
+        key: '2026-01-12',
+        label: 'Week of 2026-01-12',
+        periodStart: new Date(2026, 0, 12),
+        estimatedHours: null,
+        actualHours: 1,
+        billableHours: 1,
+        entryCount: 1,
+        variance: 0,
+        variancePercentage: 0,
+        actualCost: null,
+      },
+    ],
+    cost: noCost,
+    tasks: [],
+  });
+
+  assert.match(csv, /Total Estimated Hours,10\n/);
+  assert.match(csv, /\nWeek,Actual Hours,Entries,Share of Actual %\n"Week of 2026-01-05",3\.00,3,75\.0%\n"Week of 2026-01-12",1\.00,1,25\.0%$/);
+  assert.doesNotMatch(csv, /Task,Estimated Hours/);
+});
+
+test('Story 9.1: exportToXLSX writes summary, task, developer and entry sheets with formats and frozen headers', () => {
+  const buf = reportService.exportToXLSX({
+    report: {
+      projectId: 1,
+      projectName: 'QA Project',
+      totalEstimatedHours: null,
+      totalActualHours: 3,
+      totalBillableHours: 3,
+      totalNonBillableHours: 0,
+      variance: 0,
+      variancePercentage: 0,
+      groupBy: 'task',
+      groups: [],
+      cost: noCost,
+      tasks: [
+        flatTask({ taskId: 1, taskName: 'Build', estimatedHours: 2, actualHours: 2.5, variance: 0.5, variancePercentage: 25 }),
+        flatTask({ taskId: 2, taskName: 'Test', estimatedHours: null, actualHours: 0, variance: 0, variancePercentage: 0 }),
+      ],
+    },
+    period: null,
+    developers: [{ developerId: 1, developerName: 'Dev A', totalMinutes: 180, totalHours: 3, entryCount: 2, billableHours: 3, totalCost: null }],
+    entries: [
+      {
+        startTime: new Date(2026, 1, 2, 9, 0),
+        developerName: 'Dev A',
+        taskName: 'Build',
+        durationMinutes: 150,
+        description: 'Parser',
+        source: { type: 'excel', fileName: 'feb.xlsx', sheet: 'Feb', row: 3 },
+      },
+      { startTime: new Date(2026, 1, 3, 9, 0), developerName: 'Dev A', taskName: null, durationMinutes: 30, description: null, source: null },
+    ],
+  });
+
+  const wb = XLSX.read(buf, { type: 'buffer', cellNF: true });
+  assert.deepEqual(wb.SheetNames, ['Summary', 'Tasks', 'Developers', 'Entries']);
+
+  const summary = wb.Sheets['Summary']!;
+  assert.equal(summary['B3']?.v, 'All time');
+  assert.equal(summary['B5']?.v, 'TBD');
+  assert.equal(summary['B6']?.v, 'TBD');
+  assert.equal(summary['B7']?.v, 3);
+  assert.equal(summary['B8']?.v, 'TBD');
+
+  const taskRows = XLSX.utils.sheet_to_json<unknown[]>(wb.Sheets['Tasks']!, { header: 1, defval: null });
+  assert.deepEqual(taskRows.slice(1), [
+    ['Build', 2, 2.5, 0.5, 0.25],
+    ['Test', 'TBD', 0, 'TBD', 'TBD'],
+    ['(no task)', null, 0.5, null, null],
+  ]);
+  assert.equal(wb.Sheets['Tasks']!['C2']?.z, '0.00');
+  assert.equal(wb.Sheets['Tasks']!['E2']?.z, '0.0%');
+  assert.equal(wb.Sheets['Developers']!['D2']?.v, 1);
+
+  const entries = wb.Sheets['Entries']!;
+  assert.equal(entries['A2']?.z, 'yyyy-mm-dd hh:mm');
+  assert.equal(entries['D2']?.v, 2.5);
+  assert.equal(entries['F2']?.v, 'Excel import — feb.xlsx, sheet "Feb", row 3');
+
+  const zip = XLSX.CFB.read(buf, { type: 'buffer' });
+  const sheetXml = zip.FullPaths.map((path: string, i: number) => ({ path, i }))
+    .filter(({ path }: { path: string }) => /xl\/worksheets\/sheet\d+\.xml$/.test(path))
+    .map(({ i }: { i: number }) => Buffer.from(zip.FileIndex[i].content).toString('utf8'));
+  assert.equal(sheetXml.length, 4);
+  for (const xml of sheetXml) assert.match(xml, /<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"\/>/);
+});
+
+test('Story 9.1: getActualsWorkbookData applies the report date filters to developers and entries', async () => {
+  const tag = `xlsx-${Date.now()}`;
+  let projectId = 0;
+  const developerIds: number[] = [];
+
+  try {
+    const [devA, devB] = await db
+      .insert(developers)
+      .values([
+        { name: `${tag}-a`, isActive: true },
+        { name: `${tag}-b`, isActive: true },
+      ])
+      .returning();
+    developerIds.push(devA!.id, devB!.id);
+    const [project] = await db.insert(projects).values({ name: `${tag}-proj`, status: 'active', estimatedHours: 10 }).returning();
+    projectId = project!.id;
+    const [task] = await db.insert(tasks).values({ projectId, name: `${tag}-task`, status: 'pending' }).returning();
+    await db.insert(timeEntries).values([
+      { projectId, taskId: task!.id, developerId: devA!.id, startTime: new Date(2026, 0, 5, 9), durationMinutes: 60 },
+      { projectId, developerId: devA!.id, startTime: new Date(2026, 0, 6, 9), durationMinutes: 30 },
+      { projectId, taskId: task!.id, developerId: devB!.id, startTime: new Date(2026, 1, 5, 9), durationMinutes: 120 },
+    ]);
+
+    const january = await reportService.getActualsWorkbookData(projectId, new Date(2026, 0, 1), new Date(2026, 0, 31));
+    assert.equal(january.report.totalActualHours, 1.5);
+    assert.deepEqual(january.period, { start: new Date(2026, 0, 1), end: new Date(2026, 0, 31) });
+    assert.deepEqual(
+      january.developers.map((d) => [d.developerName, d.totalMinutes]),
+      [[`${tag}-a`, 90]]
+    );
+    assert.deepEqual(
+      january.entries.map((e) => [e.taskName, e.durationMinutes]),
+      [
+        [`${tag}-task`, 60],
+        [null, 30],
+      ]
+    );
+
+    const allTime = await reportService.getActualsWorkbookData(projectId);
+    assert.equal(allTime.period, null);
+    assert.equal(allTime.entries.length, 3);
+    assert.deepEqual(
+      allTime.developers.map((d) => d.developerName),
+      [`${tag}-b`, `${tag}-a`]
+    );
+  } finally {
+    if (projectId) {
+      await db.delete(timeEntries).where(eq(timeEntries.projectId, projectId));
+      await db.delete(tasks).where(eq(tasks.projectId, projectId));
+      await db.delete(projects).where(eq(projects.id, projectId));
+    }
+    for (const id of developerIds) await db.delete(developers).where(eq(developers.id, id));
+  }
+});
@@ -0,0 +1,41 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { db } from '../src/server/db';
+import { appSettings } from '../src/server/db/schema';
+import { eq } from 'drizzle-orm';
+import { settingsService } from '../src/server/services/SettingsService';
+import { DEFAULT_APP_SETTINGS } from '../src/lib/app-settings';
+
+test('SettingsService merges stored values over defaults and ignores malformed rows', async () => {
+  const original = await db.select().from(appSettings).where(eq(appSettings.key, 'importStrictMode'));
+
+  try {
+    await db.delete(appSettings).where(eq(appSettings.key, 'importStrictMode'));
+    assert.deepEqual(await settingsService.getSettings(), DEFAULT_APP_SETTINGS);
+
+    const updated = await settingsService.updateSettings({ importStrictMode: true });
+    assert.equal(updated.importStrictMode, true);
+    assert.equal((await settingsService.getSettings()).importStrictMode, true);
+
+    await db.update(appSettings).set({ value: '"yes"' }).where(eq(appSettings.key, 'importStrictMode'));
+    assert.equal((await settingsService.getSettings()).importStrictMode, DEFAULT_APP_SETTINGS.importStrictMode);
+  } finally {
+    await db.delete(appSettings).where(eq(appSettings.key, 'importStrictMode'));
+    if (original[0]) await db.insert(appSettings).values(original[0]);
+  }
+});
+
+test('Story 7.6: a stored rounding policy outside the allowed list falls back to the default', async () => {
+  const original = await db.select().from(appSettings).where(eq(appSettings.key, 'trackerImportRounding'));
+
+  try {
+    const updated = await settingsService.updateSettings({ trackerImportRounding: 'up' });
+    assert.equal(updated.trackerImportRounding, 'up');
+
+    await db.update(appSettings).set({ value: '"sideways"' }).where(eq(appSettings.key, 'trackerImportRounding'));
+    assert.equal((await settingsService.getSettings()).trackerImportRounding, DEFAULT_APP_SETTINGS.trackerImportRounding);
+  } finally {
+    await db.delete(appSettings).where(eq(appSettings.key, 'trackerImportRounding'));
+    if (original[0]) await db.insert(appSettings).values(original[0]);
+  }
+});
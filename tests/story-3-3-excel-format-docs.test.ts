@@ -9,9 +9,10 @@ import { excelParser } from '../src/server/services/ExcelParser';
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const repoRoot = path.join(__dirname, '..');
 
-/** Must match `src/app/timesheets/upload/page.tsx` (Story 3.3 DoD). */
+/** Must match `src/app/timesheets/upload/page.tsx` (Story 3.3 DoD; duplicate copy updated for Story 7.1). */
 const STORY_33_EXACT_COPY = {
-  duplicate: 'Importing the same file twice will create duplicate entries.',
+  duplicate:
+    'Re-importing the same file skips rows that already exist; rows that changed are held for your review.',
   timezone: 'All times are treated as local machine time (no timezone conversion).',
 } as const;
 
@@ -315,3 +315,84 @@ test('Story 6.3: duplicate story # on update — BAD_REQUEST with UX copy', asyn
     }
   }
 });
+
+test('Story 9.3: parent task must be in the project and cannot create a cycle', async () => {
+  const caller = taskRouter.createCaller({ headers: new Headers() });
+  const tag = `t93-parent-${Date.now()}`;
+  const projectIds: number[] = [];
+  try {
+    const [p, other] = await sharedDb
+      .insert(schema.projects)
+      .values([
+        { name: `${tag}-proj`, status: 'active' },
+        { name: `${tag}-other`, status: 'active' },
+      ])
+      .returning();
+    projectIds.push(p.id, other.id);
+    const epic = await caller.create({ projectId: p.id, name: `${tag}-epic`, status: 'pending' });
+    const story = await caller.create({
+      projectId: p.id,
+      name: `${tag}-story`,
+      status: 'pending',
+      parentTaskId: epic.id,
+    });
+    const subtask = await caller.create({
+      projectId: p.id,
+      name: `${tag}-sub`,
+      status: 'pending',
+      parentTaskId: story.id,
+    });
+    const foreign = await caller.create({ projectId: other.id, name: `${tag}-foreign`, status: 'pending' });
+    assert.equal(subtask.parentTaskId, story.id);
+
+    await assert.rejects(
+      () => caller.create({ projectId: p.id, name: `${tag}-x`, status: 'pending', parentTaskId: foreign.id }),
+      (e: unknown) => isTrpcBadRequest(e, 'The parent task must be a task in the same project')
+    );
+    await assert.rejects(
+      () => caller.update({ id: epic.id, data: { parentTaskId: epic.id } }),
+      (e: unknown) => isTrpcBadRequest(e, 'A task cannot be its own parent')
+    );
+    await assert.rejects(
+      () => caller.update({ id: epic.id, data: { parentTaskId: subtask.id } }),
+      (e: unknown) => isTrpcBadRequest(e, 'A task cannot be its own parent')
+    );
+
+    const moved = await caller.update({ id: subtask.id, data: { parentTaskId: epic.id } });
+    assert.equal(moved.parentTaskId, epic.id);
+    const topLevel = await caller.update({ id: story.id, data: { parentTaskId: null } });
+    assert.equal(topLevel.parentTaskId, null);
+  } finally {
+    for (const projectId of projectIds) {
+      await sharedDb.delete(tasks).where(eq(tasks.projectId, projectId));
+      await sharedDb.delete(schema.projects).where(eq(schema.projects.id, projectId));
+    }
+  }
+});
+
+test('Story 9.3: deleting a parent moves its subtasks up a level', async () => {
+  const caller = taskRouter.createCaller({ headers: new Headers() });
+  const tag = `t93-delete-${Date.now()}`;
+  let projectId: number | null = null;
+  try {
+    const [p] = await sharedDb.insert(schema.projects).values({ name: `${tag}-proj`, status: 'active' }).returning();
+    projectId = p.id;
+    const epic = await caller.create({ projectId: p.id, name: `${tag}-epic`, status: 'pending' });
+    const story = await caller.create({ projectId: p.id, name: `${tag}-story`, status: 'pending', parentTaskId: epic.id });
+    const subtask = await caller.create({
+      projectId: p.id,
+      name: `${tag}-sub`,
+      status: 'pending',
+      parentTaskId: story.id,
+    });
+
+    assert.equal(await caller.delete({ id: story.id }), true);
+    const after = await caller.get({ id: subtask.id });
+    assert.equal(after?.parentTaskId, epic.id);
+  } finally {
+    if (projectId != null) {
+      await sharedDb.delete(tasks).where(eq(tasks.projectId, projectId));
+      await sharedDb.delete(schema.projects).where(eq(schema.projects.id, projectId));
+    }
+  }
+});
@@ -0,0 +1,89 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildTaskTree,
+  flattenTaskTree,
+  parentTaskOptions,
+  rollUpTaskHours,
+  taskTreeParentIds,
+  wouldCreateTaskCycle,
+} from '../src/lib/task-tree';
+
+const task = (id: number, parentTaskId: number | null, estimatedHours: number | null = 1, actualHours = 0) => ({
+  id,
+  parentTaskId,
+  estimatedHours,
+  actualHours,
+});
+
+test('Story 9.3: buildTaskTree nests subtasks in list order; unknown parents and loops become roots', () => {
+  const tree = buildTaskTree([task(3, 1), task(1, null), task(2, 1), task(4, 99), task(5, 6), task(6, 5), task(7, 3)]);
+  assert.deepEqual(
+    tree.map((n) => [n.task.id, n.children.map((c) => c.task.id)]),
+    [
+      [1, [3, 2]],
+      [4, []],
+      [5, []],
+      [6, []],
+    ]
+  );
+  assert.equal(tree[0]!.children[0]!.children[0]!.depth, 2);
+});
+
+test('Story 9.3: flattenTaskTree skips collapsed subtasks', () => {
+  const tree = buildTaskTree([task(1, null), task(2, 1), task(3, 2), task(4, null)]);
+  const all = taskTreeParentIds(tree);
+  assert.deepEqual([...all], [1, 2]);
+  assert.deepEqual(
+    flattenTaskTree(tree, all).map((r) => [r.task.id, r.depth, r.hasChildren, r.expanded]),
+    [
+      [1, 0, true, true],
+      [2, 1, true, true],
+      [3, 2, false, false],
+      [4, 0, false, false],
+    ]
+  );
+  assert.deepEqual(
+    flattenTaskTree(tree, new Set([2])).map((r) => r.task.id),
+    [1, 4]
+  );
+});
+
+test('Story 9.3: rollUpTaskHours adds the parent own estimate to its subtasks; TBD anywhere below is TBD', () => {
+  const rollups = rollUpTaskHours([
+    task(1, null, 2, 1),
+    task(2, 1, 3, 0.5),
+    task(3, 2, 4, 2),
+    task(4, null, 0, 0),
+    task(5, 4, 1, 1),
+    task(6, 4, null, 3),
+  ]);
+  assert.deepEqual(rollups.get(1), { estimatedHours: 9, actualHours: 3.5, actualCost: 0, subtaskCount: 2 });
+  assert.deepEqual(rollups.get(2), { estimatedHours: 7, actualHours: 2.5, actualCost: 0, subtaskCount: 1 });
+  assert.deepEqual(rollups.get(3), { estimatedHours: 4, actualHours: 2, actualCost: 0, subtaskCount: 0 });
+  assert.deepEqual(rollups.get(4), { estimatedHours: null, actualHours: 4, actualCost: 0, subtaskCount: 2 });
+});
+
+test('Story 9.3: wouldCreateTaskCycle rejects the task itself and anything below it', () => {
+  const tasks = [task(1, null), task(2, 1), task(3, 2), task(4, null)];
+  assert.equal(wouldCreateTaskCycle(1, 1, tasks), true);
+  assert.equal(wouldCreateTaskCycle(1, 3, tasks), true);
+  assert.equal(wouldCreateTaskCycle(2, 1, tasks), false);
+  assert.equal(wouldCreateTaskCycle(4, 3, tasks), false);
+  assert.deepEqual(
+    parentTaskOptions(tasks, 2).map((t) => t.id),
+    [1, 4]
+  );
+  assert.equal(parentTaskOptions(tasks).length, 4);
+});
+
+test('Story 9.4: rollUpTaskHours sums actual cost; a TBD cost below makes the parent TBD', () => {
+  const rollups = rollUpTaskHours([
+    { ...task(1, null), actualCost: 100 },
+    { ...task(2, 1), actualCost: 50 },
+    { ...task(3, null), actualCost: 10 },
+    { ...task(4, 3), actualCost: null },
+  ]);
+  assert.equal(rollups.get(1)?.actualCost, 150);
+  assert.equal(rollups.get(3)?.actualCost, null);
+});
@@ -0,0 +1,82 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  applyImportConflictResolutions,
+  classifyImportEntries,
+  isSameTimeEntryIdentity,
+  timeEntrySlotKey,
+} from '../src/lib/time-entry-identity';
+
+const base = {
+  developerId: 1,
+  projectId: 2,
+  taskId: 3,
+  startTime: new Date(2026, 1, 2, 0, 0),
+  durationMinutes: 60,
+  description: 'Standup',
+};
+
+test('Story 7.1: slot key includes task so weekly-grid rows at midnight do not collide', () => {
+  assert.notEqual(timeEntrySlotKey(base), timeEntrySlotKey({ ...base, taskId: 4 }));
+  assert.equal(timeEntrySlotKey(base), timeEntrySlotKey({ ...base, durationMinutes: 15 }));
+});
+
+test('Story 7.1: identity ignores surrounding whitespace and null vs empty notes', () => {
+  assert.ok(isSameTimeEntryIdentity(base, { ...base, description: '  Standup ' }));
+  assert.ok(isSameTimeEntryIdentity({ ...base, description: null }, { ...base, description: undefined }));
+  assert.ok(!isSameTimeEntryIdentity(base, { ...base, durationMinutes: 45 }));
+});
+
+test('Story 7.1: classify splits new, duplicate and conflict rows', () => {
+  const existing = [{ ...base, id: 10 }];
+  const r = classifyImportEntries(
+    [
+      base,
+      { ...base, durationMinutes: 90 },
+      { ...base, taskId: 99 },
+      { ...base, developerId: 0, projectId: 0 },
+    ],
+    existing
+  );
+
+  assert.deepEqual(r.duplicateIndexes, [0]);
+  assert.deepEqual(r.conflicts, [{ index: 1, existingId: 10 }]);
+  assert.deepEqual(r.newIndexes, [2, 3]);
+});
+
+test('Story 7.1: any identical row in an occupied slot wins over a conflict', () => {
+  const r = classifyImportEntries(
+    [base],
+    [
+      { ...base, id: 5, durationMinutes: 15 },
+      { ...base, id: 6 },
+    ]
+  );
+  assert.deepEqual(r.duplicateIndexes, [0]);
+  assert.deepEqual(r.conflicts, []);
+});
+
+test('Story 7.1: resolutions map to inserts/replacements; stale or missing ones stay unresolved', () => {
+  const classification = {
+    newIndexes: [0],
+    duplicateIndexes: [],
+    conflicts: [
+      { index: 1, existingId: 10 },
+      { index: 2, existingId: 11 },
+      { index: 3, existingId: 12 },
+      { index: 4, existingId: 13 },
+    ],
+  };
+
+  const r = applyImportConflictResolutions(classification, [
+    { index: 1, existingId: 10, action: 'keep-existing' },
+    { index: 2, existingId: 11, action: 'take-incoming' },
+    { index: 3, existingId: 12, action: 'keep-both' },
+    { index: 4, existingId: 999, action: 'take-incoming' },
+  ]);
+
+  assert.deepEqual(r.insertIndexes, [0, 3]);
+  assert.deepEqual(r.replacements, [{ index: 2, existingId: 11 }]);
+  assert.deepEqual(r.keptExistingIndexes, [1]);
+  assert.deepEqual(r.unresolved, [{ index: 4, existingId: 13 }]);
+});
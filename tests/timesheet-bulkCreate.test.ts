@@ -4,6 +4,7 @@ import { db } from '../src/server/db';
 import { developers, projects, timeEntries } from '../src/server/db/schema';
 import { eq, inArray } from 'drizzle-orm';
 import { timesheetService } from '../src/server/services/TimesheetService';
+import { timesheetRouter } from '../src/server/routers/timesheet';
 
 test('bulkCreateEntries should return an array without throwing', async () => {
   const unique = Date.now();
@@ -51,3 +52,117 @@ test('bulkCreateEntries should return an array without throwing', async () => {
     }
   }
 });
+
+test('Story 7.1: planImport classifies against existing rows; replacements update in the same call', async () => {
+  const unique = Date.now();
+  let developerId: number | null = null;
+  let projectId: number | null = null;
+
+  try {
+    const [dev] = await db
+      .insert(developers)
+      .values({ name: `QA Dedupe Dev ${unique}`, isActive: true })
+      .returning();
+    developerId = dev.id;
+    const [proj] = await db
+      .insert(projects)
+      .values({ name: `QA Dedupe Project ${unique}`, status: 'active' })
+      .returning();
+    projectId = proj.id;
+
+    const first = {
+      projectId,
+      developerId,
+      startTime: new Date('2026-03-02T09:00:00'),
+      durationMinutes: 60,
+      description: 'Original',
+    };
+    const [existing] = await timesheetService.bulkCreateEntries([first]);
+
+    const changed = { ...first, durationMinutes: 90, description: 'Revised' };
+    const fresh = { ...first, startTime: new Date('2026-03-02T13:00:00') };
+    const plan = await timesheetService.planImport([first, changed, fresh]);
+
+    assert.deepEqual(plan.classification.duplicateIndexes, [0]);
+    assert.deepEqual(plan.classification.newIndexes, [2]);
+    assert.equal(plan.conflicts.length, 1);
+    assert.equal(plan.conflicts[0].existing.id, existing.id);
+    assert.equal(plan.conflicts[0].existing.durationMinutes, 60);
+    assert.equal(plan.conflicts[0].incoming.durationMinutes, 90);
+
+    const inserted = await timesheetService.bulkCreateEntries([fresh], {
+      replacements: [{ id: existing.id, input: changed }],
+    });
+    assert.equal(inserted.length, 1);
+
+    const updated = await timesheetService.getEntryById(existing.id);
+    assert.equal(updated?.durationMinutes, 90);
+    assert.equal(updated?.description, 'Revised');
+  } finally {
+    if (projectId) {
+      await db.delete(timeEntries).where(eq(timeEntries.projectId, projectId));
+      await db.delete(projects).where(eq(projects.id, projectId));
+    }
+    if (developerId) {
+      await db.delete(developers).where(eq(developers.id, developerId));
+    }
+  }
+});
+
+test('Story 7.12: timesheet.get returns where an entry came from', async () => {
+  const unique = Date.now();
+  let developerId: number | null = null;
+  let projectId: number | null = null;
+  const createdEntryIds: number[] = [];
+
+  try {
+    const [dev] = await db.insert(developers).values({ name: `QA Dev ${unique}`, isActive: true }).returning();
+    developerId = dev.id;
+    const [proj] = await db.insert(projects).values({ name: `QA Project ${unique}`, status: 'active' }).returning();
+    projectId = proj.id;
+    const caller = timesheetRouter.createCaller({ headers: new Headers() });
+
+    const manual = await caller.create({
+      projectId,
+      developerId,
+      startTime: new Date('2026-02-01T09:00:00'),
+      durationMinutes: 30,
+    });
+    createdEntryIds.push(manual.id);
+    assert.deepEqual((await caller.get({ id: manual.id }))?.source, {
+      type: 'manual',
+      fileName: null,
+      sheet: null,
+      row: null,
+      cell: null,
+    });
+
+    const [imported] = await timesheetService.bulkCreateEntries([
+      {
+        projectId,
+        developerId,
+        startTime: new Date('2026-02-02T09:00:00'),
+        durationMinutes: 60,
+        source: { type: 'excel', fileName: 'week-5.xlsx', sheet: 'Week', row: 7, cell: 'E7' },
+      },
+    ]);
+    createdEntryIds.push(imported!.id);
+    const fetched = await caller.get({ id: imported!.id });
+    assert.equal(fetched?.sourceCell, 'E7');
+    assert.deepEqual(fetched?.source, { type: 'excel', fileName: 'week-5.xlsx', sheet: 'Week', row: 7, cell: 'E7' });
+
+    // rows saved before provenance was tracked have no source
+    await db.update(timeEntries).set({ sourceType: null }).where(eq(timeEntries.id, manual.id));
+    assert.equal((await caller.get({ id: manual.id }))?.source, null);
+  } finally {
+    if (createdEntryIds.length > 0) {
+      await db.delete(timeEntries).where(inArray(timeEntries.id, createdEntryIds));
+    }
+    if (projectId) {
+      await db.delete(projects).where(eq(projects.id, projectId));
+    }
+    if (developerId) {
+      await db.delete(developers).where(eq(developers.id, developerId));
+    }
+  }
+});
@@ -3,6 +3,14 @@ import assert from 'node:assert/strict';
 import { timesheetRouter } from '../src/server/routers/timesheet';
 import { excelParser } from '../src/server/services/ExcelParser';
 import { timesheetService } from '../src/server/services/TimesheetService';
+import { importBatchService } from '../src/server/services/ImportBatchService';
+import { settingsService } from '../src/server/services/SettingsService';
+import { columnMappingProfileService } from '../src/server/services/ColumnMappingProfileService';
+import { DEFAULT_APP_SETTINGS } from '../src/lib/app-settings';
+import { eq } from 'drizzle-orm';
+import { db } from '../src/server/db';
+import { developers, importBatches, projects, timeEntries } from '../src/server/db/schema';
+import { cleanupParserImportSideEffects } from './parser-db-cleanup';
 
 test('Story 3.2: parseExcel returns preview (first 10) and does not throw on row errors', async () => {
   const originalParse = excelParser.parseFile;
@@ -120,6 +128,7 @@ test('Story 3.2: importExcel calls bulkCreate and returns imported count when no
         developers: ['Dev 1'],
         projects: { all: ['Proj 1'], invalid: [] },
         preview: [],
+        issues: [],
         errors: [],
         warnings: [],
       }) as any;
@@ -138,9 +147,10 @@ test('Story 3.2: importExcel calls bulkCreate and returns imported count when no
   }
 });
 
-test('Story 3.2: duplicate imports call bulkCreate each time (no dedupe)', async () => {
+test('Story 7.1: identical re-import skips rows already in the DB (no bulk insert)', async () => {
   const originalParse = excelParser.parseFile;
   const originalBulk = timesheetService.bulkCreateEntries;
+  const originalPlan = timesheetService.planImport;
 
   try {
     const entries = [
@@ -154,7 +164,7 @@ test('Story 3.2: duplicate imports call bulkCreate each time (no dedupe)', async
       },
     ];
 
-    let bulkCalls = 0;
+    let inserted: unknown[] | null = null;
     excelParser.parseFile = async () =>
       ({
         entries,
@@ -162,23 +172,454 @@ test('Story 3.2: duplicate imports call bulkCreate each time (no dedupe)', async
         developers: ['Dev 1'],
         projects: { all: ['Proj 1'], invalid: [] },
         preview: [],
+        issues: [],
         errors: [],
         warnings: [],
       }) as any;
 
-    timesheetService.bulkCreateEntries = async () => {
-      bulkCalls += 1;
-      return entries as any;
+    timesheetService.planImport = async () => ({
+      classification: { newIndexes: [], duplicateIndexes: [0], conflicts: [] },
+      conflicts: [],
+    });
+    timesheetService.bulkCreateEntries = async (inputs) => {
+      inserted = inputs;
+      return [];
+    };
+
+    const caller = timesheetRouter.createCaller({ headers: new Headers() });
+    const result = await caller.importExcel({ fileBuffer: 'AAAA' });
+
+    assert.deepEqual(inserted, []);
+    assert.equal(result.imported, 0);
+    assert.equal(result.skippedDuplicates, 1);
+  } finally {
+    excelParser.parseFile = originalParse;
+    timesheetService.bulkCreateEntries = originalBulk;
+    timesheetService.planImport = originalPlan;
+  }
+});
+
+test('Story 7.1: importExcel blocks unresolved conflicts and applies take-incoming as a replacement', async () => {
+  const originalParse = excelParser.parseFile;
+  const originalBulk = timesheetService.bulkCreateEntries;
+  const originalPlan = timesheetService.planImport;
+
+  try {
+    const entries = [
+      {
+        developerId: 1,
+        projectId: 1,
+        taskId: undefined,
+        startTime: new Date('2026-02-01T09:00:00'),
+        durationMinutes: 30,
+        description: 'changed',
+      },
+    ];
+
+    let bulkArgs: { inputs: unknown[]; replacements: unknown[] } | null = null;
+    excelParser.parseFile = async () =>
+      ({
+        entries,
+        detectedDeveloper: 'Dev 1',
+        developers: ['Dev 1'],
+        projects: { all: ['Proj 1'], invalid: [] },
+        preview: [],
+        issues: [],
+        errors: [],
+        warnings: [],
+      }) as any;
+
+    timesheetService.planImport = async () => ({
+      classification: { newIndexes: [], duplicateIndexes: [], conflicts: [{ index: 0, existingId: 42 }] },
+      conflicts: [],
+    });
+    timesheetService.bulkCreateEntries = async (inputs, opts) => {
+      bulkArgs = { inputs, replacements: opts?.replacements ?? [] };
+      return [];
+    };
+
+    const caller = timesheetRouter.createCaller({ headers: new Headers() });
+    await assert.rejects(() => caller.importExcel({ fileBuffer: 'AAAA' }), /need review/);
+    assert.equal(bulkArgs, null);
+
+    const result = await caller.importExcel({
+      fileBuffer: 'AAAA',
+      resolutions: [{ index: 0, existingId: 42, action: 'take-incoming' }],
+    });
+
+    assert.equal(result.replaced, 1);
+    assert.deepEqual(bulkArgs, { inputs: [], replacements: [{ id: 42, input: entries[0] }] });
+  } finally {
+    excelParser.parseFile = originalParse;
+    timesheetService.bulkCreateEntries = originalBulk;
+    timesheetService.planImport = originalPlan;
+  }
+});
+
+test('Story 7.1: a rejected import creates no developers, projects or tasks', async () => {
+  const unique = Date.now();
+  const newDeveloper = `QA Rejected Dev ${unique}`;
+  const newProject = `QA Rejected Project ${unique}`;
+  const [developer] = await db.insert(developers).values({ name: `QA Existing Dev ${unique}` }).returning();
+  const [project] = await db.insert(projects).values({ name: `QA Existing Project ${unique}` }).returning();
+  await db.insert(timeEntries).values({
+    developerId: developer!.id,
+    projectId: project!.id,
+    startTime: new Date(2031, 1, 3, 9),
+    durationMinutes: 60,
+  });
+  const csv = (rows: string[]) =>
+    Buffer.from(['Developer,Project,Task,Date,Start Time,Duration', ...rows].join('\n')).toString('base64');
+  const newRow = `${newDeveloper},${newProject},Build,2031-02-03,10:00,60`;
+  const caller = timesheetRouter.createCaller({ headers: new Headers() });
+  let importBatchId: number | null = null;
+
+  try {
+    await assert.rejects(
+      () =>
+        caller.importExcel({
+          fileBuffer: csv([newRow, `${newDeveloper},${newProject},Build,2031-02-03,11:00,50`]),
+          fileName: 'bad.csv',
+          strict: false,
+        }),
+      /Parse errors/
+    );
+    // Same slot as the existing entry with another duration: a conflict nobody resolved
+    await assert.rejects(
+      () =>
+        caller.importExcel({
+          fileBuffer: csv([newRow, `${developer!.name},${project!.name},,2031-02-03,9:00,90`]),
+          fileName: 'conflict.csv',
+          strict: false,
+        }),
+      /need review/
+    );
+    assert.equal(await db.query.developers.findFirst({ where: eq(developers.name, newDeveloper) }), undefined);
+    assert.equal(await db.query.projects.findFirst({ where: eq(projects.name, newProject) }), undefined);
+
+    // Once nothing blocks it, the new master data is saved together with the entry
+    const result = await caller.importExcel({ fileBuffer: csv([newRow]), fileName: 'ok.csv', strict: false });
+    importBatchId = result.importBatchId;
+    assert.equal(result.imported, 1);
+    const entry = await db.query.timeEntries.findFirst({
+      where: eq(timeEntries.importBatchId, importBatchId!),
+      with: { developer: true, project: true, task: true },
+    });
+    assert.equal(entry?.developer.name, newDeveloper);
+    assert.equal(entry?.project.name, newProject);
+    assert.equal(entry?.task?.name, 'Build');
+  } finally {
+    if (importBatchId) {
+      await db.delete(timeEntries).where(eq(timeEntries.importBatchId, importBatchId));
+      await db.delete(importBatches).where(eq(importBatches.id, importBatchId));
+    }
+    await db.delete(timeEntries).where(eq(timeEntries.developerId, developer!.id));
+    await db.delete(projects).where(eq(projects.id, project!.id));
+    await db.delete(developers).where(eq(developers.id, developer!.id));
+    await cleanupParserImportSideEffects(newDeveloper, newProject);
+  }
+});
+
+test('Story 7.2: importExcel stamps a batch (file name + checksum) and excludes the replaced batch from dedupe', async () => {
+  const originalParse = excelParser.parseFile;
+  const originalPlan = timesheetService.planImport;
+  const originalBulk = timesheetService.bulkCreateEntries;
+  const originalGetBatch = importBatchService.getBatchById;
+
+  try {
+    const entries = [
+      {
+        developerId: 1,
+        projectId: 1,
+        taskId: undefined,
+        startTime: new Date('2026-02-01T09:00:00'),
+        durationMinutes: 15,
+        description: undefined,
+      },
+    ];
+
+    excelParser.parseFile = async () =>
+      ({
+        entries,
+        detectedDeveloper: 'Dev 1',
+        developers: ['Dev 1'],
+        projects: { all: ['Proj 1'], invalid: [] },
+        preview: [],
+        issues: [],
+        errors: [],
+        warnings: [],
+      }) as any;
+
+    let planOpts: { excludeBatchId?: number } | undefined;
+    timesheetService.planImport = async (_inputs, opts) => {
+      planOpts = opts;
+      return {
+        classification: { newIndexes: [0], duplicateIndexes: [], conflicts: [] },
+        conflicts: [],
+      };
+    };
+
+    let bulkOpts: Parameters<typeof timesheetService.bulkCreateEntries>[1];
+    timesheetService.bulkCreateEntries = async (_inputs, opts) => {
+      bulkOpts = opts;
+      return [{ id: 10, importBatchId: 42 }] as any;
     };
 
+    importBatchService.getBatchById = async (id) => ({ id, status: 'active' }) as any;
+
+    const caller = timesheetRouter.createCaller({ headers: new Headers() });
+    const result = await caller.importExcel({
+      fileBuffer: 'AAAA',
+      fileName: 'week-06.xlsx',
+      replaceBatchId: 7,
+    });
+
+    assert.equal(planOpts?.excludeBatchId, 7);
+    assert.equal(bulkOpts?.importBatch?.fileName, 'week-06.xlsx');
+    assert.equal(bulkOpts?.importBatch?.replacesBatchId, 7);
+    assert.match(bulkOpts?.importBatch?.checksum ?? '', /^[0-9a-f]{64}$/);
+    assert.equal(result.importBatchId, 42);
+    assert.equal(result.replacedBatchId, 7);
+  } finally {
+    excelParser.parseFile = originalParse;
+    timesheetService.planImport = originalPlan;
+    timesheetService.bulkCreateEntries = originalBulk;
+    importBatchService.getBatchById = originalGetBatch;
+  }
+});
+
+test('Story 7.2: importExcel rejects replacing a batch that is no longer active', async () => {
+  const originalParse = excelParser.parseFile;
+  const originalGetBatch = importBatchService.getBatchById;
+
+  try {
+    let parseCalled = false;
+    excelParser.parseFile = async () => {
+      parseCalled = true;
+      return {} as any;
+    };
+    importBatchService.getBatchById = async (id) => ({ id, status: 'discarded' }) as any;
+
+    const caller = timesheetRouter.createCaller({ headers: new Headers() });
+    await assert.rejects(
+      () => caller.importExcel({ fileBuffer: 'AAAA', replaceBatchId: 3 }),
+      (err: unknown) => {
+        assert.ok(err && typeof err === 'object' && 'code' in err);
+        assert.equal((err as { code: string }).code, 'BAD_REQUEST');
+        return true;
+      }
+    );
+    assert.equal(parseCalled, false);
+  } finally {
+    excelParser.parseFile = originalParse;
+    importBatchService.getBatchById = originalGetBatch;
+  }
+});
+
+test('Story 7.3: parseExcel falls back to the stored strict default; an explicit flag wins', async () => {
+  const originalParse = excelParser.parseFile;
+  const originalSettings = settingsService.getSettings;
+
+  try {
+    const strictSeen: Array<boolean | undefined> = [];
+    excelParser.parseFile = async (_buffer, opts) => {
+      strictSeen.push(opts?.strict);
+      return {
+        entries: [],
+        detectedDeveloper: null,
+        developers: [],
+        projects: { all: [], invalid: [] },
+        preview: [],
+        issues: [],
+        errors: [],
+        warnings: [],
+      };
+    };
+    settingsService.getSettings = async () => ({ ...DEFAULT_APP_SETTINGS, importStrictMode: true });
+
+    const caller = timesheetRouter.createCaller({ headers: new Headers() });
+    const byDefault = await caller.parseExcel({ fileBuffer: 'AAAA' });
+    const overridden = await caller.parseExcel({ fileBuffer: 'AAAA', strict: false });
+
+    assert.deepEqual(strictSeen, [true, false]);
+    assert.equal(byDefault.strict, true);
+    assert.equal(overridden.strict, false);
+    assert.deepEqual(byDefault.wouldCreate, { developers: [], projects: [], tasks: [] });
+  } finally {
+    excelParser.parseFile = originalParse;
+    settingsService.getSettings = originalSettings;
+  }
+});
+
+test('Story 7.4: parseExcel rejects a mapping profile that no longer exists before parsing', async () => {
+  const originalParse = excelParser.parseFile;
+  const originalGetProfile = columnMappingProfileService.getProfile;
+
+  try {
+    let parseCalled = false;
+    excelParser.parseFile = async () => {
+      parseCalled = true;
+      return {} as any;
+    };
+    columnMappingProfileService.getProfile = async () => undefined;
+
+    const caller = timesheetRouter.createCaller({ headers: new Headers() });
+    await assert.rejects(
+      () => caller.parseExcel({ fileBuffer: 'AAAA', profileId: 9 }),
+      (err: unknown) => {
+        assert.ok(err && typeof err === 'object' && 'code' in err);
+        assert.equal((err as { code: string }).code, 'BAD_REQUEST');
+        return true;
+      }
+    );
+    assert.equal(parseCalled, false);
+  } finally {
+    excelParser.parseFile = originalParse;
+    columnMappingProfileService.getProfile = originalGetProfile;
+  }
+});
+
+test('Story 7.7: create rounds an off-grid duration under the stored policy and keeps the raw minutes', async () => {
+  const originalCreate = timesheetService.createEntry;
+  const originalSettings = settingsService.getSettings;
+
+  try {
+    const created: Array<{ durationMinutes: number; rawDurationMinutes?: number | null }> = [];
+    timesheetService.createEntry = async (input) => {
+      created.push({ durationMinutes: input.durationMinutes, rawDurationMinutes: input.rawDurationMinutes });
+      return {} as any;
+    };
+    const entry = { developerId: 1, projectId: 1, taskId: 1, startTime: new Date('2026-02-05T09:00:00') };
     const caller = timesheetRouter.createCaller({ headers: new Headers() });
-    await caller.importExcel({ fileBuffer: 'AAAA' });
-    await caller.importExcel({ fileBuffer: 'AAAA' });
 
-    assert.equal(bulkCalls, 2);
+    settingsService.getSettings = async () => ({ ...DEFAULT_APP_SETTINGS, durationRoundingPolicy: 'up' });
+    await caller.create({ ...entry, durationMinutes: 50 });
+    await caller.create({ ...entry, durationMinutes: 45 });
+    assert.deepEqual(created, [
+      { durationMinutes: 60, rawDurationMinutes: 50 },
+      { durationMinutes: 45, rawDurationMinutes: null },
+    ]);
+
+    settingsService.getSettings = async () => ({ ...DEFAULT_APP_SETTINGS, durationRoundingPolicy: 'down' });
+    await assert.rejects(() => caller.create({ ...entry, durationMinutes: 10 }), /rounds down to 0 minutes/);
+
+    settingsService.getSettings = async () => ({ ...DEFAULT_APP_SETTINGS, durationRoundingPolicy: 'strict' });
+    await assert.rejects(
+      () => caller.create({ ...entry, durationMinutes: 50 }),
+      (err: unknown) => {
+        assert.equal((err as { code: string }).code, 'BAD_REQUEST');
+        assert.match((err as Error).message, /multiple of 15 minutes/);
+        return true;
+      }
+    );
+    assert.equal(created.length, 2);
+  } finally {
+    timesheetService.createEntry = originalCreate;
+    settingsService.getSettings = originalSettings;
+  }
+});
+
+test('Story 7.8: importExcel passes the chosen sheets to the parser and imports them as one batch', async () => {
+  const originalParse = excelParser.parseFile;
+  const originalPlan = timesheetService.planImport;
+  const originalBulk = timesheetService.bulkCreateEntries;
+
+  try {
+    const sheetsSeen: Array<string[] | undefined> = [];
+    const entry = (developerId: number) => ({
+      developerId,
+      projectId: 1,
+      startTime: new Date('2026-02-02T09:00:00'),
+      durationMinutes: 60,
+    });
+    excelParser.parseFile = async (_buffer, opts) => {
+      sheetsSeen.push(opts?.sheets);
+      return {
+        entries: [entry(1), entry(2)],
+        sheetName: 'Week 1',
+        detectedDeveloper: null,
+        developers: ['Dev A', 'Dev B'],
+        projects: { all: ['Proj'], invalid: [] },
+        preview: [],
+        issues: [],
+        errors: [],
+        warnings: [],
+        sheets: ['Week 1', 'Week 2', 'Week 3'].map((name, i) => ({
+          name,
+          included: i < 2,
+          detectedDeveloper: null,
+          entryCount: i < 2 ? 1 : 0,
+          weeklyGrid: null,
+          preview: [],
+          issues: [],
+          errors: [],
+          warnings: [],
+        })),
+      };
+    };
+    timesheetService.planImport = async (entries) =>
+      ({
+        classification: { newIndexes: entries.map((_, i) => i), duplicateIndexes: [], conflicts: [] },
+        conflicts: [],
+      }) as any;
+    let bulkCalls = 0;
+    timesheetService.bulkCreateEntries = async (entries) => {
+      bulkCalls++;
+      return entries.map((e, i) => ({ ...e, id: i + 1, importBatchId: 7 })) as any;
+    };
+
+    const caller = timesheetRouter.createCaller({ headers: new Headers() });
+    const result = await caller.importExcel({ fileBuffer: 'AAAA', sheets: ['Week 1', 'Week 2'] });
+
+    assert.deepEqual(sheetsSeen, [['Week 1', 'Week 2']]);
+    assert.equal(bulkCalls, 1);
+    assert.equal(result.imported, 2);
+    assert.deepEqual(result.sheets, [
+      { name: 'Week 1', entryCount: 1 },
+      { name: 'Week 2', entryCount: 1 },
+    ]);
+    await assert.rejects(() => caller.importExcel({ fileBuffer: 'AAAA', sheets: [] }));
   } finally {
     excelParser.parseFile = originalParse;
+    timesheetService.planImport = originalPlan;
     timesheetService.bulkCreateEntries = originalBulk;
   }
 });
 
+test('Story 7.10: parseExcel passes the upload week ending as a local day and the stored week start', async () => {
+  const originalParse = excelParser.parseFile;
+  const originalSettings = settingsService.getSettings;
+
+  try {
+    const seen: Array<{ weekEnding?: Date; weekStart?: string }> = [];
+    settingsService.getSettings = async () => ({ ...DEFAULT_APP_SETTINGS, weeklyGridWeekStart: 'sunday' });
+    excelParser.parseFile = async (_buffer, opts) => {
+      seen.push({ weekEnding: opts?.weekEnding, weekStart: opts?.weekStart });
+      return {
+        entries: [],
+        detectedDeveloper: null,
+        developers: [],
+        projects: { all: [], invalid: [] },
+        preview: [],
+        issues: [],
+        errors: [],
+        warnings: [],
+      };
+    };
+
+    const caller = timesheetRouter.createCaller({ headers: new Headers() });
+    const result = await caller.parseExcel({ fileBuffer: 'AAAA', weekEnding: '2024-04-06' });
+    assert.equal(result.weekStart, 'sunday');
+    assert.equal(result.weeklyGrid, null);
+    assert.equal(seen[0]!.weekStart, 'sunday');
+    assert.deepEqual(
+      [seen[0]!.weekEnding!.getFullYear(), seen[0]!.weekEnding!.getMonth(), seen[0]!.weekEnding!.getDate()],
+      [2024, 3, 6]
+    );
+
+    await assert.rejects(() => caller.parseExcel({ fileBuffer: 'AAAA', weekEnding: '2024-02-30' }), /not a valid date/);
+  } finally {
+    excelParser.parseFile = originalParse;
+    settingsService.getSettings = originalSettings;
+  }
+});
@@ -0,0 +1,164 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  convertTrackerRecord,
+  detectTrackerExport,
+  normalizeClockTime,
+  parseTrackerDuration,
+  trackerRecordsFromJson,
+} from '../src/lib/tracker-exports';
+import { roundToDurationStep } from '../src/lib/duration-rounding';
+import { excelParser } from '../src/server/services/ExcelParser';
+import { cleanupParserImportSideEffects } from './parser-db-cleanup';
+import { eq } from 'drizzle-orm';
+import { db } from '../src/server/db';
+import { clients, projects } from '../src/server/db/schema';
+
+test('Story 7.6: detectTrackerExport recognises each tool by its detailed-export headers', () => {
+  assert.equal(
+    detectTrackerExport(['User', 'Email', 'Client', 'Project', 'Task', 'Description', 'Billable', 'Start date', 'Start time', 'End date', 'End time', 'Duration', 'Tags']),
+    'toggl'
+  );
+  assert.equal(
+    detectTrackerExport(['Project', 'Client', 'Description', 'Task', 'User', 'Start Date', 'Start Time', 'Duration (h)', 'Duration (decimal)']),
+    'clockify'
+  );
+  assert.equal(
+    detectTrackerExport(['Date', 'Client', 'Project', 'Task', 'Notes', 'Hours', 'First Name', 'Last Name']),
+    'harvest'
+  );
+  assert.equal(detectTrackerExport(['Developer', 'Project', 'Task', 'Date', 'Duration', 'Notes']), null);
+});
+
+test('Story 7.6: durations and clock times in tracker formats', () => {
+  assert.equal(parseTrackerDuration('01:30:00'), 90);
+  assert.equal(parseTrackerDuration('0:52:30'), 52.5);
+  assert.equal(parseTrackerDuration('1,25'), 75);
+  assert.ok(Number.isNaN(parseTrackerDuration('soon')));
+
+  assert.equal(normalizeClockTime('9:05:00 PM'), '21:05');
+  assert.equal(normalizeClockTime('12:10 am'), '00:10');
+  assert.equal(normalizeClockTime('08:00:00'), '08:00');
+  assert.equal(normalizeClockTime(''), '');
+});
+
+test('Story 7.6: roundToDurationStep applies nearest / up / down', () => {
+  assert.equal(roundToDurationStep(52, 'nearest'), 45);
+  assert.equal(roundToDurationStep(52.5, 'nearest'), 60); // halfway rounds up
+  assert.equal(roundToDurationStep(46, 'up'), 60);
+  assert.equal(roundToDurationStep(59, 'down'), 45);
+  assert.equal(roundToDurationStep(7.5, 'nearest'), 15);
+  assert.equal(roundToDurationStep(45.000000001, 'up'), 45);
+});
+
+test('Story 7.6: Harvest rows join first/last name; Clockify prefers decimal duration; client stands in for a missing project', () => {
+  assert.deepEqual(
+    convertTrackerRecord('harvest', {
+      Date: '2026-02-05',
+      Client: 'Acme',
+      Project: 'Website',
+      Task: 'Design',
+      Notes: 'Mockups',
+      Hours: '1.5',
+      'First Name': 'Ada',
+      'Last Name': 'Lovelace',
+    }),
+    {
+      developer: 'Ada Lovelace',
+      client: 'Acme',
+      project: 'Website',
+      task: 'Design',
+      date: '2026-02-05',
+      startTime: '',
+      minutes: 90,
+      notes: 'Mockups',
+    }
+  );
+
+  const clockify = convertTrackerRecord('clockify', {
+    Project: '',
+    Client: 'Acme',
+    User: 'Ada',
+    'Start Date': '02/05/2026',
+    'Start Time': '09:00 AM',
+    'Duration (h)': '99:99:99',
+    'Duration (decimal)': '0.75',
+  });
+  assert.equal(clockify?.project, 'Acme');
+  assert.equal(clockify?.minutes, 45);
+  assert.equal(clockify?.startTime, '09:00');
+
+  assert.throws(() => convertTrackerRecord('toggl', { User: 'Ada', Project: 'P', Duration: 'n/a' }), /Invalid Toggl Track duration/);
+  assert.equal(convertTrackerRecord('toggl', { User: null, Project: '' }), null);
+});
+
+test('Story 7.6: JSON exports flatten to the tool CSV headers', () => {
+  const clockify = trackerRecordsFromJson({
+    timeentries: [
+      {
+        description: 'Standup',
+        userName: 'Ada',
+        projectName: 'Website',
+        clientName: 'Acme',
+        taskName: 'Meetings',
+        timeInterval: { start: '2026-02-05T09:00:00Z', end: '2026-02-05T09:20:00Z', duration: 'PT20M' },
+      },
+    ],
+  });
+  assert.equal(clockify?.tool, 'clockify');
+  assert.equal(clockify?.records[0]!['Duration (h)'], '0:20:00');
+  assert.equal(clockify?.records[0]!['Start Time'], '09:00');
+
+  const toggl = trackerRecordsFromJson({ data: [{ user: 'Ada', project: 'P', start: '2026-02-05T10:00:00+01:00', dur: 3_600_000 }] });
+  assert.equal(toggl?.tool, 'toggl');
+  assert.equal(toggl?.records[0]!.Duration, '1:00:00');
+
+  const harvest = trackerRecordsFromJson({
+    time_entries: [{ spent_date: '2026-02-05', hours: 0.5, user: { name: 'Ada Byron King' }, project: { name: 'P' } }],
+  });
+  assert.equal(harvest?.tool, 'harvest');
+  assert.equal(harvest?.records[0]!['Last Name'], 'Byron King');
+
+  assert.equal(trackerRecordsFromJson({ entries: [] }), null);
+});
+
+test('Story 7.6: parseFile converts a Toggl CSV, rounds durations and warns per adjusted row', async () => {
+  const unique = Date.now();
+  const developerName = `QA Toggl Dev ${unique}`;
+  const projectName = `QA Toggl Project ${unique}`;
+  const [client] = await db.insert(clients).values({ name: `QA Toggl Client ${unique}` }).returning();
+  const csv = [
+    'User,Email,Client,Project,Task,Description,Billable,Start date,Start time,End date,End time,Duration,Tags',
+    `${developerName},ada@example.com,${client!.name},${projectName},Build,Feature work,Yes,2026-02-05,09:00:00,2026-02-05,09:52:30,00:52:30,`,
+    `${developerName},ada@example.com,${client!.name},${projectName},Build,Review,Yes,2026-02-05,10:00:00,2026-02-05,10:30:00,00:30:00,`,
+    `${developerName},ada@example.com,${client!.name},${projectName},Build,Ping,Yes,2026-02-05,11:00:00,2026-02-05,11:04:00,00:04:00,`,
+  ].join('\n');
+
+  try {
+    const result = await excelParser.parseFile(Buffer.from(csv), { trackerRounding: 'up' });
+
+    assert.deepEqual(result.trackerExport, { tool: 'toggl', rounding: 'up' });
+    assert.equal(result.errors.length, 0);
+    assert.deepEqual(
+      result.entries.map((e) => e.durationMinutes),
+      [60, 30, 15]
+    );
+    assert.deepEqual(result.entries[0]!.startTime, new Date(2026, 1, 5, 9, 0));
+    assert.equal(result.entries[0]!.description, 'Feature work');
+    // Story 9.8: the export's Client column names the client the new project is created under
+    assert.equal(result.preview[0]!.client, client!.name);
+    const project = await db.query.projects.findFirst({ where: eq(projects.name, projectName) });
+    assert.equal(project?.clientId, client!.id);
+    assert.deepEqual(result.warnings, [
+      'Row 2: 0:52:30 rounded up to 1:00',
+      'Row 4: 0:04 rounded up to 0:15',
+    ]);
+
+    const down = await excelParser.parseFile(Buffer.from(csv), { mode: 'preview', trackerRounding: 'down' });
+    assert.equal(down.entries.length, 2);
+    assert.ok(down.warnings.includes('Row 4: 0:04 rounds down to 0 minutes — row skipped'));
+  } finally {
+    await cleanupParserImportSideEffects(developerName, projectName);
+    await db.delete(clients).where(eq(clients.id, client!.id));
+  }
+});
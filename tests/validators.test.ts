@@ -6,7 +6,7 @@ import {
   createTimeEntrySchema,
 } from '../src/lib/validators';
 
-test('createTimeEntrySchema validates 15-minute duration rule', () => {
+test('createTimeEntrySchema accepts whole positive minutes (Story 7.7: the rounding policy owns the 15-minute rule)', () => {
   const base = {
     projectId: 1,
     developerId: 1,
@@ -18,9 +18,13 @@ test('createTimeEntrySchema validates 15-minute duration rule', () => {
     createTimeEntrySchema.parse({ ...base, durationMinutes: 15 })
   );
 
-  assert.throws(() =>
+  assert.doesNotThrow(() =>
     createTimeEntrySchema.parse({ ...base, durationMinutes: 7 })
   );
+
+  assert.throws(() =>
+    createTimeEntrySchema.parse({ ...base, durationMinutes: 7.5 })
+  );
 });
 
 test('createProjectSchema allows zero or null estimatedHours', () => {